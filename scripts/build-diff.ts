@@ -0,0 +1,103 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+/**
+ * Compare two builds of the skill pack
+ * Each side is a data/cache directory (or a copy of one) or an output/manifest.json file
+ *
+ * Usage:
+ *   npm run build:diff -- <old> <new> [--json] [--markdown-file <file>] [--json-file <file>]
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { info, error, success } from '../src/utils/logger';
+import { BuildDiffer, hasBuildChanges } from '../src/analyzers/build-diff';
+
+interface CliOptions {
+  from?: string;
+  to?: string;
+  json: boolean;
+  markdownFile?: string;
+  jsonFile?: string;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { json: false };
+  const sources: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--json') {
+      options.json = true;
+    } else if (arg === '--markdown-file') {
+      options.markdownFile = path.resolve(argv[++i]);
+    } else if (arg.startsWith('--markdown-file=')) {
+      options.markdownFile = path.resolve(arg.slice('--markdown-file='.length));
+    } else if (arg === '--json-file') {
+      options.jsonFile = path.resolve(argv[++i]);
+    } else if (arg.startsWith('--json-file=')) {
+      options.jsonFile = path.resolve(arg.slice('--json-file='.length));
+    } else if (!arg.startsWith('--')) {
+      sources.push(arg);
+    }
+  }
+
+  [options.from, options.to] = sources;
+  return options;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (!options.from || !options.to) {
+    console.log('Usage: npm run build:diff -- <old> <new> [--json] [--markdown-file <file>] [--json-file <file>]');
+    process.exit(1);
+  }
+
+  const differ = new BuildDiffer();
+  const diff = differ.diff(BuildDiffer.loadSnapshot(options.from), BuildDiffer.loadSnapshot(options.to));
+  const markdown = differ.toMarkdown(diff);
+  const json = JSON.stringify(diff, null, 2);
+
+  if (options.markdownFile) {
+    await fs.writeFile(options.markdownFile, markdown, 'utf-8');
+  }
+  if (options.jsonFile) {
+    await fs.writeFile(options.jsonFile, json, 'utf-8');
+  }
+
+  if (options.json) {
+    console.log(json);
+    return;
+  }
+
+  console.log('');
+  console.log(markdown);
+  if (options.markdownFile) {
+    info(`Markdown report written to ${options.markdownFile}`);
+  }
+  if (options.jsonFile) {
+    info(`JSON report written to ${options.jsonFile}`);
+  }
+  if (hasBuildChanges(diff)) {
+    success(`Compared ${diff.compared.join(', ')}`);
+  } else {
+    success('No changes between builds');
+  }
+}
+
+// CLI execution
+if (require.main === module) {
+  main().catch(err => {
+    error('Execution failed', err);
+    process.exit(1);
+  });
+}
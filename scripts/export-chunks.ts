@@ -0,0 +1,110 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+/**
+ * Export a built skill pack as embedding-ready chunks
+ * Reads the Markdown under resources/ and the knowledge export in data/ (written by the build),
+ * and writes data/chunks.jsonl with data/schema/chunk.schema.json
+ *
+ * Usage:
+ *   npm run export:chunks -- [<skill pack dir>] [--locale <locale>] [--max-tokens <n>] [--min-tokens <n>]
+ */
+
+import { promises as fs, existsSync } from 'fs';
+import path from 'path';
+import { info, error, success } from '../src/utils/logger';
+import { ChunkExporter, CHUNK_SCHEMA } from '../src/generators/chunk-exporter';
+import { KnowledgeExporter } from '../src/generators/knowledge-exporter';
+import { KNOWLEDGE_EXPORT_FILES, type ChunkKind } from '../src/models/knowledge-export';
+import { DEFAULT_LOCALE } from '../src/i18n';
+
+interface CliOptions {
+  rootDir?: string;
+  locale?: string;
+  maxTokens?: number;
+  minTokens?: number;
+}
+
+/**
+ * Parse a positive integer option value
+ */
+function parseCount(name: string, value: string | undefined): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count <= 0) {
+    throw new Error(`Invalid ${name} "${value}" (expected a positive integer)`);
+  }
+  return count;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const [name, inline] = arg.split('=', 2);
+    const value = () => (inline !== undefined ? inline : argv[++i]);
+
+    if (name === '--locale') {
+      options.locale = value();
+    } else if (name === '--max-tokens') {
+      options.maxTokens = parseCount(name, value());
+    } else if (name === '--min-tokens') {
+      options.minTokens = parseCount(name, value());
+    } else if (!arg.startsWith('--')) {
+      options.rootDir = path.resolve(arg);
+    }
+  }
+
+  return options;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  // Same default as the build: output/, or output/<locale> when a locale is given
+  const rootDir = options.rootDir || path.resolve(options.locale ? path.join('output', options.locale) : 'output');
+  const dataDir = path.join(rootDir, 'data');
+
+  if (!existsSync(path.join(dataDir, KNOWLEDGE_EXPORT_FILES.manifest))) {
+    throw new Error(`No knowledge export in ${dataDir} (run npm run build:full first)`);
+  }
+
+  const knowledge = KnowledgeExporter.read(dataDir);
+  const documents = ChunkExporter.readDocuments(rootDir);
+  const chunks = new ChunkExporter({
+    locale: options.locale || DEFAULT_LOCALE,
+    maxTokens: options.maxTokens,
+    minTokens: options.minTokens,
+  }).generate({ documents, nodes: knowledge.nodes, templates: knowledge.templates });
+
+  const chunksPath = path.join(dataDir, KNOWLEDGE_EXPORT_FILES.chunks);
+  await fs.writeFile(chunksPath, chunks.map(chunk => JSON.stringify(chunk)).join('\n') + '\n', 'utf-8');
+  await fs.mkdir(path.join(dataDir, 'schema'), { recursive: true });
+  await fs.writeFile(
+    path.join(dataDir, 'schema', 'chunk.schema.json'),
+    JSON.stringify(CHUNK_SCHEMA, null, 2) + '\n',
+    'utf-8'
+  );
+
+  const counts = new Map<ChunkKind, number>();
+  chunks.forEach(chunk => counts.set(chunk.metadata.kind, (counts.get(chunk.metadata.kind) || 0) + 1));
+  const totalTokens = chunks.reduce((sum, chunk) => sum + chunk.tokens, 0);
+
+  info(`Chunked ${documents.length} files: ${Array.from(counts, ([kind, count]) => `${count} ${kind}`).join(', ')}`);
+  info(`Tokens: ${totalTokens} total, ${Math.max(0, ...chunks.map(chunk => chunk.tokens))} in the largest chunk`);
+  success(`Wrote ${chunks.length} chunks to ${chunksPath}`);
+}
+
+// CLI execution
+if (require.main === module) {
+  main().catch(err => {
+    error('Execution failed', err);
+    process.exit(1);
+  });
+}
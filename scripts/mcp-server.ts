@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+/**
+ * MCP server entry point (stdio transport)
+ *
+ * Usage:
+ *   node dist/scripts/mcp-server.js [--cache-dir <dir>]
+ *
+ * stdout carries protocol messages only; diagnostics go to stderr.
+ */
+
+import path from 'path';
+import { McpServer } from '../src/mcp/mcp-server';
+import { NodeKnowledgeBase } from '../src/mcp/node-knowledge-base';
+import { createKnowledgeTools } from '../src/mcp/knowledge-tools';
+
+/**
+ * Resolve the cache directory from --cache-dir, N8N_SKILLS_CACHE_DIR or the project default
+ */
+function resolveCacheDir(argv: string[]): string {
+  const index = argv.indexOf('--cache-dir');
+  if (index !== -1 && argv[index + 1]) {
+    return path.resolve(argv[index + 1]);
+  }
+  const inline = argv.find(arg => arg.startsWith('--cache-dir='));
+  if (inline) {
+    return path.resolve(inline.slice('--cache-dir='.length));
+  }
+  if (process.env.N8N_SKILLS_CACHE_DIR) {
+    return path.resolve(process.env.N8N_SKILLS_CACHE_DIR);
+  }
+  return path.resolve(__dirname, '../..', 'data', 'cache');
+}
+
+async function main(): Promise<void> {
+  const cacheDir = resolveCacheDir(process.argv.slice(2));
+  const knowledgeBase = NodeKnowledgeBase.fromCache(cacheDir);
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const { version } = require(path.resolve(__dirname, '../..', 'package.json'));
+
+  const server = new McpServer({
+    name: 'n8n-skills',
+    version,
+    tools: createKnowledgeTools(knowledgeBase),
+  });
+
+  process.stderr.write(`n8n-skills MCP server ready (${knowledgeBase.nodeCount} nodes from ${cacheDir})\n`);
+  await server.listen();
+}
+
+// CLI execution
+if (require.main === module) {
+  main().catch(err => {
+    process.stderr.write(`MCP server failed: ${(err as Error).message}\n`);
+    process.exit(1);
+  });
+}
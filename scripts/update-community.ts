@@ -6,6 +6,9 @@
  *
  * Update community packages list from npm registry.
  * Also parses node details and saves to cache.
+ *
+ * With --from, packages are ingested offline from local tarballs,
+ * directories or the npm cache instead of the registry.
  */
 
 import path from 'path';
@@ -14,7 +17,9 @@ import {
   CommunityCollector,
   CommunityCollectionResult,
   CommunityNodesCache,
+  CommunityNodeDetails,
 } from '../src/collectors/community-collector';
+import { createHttpTransport, DEFAULT_FIXTURES_DIR, type HttpMode, type HttpTransport } from '../src/utils/http-transport';
 
 interface UpdateResult {
   hasChanges: boolean;
@@ -32,12 +37,67 @@ class CommunityUpdater {
   private skipParse: boolean;
   private collector: CommunityCollector;
 
-  constructor(dryRun: boolean = false, skipParse: boolean = false) {
+  constructor(dryRun: boolean = false, skipParse: boolean = false, npmCacheDir?: string, transport?: HttpTransport) {
     this.configPath = path.join(process.cwd(), 'config', 'community-packages.json');
     this.cachePath = path.join(process.cwd(), 'data', 'cache', 'community-nodes.json');
     this.dryRun = dryRun;
     this.skipParse = skipParse;
-    this.collector = new CommunityCollector({ limit: 30 });
+    this.collector = new CommunityCollector({ limit: 30, npmCacheDir, transport });
+  }
+
+  /**
+   * Ingest packages from local sources (no network, no changes to node_modules)
+   */
+  async runOffline(sources: string[]): Promise<void> {
+    try {
+      info(`Ingesting ${sources.length} local community package(s)...`);
+
+      const existingCache = await this.collector.loadNodesCache(this.cachePath);
+      const cache: CommunityNodesCache = {
+        lastUpdated: new Date().toISOString(),
+        nodes: existingCache?.nodes || {},
+      };
+
+      const ingested: CommunityNodeDetails[] = [];
+      let failed = 0;
+
+      for (const source of sources) {
+        const details = await this.collector.ingestLocalPackage(source);
+
+        if (details.loadError) {
+          // A failed ingest may not know the package name (only the source path), so leave the cache alone
+          warn(`  Error: ${details.loadError}`);
+          failed++;
+          continue;
+        }
+
+        ingested.push(details);
+        cache.nodes[details.packageName] = details;
+      }
+
+      if (this.dryRun) {
+        info('Dry run mode, skipping cache and config save');
+      } else {
+        await this.collector.saveNodesCache(cache, this.cachePath);
+        // The community docs list the packages of the config, so record the ingested ones there too
+        const config = await this.collector.loadFromConfig(this.configPath);
+        await this.collector.saveToConfig(this.collector.addLocalPackages(config, ingested), this.configPath);
+      }
+
+      info('===== Offline Ingestion Summary =====');
+      info(`Total sources: ${sources.length}`);
+      info(`Succeeded: ${ingested.length}`);
+      info(`Failed: ${failed}`);
+      info('=====================================');
+
+      if (failed > 0) {
+        process.exit(1);
+      }
+      success('Offline community ingestion completed');
+    } catch (err) {
+      error('Offline community ingestion failed', err);
+      process.exit(1);
+    }
   }
 
   async run(): Promise<void> {
@@ -57,6 +117,12 @@ class CommunityUpdater {
       info('\n[2/4] Fetching latest community packages from npm...');
       const newResult = await this.collector.fetchPopularPackages();
 
+      // Offline-ingested packages are not on the public registry; keep them
+      const fetchedNames = new Set(newResult.packages.map((pkg) => pkg.name));
+      newResult.packages.push(
+        ...(oldResult?.packages || []).filter((pkg) => pkg.source === 'local' && !fetchedNames.has(pkg.name))
+      );
+
       // Compare and check for changes
       info('\n[3/4] Comparing package lists...');
       const updateResult = this.compareResults(oldResult, newResult);
@@ -122,6 +188,11 @@ class CommunityUpdater {
 
     for (const pkg of result.packages) {
       processed++;
+      if (pkg.source === 'local') {
+        info(`\n[${processed}/${total}] Skipping ${pkg.name} (ingested offline)`);
+        skipped++;
+        continue;
+      }
       info(`\n[${processed}/${total}] Processing ${pkg.name}...`);
 
       // Check if cached version matches
@@ -218,21 +289,50 @@ if (require.main === module) {
   const args = process.argv.slice(2);
   const dryRun = args.includes('--dry-run');
   const skipParse = args.includes('--skip-parse');
+  const sources: string[] = [];
+  let npmCacheDir: string | undefined;
+  let fixturesDir = DEFAULT_FIXTURES_DIR;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--from' && args[i + 1]) {
+      sources.push(args[++i]);
+    } else if (args[i] === '--npm-cache' && args[i + 1]) {
+      npmCacheDir = path.resolve(args[++i]);
+    } else if (args[i] === '--fixtures' && args[i + 1]) {
+      fixturesDir = args[++i];
+    }
+  }
+
+  let httpMode: HttpMode = 'live';
+  if (args.includes('--record')) {
+    httpMode = 'record';
+  } else if (args.includes('--replay')) {
+    httpMode = 'replay';
+  }
 
   if (args.includes('--help')) {
     console.log(`
 Usage: npm run update:community [options]
 
 Options:
-  --dry-run      Check for updates without saving changes
-  --skip-parse   Skip node parsing (only update package list)
-  --help         Show this help message
+  --dry-run            Check for updates without saving changes
+  --skip-parse         Skip node parsing (only update package list)
+  --from <source>      Ingest a package offline from a .tgz file, a directory
+                       or a package spec in the npm cache (repeatable)
+  --npm-cache <dir>    npm cache directory used for package specs
+  --record             Store npm registry responses under the fixtures directory
+  --replay             Answer npm registry requests from recorded fixtures only
+                       (combine with --skip-parse to avoid installing packages)
+  --fixtures <dir>     Fixtures directory (default: data/fixtures)
+  --help               Show this help message
 `);
     process.exit(0);
   }
 
-  const updater = new CommunityUpdater(dryRun, skipParse);
-  updater.run().catch((err) => {
+  const transport = createHttpTransport({ mode: httpMode, fixturesDir: path.resolve(fixturesDir) });
+  const updater = new CommunityUpdater(dryRun, skipParse, npmCacheDir, transport);
+  const task = sources.length > 0 ? updater.runOffline(sources) : updater.run();
+  task.catch((err) => {
     error('Execution failed', err);
     process.exit(1);
   });
@@ -1,6 +1,7 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { info, success, error as logError } from '../src/utils/logger';
+import { WebsiteGenerator, type WebsiteCatalogData } from '../src/generators/website-generator';
 
 interface ValidationReport {
   timestamp: string;
@@ -118,9 +119,13 @@ class WebsiteUpdater {
       info('Generating localized pages...');
       await this.generateLocalizedPages();
 
-      // 6. Update sitemap
+      // 6. Generate node catalog (node, category and template pages + search index)
+      info('Generating node catalog...');
+      const catalogPaths = await this.generateCatalog();
+
+      // 7. Update sitemap
       info('Updating website/sitemap.xml...');
-      await this.updateSitemap(data.timestamp);
+      await this.updateSitemap(data.timestamp, catalogPaths);
 
       success('Website data update completed');
     } catch (err) {
@@ -527,29 +532,70 @@ class WebsiteUpdater {
     info('template.html stats update completed');
   }
 
-  private async updateSitemap(timestamp: string): Promise<void> {
+  private async updateSitemap(timestamp: string, catalogPaths: string[]): Promise<void> {
     const sitemapPath = path.join(this.websiteDir, 'sitemap.xml');
     const lastmod = timestamp.split('T')[0];
+    const pagePaths = [...this.localeConfigs.map(config => config.outputPath), ...catalogPaths];
 
-    const content = `<?xml version="1.0" encoding="UTF-8"?>
-<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
-    <url>
-        <loc>${this.SITE_DOMAIN}/</loc>
-        <lastmod>${lastmod}</lastmod>
-        <changefreq>weekly</changefreq>
-        <priority>1.0</priority>
-    </url>
-    <url>
-        <loc>${this.SITE_DOMAIN}/zh-TW/</loc>
-        <lastmod>${lastmod}</lastmod>
-        <changefreq>weekly</changefreq>
-        <priority>0.9</priority>
-    </url>
-</urlset>
-`;
+    const content = this.createWebsiteGenerator().generateSitemap(pagePaths, lastmod);
 
     await fs.writeFile(sitemapPath, content, 'utf-8');
-    info('sitemap.xml update completed');
+    info(`sitemap.xml update completed (${pagePaths.length} URLs)`);
+  }
+
+  private createWebsiteGenerator(): WebsiteGenerator {
+    return new WebsiteGenerator({ siteUrl: this.SITE_DOMAIN });
+  }
+
+  /**
+   * Generate the static node catalog from the data/cache files the skill pack is built from
+   * Returns the generated page paths (relative to website/)
+   */
+  private async generateCatalog(): Promise<string[]> {
+    const catalogData = await this.readCatalogData();
+    const catalog = this.createWebsiteGenerator().generate(catalogData);
+
+    // Remove pages of nodes and templates that no longer exist
+    for (const dir of ['nodes', 'categories', 'templates']) {
+      await fs.rm(path.join(this.websiteDir, dir), { recursive: true, force: true });
+    }
+
+    for (const page of catalog.pages) {
+      const pagePath = path.join(this.websiteDir, page.path);
+      await fs.mkdir(path.dirname(pagePath), { recursive: true });
+      await fs.writeFile(pagePath, page.content, 'utf-8');
+    }
+
+    await fs.writeFile(
+      path.join(this.websiteDir, 'search-index.json'),
+      JSON.stringify(catalog.searchIndex),
+      'utf-8'
+    );
+
+    info(`Generated ${catalog.pages.length} catalog pages and ${catalog.searchIndex.length} search entries`);
+    return catalog.pages.map(page => page.path);
+  }
+
+  private async readCatalogData(): Promise<WebsiteCatalogData> {
+    const cacheDir = path.join(process.cwd(), 'data', 'cache');
+    const readJson = async (file: string, required: boolean) => {
+      try {
+        return JSON.parse(await fs.readFile(path.join(cacheDir, file), 'utf-8'));
+      } catch (err) {
+        if (required) {
+          throw new Error(`Failed to read ${file}: ${err}`);
+        }
+        return undefined;
+      }
+    };
+
+    return {
+      nodes: await readJson('nodes.json', true),
+      properties: await readJson('properties.json', false),
+      connections: await readJson('node-io-config.json', false),
+      templates: await readJson('templates.json', false),
+      nodeGraph: await readJson('node-co-occurrence.json', false),
+    };
   }
 
   private async readCommunityPackages(): Promise<CommunityPackagesConfig> {
@@ -0,0 +1,107 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+/**
+ * Validate a workflow JSON file against the collected node metadata
+ *
+ * Usage:
+ *   npm run validate:workflow <file> [--cache-dir <dir>] [--json]
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { info, error, success } from '../src/utils/logger';
+import { WorkflowValidator, type WorkflowValidationResult } from '../src/analyzers/workflow-validator';
+
+interface CliOptions {
+  file?: string;
+  cacheDir: string;
+  json: boolean;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(argv: string[]): CliOptions {
+  const projectRoot = path.resolve(__dirname, '../..');
+  const options: CliOptions = { cacheDir: path.join(projectRoot, 'data', 'cache'), json: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--json') {
+      options.json = true;
+    } else if (arg === '--cache-dir') {
+      options.cacheDir = path.resolve(argv[++i]);
+    } else if (arg.startsWith('--cache-dir=')) {
+      options.cacheDir = path.resolve(arg.slice('--cache-dir='.length));
+    } else if (!arg.startsWith('--')) {
+      options.file = arg;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Print a readable report
+ */
+function printReport(file: string, result: WorkflowValidationResult): void {
+  console.log('');
+  console.log(`Workflow: ${file}`);
+  console.log(`Errors: ${result.errorCount}, Warnings: ${result.warningCount}`);
+  console.log('');
+
+  result.issues.forEach(issue => {
+    const label = issue.severity === 'error' ? 'ERROR' : 'WARN ';
+    const node = issue.node ? `[${issue.node}] ` : '';
+    console.log(`  ${label} ${node}${issue.message} (${issue.code})`);
+  });
+
+  if (result.issues.length > 0) {
+    console.log('');
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (!options.file) {
+    console.log('Usage: npm run validate:workflow <file> [--cache-dir <dir>] [--json]');
+    process.exit(1);
+  }
+
+  const content = JSON.parse(await fs.readFile(options.file, 'utf-8'));
+  // Template API responses wrap the workflow
+  const workflow = content.workflow?.nodes ? content.workflow : content;
+
+  if (!options.json) {
+    info(`Loading node metadata from ${options.cacheDir}`);
+  }
+  const validator = WorkflowValidator.fromCache(options.cacheDir);
+  const result = validator.validate(workflow);
+
+  if (options.json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    printReport(options.file, result);
+    if (result.valid) {
+      success('Workflow is valid');
+    } else {
+      error(`Workflow has ${result.errorCount} error(s)`);
+    }
+  }
+
+  process.exit(result.valid ? 0 : 1);
+}
+
+// CLI execution
+if (require.main === module) {
+  main().catch(err => {
+    error('Execution failed', err);
+    process.exit(1);
+  });
+}
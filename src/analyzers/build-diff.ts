@@ -0,0 +1,589 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import * as fs from 'fs';
+import path from 'path';
+import type { SimplifiedNodeInfo } from '../collectors/npm-collector';
+import type { ParsedProperties, CoreProperty, Operation } from '../parsers/property-parser';
+import type { NodeConnectionInfo } from '../models/connection';
+import type { EnrichedNodeInfo } from '../generators/skill-generator';
+import type { TemplateRankingSnapshot } from '../utils/template-cache-manager';
+import type { BuildManifest } from '../utils/output-writer';
+
+/**
+ * Data of one build, read from a data/cache directory and/or a build manifest
+ * Sections that were not found stay undefined and are not compared
+ */
+export interface BuildSnapshot {
+  source: string;
+  nodes?: SimplifiedNodeInfo[];
+  properties?: Record<string, { properties?: ParsedProperties; version?: string }>;
+  connections?: NodeConnectionInfo[];
+  /** Ranked nodes of the organize stage (stages/topNodes.json and stages/remainingNodes.json) */
+  rankedNodes?: EnrichedNodeInfo[];
+  templateRankings?: TemplateRankingSnapshot;
+  templateNames?: Record<number, string>;
+  manifest?: BuildManifest;
+}
+
+/**
+ * Node added or removed between builds
+ */
+export interface NodeSummary {
+  nodeType: string;
+  displayName: string;
+}
+
+/**
+ * Property whose definition changed
+ */
+export interface PropertyChange {
+  name: string;
+  /** Readable changes, e.g. "type string → options" */
+  changes: string[];
+}
+
+/**
+ * Changes of a node present in both builds
+ */
+export interface NodeChange extends NodeSummary {
+  version?: { from: string; to: string };
+  addedTypeVersions: string[];
+  removedTypeVersions: string[];
+  addedOperations: string[];
+  removedOperations: string[];
+  addedProperties: string[];
+  removedProperties: string[];
+  changedProperties: PropertyChange[];
+  propertyCount?: { from: number; to: number };
+  inputTypes?: { from: string[]; to: string[] };
+  outputTypes?: { from: string[]; to: string[] };
+}
+
+/**
+ * Priority rank or tier change of a node
+ */
+export interface RankChange extends NodeSummary {
+  from?: { rank: number; tier: string };
+  to?: { rank: number; tier: string };
+}
+
+/**
+ * Template ranking change (added, removed or moved)
+ */
+export interface TemplateRankChange {
+  id: number;
+  name?: string;
+  change: 'added' | 'removed' | 'moved';
+  fromRank?: number;
+  toRank?: number;
+  fromViews?: number;
+  toViews?: number;
+}
+
+/**
+ * Generated file change from the build manifests
+ */
+export interface FileChange {
+  path: string;
+  change: 'added' | 'removed' | 'changed';
+  fromLines?: number;
+  toLines?: number;
+}
+
+/**
+ * Differences between two builds
+ */
+export interface BuildDiff {
+  from: string;
+  to: string;
+  /** Sections found in both builds */
+  compared: Array<'nodes' | 'properties' | 'connections' | 'ranks' | 'templates' | 'files'>;
+  addedNodes: NodeSummary[];
+  removedNodes: NodeSummary[];
+  changedNodes: NodeChange[];
+  rankChanges: RankChange[];
+  templateChanges: TemplateRankChange[];
+  fileChanges: FileChange[];
+}
+
+/**
+ * Build differ options
+ */
+export interface BuildDifferOptions {
+  /** Rank moves smaller than this are not reported unless the tier changes (default 5) */
+  minRankChange?: number;
+}
+
+/**
+ * Build Differ
+ * Compares two builds of the skill pack: nodes, operations and properties, node I/O types,
+ * priority ranks and tiers, template rankings and generated files
+ */
+export class BuildDiffer {
+  private minRankChange: number;
+
+  constructor(options: BuildDifferOptions = {}) {
+    this.minRankChange = options.minRankChange ?? 5;
+  }
+
+  /**
+   * Load a snapshot from a data/cache directory, a build output directory or a manifest file
+   */
+  static loadSnapshot(source: string): BuildSnapshot {
+    if (!fs.existsSync(source)) {
+      throw new Error(`Build snapshot not found: ${source}`);
+    }
+
+    const readJson = (file: string): unknown => {
+      return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : undefined;
+    };
+    // Snapshot files are written by the build; only their top-level shape is checked, a mismatch counts as missing
+    const readArray = <T>(file: string): T[] | undefined => {
+      const value = readJson(file);
+      return Array.isArray(value) ? value : undefined;
+    };
+    const readObject = <T>(file: string): T | undefined => {
+      const value = readJson(file);
+      return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as T) : undefined;
+    };
+
+    if (fs.statSync(source).isFile()) {
+      const manifest = readObject<BuildManifest>(source);
+      if (!Array.isArray(manifest?.files)) {
+        throw new Error(`Not a build manifest: ${source}`);
+      }
+      return { source, manifest };
+    }
+
+    const topNodes = readArray<EnrichedNodeInfo>(path.join(source, 'stages', 'topNodes.json'));
+    const remainingNodes = readArray<EnrichedNodeInfo>(path.join(source, 'stages', 'remainingNodes.json'));
+    const templates = readArray<{ id: number; name: string }>(path.join(source, 'templates.json'));
+
+    const snapshot: BuildSnapshot = {
+      source,
+      nodes: readArray<SimplifiedNodeInfo>(path.join(source, 'nodes.json')),
+      properties: readObject<NonNullable<BuildSnapshot['properties']>>(path.join(source, 'properties.json')),
+      connections: readArray<NodeConnectionInfo>(path.join(source, 'node-io-config.json')),
+      rankedNodes: topNodes && remainingNodes ? [...topNodes, ...remainingNodes] : undefined,
+      templateRankings: readObject<TemplateRankingSnapshot>(path.join(source, 'template-ranking-snapshot.json')),
+      templateNames: templates
+        ? Object.fromEntries(templates.map(template => [template.id, template.name]))
+        : undefined,
+      manifest: readObject<BuildManifest>(path.join(source, 'manifest.json')),
+    };
+
+    if (Object.entries(snapshot).every(([key, value]) => key === 'source' || value === undefined)) {
+      throw new Error(`No build data found in ${source} (expected a data/cache directory or manifest.json)`);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Compare two snapshots
+   */
+  diff(from: BuildSnapshot, to: BuildSnapshot): BuildDiff {
+    const result: BuildDiff = {
+      from: from.source,
+      to: to.source,
+      compared: [],
+      addedNodes: [],
+      removedNodes: [],
+      changedNodes: [],
+      rankChanges: [],
+      templateChanges: [],
+      fileChanges: [],
+    };
+
+    if (from.nodes && to.nodes) {
+      result.compared.push('nodes');
+      const fromTypes = new Set(from.nodes.map(node => node.nodeType));
+      const toTypes = new Set(to.nodes.map(node => node.nodeType));
+      result.addedNodes = to.nodes.filter(node => !fromTypes.has(node.nodeType)).map(toSummary).sort(bySummary);
+      result.removedNodes = from.nodes.filter(node => !toTypes.has(node.nodeType)).map(toSummary).sort(bySummary);
+    }
+
+    const hasProperties = from.properties !== undefined && to.properties !== undefined;
+    const hasConnections = from.connections !== undefined && to.connections !== undefined;
+    if (hasProperties) {
+      result.compared.push('properties');
+    }
+    if (hasConnections) {
+      result.compared.push('connections');
+    }
+    if (hasProperties || hasConnections) {
+      result.changedNodes = this.diffNodes(from, to);
+    }
+
+    if (from.rankedNodes && to.rankedNodes) {
+      result.compared.push('ranks');
+      result.rankChanges = this.diffRanks(from.rankedNodes, to.rankedNodes);
+    }
+
+    if (from.templateRankings && to.templateRankings) {
+      result.compared.push('templates');
+      result.templateChanges = this.diffTemplates(from, to);
+    }
+
+    if (from.manifest && to.manifest) {
+      result.compared.push('files');
+      result.fileChanges = this.diffFiles(from.manifest, to.manifest);
+    }
+
+    return result;
+  }
+
+  /**
+   * Format a diff as Markdown sections (### headings, ready for CHANGELOG.md)
+   */
+  toMarkdown(diff: BuildDiff): string {
+    const lines: string[] = [];
+    const code = (items: string[]) => items.map(item => `\`${item}\``).join(', ');
+    const nodeName = (node: NodeSummary) => `${node.displayName} (\`${node.nodeType}\`)`;
+    const count = (items: unknown[], change: string) => `${items.length} ${change}`;
+    const byChange = <T extends { change: string }>(items: T[], change: string) => items.filter(item => item.change === change);
+
+    lines.push('### Summary');
+    lines.push('');
+    lines.push(`- Compared: \`${diff.from}\` → \`${diff.to}\``);
+    if (diff.compared.includes('nodes') || diff.compared.includes('properties') || diff.compared.includes('connections')) {
+      lines.push(
+        `- Nodes: ${count(diff.addedNodes, 'added')}, ${count(diff.removedNodes, 'removed')}, ${count(diff.changedNodes, 'changed')}`
+      );
+    }
+    if (diff.compared.includes('ranks')) {
+      const tierChanges = diff.rankChanges.filter(change => change.from && change.to && change.from.tier !== change.to.tier);
+      lines.push(`- Priority: ${count(tierChanges, 'tier changes')}, ${count(diff.rankChanges, 'rank changes')}`);
+    }
+    if (diff.compared.includes('templates')) {
+      const changes = diff.templateChanges;
+      lines.push(
+        `- Templates: ${count(byChange(changes, 'added'), 'added')}, ${count(byChange(changes, 'removed'), 'removed')}, ${count(byChange(changes, 'moved'), 'moved')}`
+      );
+    }
+    if (diff.compared.includes('files')) {
+      const changes = diff.fileChanges;
+      lines.push(
+        `- Generated files: ${count(byChange(changes, 'added'), 'added')}, ${count(byChange(changes, 'removed'), 'removed')}, ${count(byChange(changes, 'changed'), 'changed')}`
+      );
+    }
+    lines.push('');
+
+    if (diff.addedNodes.length > 0) {
+      lines.push('### Added Nodes', '');
+      diff.addedNodes.forEach(node => lines.push(`- ${nodeName(node)}`));
+      lines.push('');
+    }
+
+    if (diff.removedNodes.length > 0) {
+      lines.push('### Removed Nodes', '');
+      diff.removedNodes.forEach(node => lines.push(`- ${nodeName(node)}`));
+      lines.push('');
+    }
+
+    if (diff.changedNodes.length > 0) {
+      lines.push('### Changed Nodes', '');
+      diff.changedNodes.forEach(node => {
+        lines.push(`- **${node.displayName}** (\`${node.nodeType}\`)`);
+        const details: string[] = [];
+        if (node.version) details.push(`Version: ${node.version.from} → ${node.version.to}`);
+        if (node.addedTypeVersions.length > 0) details.push(`Added typeVersions: ${node.addedTypeVersions.join(', ')}`);
+        if (node.removedTypeVersions.length > 0) details.push(`Removed typeVersions: ${node.removedTypeVersions.join(', ')}`);
+        if (node.addedOperations.length > 0) details.push(`Added operations: ${code(node.addedOperations)}`);
+        if (node.removedOperations.length > 0) details.push(`Removed operations: ${code(node.removedOperations)}`);
+        if (node.addedProperties.length > 0) details.push(`Added properties: ${code(node.addedProperties)}`);
+        if (node.removedProperties.length > 0) details.push(`Removed properties: ${code(node.removedProperties)}`);
+        node.changedProperties.forEach(change => details.push(`Changed \`${change.name}\`: ${change.changes.join(', ')}`));
+        if (node.propertyCount) details.push(`Property count: ${node.propertyCount.from} → ${node.propertyCount.to}`);
+        if (node.inputTypes) details.push(`Inputs: ${formatTypes(node.inputTypes.from)} → ${formatTypes(node.inputTypes.to)}`);
+        if (node.outputTypes) details.push(`Outputs: ${formatTypes(node.outputTypes.from)} → ${formatTypes(node.outputTypes.to)}`);
+        details.forEach(detail => lines.push(`  - ${detail}`));
+      });
+      lines.push('');
+    }
+
+    if (diff.rankChanges.length > 0) {
+      lines.push('### Priority Changes', '');
+      lines.push('| Node | Rank | Tier |');
+      lines.push('|------|------|------|');
+      diff.rankChanges.forEach(change => {
+        const rank = `${change.from?.rank ?? '-'} → ${change.to?.rank ?? '-'}`;
+        const tier = change.from?.tier === change.to?.tier
+          ? change.to!.tier
+          : `${change.from?.tier ?? '-'} → ${change.to?.tier ?? '-'}`;
+        lines.push(`| ${nodeName(change)} | ${rank} | ${tier} |`);
+      });
+      lines.push('');
+    }
+
+    if (diff.templateChanges.length > 0) {
+      lines.push('### Template Ranking Changes', '');
+      lines.push('| Template | Change | Rank | Views |');
+      lines.push('|----------|--------|------|-------|');
+      diff.templateChanges.forEach(change => {
+        const name = change.name ? `[${change.name.replace(/[[\]|]/g, ' ').trim()}](https://n8n.io/workflows/${change.id})` : `#${change.id}`;
+        const rank = `${change.fromRank ?? '-'} → ${change.toRank ?? '-'}`;
+        const views = `${change.fromViews ?? '-'} → ${change.toViews ?? '-'}`;
+        lines.push(`| ${name} | ${change.change} | ${rank} | ${views} |`);
+      });
+      lines.push('');
+    }
+
+    if (diff.fileChanges.length > 0) {
+      lines.push('### Generated Files', '');
+      diff.fileChanges.forEach(change => {
+        const size = change.change === 'changed' ? ` (${change.fromLines} → ${change.toLines} lines)` : '';
+        lines.push(`- ${change.change}: \`${change.path}\`${size}`);
+      });
+      lines.push('');
+    }
+
+    if (!hasBuildChanges(diff)) {
+      lines.push('No changes.', '');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Operation, property and I/O changes of nodes present in both builds
+   */
+  private diffNodes(from: BuildSnapshot, to: BuildSnapshot): NodeChange[] {
+    const fromNodes = new Map((from.nodes || []).map(node => [node.nodeType, node]));
+    const toNodes = new Map((to.nodes || []).map(node => [node.nodeType, node]));
+    const fromConnections = new Map((from.connections || []).map(info => [info.nodeType, info]));
+    const toConnections = new Map((to.connections || []).map(info => [info.nodeType, info]));
+
+    const nodeTypes = new Set([
+      ...Object.keys(from.properties || {}).filter(type => to.properties?.[type]),
+      ...Array.from(fromConnections.keys()).filter(type => toConnections.has(type)),
+    ]);
+    if (from.nodes && to.nodes) {
+      Array.from(fromNodes.keys()).filter(type => toNodes.has(type)).forEach(type => nodeTypes.add(type));
+    }
+
+    const changes: NodeChange[] = [];
+    for (const nodeType of Array.from(nodeTypes).sort()) {
+      const before = from.properties?.[nodeType];
+      const after = to.properties?.[nodeType];
+      const beforeProperties = before?.properties;
+      const afterProperties = after?.properties;
+      const displayName = toNodes.get(nodeType)?.displayName ||
+        toConnections.get(nodeType)?.displayName ||
+        fromNodes.get(nodeType)?.displayName ||
+        nodeType;
+
+      const change: NodeChange = {
+        nodeType,
+        displayName,
+        addedTypeVersions: [],
+        removedTypeVersions: [],
+        addedOperations: [],
+        removedOperations: [],
+        addedProperties: [],
+        removedProperties: [],
+        changedProperties: [],
+      };
+
+      const fromVersion = fromNodes.get(nodeType)?.version ?? before?.version;
+      const toVersion = toNodes.get(nodeType)?.version ?? after?.version;
+      if (fromVersion !== undefined && toVersion !== undefined && fromVersion !== toVersion) {
+        change.version = { from: fromVersion, to: toVersion };
+      }
+
+      if (beforeProperties && afterProperties) {
+        const typeVersions = (props: ParsedProperties) => (props.versions || []).map(v => String(v.version));
+        [change.addedTypeVersions, change.removedTypeVersions] = compareSets(
+          typeVersions(beforeProperties),
+          typeVersions(afterProperties)
+        );
+        [change.addedOperations, change.removedOperations] = compareSets(
+          (beforeProperties.operations || []).map(operationKey),
+          (afterProperties.operations || []).map(operationKey)
+        );
+
+        const beforeCore = new Map((beforeProperties.coreProperties || []).map(prop => [prop.name, prop]));
+        const afterCore = new Map((afterProperties.coreProperties || []).map(prop => [prop.name, prop]));
+        [change.addedProperties, change.removedProperties] = compareSets(
+          Array.from(beforeCore.keys()),
+          Array.from(afterCore.keys())
+        );
+        for (const [name, prop] of afterCore) {
+          const previous = beforeCore.get(name);
+          const propertyChanges = previous ? describePropertyChanges(previous, prop) : [];
+          if (propertyChanges.length > 0) {
+            change.changedProperties.push({ name, changes: propertyChanges });
+          }
+        }
+
+        if (beforeProperties.totalPropertyCount !== afterProperties.totalPropertyCount) {
+          change.propertyCount = { from: beforeProperties.totalPropertyCount, to: afterProperties.totalPropertyCount };
+        }
+      }
+
+      const beforeIo = fromConnections.get(nodeType);
+      const afterIo = toConnections.get(nodeType);
+      if (beforeIo && afterIo) {
+        if (!sameItems(beforeIo.inputTypes, afterIo.inputTypes)) {
+          change.inputTypes = { from: beforeIo.inputTypes, to: afterIo.inputTypes };
+        }
+        if (!sameItems(beforeIo.outputTypes, afterIo.outputTypes)) {
+          change.outputTypes = { from: beforeIo.outputTypes, to: afterIo.outputTypes };
+        }
+      }
+
+      const changed = Object.entries(change)
+        .filter(([key]) => key !== 'nodeType' && key !== 'displayName')
+        .some(([, value]) => (Array.isArray(value) ? value.length > 0 : value !== undefined));
+      if (changed) {
+        changes.push(change);
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Tier changes, rank moves of at least minRankChange and nodes entering or leaving the ranking
+   */
+  private diffRanks(fromNodes: EnrichedNodeInfo[], toNodes: EnrichedNodeInfo[]): RankChange[] {
+    const rankOf = (node?: EnrichedNodeInfo) =>
+      node?.rank !== undefined && node.tier ? { rank: node.rank, tier: node.tier } : undefined;
+    const before = new Map(fromNodes.map(node => [node.nodeType, node]));
+    const after = new Map(toNodes.map(node => [node.nodeType, node]));
+
+    const changes: RankChange[] = [];
+    for (const nodeType of new Set([...before.keys(), ...after.keys()])) {
+      const fromRank = rankOf(before.get(nodeType));
+      const toRank = rankOf(after.get(nodeType));
+      if (!fromRank && !toRank) {
+        continue;
+      }
+      const moved = fromRank && toRank
+        ? fromRank.tier !== toRank.tier || Math.abs(fromRank.rank - toRank.rank) >= this.minRankChange
+        : true;
+      if (moved) {
+        const node = after.get(nodeType) || before.get(nodeType)!;
+        changes.push({ nodeType, displayName: node.displayName, from: fromRank, to: toRank });
+      }
+    }
+
+    return changes.sort((a, b) => (a.to?.rank ?? Infinity) - (b.to?.rank ?? Infinity) || a.nodeType.localeCompare(b.nodeType));
+  }
+
+  /**
+   * Templates entering, leaving or moving in the template ranking
+   */
+  private diffTemplates(from: BuildSnapshot, to: BuildSnapshot): TemplateRankChange[] {
+    const before = new Map(from.templateRankings!.rankings.map(entry => [entry.id, entry]));
+    const after = new Map(to.templateRankings!.rankings.map(entry => [entry.id, entry]));
+    const nameOf = (id: number) => to.templateNames?.[id] ?? from.templateNames?.[id];
+
+    const changes: TemplateRankChange[] = [];
+    for (const id of new Set([...after.keys(), ...before.keys()])) {
+      const previous = before.get(id);
+      const current = after.get(id);
+      const change: TemplateRankChange['change'] | null = !previous ? 'added' : !current ? 'removed' :
+        previous.rank !== current.rank ? 'moved' : null;
+      if (change) {
+        changes.push({
+          id,
+          name: nameOf(id),
+          change,
+          fromRank: previous?.rank,
+          toRank: current?.rank,
+          fromViews: previous?.totalViews,
+          toViews: current?.totalViews,
+        });
+      }
+    }
+
+    return changes.sort((a, b) => (a.toRank ?? Infinity) - (b.toRank ?? Infinity) || a.id - b.id);
+  }
+
+  /**
+   * Files added, removed or changed between two manifests
+   */
+  private diffFiles(from: BuildManifest, to: BuildManifest): FileChange[] {
+    const before = new Map(from.files.map(entry => [entry.path, entry]));
+    const after = new Map(to.files.map(entry => [entry.path, entry]));
+
+    const changes: FileChange[] = [];
+    for (const filePath of Array.from(new Set([...before.keys(), ...after.keys()])).sort()) {
+      const previous = before.get(filePath);
+      const current = after.get(filePath);
+      if (!previous) {
+        changes.push({ path: filePath, change: 'added', toLines: current!.lines });
+      } else if (!current) {
+        changes.push({ path: filePath, change: 'removed', fromLines: previous.lines });
+      } else if (previous.hash !== current.hash) {
+        changes.push({ path: filePath, change: 'changed', fromLines: previous.lines, toLines: current.lines });
+      }
+    }
+    return changes;
+  }
+}
+
+/**
+ * Whether a diff found any change
+ */
+export function hasBuildChanges(diff: BuildDiff): boolean {
+  return [
+    diff.addedNodes,
+    diff.removedNodes,
+    diff.changedNodes,
+    diff.rankChanges,
+    diff.templateChanges,
+    diff.fileChanges,
+  ].some(items => items.length > 0);
+}
+
+function toSummary(node: SimplifiedNodeInfo): NodeSummary {
+  return { nodeType: node.nodeType, displayName: node.displayName };
+}
+
+function bySummary(a: NodeSummary, b: NodeSummary): number {
+  return a.nodeType.localeCompare(b.nodeType);
+}
+
+function operationKey(operation: Operation): string {
+  return operation.resource ? `${operation.resource}:${operation.value}` : operation.value;
+}
+
+/**
+ * Items only in the second list and items only in the first list
+ */
+function compareSets(before: string[], after: string[]): [string[], string[]] {
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+  return [
+    Array.from(afterSet).filter(item => !beforeSet.has(item)).sort(),
+    Array.from(beforeSet).filter(item => !afterSet.has(item)).sort(),
+  ];
+}
+
+function sameItems(a: string[] = [], b: string[] = []): boolean {
+  return JSON.stringify([...a].sort()) === JSON.stringify([...b].sort());
+}
+
+function describePropertyChanges(before: CoreProperty, after: CoreProperty): string[] {
+  const changes: string[] = [];
+  if (before.type !== after.type) {
+    changes.push(`type ${before.type} → ${after.type}`);
+  }
+  if (before.required !== after.required) {
+    changes.push(after.required ? 'now required' : 'now optional');
+  }
+  if (JSON.stringify(before.default) !== JSON.stringify(after.default)) {
+    changes.push(`default ${JSON.stringify(before.default)} → ${JSON.stringify(after.default)}`);
+  }
+  return changes;
+}
+
+function formatTypes(types: string[]): string {
+  return types.length > 0 ? types.join(', ') : 'none';
+}
@@ -0,0 +1,133 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import type { WorkflowDefinition } from '../collectors/api-collector';
+import { normalizeNodeType } from './workflow-validator';
+
+/**
+ * Direct connection from one node type to another
+ */
+export interface NodeTransition {
+  /** Node type of the connection source (collected format, e.g. nodes-base.webhook) */
+  source: string;
+  target: string;
+  /** Connections between the two node types across all workflows */
+  count: number;
+  /** Workflows containing at least one such connection */
+  workflowCount: number;
+}
+
+/**
+ * Node co-occurrence graph mined from workflows
+ * Plain data so it can be cached and passed between build stages
+ */
+export interface NodeCoOccurrenceGraph {
+  workflowCount: number;
+  /** Workflows using each node type */
+  nodeWorkflowCounts: Record<string, number>;
+  /** Transitions sorted by workflow count */
+  transitions: NodeTransition[];
+  minedAt: string;
+}
+
+/**
+ * Co-occurrence miner options
+ */
+export interface CoOccurrenceMinerOptions {
+  /** Transitions seen in fewer workflows are dropped (default 2) */
+  minWorkflows?: number;
+}
+
+const STICKY_NOTE_TYPE = 'n8n-nodes-base.stickyNote';
+
+/**
+ * Co-occurrence Miner
+ * Counts which node types are directly connected in workflows and in which order.
+ * Only main connections are counted; AI sub-node connections (ai_languageModel, ai_tool, ...)
+ * attach a sub-node to its root node and say nothing about the order of steps.
+ */
+export class CoOccurrenceMiner {
+  private minWorkflows: number;
+
+  constructor(options: CoOccurrenceMinerOptions = {}) {
+    this.minWorkflows = options.minWorkflows ?? 2;
+  }
+
+  /**
+   * Mine the graph of a set of workflows
+   */
+  mine(workflows: WorkflowDefinition[]): NodeCoOccurrenceGraph {
+    const nodeWorkflowCounts: Record<string, number> = {};
+    const transitions = new Map<string, NodeTransition>();
+
+    for (const workflow of workflows) {
+      const typesByName = new Map(
+        (workflow.nodes || [])
+          .filter(node => node.type !== STICKY_NOTE_TYPE)
+          .map(node => [node.name, normalizeNodeType(node.type)])
+      );
+
+      for (const type of new Set(typesByName.values())) {
+        nodeWorkflowCounts[type] = (nodeWorkflowCounts[type] || 0) + 1;
+      }
+
+      const seen = new Set<string>();
+      for (const [sourceName, outputs] of Object.entries(workflow.connections || {})) {
+        const source = typesByName.get(sourceName);
+        if (!source) {
+          continue;
+        }
+
+        for (const connection of (outputs.main || []).flat()) {
+          const target = connection && typesByName.get(connection.node);
+          if (!target) {
+            continue;
+          }
+
+          const key = `${source}\u0000${target}`;
+          const transition = transitions.get(key) || { source, target, count: 0, workflowCount: 0 };
+          transition.count++;
+          if (!seen.has(key)) {
+            transition.workflowCount++;
+            seen.add(key);
+          }
+          transitions.set(key, transition);
+        }
+      }
+    }
+
+    return {
+      workflowCount: workflows.length,
+      nodeWorkflowCounts,
+      transitions: Array.from(transitions.values())
+        .filter(transition => transition.workflowCount >= this.minWorkflows)
+        .sort(compareTransitions),
+      minedAt: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Most common node types connected after a node type
+ */
+export function getFollowingNodes(graph: NodeCoOccurrenceGraph, nodeType: string, limit = 5): NodeTransition[] {
+  return graph.transitions.filter(transition => transition.source === nodeType).slice(0, limit);
+}
+
+/**
+ * Most common node types connected before a node type
+ */
+export function getPrecedingNodes(graph: NodeCoOccurrenceGraph, nodeType: string, limit = 5): NodeTransition[] {
+  return graph.transitions.filter(transition => transition.target === nodeType).slice(0, limit);
+}
+
+function compareTransitions(a: NodeTransition, b: NodeTransition): number {
+  return b.workflowCount - a.workflowCount ||
+    b.count - a.count ||
+    a.source.localeCompare(b.source) ||
+    a.target.localeCompare(b.target);
+}
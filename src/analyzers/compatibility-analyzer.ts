@@ -116,6 +116,26 @@ export class CompatibilityAnalyzer {
     };
   }
 
+  /**
+   * Find compatible targets for a single node without building the full matrix
+   * @param sourceNode Source node
+   * @param candidates Candidate target nodes
+   * @param limit Limit number of results
+   * @returns Compatible targets sorted by score (high to low)
+   */
+  findCompatibleTargets(
+    sourceNode: NodeConnectionInfo,
+    candidates: NodeConnectionInfo[],
+    limit: number = 10
+  ): CompatibilityEntry[] {
+    return candidates
+      .filter(targetNode => targetNode.nodeType !== sourceNode.nodeType)
+      .map(targetNode => this.calculateCompatibility(sourceNode, targetNode))
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
   /**
    * Get recommended connections for a node (top N most compatible nodes)
    * @param nodeType Node type
@@ -0,0 +1,301 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import type { WorkflowDefinition } from '../collectors/api-collector';
+import { normalizeNodeType } from './workflow-validator';
+
+/**
+ * Workflow a pattern was mined from
+ */
+export type PatternWorkflow = WorkflowDefinition & { id: number; name: string };
+
+/**
+ * Template showing a pattern with the fewest other nodes
+ */
+export interface PatternExample {
+  id: number;
+  name: string;
+  nodeCount: number;
+}
+
+/**
+ * Chain of node types connected one after another by main connections
+ * e.g. Webhook → Code → HTTP Request → Respond to Webhook
+ */
+export interface NodeChainPattern {
+  /** Node types in connection order (collected format, e.g. nodes-base.webhook) */
+  nodeTypes: string[];
+  /** Workflows containing the chain */
+  workflowCount: number;
+  example: PatternExample;
+}
+
+/**
+ * AI root node with the kinds of sub-nodes attached to it
+ * e.g. AI Agent with a chat model, memory and tools
+ */
+export interface AiClusterPattern {
+  rootNodeType: string;
+  /** AI connection types attached to the root node, sorted (e.g. ai_languageModel, ai_memory, ai_tool) */
+  connectionTypes: string[];
+  /** Most used sub-node type per connection type */
+  typicalSubNodes: Record<string, string>;
+  workflowCount: number;
+  example: PatternExample;
+}
+
+/**
+ * Patterns mined from a set of workflows, most frequent first
+ */
+export interface WorkflowPatterns {
+  workflowCount: number;
+  chains: NodeChainPattern[];
+  aiClusters: AiClusterPattern[];
+  minedAt: string;
+}
+
+/**
+ * Workflow pattern miner options
+ */
+export interface WorkflowPatternMinerOptions {
+  /** Patterns found in fewer workflows are dropped (default 2) */
+  minWorkflows?: number;
+  /** Shortest chain in nodes (default 3) */
+  minChainLength?: number;
+  /** Longest chain in nodes (default 5) */
+  maxChainLength?: number;
+  /** Chains to keep (default 10) */
+  maxChains?: number;
+  /** AI clusters to keep (default 8) */
+  maxAiClusters?: number;
+}
+
+interface PatternCandidate<T> {
+  pattern: T;
+  workflowIds: Set<number>;
+  example: PatternExample;
+}
+
+const STICKY_NOTE_TYPE = 'n8n-nodes-base.stickyNote';
+
+/**
+ * Workflow Pattern Miner
+ * Finds recurring subgraphs in template workflows:
+ * - node chains: paths of main connections, kept only when no longer chain occurs in the same number of workflows
+ *   and listed once when they are shifted windows of one longer chain
+ * - AI clusters: root nodes (agents, chains, vector stores) with the kinds of sub-nodes attached to them
+ * Each pattern is ranked by the number of workflows containing it.
+ */
+export class WorkflowPatternMiner {
+  private options: Required<WorkflowPatternMinerOptions>;
+
+  constructor(options: WorkflowPatternMinerOptions = {}) {
+    this.options = {
+      minWorkflows: options.minWorkflows ?? 2,
+      minChainLength: options.minChainLength ?? 3,
+      maxChainLength: options.maxChainLength ?? 5,
+      maxChains: options.maxChains ?? 10,
+      maxAiClusters: options.maxAiClusters ?? 8,
+    };
+  }
+
+  /**
+   * Mine patterns of a set of workflows
+   */
+  mine(workflows: PatternWorkflow[]): WorkflowPatterns {
+    const chains = new Map<string, PatternCandidate<NodeChainPattern>>();
+    const clusters = new Map<string, PatternCandidate<AiClusterPattern>>();
+    const subNodeCounts = new Map<string, Map<string, Map<string, number>>>();
+
+    for (const workflow of workflows) {
+      const nodes = (workflow.nodes || []).filter(node => node.type !== STICKY_NOTE_TYPE);
+      const typesByName = new Map(nodes.map(node => [node.name, normalizeNodeType(node.type)]));
+      const example = { id: workflow.id, name: workflow.name, nodeCount: nodes.length };
+
+      for (const nodeTypes of this.findChains(workflow, typesByName)) {
+        this.addOccurrence(chains, nodeTypes.join(' > '), workflow.id, example, () => ({
+          nodeTypes,
+          workflowCount: 0,
+          example,
+        }));
+      }
+
+      for (const cluster of this.findAiClusters(workflow, typesByName)) {
+        const key = `${cluster.rootNodeType} + ${cluster.connectionTypes.join(' + ')}`;
+        this.addOccurrence(clusters, key, workflow.id, example, () => ({
+          rootNodeType: cluster.rootNodeType,
+          connectionTypes: cluster.connectionTypes,
+          typicalSubNodes: {},
+          workflowCount: 0,
+          example,
+        }));
+
+        const counts = subNodeCounts.get(key) || new Map<string, Map<string, number>>();
+        for (const [connectionType, subNodeTypes] of cluster.subNodes) {
+          const byType = counts.get(connectionType) || new Map<string, number>();
+          subNodeTypes.forEach(type => byType.set(type, (byType.get(type) || 0) + 1));
+          counts.set(connectionType, byType);
+        }
+        subNodeCounts.set(key, counts);
+      }
+    }
+
+    const frequentChains = this.toPatterns(chains);
+    const closedChains = frequentChains.filter(chain => !frequentChains.some(other =>
+      other.nodeTypes.length > chain.nodeTypes.length &&
+      other.workflowCount === chain.workflowCount &&
+      ` ${other.nodeTypes.join(' ')} `.includes(` ${chain.nodeTypes.join(' ')} `)
+    ));
+
+    const aiClusters = this.toPatterns(clusters).map(cluster => {
+      const counts = subNodeCounts.get(`${cluster.rootNodeType} + ${cluster.connectionTypes.join(' + ')}`)!;
+      cluster.typicalSubNodes = Object.fromEntries(
+        cluster.connectionTypes.map(connectionType => [connectionType, mostCommon(counts.get(connectionType)!)])
+      );
+      return cluster;
+    });
+
+    // Shifted windows of one longer chain (a > b > c, b > c > d) are listed once
+    const chainsToList: NodeChainPattern[] = [];
+    closedChains
+      .sort((a, b) => b.workflowCount - a.workflowCount || b.nodeTypes.length - a.nodeTypes.length)
+      .forEach(chain => {
+        if (!chainsToList.some(listed => listed.workflowCount === chain.workflowCount && isShifted(listed.nodeTypes, chain.nodeTypes))) {
+          chainsToList.push(chain);
+        }
+      });
+
+    return {
+      workflowCount: workflows.length,
+      chains: chainsToList.slice(0, this.options.maxChains),
+      aiClusters: aiClusters.slice(0, this.options.maxAiClusters),
+      minedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Node type sequences along main connections, once per workflow
+   */
+  private findChains(workflow: PatternWorkflow, typesByName: Map<string, string>): string[][] {
+    const next = new Map<string, string[]>();
+    for (const [sourceName, outputs] of Object.entries(workflow.connections || {})) {
+      if (!typesByName.has(sourceName)) {
+        continue;
+      }
+      const targets = (outputs.main || []).flat()
+        .map(connection => connection?.node)
+        .filter((name): name is string => !!name && typesByName.has(name));
+      next.set(sourceName, Array.from(new Set(targets)));
+    }
+
+    const found = new Map<string, string[]>();
+    const walk = (path: string[]) => {
+      if (path.length >= this.options.minChainLength) {
+        const nodeTypes = path.map(name => typesByName.get(name)!);
+        found.set(nodeTypes.join(' > '), nodeTypes);
+      }
+      if (path.length === this.options.maxChainLength) {
+        return;
+      }
+      for (const target of next.get(path[path.length - 1]) || []) {
+        if (!path.includes(target)) {
+          walk([...path, target]);
+        }
+      }
+    };
+    typesByName.forEach((_type, name) => walk([name]));
+
+    return Array.from(found.values());
+  }
+
+  /**
+   * AI root nodes with their sub-nodes grouped by connection type
+   */
+  private findAiClusters(
+    workflow: PatternWorkflow,
+    typesByName: Map<string, string>
+  ): Array<{ rootNodeType: string; connectionTypes: string[]; subNodes: Map<string, string[]> }> {
+    const roots = new Map<string, Map<string, string[]>>();
+
+    for (const [sourceName, outputs] of Object.entries(workflow.connections || {})) {
+      const sourceType = typesByName.get(sourceName);
+      if (!sourceType) {
+        continue;
+      }
+      for (const [connectionType, groups] of Object.entries(outputs)) {
+        if (!connectionType.startsWith('ai_')) {
+          continue;
+        }
+        for (const connection of (groups || []).flat()) {
+          if (!connection || !typesByName.has(connection.node)) {
+            continue;
+          }
+          const subNodes = roots.get(connection.node) || new Map<string, string[]>();
+          subNodes.set(connectionType, [...(subNodes.get(connectionType) || []), sourceType]);
+          roots.set(connection.node, subNodes);
+        }
+      }
+    }
+
+    return Array.from(roots.entries()).map(([rootName, subNodes]) => ({
+      rootNodeType: typesByName.get(rootName)!,
+      connectionTypes: Array.from(subNodes.keys()).sort(),
+      subNodes,
+    }));
+  }
+
+  /**
+   * Count a pattern occurrence once per workflow and keep the smallest example
+   */
+  private addOccurrence<T>(
+    candidates: Map<string, PatternCandidate<T>>,
+    key: string,
+    workflowId: number,
+    example: PatternExample,
+    create: () => T
+  ): void {
+    const candidate = candidates.get(key) || { pattern: create(), workflowIds: new Set<number>(), example };
+    candidate.workflowIds.add(workflowId);
+    if (example.nodeCount < candidate.example.nodeCount ||
+        (example.nodeCount === candidate.example.nodeCount && example.id < candidate.example.id)) {
+      candidate.example = example;
+    }
+    candidates.set(key, candidate);
+  }
+
+  /**
+   * Patterns above the minimum support, most frequent first
+   */
+  private toPatterns<T extends { workflowCount: number; example: PatternExample }>(
+    candidates: Map<string, PatternCandidate<T>>
+  ): T[] {
+    return Array.from(candidates.entries())
+      .filter(([, candidate]) => candidate.workflowIds.size >= this.options.minWorkflows)
+      .sort(([keyA, a], [keyB, b]) => b.workflowIds.size - a.workflowIds.size || keyA.localeCompare(keyB))
+      .map(([, candidate]) => ({
+        ...candidate.pattern,
+        workflowCount: candidate.workflowIds.size,
+        example: candidate.example,
+      }));
+  }
+}
+
+/**
+ * Whether two chains of the same length overlap in all but their first and last node
+ */
+function isShifted(a: string[], b: string[]): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  const joined = (types: string[]) => types.join(' > ');
+  return joined(a.slice(1)) === joined(b.slice(0, -1)) || joined(b.slice(1)) === joined(a.slice(0, -1));
+}
+
+function mostCommon(counts: Map<string, number>): string {
+  return Array.from(counts.entries())
+    .sort(([typeA, a], [typeB, b]) => b - a || typeA.localeCompare(typeB))[0][0];
+}
@@ -0,0 +1,407 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import * as fs from 'fs';
+import path from 'path';
+import type { WorkflowDefinition, WorkflowNode } from '../collectors/api-collector';
+import type { SimplifiedNodeInfo } from '../collectors/npm-collector';
+import type { ParsedProperties } from '../parsers/property-parser';
+import { isShownFor, type PropertyNode } from '../parsers/property-tree-parser';
+import type { NodeConnectionInfo } from '../models/connection';
+import { AI_NODE_INPUTS_MAP, getAINodeInputs } from '../utils/ai-node-inputs';
+
+/**
+ * Issue severity
+ * Errors make the workflow invalid; warnings point at likely problems
+ */
+export type ValidationSeverity = 'error' | 'warning';
+
+/**
+ * Kind of validation finding
+ */
+export type ValidationIssueCode =
+  | 'unknown-node-type'
+  | 'invalid-type-version'
+  | 'incompatible-connection'
+  | 'missing-ai-input'
+  | 'dangling-connection'
+  | 'missing-required-parameter';
+
+/**
+ * Single validation finding
+ */
+export interface WorkflowValidationIssue {
+  severity: ValidationSeverity;
+  code: ValidationIssueCode;
+  /** Workflow node the finding belongs to */
+  node?: string;
+  message: string;
+}
+
+/**
+ * Validation result
+ */
+export interface WorkflowValidationResult {
+  valid: boolean;
+  errorCount: number;
+  warningCount: number;
+  issues: WorkflowValidationIssue[];
+}
+
+/**
+ * Node metadata used for validation (build cache data)
+ */
+export interface WorkflowValidatorData {
+  /** Collected nodes (nodes.json) */
+  nodes: SimplifiedNodeInfo[];
+  /** Parsed properties by node type (properties.json) */
+  properties?: Record<string, { properties: ParsedProperties }>;
+  /** Connection types by node (node-io-config.json) */
+  connections?: NodeConnectionInfo[];
+}
+
+/** Core packages covered by the collected metadata */
+const KNOWN_PACKAGE_PREFIXES = ['nodes-base.', 'nodes-langchain.'];
+
+/** Property types that never hold a user value */
+const NON_VALUE_TYPES = ['notice', 'hidden', 'button', 'callout'];
+
+/**
+ * Normalize a workflow node type to the collected format
+ * e.g. n8n-nodes-base.slack -> nodes-base.slack, @n8n/n8n-nodes-langchain.agent -> nodes-langchain.agent
+ * Types of other packages are collected with their full package name and stay unchanged
+ */
+export function normalizeNodeType(nodeType: string): string {
+  return nodeType.replace(/^(@n8n\/)?n8n-nodes-(base|langchain)\./, 'nodes-$2.');
+}
+
+/**
+ * Workflow Validator
+ * Checks workflow JSON against collected node metadata
+ */
+export class WorkflowValidator {
+  private nodes = new Map<string, SimplifiedNodeInfo>();
+  private properties = new Map<string, ParsedProperties>();
+  private connectionInfo = new Map<string, NodeConnectionInfo>();
+  private knownPrefixes = new Set(KNOWN_PACKAGE_PREFIXES);
+
+  constructor(data: WorkflowValidatorData) {
+    data.nodes.forEach(node => {
+      this.nodes.set(node.nodeType, node);
+      // Extra packages from skill-config.json are collected completely as well
+      if (node.packageOrigin === 'extra') {
+        this.knownPrefixes.add(`${node.packageName}.`);
+      }
+    });
+    Object.entries(data.properties || {}).forEach(([nodeType, entry]) => {
+      if (entry?.properties) {
+        this.properties.set(nodeType, entry.properties);
+      }
+    });
+    (data.connections || []).forEach(info => this.connectionInfo.set(info.nodeType, info));
+  }
+
+  /**
+   * Create a validator from the build cache
+   * @param cacheDir Cache directory (defaults to data/cache)
+   */
+  static fromCache(cacheDir: string = path.join(process.cwd(), 'data', 'cache')): WorkflowValidator {
+    const readJson = (file: string): unknown => {
+      const filePath = path.join(cacheDir, file);
+      return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) : undefined;
+    };
+
+    const nodes = readJson('nodes.json');
+    if (!Array.isArray(nodes)) {
+      throw new Error(`Node metadata not found in ${cacheDir} (run the build first)`);
+    }
+    // Cache files are written by the build; only their top-level shape is checked, a mismatch counts as missing
+    const properties = readJson('properties.json');
+    const connections = readJson('node-io-config.json');
+
+    return new WorkflowValidator({
+      nodes,
+      properties:
+        typeof properties === 'object' && properties !== null && !Array.isArray(properties)
+          ? (properties as WorkflowValidatorData['properties'])
+          : undefined,
+      connections: Array.isArray(connections) ? connections : undefined,
+    });
+  }
+
+  /**
+   * Validate a workflow
+   */
+  validate(workflow: WorkflowDefinition): WorkflowValidationResult {
+    const issues: WorkflowValidationIssue[] = [];
+    const workflowNodes = (workflow.nodes || []).filter(node => node?.name && node?.type);
+    const byName = new Map(workflowNodes.map(node => [node.name, node]));
+
+    for (const node of workflowNodes) {
+      issues.push(...this.validateNode(node));
+    }
+
+    issues.push(...this.validateConnections(workflow, byName));
+
+    for (const node of workflowNodes) {
+      issues.push(...this.validateAIInputs(node, workflow));
+    }
+
+    const errorCount = issues.filter(issue => issue.severity === 'error').length;
+    return {
+      valid: errorCount === 0,
+      errorCount,
+      warningCount: issues.length - errorCount,
+      issues,
+    };
+  }
+
+  /**
+   * Check node type, typeVersion and required parameters
+   */
+  private validateNode(node: WorkflowNode): WorkflowValidationIssue[] {
+    const nodeType = normalizeNodeType(node.type);
+    const info = this.nodes.get(nodeType);
+
+    if (!info) {
+      const isKnownPackage = Array.from(this.knownPrefixes).some(prefix => nodeType.startsWith(prefix));
+      return [{
+        severity: isKnownPackage ? 'error' : 'warning',
+        code: 'unknown-node-type',
+        node: node.name,
+        message: isKnownPackage
+          ? `Unknown node type "${node.type}"`
+          : `Node type "${node.type}" is not part of the collected packages and cannot be checked`,
+      }];
+    }
+
+    const { versions, exact } = this.getVersions(nodeType);
+    const typeVersion = Number(node.typeVersion);
+    const unsupported = exact
+      ? !versions.includes(typeVersion)
+      : versions.length > 0 && typeVersion > Math.max(...versions);
+    if (node.typeVersion !== undefined && unsupported) {
+      return [{
+        severity: 'error',
+        code: 'invalid-type-version',
+        node: node.name,
+        message: exact
+          ? `typeVersion ${node.typeVersion} is not supported by ${node.type} (available: ${versions.join(', ')})`
+          : `typeVersion ${node.typeVersion} is newer than the latest ${node.type} version (${versions.join(', ')})`,
+      }];
+    }
+
+    return this.validateParameters(node, nodeType);
+  }
+
+  /**
+   * Check required parameters that are shown for the node's current values
+   * Only the latest typeVersion has a property tree
+   */
+  private validateParameters(node: WorkflowNode, nodeType: string): WorkflowValidationIssue[] {
+    const tree = this.properties.get(nodeType)?.propertyTree;
+    if (!tree || (node.typeVersion !== undefined && Number(node.typeVersion) !== tree.version)) {
+      return [];
+    }
+
+    const parameters = node.parameters || {};
+    const values: Record<string, unknown> = {};
+    tree.properties.forEach(prop => {
+      if (!(prop.name in values) && prop.default !== undefined) {
+        values[prop.name] = prop.default;
+      }
+    });
+    Object.assign(values, parameters);
+
+    const issues: WorkflowValidationIssue[] = [];
+    const checked = new Set<string>();
+
+    for (const prop of tree.properties) {
+      if (!prop.required || NON_VALUE_TYPES.includes(prop.type) || checked.has(prop.name)) {
+        continue;
+      }
+      if (!isShownFor(prop.displayOptions, values, tree.version)) {
+        continue;
+      }
+      checked.add(prop.name);
+
+      if (isEmptyValue(prop, parameters[prop.name] ?? prop.default)) {
+        issues.push({
+          severity: 'error',
+          code: 'missing-required-parameter',
+          node: node.name,
+          message: `Required parameter "${prop.name}" (${prop.displayName}) is not set`,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Check connection targets and connection types
+   */
+  private validateConnections(workflow: WorkflowDefinition, byName: Map<string, WorkflowNode>): WorkflowValidationIssue[] {
+    const issues: WorkflowValidationIssue[] = [];
+
+    for (const [sourceName, outputs] of Object.entries(workflow.connections || {})) {
+      if (!byName.has(sourceName)) {
+        issues.push({
+          severity: 'warning',
+          code: 'dangling-connection',
+          node: sourceName,
+          message: `Connections are defined for "${sourceName}", which is not in the workflow`,
+        });
+      }
+
+      for (const [outputType, outputIndexes] of Object.entries(outputs || {})) {
+        for (const targets of outputIndexes || []) {
+          for (const connection of targets || []) {
+            const target = byName.get(connection.node);
+            if (!target) {
+              issues.push({
+                severity: 'error',
+                code: 'dangling-connection',
+                node: sourceName,
+                message: `Connection target "${connection.node}" does not exist`,
+              });
+              continue;
+            }
+
+            const type = connection.type || outputType;
+            const accepted = this.getInputTypes(target);
+            if (accepted && !accepted.includes(type)) {
+              issues.push({
+                severity: 'error',
+                code: 'incompatible-connection',
+                node: target.name,
+                message: `"${target.name}" does not accept ${type} connections (from "${sourceName}"; accepts: ${accepted.join(', ') || 'none'})`,
+              });
+            }
+          }
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Check that required AI sub-node inputs are connected (e.g. an agent's language model)
+   */
+  private validateAIInputs(node: WorkflowNode, workflow: WorkflowDefinition): WorkflowValidationIssue[] {
+    const config = this.getAIInputConfig(node);
+    if (!config) {
+      return [];
+    }
+
+    const required = new Map<string, { count: number; displayName: string }>();
+    getAINodeInputs(config, node.parameters)
+      .filter(input => input.required && input.type !== 'main')
+      .forEach(input => {
+        const entry = required.get(input.type) || { count: 0, displayName: input.displayName || input.type };
+        entry.count++;
+        required.set(input.type, entry);
+      });
+
+    const issues: WorkflowValidationIssue[] = [];
+    required.forEach(({ count, displayName }, type) => {
+      const connected = countIncoming(workflow, node.name, type);
+      if (connected < count) {
+        issues.push({
+          severity: 'error',
+          code: 'missing-ai-input',
+          node: node.name,
+          message: count > 1
+            ? `Requires ${count} ${type} connections (${displayName}), found ${connected}`
+            : `Requires a ${type} connection (${displayName})`,
+        });
+      }
+    });
+
+    return issues;
+  }
+
+  /**
+   * Get the supported typeVersions of a node
+   * The list is exact when the properties were parsed per version; older caches only know the latest version
+   */
+  private getVersions(nodeType: string): { versions: number[]; exact: boolean } {
+    const properties = this.properties.get(nodeType);
+    if (properties?.versions && properties.versions.length > 0) {
+      return { versions: properties.versions.map(entry => entry.version), exact: true };
+    }
+    const version = Number(this.nodes.get(nodeType)?.version);
+    return { versions: isNaN(version) ? [] : [version], exact: properties?.propertyTree !== undefined };
+  }
+
+  /**
+   * Get the input types accepted by a workflow node (undefined when unknown)
+   */
+  private getInputTypes(node: WorkflowNode): string[] | undefined {
+    const nodeType = normalizeNodeType(node.type);
+    const versioned = this.properties.get(nodeType)?.versions?.find(entry => entry.version === Number(node.typeVersion));
+
+    let inputTypes: string[] | undefined = versioned?.inputTypes || this.connectionInfo.get(nodeType)?.inputTypes;
+
+    const config = this.getAIInputConfig(node);
+    if (config) {
+      inputTypes = Array.from(new Set([
+        ...(inputTypes || []),
+        ...getAINodeInputs(config, node.parameters).map(input => input.type),
+      ]));
+    }
+
+    return inputTypes;
+  }
+
+  /**
+   * Get the AI input mapping key of a langchain node
+   */
+  private getAIInputConfig(node: WorkflowNode): string | undefined {
+    const nodeType = normalizeNodeType(node.type);
+    if (!nodeType.startsWith('nodes-langchain.')) {
+      return undefined;
+    }
+    const name = nodeType.slice('nodes-langchain.'.length);
+    return AI_NODE_INPUTS_MAP[name] ? name : undefined;
+  }
+}
+
+/**
+ * Count incoming connections of a type
+ */
+function countIncoming(workflow: WorkflowDefinition, nodeName: string, type: string): number {
+  let count = 0;
+  for (const outputs of Object.values(workflow.connections || {})) {
+    for (const [outputType, outputIndexes] of Object.entries(outputs || {})) {
+      for (const targets of outputIndexes || []) {
+        count += (targets || []).filter(
+          connection => connection.node === nodeName && (connection.type || outputType) === type
+        ).length;
+      }
+    }
+  }
+  return count;
+}
+
+/**
+ * Check whether a parameter value counts as unset
+ */
+function isEmptyValue(prop: PropertyNode, value: unknown): boolean {
+  if (value === undefined || value === null || value === '') {
+    return true;
+  }
+  if (prop.type === 'resourceLocator' && typeof value === 'object') {
+    const locatorValue = (value as { value?: unknown }).value;
+    return locatorValue === undefined || locatorValue === null || locatorValue === '';
+  }
+  if (prop.type === 'multiOptions' && Array.isArray(value)) {
+    return value.length === 0;
+  }
+  return false;
+}
@@ -0,0 +1,1636 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+/**
+ * Skill Builder
+ * Coordinates the entire build process: collect, parse, organize, and generate
+ *
+ * Used by both the CLI (scripts/build.ts) and the programmatic quickBuild API
+ */
+
+import * as fsSync from 'fs';
+import { promises as fs } from 'fs';
+import path from 'path';
+import * as logger from '../utils/logger';
+import {
+  ConsoleSink,
+  JsonLinesSink,
+  Logger,
+  getLogLevelFromEnv,
+  isLogLevel,
+  setLogger,
+  LOG_LEVELS,
+  type LogLevel,
+  type LogSink,
+} from '../utils/logger';
+
+// Import collectors
+import {
+  NpmCollector,
+  getNodeTypePrefix,
+  resolveNodePackages,
+  type NodePackageOptions,
+  type SimplifiedNodeInfo,
+} from '../collectors/npm-collector';
+import { ApiCollector, type NodeUsageStats, type WorkflowDefinition } from '../collectors/api-collector';
+import { WorkflowUsageCollector, blendUsageStats } from '../collectors/workflow-usage-collector';
+import { CredentialCollector, type CredentialTypeInfo } from '../collectors/credential-collector';
+
+// Import parsers
+import { NodeParser, type NodeClass, type ParsedNode } from '../parsers/node-parser';
+import { PropertyParser, type ParsedProperties } from '../parsers/property-parser';
+import { InputOutputParser } from '../parsers/input-output-parser';
+
+// Import organizers
+import { PriorityRanker, type ScoredNode } from '../organizers/priority-ranker';
+
+// Import generators
+import { SkillGenerator, type EnrichedNodeInfo, type SkillConfig, type ResourceFile } from '../generators/skill-generator';
+import { TemplateGenerator, type Template } from '../generators/template-generator';
+import { TemplateCategorizer, type TemplateCategory } from '../generators/template-categorizer';
+import { TemplateSelector } from '../organizers/template-selector';
+import {
+  createHttpTransport,
+  getHttpModeFromEnv,
+  DEFAULT_FIXTURES_DIR,
+  type HttpMode,
+  type HttpTransport,
+} from '../utils/http-transport';
+import { ResourceGenerator } from '../generators/resource-generator';
+import { ConnectionRuleGenerator } from '../generators/connection-rule-generator';
+import { CommunityGenerator } from '../generators/community-generator';
+import { CredentialGenerator } from '../generators/credential-generator';
+import { KnowledgeExporter } from '../generators/knowledge-exporter';
+
+// Import analyzers
+import { CompatibilityAnalyzer } from '../analyzers/compatibility-analyzer';
+import { normalizeNodeType } from '../analyzers/workflow-validator';
+import { CoOccurrenceMiner, type NodeCoOccurrenceGraph } from '../analyzers/co-occurrence-miner';
+import { WorkflowPatternMiner, type WorkflowPatterns } from '../analyzers/workflow-pattern-miner';
+import type { NodeConnectionInfo, CompatibilityMatrix } from '../models/connection';
+
+// Import cache manager
+import { TemplateCacheManager } from '../utils/template-cache-manager';
+import { BuildCache, type BuildCacheStats } from '../utils/build-cache';
+import { OutputWriter, type OutputWriterStats } from '../utils/output-writer';
+
+import {
+  DEFAULT_LOCALE,
+  SUPPORTED_LOCALES,
+  getMessages,
+  isSupportedLocale,
+  type Locale,
+} from '../i18n';
+
+import {
+  StageRegistry,
+  type BuildStage,
+  type StageContext,
+  type StagePosition,
+  type StageSelection,
+} from './stage-registry';
+
+/**
+ * Version of the cached artifact layout
+ * Bump when parsers change the shape of cached data (e.g. properties.json)
+ */
+const CACHE_SCHEMA_VERSION = 5;
+
+/**
+ * Build options
+ * Relative paths are resolved against projectRoot
+ */
+export interface BuildOptions {
+  configPath?: string;
+  outputDir?: string;
+  cacheDir?: string;
+  skipCache?: boolean;
+  maxNodes?: number;
+  projectRoot?: string;
+  /** Run only these stages */
+  only?: string[];
+  /** Skip these stages */
+  skip?: string[];
+  /** Run from this stage onward */
+  from?: string;
+  /** Network mode of the collectors (N8N_SKILLS_HTTP_MODE or live when omitted) */
+  httpMode?: HttpMode;
+  /** Directory of recorded HTTP fixtures (default data/fixtures) */
+  fixturesDir?: string;
+  /** Language of the generated skill pack (output goes to output/<locale> when outputDir is omitted) */
+  locale?: Locale;
+  /** Minimum log level (N8N_SKILLS_LOG_LEVEL or info when omitted) */
+  logLevel?: LogLevel;
+  /** Console log format: text lines or one JSON object per line (default text) */
+  logFormat?: 'text' | 'json';
+  /** Also write every log record as JSON lines to this file */
+  logFile?: string;
+  /** Build summary with durations and warnings per stage (default logs/build-summary.json) */
+  summaryFile?: string;
+}
+
+/**
+ * Build result
+ */
+export interface BuildResult {
+  success: boolean;
+  totalNodes: number;
+  topNodes: number;
+  resourceNodes: number;
+  outputPath: string;
+  duration: number;
+  errors?: string[];
+  cache?: BuildCacheStats;
+  output?: OutputWriterStats;
+}
+
+/**
+ * Build configuration (config/skill-config.json)
+ */
+export interface BuildConfig {
+  n8n_version: string;
+  max_nodes_in_main_skill: number;
+  high_priority_node_count?: number;
+  merge_remaining_nodes?: boolean;
+  max_nodes_per_merged_file?: number;
+  categories: Record<string, CategoryConfig>;
+  output_format: string;
+  include_examples: boolean;
+  include_templates: boolean;
+  max_template_examples: number;
+  docs_summary_max_length: number;
+  property_max_count: number;
+  /** Extra node packages documented like core nodes (npm package names or local paths) */
+  extra_packages?: string[];
+  /** Paginated template collection and selection (top 20 of one page when omitted) */
+  template_collection?: TemplateCollectionConfig;
+  /** Usage statistics from our own workflow exports */
+  workflow_usage?: WorkflowUsageConfig;
+}
+
+/**
+ * Workflow usage configuration (skill-config.json workflow_usage)
+ */
+export interface WorkflowUsageConfig {
+  /** Exported workflow JSON file or directory, relative to the project root */
+  path: string;
+  /** Share of our own statistics when blending with public templates (0-1, default 1) */
+  blend_weight?: number;
+  /** Count disabled nodes */
+  include_disabled?: boolean;
+}
+
+/**
+ * Node category configuration (skill-config.json categories)
+ */
+export interface CategoryConfig {
+  name: string;
+  priority: number;
+  max_nodes: number;
+}
+
+/**
+ * Parsed properties of a node (properties.json entry)
+ */
+interface NodePropertiesEntry {
+  properties: ParsedProperties;
+  version: string;
+  nodeCategory: ParsedNode['nodeCategory'];
+}
+
+/**
+ * Template collection configuration (skill-config.json template_collection)
+ */
+export interface TemplateCollectionConfig {
+  /** Templates per API page */
+  page_size?: number;
+  /** Stop paging after this many pages (whole catalog when omitted) */
+  max_pages?: number;
+  /** Templates with fewer views are not collected */
+  min_views?: number;
+  /** Share of the selection score given to recency (0-1) */
+  recency_weight?: number;
+  /** Age at which the recency score halves (days) */
+  recency_half_life_days?: number;
+  /** Templates per category unless listed in category_quotas */
+  per_category?: number;
+  /** Templates per category id (e.g. "learning": 5) */
+  category_quotas?: Record<string, number>;
+  /** Total number of templates with complete workflows */
+  max_templates?: number;
+}
+
+/**
+ * Build statistics
+ */
+interface BuildStats {
+  totalNodes: number;
+  topNodes: number;
+  resourceNodes: number;
+  templatesCollected: number;
+  startTime: Date;
+  endTime?: Date;
+  duration?: number;
+}
+
+/**
+ * Main build class
+ */
+export class SkillBuilder {
+  private config: BuildConfig;
+  private stats: BuildStats;
+  private projectRoot: string;
+  private outputDir: string;
+  private cacheDir: string;
+  private skipCache: boolean;
+  private errors: string[] = [];
+  private registry = new StageRegistry();
+  private selection: StageSelection;
+  private artifacts = new Map<string, unknown>();
+  private cache: BuildCache;
+  private writer: OutputWriter;
+  private httpMode: HttpMode;
+  private transport: HttpTransport;
+  private locale: Locale;
+  private logLevel: LogLevel;
+  private logFormat: 'text' | 'json';
+  private logFile?: string;
+  private summaryFile: string;
+
+  constructor(options: BuildOptions = {}) {
+    if (options.locale !== undefined && !isSupportedLocale(options.locale)) {
+      throw new Error(`Unsupported locale: ${options.locale} (supported: ${SUPPORTED_LOCALES.join(', ')})`);
+    }
+    this.locale = options.locale || DEFAULT_LOCALE;
+    if (options.logLevel !== undefined && !isLogLevel(options.logLevel)) {
+      throw new Error(`Invalid log level: ${options.logLevel} (expected ${LOG_LEVELS.join(', ')})`);
+    }
+    this.logLevel = options.logLevel || getLogLevelFromEnv();
+    this.logFormat = options.logFormat || 'text';
+    this.projectRoot = path.resolve(options.projectRoot || process.cwd());
+    this.outputDir = path.resolve(
+      this.projectRoot,
+      options.outputDir || (options.locale ? path.join('output', options.locale) : 'output')
+    );
+    this.cacheDir = path.resolve(this.projectRoot, options.cacheDir || 'data/cache');
+    this.logFile = options.logFile ? path.resolve(this.projectRoot, options.logFile) : undefined;
+    this.summaryFile = path.resolve(this.projectRoot, options.summaryFile || 'logs/build-summary.json');
+    this.skipCache = options.skipCache === true;
+    this.selection = { only: options.only, skip: options.skip, from: options.from };
+    this.config = this.loadConfig(options.configPath || 'config/skill-config.json');
+    if (options.maxNodes !== undefined) {
+      this.config.max_nodes_in_main_skill = options.maxNodes;
+    }
+    this.cache = new BuildCache({
+      cacheDir: this.cacheDir,
+      config: this.config,
+      // Installed versions of core and extra packages invalidate cached node data
+      packages: resolveNodePackages(this.getPackageOptions()).map(pkg => pkg.path),
+      generatorVersion: `${this.getProjectVersion()}+cache.${CACHE_SCHEMA_VERSION}`,
+    });
+    this.writer = new OutputWriter({ rootDir: this.outputDir });
+    this.httpMode = options.httpMode || getHttpModeFromEnv();
+    this.transport = createHttpTransport({
+      mode: this.httpMode,
+      fixturesDir: path.resolve(this.projectRoot, options.fixturesDir || DEFAULT_FIXTURES_DIR),
+    });
+    this.stats = {
+      totalNodes: 0,
+      topNodes: 0,
+      resourceNodes: 0,
+      templatesCollected: 0,
+      startTime: new Date(),
+    };
+    this.registerDefaultStages();
+  }
+
+  /**
+   * Load configuration file
+   */
+  private loadConfig(configPath: string): BuildConfig {
+    try {
+      const fullPath = path.resolve(this.projectRoot, configPath);
+      const content = JSON.parse(fsSync.readFileSync(fullPath, 'utf-8'));
+      logger.info(`Successfully loaded config: ${configPath}`);
+      return content;
+    } catch (error) {
+      logger.error('Failed to load config file', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Node package selection from the config
+   */
+  private getPackageOptions(): NodePackageOptions {
+    return { extraPackages: this.config.extra_packages, projectRoot: this.projectRoot };
+  }
+
+  /**
+   * Get project version from package.json
+   */
+  private getProjectVersion(): string {
+    try {
+      const packagePath = path.resolve(this.projectRoot, 'package.json');
+      const packageJson = JSON.parse(fsSync.readFileSync(packagePath, 'utf-8'));
+      return packageJson.version || '1.0.0';
+    } catch (error) {
+      logger.error('Failed to read package.json version', error);
+      return '1.0.0';
+    }
+  }
+
+  /**
+   * Record a step error for the build result
+   */
+  private recordError(step: string, error: unknown): void {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    this.errors.push(`${step}: ${errorMsg}`);
+  }
+
+  /**
+   * Ensure directory exists
+   */
+  private async ensureDirectory(dirPath: string): Promise<void> {
+    try {
+      await fs.mkdir(dirPath, { recursive: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Save cache data
+   */
+  private async saveCache(filename: string, data: unknown): Promise<void> {
+    await this.cache.set(filename, data);
+    logger.info(`Cache saved: ${filename}`);
+  }
+
+  /**
+   * Load cache data
+   * Returns null when skipCache is set or the cached artifact was built from other inputs
+   */
+  private async loadCache<T>(filename: string): Promise<T | null> {
+    if (this.skipCache) {
+      return null;
+    }
+    const cached = await this.cache.get<T>(filename);
+    if (!cached && this.cache.getStats().artifacts[filename] === 'stale') {
+      logger.info(`Cache invalidated: ${filename} (package versions, config or generator changed)`);
+    }
+    return cached;
+  }
+
+  /**
+   * Read cache file regardless of skipCache and cache key (used for recovery)
+   */
+  private async readCacheFile<T>(filename: string): Promise<T | null> {
+    return this.cache.getStale<T>(filename);
+  }
+
+  /**
+   * Delay between API requests (none when replaying fixtures)
+   */
+  private getRequestDelay(): number {
+    return this.httpMode === 'replay' ? 0 : 500;
+  }
+
+  /**
+   * Step 1: Collect node information
+   */
+  private async collectNodes(): Promise<SimplifiedNodeInfo[]> {
+    logger.info('===== Step 1: Collecting node information =====');
+
+    // Check cache
+    const cached = await this.loadCache<SimplifiedNodeInfo[]>('nodes.json');
+    if (cached) {
+      logger.info(`Using cached node data (${cached.length} nodes)`);
+      return cached;
+    }
+
+    logger.info('Collecting node information from NPM packages...');
+
+    // Detect CI environment
+    const isCI = process.env.CI === 'true' || process.env.GITHUB_ACTIONS === 'true';
+    if (isCI) {
+      logger.info('CI environment detected, enabling memory optimization mode');
+    }
+
+    try {
+      const npmCollector = new NpmCollector(this.getPackageOptions());
+      const nodes = await npmCollector.collectAll();
+
+      logger.success(`Successfully collected ${nodes.length} nodes`);
+
+      await this.saveCache('nodes.json', nodes);
+
+      // Trigger garbage collection in CI environment
+      if (isCI && global.gc) {
+        global.gc();
+        logger.info('Executed memory garbage collection');
+      }
+
+      return nodes;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logger.error('Error occurred while collecting node information', error);
+
+      // Try to recover from cache (even if cache might be old)
+      const oldCache = await this.readCacheFile<SimplifiedNodeInfo[]>('nodes.json');
+      if (oldCache && oldCache.length > 0) {
+        logger.warn(`Recovering using old cache data (${oldCache.length} nodes)`);
+        this.recordError('collectNodes', error);
+        return oldCache;
+      }
+
+      throw new Error(`Failed to collect nodes and cannot recover: ${errorMsg}`);
+    }
+  }
+
+  /**
+   * Step 2: Collect usage statistics
+   * Public template statistics, blended with our own workflow exports when configured
+   */
+  private async collectUsageStats(): Promise<NodeUsageStats> {
+    logger.info('===== Step 2: Collecting usage statistics =====');
+
+    const publicStats = await this.collectPublicUsageStats();
+    const workflowUsage = this.config.workflow_usage;
+    if (!workflowUsage) {
+      return publicStats;
+    }
+
+    // Our own workflows change independently of the cache key, so they are always re-read
+    const exportPath = path.resolve(this.projectRoot, workflowUsage.path);
+    logger.info(`Reading workflow exports from ${exportPath}...`);
+    try {
+      const collector = new WorkflowUsageCollector({ includeDisabled: workflowUsage.include_disabled });
+      const localStats = await collector.collectFromPath(exportPath);
+      await this.saveCache('workflow-usage.json', localStats);
+
+      const weight = workflowUsage.blend_weight ?? 1;
+      logger.success(
+        `Collected usage of ${Object.keys(localStats.nodeUsage).length} node types from ${localStats.workflowCount} workflows` +
+        ` (weight ${weight} against public templates)`
+      );
+      return blendUsageStats(publicStats, localStats.nodeUsage, weight);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logger.warn(`Failed to read workflow exports, using public statistics only: ${errorMsg}`);
+      this.recordError('collectWorkflowUsage', error);
+      return publicStats;
+    }
+  }
+
+  /**
+   * Usage statistics of the public n8n.io templates
+   */
+  private async collectPublicUsageStats(): Promise<NodeUsageStats> {
+    // Check cache
+    const cached = await this.loadCache<NodeUsageStats>('usage-stats.json');
+    if (cached) {
+      logger.info('Using cached usage statistics data');
+      return cached;
+    }
+
+    logger.info('Collecting templates and usage statistics from n8n.io API...');
+    try {
+      const collection = this.config.template_collection;
+      const apiCollector = new ApiCollector({
+        limit: this.config.max_template_examples,
+        transport: this.transport,
+      });
+      const result = collection
+        ? await apiCollector.fetchAllTemplates({
+          pageSize: collection.page_size,
+          maxPages: collection.max_pages,
+          minViews: collection.min_views,
+          delayMs: this.getRequestDelay(),
+        })
+        : await apiCollector.fetchTemplates();
+
+      this.stats.templatesCollected = result.totalTemplates;
+      logger.success(`Successfully collected ${result.totalTemplates} templates`);
+
+      await this.saveCache('usage-stats.json', result.nodeUsageStats);
+      await this.saveCache('templates.json', result.templates);
+
+      return result.nodeUsageStats;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logger.warn(`Failed to collect usage statistics, using empty data: ${errorMsg}`);
+      this.recordError('collectUsageStats', error);
+      return {};
+    }
+  }
+
+  /**
+   * Step 3: Organize and rank nodes
+   */
+  private async organizeNodes(
+    nodes: SimplifiedNodeInfo[],
+    usageStats: NodeUsageStats,
+    propertiesMap: Map<string, NodePropertiesEntry>
+  ): Promise<{ topNodes: EnrichedNodeInfo[]; remainingNodes: EnrichedNodeInfo[] }> {
+    logger.info('===== Step 3: Organizing and ranking nodes =====');
+
+    // Create priority ranker
+    const priorityConfigPath = path.resolve(this.projectRoot, 'config/priorities.json');
+    const ranker = new PriorityRanker(priorityConfigPath);
+
+    // Usage statistics use workflow node types (n8n-nodes-base.x), nodes use the short form (nodes-base.x)
+    const usageByType = new Map(
+      Object.entries(usageStats).map(([nodeType, stats]) => [normalizeNodeType(nodeType), stats])
+    );
+
+    // Convert node data to scoring format
+    const nodeDataList = nodes.map(node => ({
+      nodeType: node.nodeType,
+      displayName: node.displayName,
+      description: node.description,
+      category: node.category,
+      usageCount: usageByType.get(node.nodeType)?.count || 0,
+      hasDocumentation: false,
+      packageName: node.packageName,
+    }));
+
+    logger.info('Calculating node priority scores...');
+    const scoredNodes = ranker.rankNodes(nodeDataList);
+    logger.progress(scoredNodes.length, nodes.length, 'scored');
+
+    // Sort and get top N nodes
+    const topCount = this.config.max_nodes_in_main_skill;
+    const sortedNodes = scoredNodes.sort((a, b) => b.score - a.score);
+    const topScoredNodes = sortedNodes.slice(0, topCount);
+    const remainingScoredNodes = sortedNodes.slice(topCount);
+
+    this.stats.topNodes = topScoredNodes.length;
+    this.stats.resourceNodes = remainingScoredNodes.length;
+
+    logger.success(`Selected ${topScoredNodes.length} primary nodes`);
+    logger.info(`Remaining ${remainingScoredNodes.length} nodes will be generated as resource files`);
+
+    // Convert to EnrichedNodeInfo
+    const enrichNode = (scored: ScoredNode, original: SimplifiedNodeInfo): EnrichedNodeInfo => {
+      const propData = propertiesMap.get(scored.nodeType);
+
+      return {
+        ...original,
+        usageCount: scored.usageCount,
+        usagePercentage: usageByType.get(scored.nodeType)?.percentage || 0,
+        properties: propData?.properties,
+        // Preserve priority score information (for tiered merge strategy)
+        score: scored.score,
+        rank: scored.rank,
+        tier: scored.tier,
+      };
+    };
+
+    const topNodes = topScoredNodes.map(scored => {
+      const original = nodes.find(n => n.nodeType === scored.nodeType)!;
+      return enrichNode(scored, original);
+    });
+
+    const remainingNodes = remainingScoredNodes.map(scored => {
+      const original = nodes.find(n => n.nodeType === scored.nodeType)!;
+      return enrichNode(scored, original);
+    });
+
+    return { topNodes, remainingNodes };
+  }
+
+  /**
+   * Step 6: Generate main Skill document
+   */
+  private async generateMainSkill(
+    topNodes: EnrichedNodeInfo[],
+    usageStats: NodeUsageStats,
+    resourceFiles: ResourceFile[],
+    templateCount: number = 20,
+    workflowPatterns?: WorkflowPatterns,
+    remainingNodes: EnrichedNodeInfo[] = []
+  ): Promise<void> {
+    logger.info('===== Step 6: Generating main Skill document =====');
+
+    const skillConfig: SkillConfig = {
+      name: 'n8n-skills',
+      version: this.getProjectVersion(),
+      description: getMessages(this.locale).skill.description,
+      topNodesCount: this.config.max_nodes_in_main_skill,
+      locale: this.locale,
+    };
+
+    const generator = new SkillGenerator(skillConfig);
+    const content = generator.generate({
+      nodes: topNodes,
+      nodeUsageStats: usageStats,
+      resourceFiles,
+      config: skillConfig,
+      templateCount,
+      workflowPatterns,
+    });
+
+    const outputPath = path.join(this.outputDir, 'SKILL.md');
+    await this.writer.write(outputPath, content, 'SkillGenerator');
+
+    const lineCount = content.split('\n').length;
+    const charCount = content.length;
+    logger.success(`Main Skill document generated: ${outputPath}`);
+    logger.info(`File size: ${lineCount} lines, ${charCount} characters`);
+
+    // Generate guide files
+    await this.generateGuideFiles(
+      generator,
+      topNodes,
+      usageStats,
+      resourceFiles,
+      templateCount,
+      workflowPatterns,
+      [...topNodes, ...remainingNodes]
+    );
+  }
+
+  /**
+   * Generate guide files (how-to-find-nodes.md, usage-guide.md, workflow-patterns.md)
+   */
+  private async generateGuideFiles(
+    generator: SkillGenerator,
+    topNodes: EnrichedNodeInfo[],
+    usageStats: NodeUsageStats,
+    resourceFiles: ResourceFile[],
+    templateCount: number = 20,
+    workflowPatterns?: WorkflowPatterns,
+    allNodes: EnrichedNodeInfo[] = topNodes
+  ): Promise<void> {
+    logger.info('===== Step 6.5: Generating guide files =====');
+
+    const guidesDir = path.join(this.outputDir, 'resources/guides');
+
+    // Generate how-to-find-nodes.md
+    const howToFindContent = generator.generateHowToFindNodesFile(topNodes, usageStats);
+    await this.writer.write(
+      path.join(guidesDir, 'how-to-find-nodes.md'),
+      howToFindContent,
+      'SkillGenerator'
+    );
+    logger.success('Generated: how-to-find-nodes.md');
+
+    // Generate usage-guide.md
+    const usageGuideContent = generator.generateUsageGuideFile(resourceFiles);
+    await this.writer.write(
+      path.join(guidesDir, 'usage-guide.md'),
+      usageGuideContent,
+      'SkillGenerator'
+    );
+    logger.success('Generated: usage-guide.md');
+
+    // Generate workflow-patterns.md
+    const workflowPatternsContent = generator.generateWorkflowPatternsFile(templateCount, workflowPatterns, allNodes);
+    await this.writer.write(
+      path.join(guidesDir, 'workflow-patterns.md'),
+      workflowPatternsContent,
+      'SkillGenerator'
+    );
+    logger.success('Generated: workflow-patterns.md');
+  }
+
+  /**
+   * Step 3.5: Build compatibility matrix
+   */
+  private async buildCompatibilityMatrix(
+    allNodes: EnrichedNodeInfo[]
+  ): Promise<{ nodeConnectionInfoList: NodeConnectionInfo[]; compatibilityMatrix: CompatibilityMatrix }> {
+    logger.info('===== Step 3.5: Building node compatibility matrix =====');
+
+    // Check cache
+    const cachedInfo = await this.loadCache<NodeConnectionInfo[]>('node-io-config.json');
+    const cachedMatrix = await this.loadCache<CompatibilityMatrix>('compatibility-matrix.json');
+
+    if (cachedInfo && cachedMatrix) {
+      logger.info('Using cached compatibility data');
+      return {
+        nodeConnectionInfoList: cachedInfo,
+        compatibilityMatrix: cachedMatrix
+      };
+    }
+
+    logger.info('Collecting node I/O configurations...');
+
+    // Reload nodes to extract I/O information
+    const npmCollector = new NpmCollector(this.getPackageOptions());
+    const loadedNodes = await npmCollector.collectAllWithDetails();
+    const ioParser = new InputOutputParser();
+
+    const nodeConnectionInfoList: NodeConnectionInfo[] = [];
+
+    // Helper function to extract node description
+    const getNodeDescription = (nodeClass: NodeClass): { name?: string } => {
+      try {
+        if ('description' in nodeClass && nodeClass.description) {
+          return nodeClass.description;
+        }
+        const instance = typeof nodeClass === 'function' ? new nodeClass() : nodeClass;
+        if (instance?.nodeVersions) {
+          return instance.description || instance.baseDescription || {};
+        }
+        return instance?.description || {};
+      } catch {
+        return {};
+      }
+    };
+
+    for (const enrichedNode of allNodes) {
+      // Find corresponding loadedNode
+      // enrichedNode.nodeType format: "nodes-base.actionNetwork"
+      // loadedNode description.name format: "actionNetwork" (no prefix)
+      const loadedNode = loadedNodes.find(ln => {
+        // Extract name from node description
+        const description = getNodeDescription(ln.NodeClass);
+        const descName = description?.name || '';
+
+        // Build full node type (with package prefix)
+        const fullNodeType = descName ? `${getNodeTypePrefix(ln.packageName)}.${descName}` : '';
+
+        // Match full node type
+        return enrichedNode.nodeType === fullNodeType;
+      });
+
+      if (!loadedNode) {
+        continue;
+      }
+
+      try {
+        const ioInfo = ioParser.parseNodeInputOutput(loadedNode.NodeClass);
+
+        nodeConnectionInfoList.push({
+          nodeType: enrichedNode.nodeType,
+          displayName: enrichedNode.displayName,
+          inputTypes: ioInfo.inputTypes,
+          outputTypes: ioInfo.outputTypes,
+          isMultiInput: ioInfo.isMultiInput,
+          isMultiOutput: ioInfo.isMultiOutput,
+          requiresSpecialInputs: ioInfo.requiresSpecialInputs,
+          category: enrichedNode.category || 'misc',
+          outputCount: ioInfo.outputCount,
+          outputNames: ioInfo.outputNames,
+          isDynamicOutput: ioInfo.isDynamicOutput
+        });
+      } catch (error) {
+        // Ignore nodes that cannot be parsed
+      }
+    }
+
+    logger.success(`Successfully collected I/O configurations for ${nodeConnectionInfoList.length} nodes`);
+
+    // Build compatibility matrix
+    logger.info('Building compatibility matrix...');
+    const analyzer = new CompatibilityAnalyzer();
+    const compatibilityMatrix = analyzer.buildCompatibilityMatrix(nodeConnectionInfoList);
+
+    logger.success('Compatibility matrix build completed');
+
+    // Save cache
+    await this.saveCache('node-io-config.json', nodeConnectionInfoList);
+    await this.saveCache('compatibility-matrix.json', compatibilityMatrix);
+
+    return { nodeConnectionInfoList, compatibilityMatrix };
+  }
+
+  /**
+   * Step 4.5: Generate compatibility matrix document
+   */
+  private async generateCompatibilityMatrixFile(
+    matrix: CompatibilityMatrix,
+    nodeList: NodeConnectionInfo[]
+  ): Promise<void> {
+    logger.info('===== Step 4.5: Generating compatibility matrix document =====');
+
+    const ruleGenerator = new ConnectionRuleGenerator(this.locale);
+    const matrixMd = ruleGenerator.generateCompatibilityMatrix(matrix, nodeList, 50);
+
+    const outputPath = path.join(this.outputDir, 'resources/compatibility-matrix.md');
+    await this.writer.write(outputPath, matrixMd, 'ConnectionRuleGenerator');
+
+    logger.success(`Compatibility matrix generated: ${outputPath}`);
+  }
+
+  /**
+   * Step 7: Generate template files
+   * @returns The number of templates generated
+   */
+  private async generateTemplates(): Promise<number> {
+    logger.info('===== Step 7: Generating template files =====');
+
+    // Check for templates cache (always read: it is the template source, not a derived artifact)
+    const templates = await this.readCacheFile<Template[]>('templates.json');
+    if (!templates || !Array.isArray(templates) || templates.length === 0) {
+      logger.warn('No templates cache found, skipping template generation');
+      return 0;
+    }
+
+    logger.info(`Found ${templates.length} templates`);
+
+    const categorizer = TemplateCategorizer.fromFile(path.resolve(this.projectRoot, 'config/template-categories.json'));
+    const collection = this.config.template_collection;
+    let topTemplates: Template[];
+
+    if (collection) {
+      // Select per category with quotas, minimum views and recency weighting
+      const selector = new TemplateSelector({
+        minViews: collection.min_views,
+        recencyWeight: collection.recency_weight,
+        recencyHalfLifeDays: collection.recency_half_life_days,
+        defaultQuota: collection.per_category,
+        categoryQuotas: collection.category_quotas as Partial<Record<TemplateCategory, number>>,
+        maxTemplates: collection.max_templates,
+      }, categorizer);
+      topTemplates = selector.select(templates);
+
+      logger.info(`Selected ${topTemplates.length} templates across categories to fetch complete workflows`);
+    } else {
+      // Select top 20 most popular templates (sorted by view count)
+      topTemplates = [...templates]
+        .sort((a, b) => b.totalViews - a.totalViews)
+        .slice(0, 20);
+
+      logger.info(`Selecting top ${topTemplates.length} most popular templates to fetch complete workflows`);
+    }
+
+    // Initialize cache manager
+    const cacheManager = new TemplateCacheManager(this.cacheDir);
+
+    // Check for forced update
+    const forceUpdate = this.skipCache || process.env.FORCE_TEMPLATE_UPDATE === 'true';
+    if (forceUpdate) {
+      logger.info('Detected FORCE_TEMPLATE_UPDATE=true or skipCache, will force re-download all workflows');
+    }
+
+    let workflows: Array<WorkflowDefinition & { id: number; name: string }> = [];
+
+    if (forceUpdate) {
+      // Force update: download all workflows
+      const apiCollector = new ApiCollector({ transport: this.transport });
+      const templateIds = topTemplates.map(t => t.id);
+
+      logger.info(`Starting to fetch complete workflows (${this.getRequestDelay()}ms interval between requests)...`);
+      workflows = await apiCollector.fetchWorkflowDefinitions(templateIds, this.getRequestDelay());
+
+      logger.info(`Successfully fetched ${workflows.length}/${topTemplates.length} workflows`);
+
+      // Update cache
+      await cacheManager.updateCache(topTemplates, workflows);
+    } else {
+      // Smart cache mode
+      logger.info('\nAnalyzing template cache changes...');
+      const analysis = await cacheManager.analyzeCacheChanges(topTemplates);
+
+      if (analysis.needsUpdate) {
+        logger.info(`✓ New: ${analysis.newTemplates.length}`);
+        logger.info(`✓ Rank changed: ${analysis.rankChanged.length}`);
+        logger.info(`✓ Unchanged: ${analysis.unchanged.length}`);
+        logger.info(`✓ Removed: ${analysis.removed.length}`);
+
+        const needsDownload = [...analysis.newTemplates, ...analysis.rankChanged];
+
+        if (needsDownload.length > 0) {
+          logger.info(`\nNeed to download ${needsDownload.length} workflows`);
+
+          // Download workflows that need updates
+          const apiCollector = new ApiCollector({ transport: this.transport });
+          logger.info(`Starting to download new/changed workflows (${this.getRequestDelay()}ms interval between requests)...`);
+          const newWorkflows = await apiCollector.fetchWorkflowDefinitions(needsDownload, this.getRequestDelay());
+
+          logger.success(`Successfully downloaded ${newWorkflows.length} workflows`);
+
+          // Read unchanged workflows from cache
+          logger.info(`Reading ${analysis.unchanged.length} workflows from cache`);
+          const cachedWorkflows = await cacheManager.getCachedWorkflows(analysis.unchanged);
+
+          // Merge newly downloaded and cached workflows
+          workflows = [
+            ...newWorkflows,
+            ...Array.from(cachedWorkflows.values())
+          ];
+
+          logger.success(`Total ${workflows.length} workflows prepared`);
+
+          // Update cache
+          logger.info('Updating cache...');
+          await cacheManager.updateCache(topTemplates, newWorkflows);
+          logger.success('Cache updated');
+        } else {
+          logger.info('All template rankings unchanged, reading from cache...');
+          const cachedWorkflows = await cacheManager.getCachedWorkflows(
+            topTemplates.map(t => t.id)
+          );
+          workflows = Array.from(cachedWorkflows.values());
+          logger.success(`Read ${workflows.length} workflows from cache`);
+        }
+      } else {
+        logger.info('All templates completely unchanged, reading from cache...');
+        const cachedWorkflows = await cacheManager.getCachedWorkflows(
+          topTemplates.map(t => t.id)
+        );
+        workflows = Array.from(cachedWorkflows.values());
+        logger.success(`Read ${workflows.length} workflows from cache`);
+      }
+    }
+
+    // Enhance templates (merge template and workflow)
+    const generator = new TemplateGenerator({
+      outputDir: path.join(this.outputDir, 'resources/templates'),
+      // Selected templates are already limited per category
+      maxTemplatesPerCategory: collection ? topTemplates.length : 20,
+      writer: this.writer,
+      categorizer,
+      locale: this.locale,
+    });
+
+    const enhancedTemplates = topTemplates.map(template => {
+      const workflow = workflows.find(w => w.id === template.id);
+      if (workflow) {
+        return generator.enhanceTemplate(template, workflow);
+      }
+      return template;
+    });
+
+    logger.info(`Enhanced ${enhancedTemplates.filter(t => 'workflow' in t).length} templates`);
+
+    // Generate files
+    await generator.generate(enhancedTemplates);
+    logger.success('Template files generation completed');
+
+    return enhancedTemplates.length;
+  }
+
+  /**
+   * Step 7.5: Mine workflow patterns from the template workflows cached by the templates step
+   */
+  private async mineWorkflowPatterns(): Promise<WorkflowPatterns> {
+    logger.info('===== Step 7.5: Mining workflow patterns =====');
+
+    const workflows = await new TemplateCacheManager(this.cacheDir).getAllCachedWorkflows();
+    const patterns = new WorkflowPatternMiner().mine(workflows);
+
+    logger.success(
+      `Found ${patterns.chains.length} node chains and ${patterns.aiClusters.length} AI node setups in ${workflows.length} template workflows`
+    );
+    await this.saveCache('workflow-patterns.json', patterns);
+
+    return patterns;
+  }
+
+  /**
+   * Step 5.5: Generate community node documentation
+   * Reads from cache (generated during update:community) and generates detailed docs
+   */
+  private async generateCommunityDocs(): Promise<void> {
+    logger.info('===== Step 5.5: Generating community node documentation =====');
+
+    try {
+      const configPath = path.resolve(this.projectRoot, 'config/community-packages.json');
+      const cachePath = path.join(this.cacheDir, 'community-nodes.json');
+
+      // Check if community packages config exists and has packages
+      try {
+        const content = await fs.readFile(configPath, 'utf-8');
+        const config = JSON.parse(content);
+
+        if (!config.packages || config.packages.length === 0) {
+          logger.warn('No community packages configured, skipping generation');
+          return;
+        }
+
+        logger.info(`Found ${config.packages.length} community packages`);
+      } catch {
+        logger.warn('Community packages config not found, skipping generation');
+        return;
+      }
+
+      // Check if cache exists (generated during update:community)
+      try {
+        const cacheContent = await fs.readFile(cachePath, 'utf-8');
+        const cache = JSON.parse(cacheContent);
+        const cachedNodeCount = Object.keys(cache.nodes || {}).length;
+        logger.info(`Using cached node data (${cachedNodeCount} packages with details)`);
+      } catch {
+        logger.warn('Community nodes cache not found, will generate basic documentation only');
+        logger.info('Run "npm run update:community" to fetch detailed node information');
+      }
+
+      const generator = new CommunityGenerator({
+        outputDir: path.join(this.outputDir, 'resources/community'),
+        configPath,
+        cachePath,
+        writer: this.writer,
+        locale: this.locale,
+      });
+
+      await generator.generate();
+      logger.success('Community node documentation generated');
+    } catch (error) {
+      logger.warn(`Failed to generate community docs, continuing build: ${error}`);
+      this.recordError('generateCommunityDocs', error);
+      // Don't throw - this is optional and shouldn't fail the build
+    }
+  }
+
+  /**
+   * Create the logger of one build run from the logging options
+   */
+  private createLogger(): Logger {
+    const sinks: LogSink[] = [this.logFormat === 'json' ? new JsonLinesSink(process.stdout) : new ConsoleSink()];
+    if (this.logFile) {
+      sinks.push(new JsonLinesSink(this.logFile));
+    }
+    return new Logger({ level: this.logLevel, sinks });
+  }
+
+  /**
+   * Write the build summary (statistics, stage durations, warnings grouped by stage)
+   */
+  private writeSummary(log: Logger, success: boolean): void {
+    const cacheStats = this.cache.getStats();
+    const summary = log.writeSummary(this.summaryFile, {
+      success,
+      totalNodes: this.stats.totalNodes,
+      topNodes: this.stats.topNodes,
+      resourceNodes: this.stats.resourceNodes,
+      templates: this.stats.templatesCollected,
+      cache: { hits: cacheStats.hits, misses: cacheStats.misses, stale: cacheStats.stale },
+      output: this.writer.getStats(),
+      stepErrors: [...this.errors],
+    });
+
+    log.info(
+      `Nodes: ${this.stats.totalNodes} total, ${this.stats.topNodes} primary, ${this.stats.resourceNodes} resource; templates: ${this.stats.templatesCollected}`
+    );
+    log.info(`Cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses (${cacheStats.stale} stale)`);
+    log.info(
+      `Warnings: ${summary.warningCount}, errors: ${summary.errorCount}, step errors: ${this.errors.length} (summary: ${path.relative(this.projectRoot, this.summaryFile)})`
+    );
+  }
+
+  /**
+   * Step 1.5: Collect detailed node properties
+   */
+  private async collectDetailedProperties(): Promise<Map<string, NodePropertiesEntry>> {
+    logger.info('===== Step 1.5: Collecting detailed node properties =====');
+
+    // Check cache
+    const cached = await this.loadCache<Record<string, NodePropertiesEntry>>('properties.json');
+    if (cached) {
+      logger.info('Using cached property data');
+      return new Map(Object.entries(cached));
+    }
+
+    logger.info('Parsing node properties from NPM packages...');
+
+    const isCI = process.env.CI === 'true' || process.env.GITHUB_ACTIONS === 'true';
+
+    try {
+      const npmCollector = new NpmCollector(this.getPackageOptions());
+      const loadedNodes = await npmCollector.collectAllWithDetails();
+
+      const propertiesMap = new Map<string, NodePropertiesEntry>();
+      const nodeParser = new NodeParser();
+      const propertyParser = new PropertyParser();
+      const ioParser = new InputOutputParser();
+
+      let processed = 0;
+      for (const loadedNode of loadedNodes) {
+        try {
+          const parsed = nodeParser.parse(loadedNode.NodeClass, loadedNode.packageName);
+          const properties = propertyParser.parse(loadedNode.NodeClass);
+
+          // Record per-version connection types for multi-version nodes
+          properties.versions?.forEach(versionInfo => {
+            try {
+              const ioInfo = ioParser.parseNodeInputOutput(loadedNode.NodeClass, versionInfo.version);
+              versionInfo.inputTypes = ioInfo.inputTypes;
+              versionInfo.outputTypes = ioInfo.outputTypes;
+            } catch {
+              // Connection types are optional for version docs
+            }
+          });
+
+          propertiesMap.set(parsed.nodeType, {
+            properties,
+            version: parsed.version,
+            nodeCategory: parsed.nodeCategory,
+          });
+
+          processed++;
+          if (processed % 50 === 0) {
+            logger.progress(processed, loadedNodes.length, 'parsed');
+
+            // Trigger garbage collection periodically in CI environment
+            if (isCI && global.gc && processed % 100 === 0) {
+              global.gc();
+            }
+          }
+        } catch (error) {
+          // Ignore nodes that failed to parse
+        }
+      }
+
+      logger.success(`Successfully parsed properties for ${propertiesMap.size} nodes`);
+
+      // Convert to serializable format
+      const cacheData: Record<string, NodePropertiesEntry> = {};
+      propertiesMap.forEach((value, key) => {
+        cacheData[key] = value;
+      });
+
+      await this.saveCache('properties.json', cacheData);
+
+      // Execute final garbage collection
+      if (isCI && global.gc) {
+        global.gc();
+        logger.info('Executed memory garbage collection');
+      }
+
+      return propertiesMap;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logger.error('Error occurred while collecting node properties', error);
+
+      // Try to recover from cache
+      const oldCache = await this.readCacheFile<Record<string, NodePropertiesEntry>>('properties.json');
+      if (oldCache) {
+        logger.warn('Recovering using old cache data');
+        this.recordError('collectDetailedProperties', error);
+        return new Map(Object.entries(oldCache));
+      }
+
+      throw new Error(`Failed to collect node properties and cannot recover: ${errorMsg}`);
+    }
+  }
+
+  /**
+   * Step 3.6: Mine node co-occurrence from cached template workflows
+   * Uses the workflows cached by earlier template steps; the graph is empty before the first one
+   */
+  private async mineNodeGraph(): Promise<NodeCoOccurrenceGraph> {
+    logger.info('===== Step 3.6: Mining node co-occurrence from template workflows =====');
+
+    const workflows = await new TemplateCacheManager(this.cacheDir).getAllCachedWorkflows();
+    const graph = new CoOccurrenceMiner().mine(workflows);
+
+    if (workflows.length === 0) {
+      logger.warn('No cached template workflows yet, node co-occurrence sections will be skipped');
+    } else {
+      logger.success(`Mined ${graph.transitions.length} node transitions from ${workflows.length} template workflows`);
+    }
+    await this.saveCache('node-co-occurrence.json', graph);
+
+    return graph;
+  }
+
+  /**
+   * Step 4: Generate resource files for all nodes (using tiered merge strategy)
+   */
+  private async generateResourceFiles(
+    allNodes: EnrichedNodeInfo[],
+    compatibilityMatrix: CompatibilityMatrix,
+    nodeConnectionInfoList: NodeConnectionInfo[],
+    nodeGraph: NodeCoOccurrenceGraph
+  ): Promise<ResourceFile[]> {
+    logger.info('===== Step 4: Generating resource files =====');
+
+    // Re-sort all nodes by score (already contains score, rank, tier information)
+    const sortedAllNodes = [...allNodes].sort((a, b) => (b.score || 0) - (a.score || 0));
+
+    // Split into high-priority and low-priority nodes based on configuration
+    const highPriorityCount = this.config.high_priority_node_count || 50;
+    const highPriorityNodes = sortedAllNodes.slice(0, highPriorityCount);
+    const lowPriorityNodes = sortedAllNodes.slice(highPriorityCount);
+
+    logger.info(`High-priority nodes (individual files): ${highPriorityNodes.length}`);
+    logger.info(`Low-priority nodes (merged files): ${lowPriorityNodes.length}`);
+
+    const resourceGenerator = new ResourceGenerator({
+      outputDir: path.join(this.outputDir, 'resources'),
+      writer: this.writer,
+      locale: this.locale,
+      communityConfigPath: path.resolve(this.projectRoot, 'config/community-packages.json'),
+    });
+
+    // Generate resource files using tiered merge strategy
+    const resourceFiles = await resourceGenerator.generateTiered(
+      highPriorityNodes,
+      lowPriorityNodes,
+      compatibilityMatrix,
+      nodeConnectionInfoList,
+      nodeGraph
+    );
+
+    logger.success(`Successfully generated ${resourceFiles.length} resource files`);
+    return resourceFiles;
+  }
+
+  /**
+   * Step 4.5: Collect credential types and generate the credential catalog
+   */
+  private async generateCredentialDocs(allNodes: EnrichedNodeInfo[]): Promise<CredentialTypeInfo[]> {
+    logger.info('===== Step 4.5: Generating credential catalog =====');
+
+    let credentials = await this.loadCache<CredentialTypeInfo[]>('credentials.json');
+    if (credentials) {
+      logger.info(`Using cached credential data (${credentials.length} credential types)`);
+    } else {
+      credentials = await new CredentialCollector(this.getPackageOptions()).collectAll();
+      logger.success(`Successfully collected ${credentials.length} credential types`);
+      await this.saveCache('credentials.json', credentials);
+    }
+
+    const generator = new CredentialGenerator({
+      outputDir: path.join(this.outputDir, 'resources', 'credentials'),
+      writer: this.writer,
+      locale: this.locale,
+    });
+    await generator.generate(credentials, allNodes);
+
+    logger.success(`Generated credential catalog (${credentials.length} credential types)`);
+    return credentials;
+  }
+
+  /**
+   * Step 5.6: Export the node knowledge base as JSON/JSONL (output/data)
+   */
+  private async exportKnowledge(
+    nodes: EnrichedNodeInfo[],
+    connections: NodeConnectionInfo[],
+    compatibilityMatrix: CompatibilityMatrix
+  ): Promise<void> {
+    logger.info('===== Step 5.6: Exporting knowledge base =====');
+
+    const templates = await this.readCacheFile<Template[]>('templates.json');
+    const templateWorkflows = await new TemplateCacheManager(this.cacheDir).getAllCachedWorkflows();
+
+    const exporter = new KnowledgeExporter({
+      generatorVersion: this.getProjectVersion(),
+      n8nVersion: this.config.n8n_version,
+    });
+    const files = exporter.generate({
+      nodes,
+      connections,
+      compatibilityMatrix,
+      templates: Array.isArray(templates) ? templates : [],
+      templateWorkflows,
+    });
+
+    const exportDir = path.join(this.outputDir, 'data');
+    for (const file of files) {
+      await this.writer.write(path.join(exportDir, file.path), file.content, 'KnowledgeExporter');
+    }
+
+    logger.success(`Knowledge base exported: ${exportDir} (${nodes.length} nodes)`);
+  }
+
+  /**
+   * Register the built-in stages in execution order
+   */
+  private registerDefaultStages(): void {
+    const stages: BuildStage[] = [
+      {
+        name: 'collect',
+        description: 'Collect node information from NPM packages',
+        needs: [],
+        produces: ['nodes'],
+        run: async ctx => {
+          ctx.set('nodes', await this.collectNodes());
+        },
+      },
+      {
+        name: 'properties',
+        description: 'Parse detailed node properties',
+        needs: [],
+        produces: ['properties'],
+        run: async ctx => {
+          const propertiesMap = await this.collectDetailedProperties();
+          ctx.set('properties', Object.fromEntries(propertiesMap));
+        },
+      },
+      {
+        name: 'usage',
+        description: 'Collect template usage statistics',
+        needs: [],
+        produces: ['usageStats'],
+        run: async ctx => {
+          ctx.set('usageStats', await this.collectUsageStats());
+        },
+      },
+      {
+        name: 'organize',
+        description: 'Rank nodes and select primary nodes',
+        needs: ['nodes', 'usageStats', 'properties'],
+        produces: ['topNodes', 'remainingNodes'],
+        run: async ctx => {
+          const { topNodes, remainingNodes } = await this.organizeNodes(
+            ctx.get('nodes'),
+            ctx.get('usageStats'),
+            new Map(Object.entries(ctx.get<Record<string, NodePropertiesEntry>>('properties')))
+          );
+          ctx.set('topNodes', topNodes);
+          ctx.set('remainingNodes', remainingNodes);
+        },
+      },
+      {
+        name: 'compatibility',
+        description: 'Build node compatibility matrix',
+        needs: ['topNodes', 'remainingNodes'],
+        produces: ['nodeConnectionInfoList', 'compatibilityMatrix'],
+        run: async ctx => {
+          const { nodeConnectionInfoList, compatibilityMatrix } = await this.buildCompatibilityMatrix([
+            ...ctx.get<EnrichedNodeInfo[]>('topNodes'),
+            ...ctx.get<EnrichedNodeInfo[]>('remainingNodes'),
+          ]);
+          ctx.set('nodeConnectionInfoList', nodeConnectionInfoList);
+          ctx.set('compatibilityMatrix', compatibilityMatrix);
+        },
+      },
+      {
+        name: 'cooccurrence',
+        description: 'Mine node co-occurrence from cached template workflows',
+        needs: [],
+        produces: ['nodeGraph'],
+        run: async ctx => {
+          ctx.set('nodeGraph', await this.mineNodeGraph());
+        },
+      },
+      {
+        name: 'resources',
+        description: 'Generate node resource files',
+        needs: ['topNodes', 'remainingNodes', 'compatibilityMatrix', 'nodeConnectionInfoList', 'nodeGraph'],
+        produces: ['resourceFiles'],
+        run: async ctx => {
+          const resourceFiles = await this.generateResourceFiles(
+            [...ctx.get<EnrichedNodeInfo[]>('topNodes'), ...ctx.get<EnrichedNodeInfo[]>('remainingNodes')],
+            ctx.get('compatibilityMatrix'),
+            ctx.get('nodeConnectionInfoList'),
+            ctx.get('nodeGraph')
+          );
+          ctx.set('resourceFiles', resourceFiles);
+        },
+      },
+      {
+        name: 'credentials',
+        description: 'Generate credential type catalog',
+        needs: ['topNodes', 'remainingNodes'],
+        produces: ['credentialTypes'],
+        run: async ctx => {
+          ctx.set(
+            'credentialTypes',
+            await this.generateCredentialDocs([
+              ...ctx.get<EnrichedNodeInfo[]>('topNodes'),
+              ...ctx.get<EnrichedNodeInfo[]>('remainingNodes'),
+            ])
+          );
+        },
+      },
+      {
+        name: 'matrix',
+        description: 'Generate compatibility matrix document',
+        needs: ['compatibilityMatrix', 'nodeConnectionInfoList'],
+        produces: [],
+        run: async ctx => {
+          await this.generateCompatibilityMatrixFile(
+            ctx.get('compatibilityMatrix'),
+            ctx.get<NodeConnectionInfo[]>('nodeConnectionInfoList').slice(0, 50)
+          );
+        },
+      },
+      {
+        name: 'templates',
+        description: 'Generate workflow template files',
+        needs: [],
+        produces: ['templateCount'],
+        run: async ctx => {
+          ctx.set('templateCount', await this.generateTemplates());
+        },
+      },
+      {
+        name: 'patterns',
+        description: 'Mine workflow patterns from cached template workflows',
+        needs: [],
+        produces: ['workflowPatterns'],
+        run: async ctx => {
+          ctx.set('workflowPatterns', await this.mineWorkflowPatterns());
+        },
+      },
+      {
+        name: 'community',
+        description: 'Generate community node documentation',
+        needs: [],
+        produces: [],
+        run: async () => {
+          await this.generateCommunityDocs();
+        },
+      },
+      {
+        name: 'export',
+        description: 'Export the node knowledge base as JSON/JSONL',
+        needs: ['topNodes', 'remainingNodes', 'nodeConnectionInfoList', 'compatibilityMatrix'],
+        produces: [],
+        run: async ctx => {
+          await this.exportKnowledge(
+            [...ctx.get<EnrichedNodeInfo[]>('topNodes'), ...ctx.get<EnrichedNodeInfo[]>('remainingNodes')],
+            ctx.get('nodeConnectionInfoList'),
+            ctx.get('compatibilityMatrix')
+          );
+        },
+      },
+      {
+        name: 'skill',
+        description: 'Generate main Skill document and guides',
+        needs: ['topNodes', 'remainingNodes', 'usageStats', 'resourceFiles', 'templateCount', 'workflowPatterns'],
+        produces: [],
+        run: async ctx => {
+          await this.generateMainSkill(
+            ctx.get('topNodes'),
+            ctx.get('usageStats'),
+            ctx.get('resourceFiles'),
+            ctx.get('templateCount'),
+            ctx.get('workflowPatterns'),
+            ctx.get('remainingNodes')
+          );
+        },
+      },
+    ];
+
+    stages.forEach(stage => this.registry.register(stage));
+  }
+
+  /**
+   * Register an additional build stage
+   */
+  registerStage(stage: BuildStage, position?: StagePosition): void {
+    this.registry.register(stage, position);
+  }
+
+  /**
+   * Get all registered stages in execution order
+   */
+  listStages(): BuildStage[] {
+    return this.registry.list();
+  }
+
+  /**
+   * Get the path where a stage artifact is persisted
+   */
+  private getArtifactPath(artifact: string): string {
+    return path.join(this.cacheDir, 'stages', `${artifact}.json`);
+  }
+
+  /**
+   * Restore artifacts needed by a stage that were not produced in this run
+   */
+  private async restoreArtifacts(stage: BuildStage): Promise<void> {
+    for (const artifact of stage.needs) {
+      if (this.artifacts.has(artifact)) {
+        continue;
+      }
+
+      try {
+        const content = await fs.readFile(this.getArtifactPath(artifact), 'utf-8');
+        this.artifacts.set(artifact, JSON.parse(content));
+        logger.info(`Restored "${artifact}" from a previous build`);
+      } catch {
+        const producer = this.registry.findProducer(artifact);
+        const hint = producer ? `run stage "${producer.name}" first` : 'no registered stage produces it';
+        throw new Error(`Stage "${stage.name}" needs "${artifact}", which is not available (${hint})`);
+      }
+    }
+  }
+
+  /**
+   * Persist the artifacts a stage produced so later partial builds can reuse them
+   */
+  private async persistArtifacts(stage: BuildStage): Promise<void> {
+    if (stage.produces.length === 0) {
+      return;
+    }
+
+    await this.ensureDirectory(path.join(this.cacheDir, 'stages'));
+    for (const artifact of stage.produces) {
+      if (!this.artifacts.has(artifact)) {
+        throw new Error(`Stage "${stage.name}" did not produce "${artifact}"`);
+      }
+      await fs.writeFile(
+        this.getArtifactPath(artifact),
+        JSON.stringify(this.artifacts.get(artifact)),
+        'utf-8'
+      );
+    }
+  }
+
+  /**
+   * Create the context passed to stages
+   */
+  private createStageContext(): StageContext {
+    return {
+      projectRoot: this.projectRoot,
+      outputDir: this.outputDir,
+      cacheDir: this.cacheDir,
+      // Shallow copy: stages read the build configuration but cannot replace its fields
+      config: { ...this.config },
+      get: <T>(artifact: string): T => {
+        if (!this.artifacts.has(artifact)) {
+          throw new Error(`Build artifact not available: ${artifact}`);
+        }
+        return this.artifacts.get(artifact) as T;
+      },
+      has: (artifact: string) => this.artifacts.has(artifact),
+      set: (artifact: string, value: unknown) => {
+        this.artifacts.set(artifact, value);
+      },
+      recordError: (step: string, error: unknown) => this.recordError(step, error),
+    };
+  }
+
+  /**
+   * Execute the build process (all stages, or the selected subset)
+   * Never throws: failures are reported through BuildResult.errors
+   */
+  async build(): Promise<BuildResult> {
+    this.errors = [];
+    this.artifacts.clear();
+    this.writer = new OutputWriter({ rootDir: this.outputDir });
+    this.stats.startTime = new Date();
+    let success = true;
+    const log = this.createLogger();
+    const previousLogger = setLogger(log);
+
+    try {
+      const stages = this.registry.select(this.selection);
+      const context = this.createStageContext();
+
+      logger.info('Starting n8n Skill Pack build...\n');
+      logger.info(`Stages: ${stages.map(stage => stage.name).join(', ')}`);
+
+      for (const stage of stages) {
+        // Logging during the stage is tagged with its name and the stage is timed
+        await log.child(stage.name).time(async () => {
+          await this.restoreArtifacts(stage);
+          await stage.run(context);
+          await this.persistArtifacts(stage);
+        });
+      }
+
+      // Remove files generators no longer produce and write output/manifest.json
+      const manifest = await this.writer.finalize();
+      const writeStats = this.writer.getStats();
+      logger.info(
+        `Output: ${manifest.files.length} files (${writeStats.written} written, ${writeStats.unchanged} unchanged, ${writeStats.removed} removed)`
+      );
+    } catch (error) {
+      logger.error('Error occurred during build process', error);
+      this.recordError('build', error);
+      success = false;
+    }
+
+    // Derive node counts from whichever artifacts this run touched
+    if (this.artifacts.has('nodes')) {
+      this.stats.totalNodes = (this.artifacts.get('nodes') as SimplifiedNodeInfo[]).length;
+    }
+    if (this.artifacts.has('topNodes')) {
+      this.stats.topNodes = (this.artifacts.get('topNodes') as EnrichedNodeInfo[]).length;
+    }
+    if (this.artifacts.has('remainingNodes')) {
+      this.stats.resourceNodes = (this.artifacts.get('remainingNodes') as EnrichedNodeInfo[]).length;
+    }
+
+    this.stats.endTime = new Date();
+    this.stats.duration = this.stats.endTime.getTime() - this.stats.startTime.getTime();
+
+    if (success) {
+      log.success(`Build completed in ${(this.stats.duration / 1000).toFixed(2)}s`);
+    }
+    try {
+      this.writeSummary(log, success);
+    } catch (error) {
+      logger.warn('Failed to write build summary', error);
+    }
+    setLogger(previousLogger);
+
+    return {
+      success,
+      totalNodes: this.stats.totalNodes,
+      topNodes: this.stats.topNodes,
+      resourceNodes: this.stats.resourceNodes,
+      outputPath: this.outputDir,
+      duration: this.stats.duration,
+      errors: this.errors.length > 0 ? [...this.errors] : undefined,
+      cache: this.cache.getStats(),
+      output: this.writer.getStats(),
+    };
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+/**
+ * Build Stage Registry
+ * Named build stages that declare the artifacts they need and produce
+ */
+
+/**
+ * Context passed to every stage
+ */
+export interface StageContext {
+  projectRoot: string;
+  outputDir: string;
+  cacheDir: string;
+  config: Record<string, unknown>;
+  /** Get an artifact produced by an earlier stage (or restored from cache) */
+  get<T>(artifact: string): T;
+  /** Check whether an artifact is available */
+  has(artifact: string): boolean;
+  /** Publish an artifact for later stages */
+  set(artifact: string, value: unknown): void;
+  /** Record a non-fatal error for the build result */
+  recordError(step: string, error: unknown): void;
+}
+
+/**
+ * Build stage definition
+ */
+export interface BuildStage {
+  name: string;
+  description?: string;
+  needs: string[];
+  produces: string[];
+  run(context: StageContext): Promise<void>;
+}
+
+/**
+ * Stage insertion position (defaults to the end of the pipeline)
+ */
+export interface StagePosition {
+  before?: string;
+  after?: string;
+}
+
+/**
+ * Stage selection options
+ */
+export interface StageSelection {
+  only?: string[];
+  skip?: string[];
+  from?: string;
+}
+
+/**
+ * Ordered registry of build stages
+ */
+export class StageRegistry {
+  private stages: BuildStage[] = [];
+
+  /**
+   * Register a stage, optionally relative to an existing one
+   */
+  register(stage: BuildStage, position: StagePosition = {}): void {
+    if (this.has(stage.name)) {
+      throw new Error(`Build stage already registered: ${stage.name}`);
+    }
+
+    const anchor = position.before || position.after;
+    if (!anchor) {
+      this.stages.push(stage);
+      return;
+    }
+
+    const index = this.indexOf(anchor);
+    this.stages.splice(position.before ? index : index + 1, 0, stage);
+  }
+
+  /**
+   * Remove a stage by name
+   */
+  unregister(name: string): void {
+    this.stages.splice(this.indexOf(name), 1);
+  }
+
+  /**
+   * Check whether a stage is registered
+   */
+  has(name: string): boolean {
+    return this.stages.some(stage => stage.name === name);
+  }
+
+  /**
+   * Get all stages in execution order
+   */
+  list(): BuildStage[] {
+    return [...this.stages];
+  }
+
+  /**
+   * Select the stages to run, in execution order
+   */
+  select(selection: StageSelection = {}): BuildStage[] {
+    const { only, skip, from } = selection;
+    [...(only || []), ...(skip || []), ...(from ? [from] : [])].forEach(name => this.indexOf(name));
+
+    let selected = this.list();
+
+    if (from) {
+      selected = selected.slice(this.indexOf(from));
+    }
+    if (only && only.length > 0) {
+      selected = selected.filter(stage => only.includes(stage.name));
+    }
+    if (skip && skip.length > 0) {
+      selected = selected.filter(stage => !skip.includes(stage.name));
+    }
+
+    return selected;
+  }
+
+  /**
+   * Find the registered stage that produces an artifact
+   */
+  findProducer(artifact: string): BuildStage | undefined {
+    return this.stages.find(stage => stage.produces.includes(artifact));
+  }
+
+  /**
+   * Get stage index or throw for unknown names
+   */
+  private indexOf(name: string): number {
+    const index = this.stages.findIndex(stage => stage.name === name);
+    if (index === -1) {
+      const known = this.stages.map(stage => stage.name).join(', ');
+      throw new Error(`Unknown build stage: ${name} (available: ${known})`);
+    }
+    return index;
+  }
+}
@@ -5,7 +5,8 @@
  * This file is part of n8n-skills project.
  */
 
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import { AxiosTransport, type HttpResponse, type HttpTransport } from '../utils/http-transport';
+import * as logger from '../utils/logger';
 
 // API response type definitions
 interface TemplateNode {
@@ -112,11 +113,26 @@ export interface ApiCollectorConfig {
   retryDelay?: number;
   timeout?: number;
   limit?: number;
+  // HTTP transport (e.g. a FixtureTransport for record/replay); real requests when omitted
+  transport?: HttpTransport;
+}
+
+// Pagination options for collecting the template catalog
+export interface TemplatePaginationOptions {
+  // Templates per page (default: limit)
+  pageSize?: number;
+  // Stop after this many pages (default: no limit)
+  maxPages?: number;
+  // Drop templates with fewer views
+  minViews?: number;
+  // Delay between page requests in ms
+  delayMs?: number;
 }
 
 // API collector class
 export class ApiCollector {
-  private client: AxiosInstance;
+  private transport: HttpTransport;
+  private baseUrl: string;
   private maxRetries: number;
   private retryDelay: number;
   private limit: number;
@@ -128,43 +144,19 @@ export class ApiCollector {
       retryDelay = 1000,
       timeout = 30000,
       limit = 100,
+      transport,
     } = config;
 
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
     this.maxRetries = maxRetries;
     this.retryDelay = retryDelay;
     this.limit = limit;
-
-    // Create axios instance
-    this.client = axios.create({
-      baseURL: baseUrl,
-      timeout,
-      headers: {
-        'Content-Type': 'application/json',
-        'User-Agent': 'n8n-skills/1.0.0',
-      },
-    });
-
-    // Set up response interceptor to handle errors
-    this.client.interceptors.response.use(
-      (response) => response,
-      (error) => this.handleAxiosError(error)
-    );
+    this.transport = transport || new AxiosTransport({ timeout });
   }
 
-  // Handle Axios errors
-  private handleAxiosError(error: AxiosError): Promise<never> {
-    if (error.response) {
-      // Server responded with error status code
-      throw new Error(
-        `API response error: ${error.response.status} - ${error.response.statusText}`
-      );
-    } else if (error.request) {
-      // Request was sent but no response received
-      throw new Error('No API response received, please check network connection');
-    } else {
-      // Error occurred while setting up the request
-      throw new Error(`API request configuration error: ${error.message}`);
-    }
+  // GET request relative to the API base URL
+  private get<T>(url: string, params?: Record<string, string | number | undefined>): Promise<HttpResponse<T>> {
+    return this.transport.request<T>({ method: 'GET', url: `${this.baseUrl}${url}`, params });
   }
 
   // Retry mechanism wrapper function
@@ -176,7 +168,7 @@ export class ApiCollector {
       return await fn();
     } catch (error) {
       if (retries > 0) {
-        console.log(`Request failed, retrying after ${this.retryDelay}ms... (retries remaining: ${retries})`);
+        logger.warn(`Request failed, retrying after ${this.retryDelay}ms... (retries remaining: ${retries})`);
         await this.delay(this.retryDelay);
         return this.withRetry(fn, retries - 1);
       }
@@ -192,20 +184,12 @@ export class ApiCollector {
   // Fetch templates from n8n.io API
   public async fetchTemplates(): Promise<TemplateCollectionResult> {
     try {
-      console.log(`Starting to fetch top ${this.limit} popular templates from n8n.io API...`);
+      logger.info(`Starting to fetch top ${this.limit} popular templates from n8n.io API...`);
 
-      const response = await this.withRetry(async () => {
-        const result = await this.client.get<TemplateApiResponse>('/templates/search', {
-          params: {
-            page: 1,
-            rows: this.limit,
-          },
-        });
-        return result;
-      });
+      const response = await this.fetchTemplatePage(1, this.limit);
 
-      const templates = response.data.workflows || [];
-      console.log(`Successfully fetched ${templates.length} templates`);
+      const templates = response.workflows || [];
+      logger.info(`Successfully fetched ${templates.length} templates`);
 
       // Calculate node usage statistics
       const nodeUsageStats = this.calculateNodeUsage(templates);
@@ -213,7 +197,7 @@ export class ApiCollector {
       return {
         templates,
         nodeUsageStats,
-        totalTemplates: response.data.totalWorkflows || templates.length,
+        totalTemplates: response.totalWorkflows || templates.length,
         collectedAt: new Date().toISOString(),
       };
     } catch (error) {
@@ -224,6 +208,66 @@ export class ApiCollector {
     }
   }
 
+  // Fetch the template catalog page by page
+  public async fetchAllTemplates(options: TemplatePaginationOptions = {}): Promise<TemplateCollectionResult> {
+    const { pageSize = this.limit, maxPages, minViews = 0, delayMs = 500 } = options;
+
+    try {
+      logger.info(`Starting to fetch the template catalog from n8n.io API (${pageSize} per page)...`);
+
+      const collected = new Map<number, Template>();
+      let totalWorkflows = 0;
+      let page = 1;
+
+      while (maxPages === undefined || page <= maxPages) {
+        const response = await this.fetchTemplatePage(page, pageSize);
+        const workflows = response.workflows || [];
+        totalWorkflows = response.totalWorkflows || totalWorkflows;
+
+        // Rankings can shift while paging, so the same template may show up twice
+        workflows.forEach((template) => collected.set(template.id, template));
+        if (totalWorkflows > 0) {
+          logger.progress(collected.size, totalWorkflows, `Page ${page}: ${workflows.length} templates`);
+        } else {
+          logger.info(`Page ${page}: ${workflows.length} templates (${collected.size}/?)`);
+        }
+
+        if (workflows.length < pageSize || (totalWorkflows > 0 && page * pageSize >= totalWorkflows)) {
+          break;
+        }
+
+        page++;
+        await this.delay(delayMs);
+      }
+
+      const templates = Array.from(collected.values()).filter((template) => (template.totalViews || 0) >= minViews);
+      logger.info(`Successfully fetched ${collected.size} templates, ${templates.length} with at least ${minViews} views`);
+
+      return {
+        templates,
+        nodeUsageStats: this.calculateNodeUsage(templates),
+        totalTemplates: totalWorkflows || collected.size,
+        collectedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to fetch template catalog: ${error.message}`);
+      }
+      throw new Error('Unknown error occurred while fetching template catalog');
+    }
+  }
+
+  // Fetch one page of the template search
+  private async fetchTemplatePage(page: number, rows: number): Promise<TemplateApiResponse> {
+    const response = await this.withRetry(async () => {
+      return await this.get<TemplateApiResponse>('/templates/search', {
+        page,
+        rows,
+      });
+    });
+    return response.data;
+  }
+
   // Calculate node usage frequency statistics
   private calculateNodeUsage(templates: Template[]): NodeUsageStats {
     const nodeCount: Record<string, number> = {};
@@ -257,13 +301,13 @@ export class ApiCollector {
   // Get specific template details
   public async fetchTemplateById(templateId: number): Promise<Template> {
     try {
-      console.log(`Fetching template ID: ${templateId}...`);
+      logger.debug(`Fetching template ID: ${templateId}...`);
 
       const response = await this.withRetry(async () => {
-        return await this.client.get<Template>(`/templates/${templateId}`);
+        return await this.get<Template>(`/templates/${templateId}`);
       });
 
-      console.log(`Successfully fetched template: ${response.data.name}`);
+      logger.debug(`Successfully fetched template: ${response.data.name}`);
       return response.data;
     } catch (error) {
       if (error instanceof Error) {
@@ -279,20 +323,18 @@ export class ApiCollector {
     limit: number = 50
   ): Promise<Template[]> {
     try {
-      console.log(`Fetching templates for category "${category}" (limit: ${limit})...`);
+      logger.info(`Fetching templates for category "${category}" (limit: ${limit})...`);
 
       const response = await this.withRetry(async () => {
-        return await this.client.get<TemplateApiResponse>('/templates/search', {
-          params: {
-            page: 1,
-            rows: limit,
-            category,
-          },
+        return await this.get<TemplateApiResponse>('/templates/search', {
+          page: 1,
+          rows: limit,
+          category,
         });
       });
 
       const templates = response.data.workflows || [];
-      console.log(`Successfully fetched ${templates.length} templates`);
+      logger.info(`Successfully fetched ${templates.length} templates`);
       return templates;
     } catch (error) {
       if (error instanceof Error) {
@@ -305,20 +347,18 @@ export class ApiCollector {
   // Search templates
   public async searchTemplates(query: string, limit: number = 50): Promise<Template[]> {
     try {
-      console.log(`Searching templates: "${query}" (limit: ${limit})...`);
+      logger.info(`Searching templates: "${query}" (limit: ${limit})...`);
 
       const response = await this.withRetry(async () => {
-        return await this.client.get<TemplateApiResponse>('/templates/search', {
-          params: {
-            page: 1,
-            rows: limit,
-            search: query,
-          },
+        return await this.get<TemplateApiResponse>('/templates/search', {
+          page: 1,
+          rows: limit,
+          search: query,
         });
       });
 
       const templates = response.data.workflows || [];
-      console.log(`Found ${templates.length} templates`);
+      logger.info(`Found ${templates.length} templates`);
       return templates;
     } catch (error) {
       if (error instanceof Error) {
@@ -331,10 +371,10 @@ export class ApiCollector {
   // Get complete workflow definition
   public async fetchWorkflowDefinition(templateId: number): Promise<WorkflowDefinition & { id: number; name: string }> {
     try {
-      console.log(`Fetching complete workflow definition: ${templateId}...`);
+      logger.debug(`Fetching complete workflow definition: ${templateId}...`);
 
       const response = await this.withRetry(async () => {
-        return await this.client.get<{ id: number; name: string; workflow: WorkflowDefinition }>(
+        return await this.get<{ id: number; name: string; workflow: WorkflowDefinition }>(
           `/workflows/templates/${templateId}`
         );
       });
@@ -349,7 +389,7 @@ export class ApiCollector {
         throw new Error('Invalid workflow structure: missing nodes array');
       }
 
-      console.log(`Successfully fetched workflow: ${name} (${workflow.nodes.length} nodes)`);
+      logger.debug(`Successfully fetched workflow: ${name} (${workflow.nodes.length} nodes)`);
 
       // Merge id and name into workflow
       return {
@@ -372,8 +412,8 @@ export class ApiCollector {
   ): Promise<Array<WorkflowDefinition & { id: number; name: string }>> {
     const workflows: Array<WorkflowDefinition & { id: number; name: string }> = [];
 
-    console.log(`Starting batch fetch of ${templateIds.length} workflow definitions...`);
-    console.log(`Interval between requests: ${delayMs}ms`);
+    logger.info(`Starting batch fetch of ${templateIds.length} workflow definitions...`);
+    logger.info(`Interval between requests: ${delayMs}ms`);
 
     for (let i = 0; i < templateIds.length; i++) {
       const templateId = templateIds[i];
@@ -386,32 +426,32 @@ export class ApiCollector {
           await this.delay(delayMs);
         }
       } catch (error) {
-        console.error(`Skipping template ${templateId}:`, error);
+        logger.warn(`Skipping template ${templateId}`, error);
         // Continue with next one
       }
     }
 
-    console.log(`Successfully fetched ${workflows.length}/${templateIds.length} workflows`);
+    logger.info(`Successfully fetched ${workflows.length}/${templateIds.length} workflows`);
     return workflows;
   }
 
   // Display node usage statistics summary
   public printNodeUsageStats(stats: NodeUsageStats, topN: number = 20): void {
-    console.log('\nNode Usage Frequency Statistics (Top ' + topN + '):');
-    console.log('='.repeat(60));
-    console.log(
+    logger.info('Node Usage Frequency Statistics (Top ' + topN + '):');
+    logger.info('='.repeat(60));
+    logger.info(
       `${'Node Type'.padEnd(40)} ${'Count'.padStart(8)} ${'Percentage'.padStart(10)}`
     );
-    console.log('-'.repeat(60));
+    logger.info('-'.repeat(60));
 
     Object.entries(stats)
       .slice(0, topN)
       .forEach(([nodeType, { count, percentage }]) => {
-        console.log(
+        logger.info(
           `${nodeType.padEnd(40)} ${count.toString().padStart(8)} ${percentage.toFixed(2).padStart(9)}%`
         );
       });
-    console.log('='.repeat(60));
+    logger.info('='.repeat(60));
   }
 }
 
@@ -5,12 +5,20 @@
  * This file is part of n8n-skills project.
  */
 
-import axios, { AxiosInstance, AxiosError } from 'axios';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { execSync } from 'child_process';
+import { execSync, execFileSync } from 'child_process';
 import { PropertyParser, ParsedProperties } from '../parsers/property-parser';
 import { InputOutputParser, NodeInputOutputInfo } from '../parsers/input-output-parser';
+import {
+  CommunityNodeSandbox,
+  CommunityNodeSandboxOptions,
+  SandboxedNodeDescription,
+  SandboxedNodeSnapshot,
+} from './community-node-sandbox';
+import { AxiosTransport, type HttpTransport } from '../utils/http-transport';
+import * as logger from '../utils/logger';
 
 // Community package information
 export interface CommunityPackage {
@@ -21,6 +29,8 @@ export interface CommunityPackage {
   version?: string;
   maintainer?: string;
   repository?: string;
+  /** local: ingested offline (update:community --from) and kept when the npm list is refreshed */
+  source?: 'npm' | 'local';
 }
 
 // Community package categories
@@ -86,6 +96,8 @@ export interface CommunityNodeDetails {
   packageVersion: string;
   nodes: CommunityNodeInfo[];
   loadError?: string;
+  /** package.json description, recorded for offline-ingested packages */
+  description?: string;
 }
 
 // Community nodes cache structure
@@ -94,14 +106,31 @@ export interface CommunityNodesCache {
   nodes: Record<string, CommunityNodeDetails>;
 }
 
+// Local package source type for offline ingestion
+export type LocalPackageSourceType = 'tarball' | 'directory' | 'npm-cache';
+
+// Local package source (tarball/directory path, or package spec for npm-cache)
+export interface LocalPackageSource {
+  type: LocalPackageSourceType;
+  location: string;
+}
+
 // Configuration options
 export interface CommunityCollectorConfig {
   limit?: number;
   maxRetries?: number;
   retryDelay?: number;
   timeout?: number;
+  /** npm cache directory used for offline ingestion (defaults to npm's own cache) */
+  npmCacheDir?: string;
+  /** Limits of the child process that loads community node code */
+  sandbox?: CommunityNodeSandboxOptions;
+  /** HTTP transport for the npm registry (e.g. a FixtureTransport for record/replay) */
+  transport?: HttpTransport;
 }
 
+const NPM_REGISTRY_URL = 'https://registry.npmjs.org';
+
 // Category keywords for auto-classification
 const CATEGORY_KEYWORDS: Record<CommunityCategory, string[]> = {
   communication: [
@@ -186,10 +215,12 @@ const CATEGORY_KEYWORDS: Record<CommunityCategory, string[]> = {
 };
 
 export class CommunityCollector {
-  private npmClient: AxiosInstance;
+  private transport: HttpTransport;
   private maxRetries: number;
   private retryDelay: number;
   private limit: number;
+  private npmCacheDir?: string;
+  private sandbox: CommunityNodeSandbox;
 
   constructor(config: CommunityCollectorConfig = {}) {
     const {
@@ -197,39 +228,19 @@ export class CommunityCollector {
       maxRetries = 3,
       retryDelay = 1000,
       timeout = 30000,
+      npmCacheDir,
+      sandbox,
+      transport,
     } = config;
 
     this.limit = limit;
+    this.npmCacheDir = npmCacheDir;
+    this.sandbox = new CommunityNodeSandbox(sandbox);
     this.maxRetries = maxRetries;
     this.retryDelay = retryDelay;
 
     // npm registry client
-    this.npmClient = axios.create({
-      baseURL: 'https://registry.npmjs.org',
-      timeout,
-      headers: {
-        'Content-Type': 'application/json',
-        'User-Agent': 'n8n-skills/1.0.0',
-      },
-    });
-
-    // Set up error handler
-    this.npmClient.interceptors.response.use(
-      (response) => response,
-      (error) => this.handleAxiosError(error)
-    );
-  }
-
-  private handleAxiosError(error: AxiosError): Promise<never> {
-    if (error.response) {
-      throw new Error(
-        `API response error: ${error.response.status} - ${error.response.statusText}`
-      );
-    } else if (error.request) {
-      throw new Error('No API response received, please check network connection');
-    } else {
-      throw new Error(`API request configuration error: ${error.message}`);
-    }
+    this.transport = transport || new AxiosTransport({ timeout });
   }
 
   private async withRetry<T>(
@@ -240,7 +251,7 @@ export class CommunityCollector {
       return await fn();
     } catch (error) {
       if (retries > 0) {
-        console.log(
+        logger.warn(
           `Request failed, retrying after ${this.retryDelay}ms... (retries remaining: ${retries})`
         );
         await this.delay(this.retryDelay);
@@ -258,10 +269,12 @@ export class CommunityCollector {
    * Search for n8n community packages on npm (sorted by popularity)
    */
   public async searchPackages(): Promise<NpmSearchResult> {
-    console.log(`Searching for top ${this.limit} n8n community packages on npm...`);
+    logger.info(`Searching for top ${this.limit} n8n community packages on npm...`);
 
     const response = await this.withRetry(async () => {
-      return await this.npmClient.get<NpmSearchResult>('/-/v1/search', {
+      return await this.transport.request<NpmSearchResult>({
+        method: 'GET',
+        url: `${NPM_REGISTRY_URL}/-/v1/search`,
         params: {
           text: 'keywords:n8n-community-node-package',
           size: this.limit,
@@ -272,7 +285,7 @@ export class CommunityCollector {
       });
     });
 
-    console.log(`Found ${response.data.total} community packages, returning top ${this.limit}`);
+    logger.info(`Found ${response.data.total} community packages, returning top ${this.limit}`);
     return response.data;
   }
 
@@ -297,7 +310,7 @@ export class CommunityCollector {
    * Fetch popular community packages (sorted by npm popularity)
    */
   public async fetchPopularPackages(): Promise<CommunityCollectionResult> {
-    console.log(`Fetching top ${this.limit} popular n8n community packages...`);
+    logger.info(`Fetching top ${this.limit} popular n8n community packages...`);
 
     // Search for packages (already sorted by popularity)
     const searchResult = await this.searchPackages();
@@ -316,9 +329,9 @@ export class CommunityCollector {
       };
     });
 
-    console.log(`\nTop ${packages.length} packages by popularity:`);
+    logger.info(`Top ${packages.length} packages by popularity:`);
     packages.forEach((pkg, index) => {
-      console.log(`  ${index + 1}. ${pkg.name} (${pkg.category})`);
+      logger.info(`${index + 1}. ${pkg.name} (${pkg.category})`);
     });
 
     return {
@@ -343,7 +356,7 @@ export class CommunityCollector {
     const finalPath = configPath || defaultPath;
 
     await fs.promises.writeFile(finalPath, JSON.stringify(result, null, 2), 'utf-8');
-    console.log(`\nSaved community packages to: ${finalPath}`);
+    logger.info(`Saved community packages to: ${finalPath}`);
   }
 
   /**
@@ -364,6 +377,32 @@ export class CommunityCollector {
     }
   }
 
+  /**
+   * Record offline-ingested packages in a collection result, so the community docs include them
+   * Entries for the same package name are replaced
+   */
+  public addLocalPackages(
+    result: CommunityCollectionResult | null,
+    ingested: CommunityNodeDetails[]
+  ): CommunityCollectionResult {
+    const names = new Set(ingested.map((details) => details.packageName));
+    const localPackages: CommunityPackage[] = ingested.map((details) => ({
+      name: details.packageName,
+      description: details.description || '',
+      category: this.classifyPackage(details.packageName, details.description || ''),
+      npmUrl: '',
+      version: details.packageVersion,
+      source: 'local',
+    }));
+
+    return {
+      version: result?.version || '1.0.0',
+      lastUpdated: new Date().toISOString(),
+      limit: result?.limit ?? this.limit,
+      packages: [...(result?.packages || []).filter((pkg) => !names.has(pkg.name)), ...localPackages],
+    };
+  }
+
   /**
    * Compare two results and check if there are changes
    */
@@ -398,16 +437,16 @@ export class CommunityCollector {
       categoryCount[pkg.category] = (categoryCount[pkg.category] || 0) + 1;
     }
 
-    console.log('\n===== Community Packages Statistics =====');
-    console.log(`Total packages: ${result.packages.length}`);
-    console.log(`Last updated: ${result.lastUpdated}`);
-    console.log('\nBy category:');
+    logger.info('===== Community Packages Statistics =====');
+    logger.info(`Total packages: ${result.packages.length}`);
+    logger.info(`Last updated: ${result.lastUpdated}`);
+    logger.info('By category:');
     for (const [category, count] of Object.entries(categoryCount).sort(
       (a, b) => b[1] - a[1]
     )) {
-      console.log(`  ${category}: ${count}`);
+      logger.info(`${category}: ${count}`);
     }
-    console.log('=========================================\n');
+    logger.info('=========================================');
   }
 
   // ============================================================
@@ -419,14 +458,14 @@ export class CommunityCollector {
    */
   public async installPackage(packageName: string): Promise<boolean> {
     try {
-      console.log(`  Installing ${packageName}...`);
+      logger.debug(`Installing ${packageName}...`);
       execSync(`npm install ${packageName} --no-save --legacy-peer-deps`, {
         stdio: 'pipe',
         timeout: 120000, // 2 minutes timeout
       });
       return true;
     } catch (error) {
-      console.warn(`  Failed to install ${packageName}: ${(error as Error).message}`);
+      logger.warn(`Failed to install ${packageName}`, error);
       return false;
     }
   }
@@ -442,26 +481,37 @@ export class CommunityCollector {
       });
     } catch (error) {
       // Ignore uninstall errors
-      console.warn(`  Warning: Failed to uninstall ${packageName}`);
+      logger.warn(`Failed to uninstall ${packageName}`);
     }
   }
 
   /**
-   * Clear require cache for a package
+   * Load and parse a community package's nodes
    */
-  private clearRequireCache(packageName: string): void {
-    const cacheKeys = Object.keys(require.cache).filter(
-      (key) => key.includes(packageName) || key.includes(packageName.replace('@', '').replace('/', '-'))
-    );
-    for (const key of cacheKeys) {
-      delete require.cache[key];
+  public async collectNodeDetails(packageName: string, packageVersion: string): Promise<CommunityNodeDetails> {
+    let packageRoot: string;
+    try {
+      packageRoot = path.dirname(require.resolve(`${packageName}/package.json`));
+    } catch (error) {
+      return {
+        packageName,
+        packageVersion,
+        nodes: [],
+        loadError: `Failed to load package: ${(error as Error).message}`,
+      };
     }
+
+    return this.collectNodeDetailsFromRoot(packageRoot, packageName, packageVersion);
   }
 
   /**
-   * Load and parse a community package's nodes
+   * Load and parse the nodes of a package located at the given directory
    */
-  public async collectNodeDetails(packageName: string, packageVersion: string): Promise<CommunityNodeDetails> {
+  private async collectNodeDetailsFromRoot(
+    packageRoot: string,
+    packageName: string,
+    packageVersion: string
+  ): Promise<CommunityNodeDetails> {
     const result: CommunityNodeDetails = {
       packageName,
       packageVersion,
@@ -469,10 +519,10 @@ export class CommunityCollector {
     };
 
     try {
-      // Try to load package.json to get node list
-      const packageJsonPath = require.resolve(`${packageName}/package.json`);
-      // eslint-disable-next-line @typescript-eslint/no-var-requires
-      const packageJson = require(packageJsonPath);
+      // Read package.json to get node list
+      const packageJson = JSON.parse(
+        fs.readFileSync(path.join(packageRoot, 'package.json'), 'utf-8')
+      );
       const n8nConfig = packageJson.n8n || {};
       const nodesList = n8nConfig.nodes || [];
 
@@ -481,22 +531,21 @@ export class CommunityCollector {
         return result;
       }
 
+      // Node code is untrusted: only plain description data leaves the sandbox
+      const loaded = await this.sandbox.loadNodes(packageRoot, nodesList);
+
       const propertyParser = new PropertyParser();
       const ioParser = new InputOutputParser();
 
-      for (const nodePath of nodesList) {
-        try {
-          const nodeInfo = await this.loadSingleCommunityNode(
-            packageName,
-            nodePath,
-            propertyParser,
-            ioParser
-          );
-          if (nodeInfo) {
-            result.nodes.push(nodeInfo);
-          }
-        } catch (nodeError) {
-          console.warn(`    Failed to load node ${nodePath}: ${(nodeError as Error).message}`);
+      for (const { nodePath, node, error } of loaded) {
+        if (error || !node) {
+          logger.warn(`Failed to load node ${nodePath}: ${error || 'no node class exported'}`);
+          continue;
+        }
+
+        const nodeInfo = this.buildNodeInfo(packageName, node, propertyParser, ioParser);
+        if (nodeInfo) {
+          result.nodes.push(nodeInfo);
         }
       }
 
@@ -511,32 +560,17 @@ export class CommunityCollector {
   }
 
   /**
-   * Load a single node from a community package
+   * Parse a sandboxed node snapshot into community node info
    */
-  private async loadSingleCommunityNode(
+  private buildNodeInfo(
     packageName: string,
-    nodePath: string,
+    node: SandboxedNodeSnapshot,
     propertyParser: PropertyParser,
     ioParser: InputOutputParser
-  ): Promise<CommunityNodeInfo | null> {
+  ): CommunityNodeInfo | null {
     try {
-      const fullPath = require.resolve(`${packageName}/${nodePath}`);
-      // eslint-disable-next-line @typescript-eslint/no-var-requires
-      const nodeModule = require(fullPath);
-
-      // Extract node name from path
-      const nodeNameMatch = nodePath.match(/\/([^/]+)\.node\.(js|ts)$/);
-      const nodeName = nodeNameMatch ? nodeNameMatch[1] : path.basename(nodePath, '.node.js');
-
-      // Handle different export modes
-      const NodeClass = nodeModule.default || nodeModule[nodeName] || Object.values(nodeModule)[0];
-
-      if (!NodeClass) {
-        return null;
-      }
-
       // Get node description
-      const description = this.getNodeDescription(NodeClass);
+      const description = this.getNodeDescription(node);
       if (!description || !description.name) {
         return null;
       }
@@ -544,7 +578,7 @@ export class CommunityCollector {
       // Parse properties
       let properties: ParsedProperties;
       try {
-        properties = propertyParser.parse(NodeClass);
+        properties = propertyParser.parse(node);
       } catch {
         properties = {
           coreProperties: [],
@@ -557,7 +591,7 @@ export class CommunityCollector {
       // Parse IO info
       let ioInfo: NodeInputOutputInfo;
       try {
-        ioInfo = ioParser.parseNodeInputOutput(NodeClass);
+        ioInfo = ioParser.parseNodeInputOutput(node);
       } catch {
         ioInfo = {
           nodeType: '',
@@ -583,44 +617,32 @@ export class CommunityCollector {
 
       return {
         nodeType,
-        displayName: description.displayName || nodeName,
+        displayName: description.displayName || node.nodeName,
         description: description.description || '',
         version: this.extractNodeVersion(description),
         properties,
         ioInfo,
       };
     } catch (error) {
-      console.warn(`    Error loading node: ${(error as Error).message}`);
+      logger.warn(`Error parsing node ${node.nodeName}`, error);
       return null;
     }
   }
 
   /**
-   * Get node description from class
+   * Get node description from a node snapshot
    */
-  private getNodeDescription(nodeClass: any): any {
-    try {
-      // Try static property first
-      if (nodeClass.description) {
-        return nodeClass.description;
-      }
-
-      // Try instantiation
-      const instance = typeof nodeClass === 'function' ? new nodeClass() : nodeClass;
-
-      // Handle versioned nodes
-      if (instance?.nodeVersions) {
-        const versions = Object.keys(instance.nodeVersions).map(Number);
-        if (versions.length > 0) {
-          const latestVersion = Math.max(...versions);
-          return instance.nodeVersions[latestVersion]?.description || instance.description;
-        }
+  private getNodeDescription(node: SandboxedNodeSnapshot): SandboxedNodeDescription | null {
+    // Handle versioned nodes
+    if (node.nodeVersions) {
+      const versions = Object.keys(node.nodeVersions).map(Number);
+      if (versions.length > 0) {
+        const latestVersion = Math.max(...versions);
+        return node.nodeVersions[latestVersion]?.description || node.description;
       }
-
-      return instance?.description || null;
-    } catch {
-      return null;
     }
+
+    return node.description || null;
   }
 
   /**
@@ -644,7 +666,7 @@ export class CommunityCollector {
    * Returns the node details for caching
    */
   public async processPackageForDetails(pkg: CommunityPackage): Promise<CommunityNodeDetails> {
-    console.log(`\n  Processing: ${pkg.name} (v${pkg.version})`);
+    logger.info(`Processing: ${pkg.name} (v${pkg.version})`);
 
     // Step 1: Install
     const installed = await this.installPackage(pkg.name);
@@ -659,17 +681,187 @@ export class CommunityCollector {
 
     // Step 2: Parse
     const details = await this.collectNodeDetails(pkg.name, pkg.version || 'unknown');
-    console.log(`    Found ${details.nodes.length} node(s)`);
-
-    // Step 3: Clear require cache
-    this.clearRequireCache(pkg.name);
+    logger.info(`Found ${details.nodes.length} node(s)`);
 
-    // Step 4: Uninstall
+    // Step 3: Uninstall
     await this.uninstallPackage(pkg.name);
 
     return details;
   }
 
+  // ============================================================
+  // Offline ingestion (local tarballs, directories, npm cache)
+  // ============================================================
+
+  /**
+   * Detect the source type of a local package reference
+   * Existing `.tgz` files are tarballs, existing directories are package directories,
+   * anything else is treated as a package spec to take from the npm cache
+   */
+  public resolveLocalSource(reference: string): LocalPackageSource {
+    const resolved = path.resolve(reference);
+
+    if (fs.existsSync(resolved)) {
+      if (fs.statSync(resolved).isDirectory()) {
+        return { type: 'directory', location: resolved };
+      }
+      if (/\.(tgz|tar\.gz)$/i.test(resolved)) {
+        return { type: 'tarball', location: resolved };
+      }
+      throw new Error(`Unsupported package source: ${reference} (expected a .tgz file or a directory)`);
+    }
+
+    return { type: 'npm-cache', location: reference };
+  }
+
+  /**
+   * Ingest a community package without touching the project's node_modules
+   * The package is copied or extracted into an isolated temp directory, parsed there,
+   * and the temp directory is removed afterwards
+   */
+  public async ingestLocalPackage(source: string | LocalPackageSource): Promise<CommunityNodeDetails> {
+    const localSource = typeof source === 'string' ? this.resolveLocalSource(source) : source;
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'n8n-skills-community-'));
+
+    logger.info(`Ingesting ${localSource.location} (${localSource.type})...`);
+
+    try {
+      const packageRoot = await this.stagePackage(localSource, workDir);
+      const packageJson = JSON.parse(
+        await fs.promises.readFile(path.join(packageRoot, 'package.json'), 'utf-8')
+      );
+
+      const details = await this.collectNodeDetailsFromRoot(
+        packageRoot,
+        packageJson.name,
+        packageJson.version || 'unknown'
+      );
+      logger.info(`Found ${details.nodes.length} node(s)`);
+      return packageJson.description ? { ...details, description: packageJson.description } : details;
+    } catch (error) {
+      return {
+        packageName: localSource.location,
+        packageVersion: 'unknown',
+        nodes: [],
+        loadError: `Failed to ingest package: ${(error as Error).message}`,
+      };
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Place the package at <workDir>/node_modules/<name> and return its directory
+   */
+  private async stagePackage(source: LocalPackageSource, workDir: string): Promise<string> {
+    let sourceDir: string;
+
+    if (source.type === 'directory') {
+      sourceDir = source.location;
+    } else {
+      const tarball = source.type === 'tarball'
+        ? source.location
+        : this.packFromNpmCache(source.location, workDir);
+      sourceDir = this.extractTarball(tarball, path.join(workDir, 'extract'));
+    }
+
+    const packageJson = JSON.parse(
+      await fs.promises.readFile(path.join(sourceDir, 'package.json'), 'utf-8')
+    );
+    if (!packageJson.name) {
+      throw new Error(`package.json in ${source.location} has no name`);
+    }
+
+    const modulesDir = path.join(workDir, 'node_modules');
+    const packageRoot = path.join(modulesDir, packageJson.name);
+    await fs.promises.mkdir(path.dirname(packageRoot), { recursive: true });
+
+    if (source.type === 'directory') {
+      await fs.promises.cp(sourceDir, packageRoot, { recursive: true });
+    } else {
+      await fs.promises.rename(sourceDir, packageRoot);
+    }
+
+    await this.linkSharedDependencies(packageJson, packageRoot, modulesDir);
+    return packageRoot;
+  }
+
+  /**
+   * Fetch a package tarball from the npm cache without network access
+   * @returns Path of the packed tarball
+   */
+  private packFromNpmCache(spec: string, workDir: string): string {
+    const args = ['pack', spec, '--offline', '--json', '--pack-destination', workDir];
+    if (this.npmCacheDir) {
+      args.push('--cache', this.npmCacheDir);
+    }
+
+    const output = execFileSync('npm', args, {
+      cwd: workDir,
+      stdio: 'pipe',
+      timeout: 120000, // 2 minutes timeout
+    }).toString();
+
+    const packed = JSON.parse(output);
+    const filename = Array.isArray(packed) ? packed[0]?.filename : undefined;
+    if (!filename) {
+      throw new Error(`npm pack returned no tarball for ${spec}`);
+    }
+    // Scoped package tarballs are named without the leading "@" and with "-" for "/"
+    return path.join(workDir, filename.replace(/^@/, '').replace('/', '-'));
+  }
+
+  /**
+   * Extract an npm tarball and return the package directory inside it
+   */
+  private extractTarball(tarball: string, destination: string): string {
+    fs.mkdirSync(destination, { recursive: true });
+    execFileSync('tar', ['-xzf', tarball, '-C', destination], {
+      stdio: 'pipe',
+      timeout: 60000, // 1 minute timeout
+    });
+
+    // npm tarballs contain a single top-level directory (usually "package")
+    const entries = fs.readdirSync(destination, { withFileTypes: true }).filter(entry => entry.isDirectory());
+    if (entries.length !== 1 || !fs.existsSync(path.join(destination, entries[0].name, 'package.json'))) {
+      throw new Error(`No package.json found in ${path.basename(tarball)}`);
+    }
+    return path.join(destination, entries[0].name);
+  }
+
+  /**
+   * Link dependencies the package does not bundle (e.g. the n8n-workflow peer dependency)
+   * to the copies installed in this project, so nodes can load from the temp directory
+   */
+  private async linkSharedDependencies(
+    packageJson: { dependencies?: Record<string, string>; peerDependencies?: Record<string, string> },
+    packageRoot: string,
+    modulesDir: string
+  ): Promise<void> {
+    const dependencies = new Set([
+      ...Object.keys(packageJson.peerDependencies || {}),
+      ...Object.keys(packageJson.dependencies || {}),
+    ]);
+
+    for (const dependency of dependencies) {
+      const target = path.join(modulesDir, dependency);
+      if (fs.existsSync(path.join(packageRoot, 'node_modules', dependency)) || fs.existsSync(target)) {
+        continue;
+      }
+
+      let installedDir: string;
+      try {
+        installedDir = path.dirname(require.resolve(`${dependency}/package.json`));
+      } catch {
+        // Not available offline; nodes that need it will report a load error
+        continue;
+      }
+
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      await fs.promises.symlink(installedDir, target, 'dir');
+    }
+  }
+
   /**
    * Load community nodes cache
    */
@@ -697,7 +889,7 @@ export class CommunityCollector {
     await fs.promises.mkdir(dir, { recursive: true });
 
     await fs.promises.writeFile(finalPath, JSON.stringify(cache, null, 2), 'utf-8');
-    console.log(`\nSaved community nodes cache to: ${finalPath}`);
+    logger.info(`Saved community nodes cache to: ${finalPath}`);
   }
 }
 
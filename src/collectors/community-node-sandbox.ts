@@ -0,0 +1,291 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import type { RawNodeDescription } from '../parsers/property-tree-parser';
+
+/**
+ * Sandbox limits
+ */
+export interface CommunityNodeSandboxOptions {
+  /** Time limit for loading one package (ms) */
+  timeout?: number;
+  /** V8 heap limit of the child process (MB) */
+  maxMemoryMb?: number;
+}
+
+/**
+ * Plain-data copy of a node description
+ */
+export interface SandboxedNodeDescription extends RawNodeDescription {
+  name?: string;
+  displayName?: string;
+  description?: string;
+  defaultVersion?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Plain-data copy of a node class, shaped like a node instance
+ * so the property and IO parsers can read it
+ */
+export interface SandboxedNodeSnapshot {
+  nodeName: string;
+  description?: SandboxedNodeDescription;
+  baseDescription?: SandboxedNodeDescription;
+  nodeVersions?: Record<string, { description: SandboxedNodeDescription }>;
+}
+
+/**
+ * Load result of one n8n.nodes entry
+ */
+export interface SandboxedNodeResult {
+  nodePath: string;
+  node?: SandboxedNodeSnapshot;
+  error?: string;
+}
+
+/**
+ * Script run by the child process
+ * Loads each node file and sends back JSON-safe snapshots of the node descriptions
+ */
+const WORKER_SCRIPT = `
+'use strict';
+const path = require('path');
+const { packageRoot, nodePaths } = JSON.parse(process.argv[1]);
+
+function toPlain(value, seen) {
+  if (typeof value === 'function' || typeof value === 'symbol' || typeof value === 'bigint') {
+    return undefined;
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (seen.has(value)) {
+    return undefined;
+  }
+  seen.add(value);
+  let result;
+  if (Array.isArray(value)) {
+    result = value.map(item => toPlain(item, seen));
+  } else {
+    result = {};
+    for (const key of Object.keys(value)) {
+      const plain = toPlain(value[key], seen);
+      if (plain !== undefined) {
+        result[key] = plain;
+      }
+    }
+  }
+  seen.delete(value);
+  return result;
+}
+
+function loadNode(nodePath) {
+  const nodeModule = require(path.join(packageRoot, nodePath));
+  const match = nodePath.match(/\\/([^/]+)\\.node\\.(js|ts)$/);
+  const nodeName = match ? match[1] : path.basename(nodePath, '.node.js');
+  const NodeClass = nodeModule.default || nodeModule[nodeName] || Object.values(nodeModule)[0];
+  if (!NodeClass) {
+    return undefined;
+  }
+
+  const instance = typeof NodeClass === 'function' ? new NodeClass() : NodeClass;
+  const node = {
+    nodeName,
+    description: toPlain(NodeClass.description || instance.description, new Set()),
+    baseDescription: toPlain(instance.baseDescription, new Set()),
+  };
+  if (instance.nodeVersions) {
+    node.nodeVersions = {};
+    for (const version of Object.keys(instance.nodeVersions)) {
+      node.nodeVersions[version] = {
+        description: toPlain(instance.nodeVersions[version] && instance.nodeVersions[version].description, new Set()),
+      };
+    }
+  }
+  return node;
+}
+
+const results = nodePaths.map(nodePath => {
+  try {
+    return { nodePath, node: loadNode(nodePath) };
+  } catch (error) {
+    return { nodePath, error: String((error && error.message) || error) };
+  }
+});
+
+process.send({ results }, () => process.exit(0));
+`;
+
+/** Permission model flag of the running Node.js version, if any */
+function getPermissionFlag(): string | null {
+  if (process.allowedNodeEnvironmentFlags.has('--permission')) {
+    return '--permission';
+  }
+  if (process.allowedNodeEnvironmentFlags.has('--experimental-permission')) {
+    return '--experimental-permission';
+  }
+  return null;
+}
+
+/**
+ * Community Node Sandbox
+ * Loads untrusted community node code in a separate Node.js process:
+ * - empty environment (no tokens or secrets from the build)
+ * - V8 heap limit and a time limit, after which the process is killed
+ * - read-only file access limited to the package's node_modules trees,
+ *   no file writes, child processes or worker threads (where the Node.js
+ *   permission model is available)
+ * Network access is not restricted by the permission model.
+ */
+export class CommunityNodeSandbox {
+  private timeout: number;
+  private maxMemoryMb: number;
+
+  constructor(options: CommunityNodeSandboxOptions = {}) {
+    this.timeout = options.timeout ?? 30000;
+    this.maxMemoryMb = options.maxMemoryMb ?? 256;
+  }
+
+  /**
+   * Load the given n8n.nodes entries of a package
+   * Rejects when the child process crashes, runs out of memory or time
+   */
+  loadNodes(packageRoot: string, nodePaths: string[]): Promise<SandboxedNodeResult[]> {
+    const root = fs.realpathSync(packageRoot);
+    const args = [
+      `--max-old-space-size=${this.maxMemoryMb}`,
+      '--no-warnings',
+      ...this.getPermissionArgs(root),
+      '-e',
+      WORKER_SCRIPT,
+      JSON.stringify({ packageRoot: root, nodePaths }),
+    ];
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(process.execPath, args, {
+        cwd: root,
+        env: {},
+        stdio: ['ignore', 'ignore', 'pipe', 'ipc'],
+      });
+
+      let results: SandboxedNodeResult[] | null = null;
+      let stderr = '';
+      let timedOut = false;
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGKILL');
+      }, this.timeout);
+
+      child.stderr?.on('data', (chunk: Buffer) => {
+        // Keep the tail only; hostile packages could flood stderr
+        stderr = (stderr + chunk.toString()).slice(-4000);
+      });
+
+      child.on('message', (message: unknown) => {
+        const payload = message as { results?: unknown } | null;
+        if (Array.isArray(payload?.results)) {
+          results = payload.results;
+        }
+      });
+
+      child.on('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+
+      child.on('exit', (code, signal) => {
+        clearTimeout(timer);
+        if (timedOut) {
+          reject(new Error(`Timed out after ${this.timeout}ms`));
+        } else if (results) {
+          resolve(results);
+        } else {
+          const reason = this.lastErrorLine(stderr) || `exit code ${code ?? signal}`;
+          reject(new Error(`Sandbox process failed: ${reason}`));
+        }
+      });
+    });
+  }
+
+  /**
+   * Restrict file reads to the node_modules trees the package resolves modules from
+   */
+  private getPermissionArgs(packageRoot: string): string[] {
+    const flag = getPermissionFlag();
+    if (!flag) {
+      return [];
+    }
+
+    // Node.js 20 (experimental permission model) only grants directory contents through a wildcard
+    const toPattern = (dir: string) => (flag === '--experimental-permission' ? path.join(dir, '*') : dir);
+    return [flag, ...this.getReadablePaths(packageRoot).map(dir => `--allow-fs-read=${toPattern(dir)}`)];
+  }
+
+  /**
+   * The package directory, the node_modules directory containing it
+   * and the node_modules directories behind its symlinked dependencies
+   */
+  private getReadablePaths(packageRoot: string): string[] {
+    const readable = new Set<string>([packageRoot]);
+    const modulesDir = this.findModulesDir(packageRoot);
+    if (!modulesDir) {
+      return [...readable];
+    }
+    readable.add(modulesDir);
+
+    const entries = fs.readdirSync(modulesDir, { withFileTypes: true }).flatMap(entry =>
+      entry.name.startsWith('@') && entry.isDirectory()
+        ? fs.readdirSync(path.join(modulesDir, entry.name), { withFileTypes: true })
+          .map(scoped => ({ entry: scoped, dir: path.join(modulesDir, entry.name) }))
+        : [{ entry, dir: modulesDir }]
+    );
+
+    for (const { entry, dir } of entries) {
+      if (!entry.isSymbolicLink()) {
+        continue;
+      }
+      try {
+        const target = fs.realpathSync(path.join(dir, entry.name));
+        readable.add(this.findModulesDir(target) || target);
+      } catch {
+        // Broken link
+      }
+    }
+
+    // Drop paths inside other readable paths
+    return [...readable].filter(dir =>
+      ![...readable].some(other => other !== dir && dir.startsWith(other + path.sep))
+    );
+  }
+
+  /**
+   * Nearest node_modules directory above a path
+   */
+  private findModulesDir(target: string): string | null {
+    let current = path.dirname(target);
+    while (current !== path.dirname(current)) {
+      if (path.basename(current) === 'node_modules') {
+        return current;
+      }
+      current = path.dirname(current);
+    }
+    return null;
+  }
+
+  private lastErrorLine(stderr: string): string {
+    const lines = stderr
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => /^[A-Za-z]*Error\b|^FATAL ERROR/.test(line));
+    return lines[lines.length - 1] || '';
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import path from 'path';
+import { resolveNodePackages, type NodePackageOptions, type NodePackageSource } from './npm-collector';
+import * as logger from '../utils/logger';
+
+/**
+ * How a credential type authenticates requests
+ */
+export type CredentialAuthType = 'oauth2' | 'oauth1' | 'apiKey' | 'header' | 'basic' | 'custom';
+
+/**
+ * Field a user fills in when creating a credential
+ */
+export interface CredentialField {
+  name: string;
+  displayName: string;
+  type: string;
+  required: boolean;
+  /** Stored as a password field */
+  secret: boolean;
+  default?: unknown;
+  description?: string;
+}
+
+/**
+ * Credential type information
+ */
+export interface CredentialTypeInfo {
+  name: string;
+  displayName: string;
+  packageName: string;
+  authType: CredentialAuthType;
+  /** Parent credential types (e.g. oAuth2Api) */
+  extends: string[];
+  documentationUrl?: string;
+  fields: CredentialField[];
+}
+
+/**
+ * Raw n8n credential definition (the parts the collector reads)
+ */
+export interface RawCredentialType {
+  name?: string;
+  displayName?: string;
+  extends?: string[];
+  documentationUrl?: unknown;
+  properties?: Array<{
+    name: string;
+    displayName?: string;
+    type: string;
+    required?: boolean;
+    default?: unknown;
+    description?: string;
+    typeOptions?: { password?: boolean };
+  }>;
+  /** Declarative auth block, or a function for credentials that sign requests themselves */
+  authenticate?:
+    | { type?: string; properties?: { auth?: unknown; headers?: Record<string, unknown>; qs?: Record<string, unknown> } }
+    | ((...args: never[]) => unknown);
+}
+
+/** Property types that are never entered by the user */
+const NON_INPUT_TYPES = ['hidden', 'notice', 'curlImport'];
+
+/**
+ * Collects credential type definitions from n8n npm packages
+ *
+ * Loads every class listed in `package.json` → `n8n.credentials` and extracts
+ * its auth type and the fields a user has to configure.
+ */
+export class CredentialCollector {
+  private readonly packages: NodePackageSource[];
+
+  constructor(options: NodePackageOptions = {}) {
+    this.packages = resolveNodePackages(options);
+  }
+
+  /**
+   * Collects all credential types of the core and extra packages
+   *
+   * @returns Credential types sorted by name
+   */
+  async collectAll(): Promise<CredentialTypeInfo[]> {
+    const results: CredentialTypeInfo[] = [];
+
+    for (const pkg of this.packages) {
+      try {
+        results.push(...this.loadPackageCredentials(pkg.name, pkg.path));
+      } catch (error) {
+        logger.error(`Failed to load credentials of ${pkg.name}`, error);
+      }
+    }
+
+    return results.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Extracts credential information from a credential class or instance
+   *
+   * @param credentialClass Credential class or instance
+   * @param packageName Package name
+   * @param packagePath Package path
+   * @returns Credential information, or null when the class has no name
+   */
+  extractCredentialInfo(credentialClass: (new () => RawCredentialType) | RawCredentialType, packageName: string): CredentialTypeInfo | null {
+    const credential = typeof credentialClass === 'function' ? new credentialClass() : credentialClass;
+    if (!credential?.name) {
+      return null;
+    }
+
+    const fields: CredentialField[] = (credential.properties || [])
+      .filter(prop => prop?.name && !NON_INPUT_TYPES.includes(prop.type))
+      .map(prop => {
+        const field: CredentialField = {
+          name: prop.name,
+          displayName: prop.displayName || prop.name,
+          type: prop.type,
+          required: prop.required === true,
+          secret: prop.typeOptions?.password === true,
+        };
+        if (prop.default !== undefined && prop.default !== '') field.default = prop.default;
+        if (prop.description) field.description = prop.description;
+        return field;
+      });
+
+    const info: CredentialTypeInfo = {
+      name: credential.name,
+      displayName: credential.displayName || credential.name,
+      packageName,
+      authType: detectAuthType(credential, fields),
+      extends: credential.extends || [],
+      fields,
+    };
+    if (typeof credential.documentationUrl === 'string' && credential.documentationUrl) {
+      info.documentationUrl = credential.documentationUrl;
+    }
+
+    return info;
+  }
+
+  /**
+   * Loads all credential types from a single package
+   */
+  private loadPackageCredentials(packageName: string, packagePath: string): CredentialTypeInfo[] {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const packageJson = require(`${packagePath}/package.json`);
+    const credentialPaths: string[] = packageJson.n8n?.credentials || [];
+    const results: CredentialTypeInfo[] = [];
+
+    for (const credentialPath of credentialPaths) {
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        const credentialModule = require(require.resolve(`${packagePath}/${credentialPath}`));
+        const className = path.basename(credentialPath).replace(/\.credentials\.(js|ts)$/, '');
+        const CredentialClass = credentialModule[className] || credentialModule.default || Object.values(credentialModule)[0];
+
+        const info = CredentialClass ? this.extractCredentialInfo(CredentialClass, packageName) : null;
+        if (info) {
+          results.push(info);
+        }
+      } catch (error) {
+        logger.error(`Failed to load credential ${packageName}/${credentialPath}`, error);
+      }
+    }
+
+    return results;
+  }
+}
+
+/**
+ * Detect the auth type of a credential definition
+ *
+ * Uses the OAuth parent types first, then the declarative `authenticate` block,
+ * and finally the credential name and field names for older definitions.
+ */
+export function detectAuthType(credential: RawCredentialType, fields: CredentialField[] = []): CredentialAuthType {
+  // Intermediate parents (e.g. googleOAuth2Api) follow the same naming
+  const lineage: string[] = [...(credential.extends || []), String(credential.name || '')];
+  if (lineage.some(name => /oAuth2Api$/i.test(name))) return 'oauth2';
+  if (lineage.some(name => /oAuth1Api$/i.test(name))) return 'oauth1';
+
+  const names = fields.map(field => field.name.toLowerCase());
+  const hasKeyField = fields.some(field => /api[-_]?key|apikey/i.test(field.name) || (field.secret && /key/i.test(field.name)));
+
+  const properties = typeof credential.authenticate === 'object' ? credential.authenticate?.properties : undefined;
+  if (properties) {
+    if (properties.auth) return 'basic';
+
+    const headers = properties.headers || {};
+    const authorization = headers.Authorization ?? headers.authorization;
+    if (typeof authorization === 'string' && /^=?\s*Basic\s/i.test(authorization)) return 'basic';
+    if (properties.qs && Object.keys(properties.qs).length > 0) return 'apiKey';
+    if (Object.keys(headers).length > 0) return hasKeyField ? 'apiKey' : 'header';
+  }
+
+  const name = String(credential.name || '');
+  if (/basicAuth$/i.test(name)) return 'basic';
+  if (/headerAuth$/i.test(name)) return 'header';
+  if (/queryAuth$/i.test(name)) return 'apiKey';
+  if (names.some(n => n === 'user' || n === 'username') && names.includes('password')) return 'basic';
+  if (hasKeyField) return 'apiKey';
+
+  return 'custom';
+}
@@ -5,14 +5,29 @@ export {
   getNodeUsageStats,
   type ApiCollectorConfig,
   type TemplateCollectionResult,
+  type TemplatePaginationOptions,
   type NodeUsageStats,
 } from './api-collector';
 
+// Workflow usage collector - Collect node usage statistics from our own workflow exports
+export {
+  WorkflowUsageCollector,
+  blendUsageStats,
+  type WorkflowUsageStats,
+  type WorkflowUsageCollectorConfig,
+} from './workflow-usage-collector';
+
 // NPM collector - Collect node information from n8n npm packages
 export {
   NpmCollector,
+  resolveNodePackages,
+  getNodeTypePrefix,
+  CORE_NODE_PACKAGES,
   type SimplifiedNodeInfo,
   type LoadedNode,
+  type NodePackageOrigin,
+  type NodePackageSource,
+  type NodePackageOptions,
 } from './npm-collector';
 
 // Community collector - Collect popular community packages from npm
@@ -26,4 +41,24 @@ export {
   type CommunityNodeInfo,
   type CommunityNodeDetails,
   type CommunityNodesCache,
+  type LocalPackageSource,
+  type LocalPackageSourceType,
 } from './community-collector';
+
+// Community node sandbox - Load untrusted community node code in a child process
+export {
+  CommunityNodeSandbox,
+  type CommunityNodeSandboxOptions,
+  type SandboxedNodeDescription,
+  type SandboxedNodeSnapshot,
+  type SandboxedNodeResult,
+} from './community-node-sandbox';
+
+// Credential collector - Collect credential types from n8n npm packages
+export {
+  CredentialCollector,
+  detectAuthType,
+  type CredentialTypeInfo,
+  type CredentialField,
+  type CredentialAuthType,
+} from './credential-collector';
@@ -5,8 +5,10 @@
  * This file is part of n8n-skills project.
  */
 
+import fs from 'fs';
 import path from 'path';
 import type { INodeTypeBaseDescription, INodeTypeDescription } from 'n8n-workflow';
+import * as logger from '../utils/logger';
 
 /**
  * Simplified node information interface
@@ -18,6 +20,8 @@ export interface SimplifiedNodeInfo {
   description: string;
   category: string;
   packageName: string;
+  /** Where the package comes from: the official n8n packages or skill-config.json extra_packages */
+  packageOrigin?: NodePackageOrigin;
   version: string;
   isVersioned: boolean;
   isTrigger: boolean;
@@ -36,21 +40,97 @@ export interface LoadedNode {
   NodeClass: any;
 }
 
+/**
+ * Node package origin
+ */
+export type NodePackageOrigin = 'core' | 'extra';
+
+/**
+ * Node package to collect
+ */
+export interface NodePackageSource {
+  /** Package name (from package.json) */
+  name: string;
+  /** Module path passed to require (package name or absolute directory) */
+  path: string;
+  origin: NodePackageOrigin;
+}
+
+/**
+ * Package selection options
+ */
+export interface NodePackageOptions {
+  /** Extra packages: npm package names or local package directories */
+  extraPackages?: string[];
+  /** Base directory of relative local paths */
+  projectRoot?: string;
+}
+
+/** Official n8n node packages */
+export const CORE_NODE_PACKAGES = ['n8n-nodes-base', '@n8n/n8n-nodes-langchain'];
+
+/**
+ * Resolves the packages to collect: the core packages followed by the extra packages
+ * Extra entries starting with ".", "/", "~" or "file:" are local package directories
+ * @throws When a local package directory has no readable package.json
+ */
+export function resolveNodePackages(options: NodePackageOptions = {}): NodePackageSource[] {
+  const projectRoot = options.projectRoot || process.cwd();
+  const sources: NodePackageSource[] = CORE_NODE_PACKAGES.map(name => ({ name, path: name, origin: 'core' }));
+
+  for (const entry of options.extraPackages || []) {
+    const reference = entry.replace(/^file:/, '');
+    const isLocalPath = reference !== entry || /^(\.{1,2}[\\/]|[\\/]|~[\\/]|[A-Za-z]:[\\/])/.test(reference);
+
+    if (!isLocalPath) {
+      sources.push({ name: entry, path: entry, origin: 'extra' });
+      continue;
+    }
+
+    const packageDir = reference.startsWith('~')
+      ? path.join(process.env.HOME || '', reference.slice(1))
+      : path.resolve(projectRoot, reference);
+    let packageJson: { name?: string };
+    try {
+      packageJson = JSON.parse(fs.readFileSync(path.join(packageDir, 'package.json'), 'utf-8'));
+    } catch (error) {
+      // A configured package that silently disappears would ship an incomplete skill pack
+      throw new Error(`Cannot read extra package ${entry}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    sources.push({ name: packageJson.name || path.basename(packageDir), path: packageDir, origin: 'extra' });
+  }
+
+  return sources;
+}
+
+/**
+ * Node type prefix of a package
+ * Core packages use the short form (nodes-base, nodes-langchain),
+ * other packages keep their package name, as in workflow JSON
+ */
+export function getNodeTypePrefix(packageName: string): string {
+  if (CORE_NODE_PACKAGES.includes(packageName)) {
+    return packageName.replace('@n8n/', '').replace('n8n-', '');
+  }
+  return packageName;
+}
+
 /**
  * Collects node information from n8n npm packages
  *
  * This collector will:
- * 1. Load n8n-nodes-base and @n8n/n8n-nodes-langchain packages
+ * 1. Load n8n-nodes-base, @n8n/n8n-nodes-langchain and the configured extra packages
  * 2. Read node list from package.json
  * 3. Dynamically load each node class
  * 4. Extract basic node information
  * 5. Return simplified node information array
  */
 export class NpmCollector {
-  private readonly CORE_PACKAGES = [
-    { name: 'n8n-nodes-base', path: 'n8n-nodes-base' },
-    { name: '@n8n/n8n-nodes-langchain', path: '@n8n/n8n-nodes-langchain' }
-  ];
+  private readonly packages: NodePackageSource[];
+
+  constructor(options: NodePackageOptions = {}) {
+    this.packages = resolveNodePackages(options);
+  }
 
   /**
    * Collects simplified information for all n8n nodes
@@ -60,13 +140,13 @@ export class NpmCollector {
   async collectAll(): Promise<SimplifiedNodeInfo[]> {
     const results: SimplifiedNodeInfo[] = [];
 
-    for (const pkg of this.CORE_PACKAGES) {
+    for (const pkg of this.packages) {
       try {
         const loadedNodes = await this.loadPackageNodes(pkg.name, pkg.path);
         const simplifiedNodes = loadedNodes.map(node => this.extractNodeInfo(node));
         results.push(...simplifiedNodes);
       } catch (error) {
-        console.error(`Failed to load package ${pkg.name}:`, error);
+        logger.error(`Failed to load package ${pkg.name}`, error);
       }
     }
 
@@ -81,12 +161,12 @@ export class NpmCollector {
   async collectAllWithDetails(): Promise<LoadedNode[]> {
     const results: LoadedNode[] = [];
 
-    for (const pkg of this.CORE_PACKAGES) {
+    for (const pkg of this.packages) {
       try {
         const loadedNodes = await this.loadPackageNodes(pkg.name, pkg.path);
         results.push(...loadedNodes);
       } catch (error) {
-        console.error(`Failed to load package ${pkg.name}:`, error);
+        logger.error(`Failed to load package ${pkg.name}`, error);
       }
     }
 
@@ -116,7 +196,7 @@ export class NpmCollector {
         // Handle array format (used by n8n-nodes-base)
         for (const nodePath of nodesList) {
           if (isCI) {
-            console.log(`[CI] Loading: ${packageName}/${nodePath}`);
+            logger.debug(`[CI] Loading: ${packageName}/${nodePath}`);
           }
           const loadedNode = this.loadSingleNode(packageName, packagePath, nodePath);
           if (loadedNode) {
@@ -127,7 +207,7 @@ export class NpmCollector {
         // Handle object format (may be used by other packages)
         for (const [nodeName, nodePath] of Object.entries(nodesList)) {
           if (isCI) {
-            console.log(`[CI] Loading: ${packageName}/${nodePath}`);
+            logger.debug(`[CI] Loading: ${packageName}/${nodePath}`);
           }
           const loadedNode = this.loadSingleNode(packageName, packagePath, nodePath as string, nodeName);
           if (loadedNode) {
@@ -168,7 +248,7 @@ export class NpmCollector {
         const errMsg = (requireError as Error).message;
         // If segfault related error, log but don't interrupt
         if (errMsg.includes('segmentation') || errMsg.includes('SIGSEGV')) {
-          console.error(`Critical error - Skipping node ${packageName}/${nodePath}: segmentation fault`);
+          logger.error(`Critical error - Skipping node ${packageName}/${nodePath}: segmentation fault`);
           return null;
         }
         throw requireError;
@@ -185,11 +265,11 @@ export class NpmCollector {
         return { packageName, nodeName, NodeClass };
       }
 
-      console.warn(`Cannot find valid node export: ${nodeName} in ${packageName}`);
+      logger.warn(`Cannot find valid node export: ${nodeName} in ${packageName}`);
       return null;
     } catch (error) {
       const errMsg = (error as Error).message;
-      console.error(`Failed to load node ${packageName}/${nodePath}:`, errMsg);
+      logger.error(`Failed to load node ${packageName}/${nodePath}`, errMsg);
       return null;
     }
   }
@@ -202,6 +282,7 @@ export class NpmCollector {
    */
   private extractNodeInfo(loadedNode: LoadedNode): SimplifiedNodeInfo {
     const { packageName, nodeName, NodeClass } = loadedNode;
+    const packageOrigin: NodePackageOrigin = CORE_NODE_PACKAGES.includes(packageName) ? 'core' : 'extra';
 
     try {
       const description = this.getNodeDescription(NodeClass);
@@ -212,6 +293,7 @@ export class NpmCollector {
         description: description.description || '',
         category: this.extractCategory(description),
         packageName,
+        packageOrigin,
         version: this.extractVersion(NodeClass, description),
         isVersioned: this.isVersionedNode(NodeClass),
         isTrigger: this.detectTrigger(description),
@@ -228,6 +310,7 @@ export class NpmCollector {
         description: '',
         category: 'misc',
         packageName,
+        packageOrigin,
         version: '1',
         isVersioned: false,
         isTrigger: false,
@@ -291,8 +374,7 @@ export class NpmCollector {
     }
 
     // Add package prefix
-    const packagePrefix = packageName.replace('@n8n/', '').replace('n8n-', '');
-    return `${packagePrefix}.${name}`;
+    return `${getNodeTypePrefix(packageName)}.${name}`;
   }
 
   /**
@@ -0,0 +1,225 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { NodeUsageStats } from './api-collector';
+import * as logger from '../utils/logger';
+
+/**
+ * Node usage statistics of our own workflows
+ * Node types are kept as they appear in workflow JSON (e.g. n8n-nodes-base.httpRequest)
+ */
+export interface WorkflowUsageStats {
+  /** Number of workflows read */
+  workflowCount: number;
+  /** Workflows using each node type (same shape as the public template statistics) */
+  nodeUsage: NodeUsageStats;
+  /** Workflows in which two node types appear together: nodeType -> other nodeType -> count */
+  coOccurrence: Record<string, Record<string, number>>;
+  /** Node instances per typeVersion: nodeType -> version -> count */
+  versions: Record<string, Record<string, number>>;
+  /** Files that could not be read */
+  skippedFiles: string[];
+  collectedAt: string;
+}
+
+/**
+ * Workflow usage collector configuration
+ */
+export interface WorkflowUsageCollectorConfig {
+  /** Count disabled nodes (default false) */
+  includeDisabled?: boolean;
+}
+
+/**
+ * Minimal workflow shape read from exports
+ */
+interface ExportedWorkflow {
+  nodes: Array<{ type?: string; typeVersion?: number; disabled?: boolean }>;
+}
+
+/** Node types that carry no behavior */
+const IGNORED_NODE_TYPES = new Set(['n8n-nodes-base.stickyNote']);
+
+/**
+ * Workflow Usage Collector
+ * Reads exported n8n workflows and computes per-node usage, co-occurrence and version statistics.
+ * Supported inputs (a file or a directory searched recursively for *.json):
+ * - a single workflow ({ nodes, connections }), as exported from the editor
+ * - an array of workflows, as written by `n8n export:workflow --all`
+ * - database exports of the workflow_entity table, where nodes may be a JSON string
+ */
+export class WorkflowUsageCollector {
+  private includeDisabled: boolean;
+
+  constructor(config: WorkflowUsageCollectorConfig = {}) {
+    this.includeDisabled = config.includeDisabled === true;
+  }
+
+  /**
+   * Collect statistics from a workflow export file or directory
+   */
+  async collectFromPath(inputPath: string): Promise<WorkflowUsageStats> {
+    const files = await this.findExportFiles(inputPath);
+    const workflows: ExportedWorkflow[] = [];
+    const skippedFiles: string[] = [];
+
+    for (const file of files) {
+      try {
+        const content = JSON.parse(await fs.readFile(file, 'utf-8'));
+        workflows.push(...this.extractWorkflows(content));
+      } catch (error) {
+        logger.warn(`Skipping ${file}`, error);
+        skippedFiles.push(file);
+      }
+    }
+
+    return { ...this.collect(workflows), skippedFiles };
+  }
+
+  /**
+   * Collect statistics from workflow objects
+   */
+  collect(workflows: ExportedWorkflow[]): WorkflowUsageStats {
+    const workflowCounts: Record<string, number> = {};
+    const coOccurrence: Record<string, Record<string, number>> = {};
+    const versions: Record<string, Record<string, number>> = {};
+
+    for (const workflow of workflows) {
+      const nodes = workflow.nodes.filter(node =>
+        node.type && !IGNORED_NODE_TYPES.has(node.type) && (this.includeDisabled || !node.disabled)
+      );
+
+      for (const node of nodes) {
+        const version = String(node.typeVersion ?? 1);
+        versions[node.type!] = versions[node.type!] || {};
+        versions[node.type!][version] = (versions[node.type!][version] || 0) + 1;
+      }
+
+      // Usage and co-occurrence count each node type once per workflow
+      const types = Array.from(new Set(nodes.map(node => node.type!))).sort();
+      for (const type of types) {
+        workflowCounts[type] = (workflowCounts[type] || 0) + 1;
+        for (const other of types) {
+          if (other !== type) {
+            coOccurrence[type] = coOccurrence[type] || {};
+            coOccurrence[type][other] = (coOccurrence[type][other] || 0) + 1;
+          }
+        }
+      }
+    }
+
+    return {
+      workflowCount: workflows.length,
+      nodeUsage: toUsageStats(workflowCounts),
+      coOccurrence,
+      versions,
+      skippedFiles: [],
+      collectedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Workflows contained in a parsed export file
+   */
+  extractWorkflows(content: unknown): ExportedWorkflow[] {
+    if (Array.isArray(content)) {
+      return content.flatMap(item => this.extractWorkflows(item));
+    }
+    if (!content || typeof content !== 'object') {
+      return [];
+    }
+
+    const record = content as Record<string, unknown>;
+    if (record.nodes !== undefined) {
+      // Database exports store nodes as a JSON string
+      const nodes = typeof record.nodes === 'string' ? JSON.parse(record.nodes) : record.nodes;
+      return Array.isArray(nodes) ? [{ nodes }] : [];
+    }
+
+    for (const key of ['workflow', 'workflows', 'workflow_entity', 'data']) {
+      if (record[key] !== undefined) {
+        return this.extractWorkflows(record[key]);
+      }
+    }
+    return [];
+  }
+
+  /**
+   * JSON files of an export (a single file or all *.json files below a directory)
+   */
+  private async findExportFiles(inputPath: string): Promise<string[]> {
+    const stat = await fs.stat(inputPath);
+    if (stat.isFile()) {
+      return [inputPath];
+    }
+
+    const entries = await fs.readdir(inputPath, { withFileTypes: true });
+    const files: string[] = [];
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const fullPath = path.join(inputPath, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...await this.findExportFiles(fullPath));
+      } else if (entry.isFile() && entry.name.endsWith('.json')) {
+        files.push(fullPath);
+      }
+    }
+    return files;
+  }
+}
+
+/**
+ * Build usage statistics from counts, sorted by count
+ * (percentage of all counted node occurrences, as in the template statistics)
+ */
+function toUsageStats(counts: Record<string, number>): NodeUsageStats {
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+  const stats: NodeUsageStats = {};
+  Object.entries(counts)
+    .sort(([, a], [, b]) => b - a)
+    .forEach(([nodeType, count]) => {
+      stats[nodeType] = {
+        count,
+        percentage: total > 0 ? (count / total) * 100 : 0,
+      };
+    });
+  return stats;
+}
+
+/**
+ * Blend public template statistics with our own workflow statistics
+ * Our counts are rescaled to the size of the public sample, then weighted:
+ * weight 0 keeps the public statistics, weight 1 uses only our workflows
+ */
+export function blendUsageStats(
+  publicStats: NodeUsageStats,
+  localStats: NodeUsageStats,
+  weight: number
+): NodeUsageStats {
+  const localWeight = Math.min(1, Math.max(0, weight));
+  const publicTotal = Object.values(publicStats).reduce((sum, stat) => sum + stat.count, 0);
+  const localTotal = Object.values(localStats).reduce((sum, stat) => sum + stat.count, 0);
+  if (localTotal === 0) {
+    return publicStats;
+  }
+  const scale = publicTotal > 0 ? publicTotal / localTotal : 1;
+
+  const counts: Record<string, number> = {};
+  for (const nodeType of new Set([...Object.keys(publicStats), ...Object.keys(localStats)])) {
+    const publicCount = publicStats[nodeType]?.count || 0;
+    const localCount = (localStats[nodeType]?.count || 0) * scale;
+    const blended = publicTotal > 0
+      ? (1 - localWeight) * publicCount + localWeight * localCount
+      : localCount;
+    if (blended > 0) {
+      counts[nodeType] = Math.max(1, Math.round(blended));
+    }
+  }
+
+  return toUsageStats(counts);
+}
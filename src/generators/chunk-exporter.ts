@@ -0,0 +1,488 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import * as fs from 'fs';
+import path from 'path';
+import { OutputWriter } from '../utils/output-writer';
+import type {
+  ChunkKind,
+  ExportedChunk,
+  ExportedNode,
+  ExportedOperation,
+  ExportedTemplate,
+} from '../models/knowledge-export';
+
+/**
+ * Markdown file of the skill pack, path relative to the skill pack root
+ */
+export interface ChunkSourceDocument {
+  path: string;
+  content: string;
+}
+
+/**
+ * Data the chunks are cut from
+ */
+export interface ChunkExportData {
+  documents: ChunkSourceDocument[];
+  /** Node records of the knowledge export (data/nodes.jsonl) */
+  nodes: ExportedNode[];
+  /** Template records of the knowledge export (data/templates.jsonl) */
+  templates?: ExportedTemplate[];
+}
+
+/**
+ * Chunk exporter configuration
+ */
+export interface ChunkExporterConfig {
+  locale?: string;
+  /** Sections above this size are split at paragraph boundaries */
+  maxTokens?: number;
+  /** Sections below this size are merged into the next section of the same node (and operation) or file */
+  minTokens?: number;
+  /** Tokenizer of the embedding model (estimateTokens when omitted) */
+  countTokens?: (text: string) => number;
+}
+
+const DEFAULT_CONFIG: Required<ChunkExporterConfig> = {
+  locale: 'en',
+  maxTokens: 512,
+  minTokens: 64,
+  countTokens: estimateTokens,
+};
+
+/**
+ * JSON Schema of one line of chunks.jsonl (schema/chunk.schema.json in the export)
+ */
+export const CHUNK_SCHEMA: Record<string, unknown> = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'chunk.schema.json',
+  title: 'Skill pack chunk',
+  description: 'One line of chunks.jsonl: a heading-bounded section of a node, template or guide file, ready to embed.',
+  type: 'object',
+  required: ['id', 'text', 'tokens', 'contentHash', 'metadata'],
+  properties: {
+    id: { type: 'string', description: 'Source path and heading path; stable across builds while both stay the same.' },
+    text: { type: 'string', description: 'Markdown of the source lines startLine-endLine.' },
+    tokens: { type: 'integer', minimum: 0, description: 'Token count, estimated unless a tokenizer was configured.' },
+    contentHash: { type: 'string', description: 'SHA-256 of text.' },
+    metadata: {
+      type: 'object',
+      required: ['kind', 'locale', 'source', 'startLine', 'endLine', 'headings'],
+      properties: {
+        kind: { enum: ['node', 'template', 'guide'] },
+        locale: { type: 'string' },
+        source: { type: 'string', description: 'Path relative to the skill pack root.' },
+        startLine: { type: 'integer', minimum: 1 },
+        endLine: { type: 'integer', minimum: 1, description: 'Inclusive.' },
+        headings: { type: 'array', items: { type: 'string' }, description: 'Heading path of the section, outermost first.' },
+        nodeType: { type: 'string' },
+        displayName: { type: 'string' },
+        category: { type: 'string', description: 'Node category, or template category for template chunks.' },
+        tier: { enum: ['essential', 'common', 'specialized'] },
+        operation: { type: 'string', description: 'Operation value, for sections documenting one operation.' },
+        resource: { type: 'string' },
+        templateId: { type: 'integer' },
+        nodeTypes: { type: 'array', items: { type: 'string' } },
+      },
+    },
+  },
+};
+
+/**
+ * Resource directories that do not hold node files
+ */
+const NON_NODE_DIRS = new Set(['templates', 'guides', 'credentials', 'community']);
+
+/**
+ * Heading-bounded run of lines (1-based, inclusive)
+ */
+interface Section {
+  start: number;
+  end: number;
+  headings: string[];
+}
+
+/**
+ * Section with the node, template or file it belongs to
+ */
+interface ScopedSection extends Section {
+  scope: string;
+  metadata: Partial<ExportedChunk['metadata']>;
+}
+
+/**
+ * Estimate the token count of a text without a tokenizer
+ * CJK characters count as one token each, other text as one token per four characters
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(/[\u3000-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g)?.length || 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+/**
+ * Chunk Exporter
+ * Splits node resource files, templates and guides into heading-bounded chunks
+ * with stable IDs, node metadata, line ranges and token counts
+ */
+export class ChunkExporter {
+  private config: Required<ChunkExporterConfig>;
+
+  constructor(config: ChunkExporterConfig = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Read the Markdown files under resources/ of a skill pack
+   */
+  static readDocuments(rootDir: string): ChunkSourceDocument[] {
+    const documents: ChunkSourceDocument[] = [];
+    const walk = (dir: string) => {
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const absolutePath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          walk(absolutePath);
+        } else if (entry.name.endsWith('.md')) {
+          documents.push({
+            path: path.relative(rootDir, absolutePath).split(path.sep).join('/'),
+            content: fs.readFileSync(absolutePath, 'utf-8'),
+          });
+        }
+      }
+    };
+
+    const resourcesDir = path.join(rootDir, 'resources');
+    if (fs.existsSync(resourcesDir)) {
+      walk(resourcesDir);
+    }
+    return documents.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  }
+
+  /**
+   * Cut the documents into chunks
+   * Files other than node resource files, template files and guides are skipped
+   */
+  generate(data: ChunkExportData): ExportedChunk[] {
+    const nodesByFilename = new Map(data.nodes.map(node => [getNodeFilename(node.nodeType), node]));
+    const templatesById = new Map((data.templates || []).map(template => [template.id, template]));
+    const seenTemplates = new Set<number>();
+    const usedIds = new Map<string, number>();
+    const chunks: ExportedChunk[] = [];
+
+    for (const document of data.documents) {
+      const lines = document.content.split('\n');
+      const sections = parseSections(lines);
+      let kind: ChunkKind;
+      let scoped: ScopedSection[];
+
+      const guide = document.path.match(/^resources\/guides\/[^/]+\.md$/);
+      const template = document.path.match(/^resources\/templates\/([^/]+)\/(\d+)-[^/]*\.md$/);
+      const nodeFile = document.path.match(/^resources\/([^/]+)\/([^/]+)\.md$/);
+
+      if (guide) {
+        kind = 'guide';
+        scoped = sections.map(section => ({ ...section, scope: document.path, metadata: {} }));
+      } else if (template) {
+        const templateId = Number(template[2]);
+        // Templates listed in several categories are chunked once
+        if (seenTemplates.has(templateId)) {
+          continue;
+        }
+        seenTemplates.add(templateId);
+        kind = 'template';
+        const nodeTypes = templatesById.get(templateId)?.nodeTypes;
+        scoped = sections.map(section => ({
+          ...section,
+          scope: document.path,
+          metadata: { category: template[1], templateId, ...(nodeTypes ? { nodeTypes } : {}) },
+        }));
+      } else if (nodeFile && !NON_NODE_DIRS.has(nodeFile[1])) {
+        kind = 'node';
+        const [, category, name] = nodeFile;
+        if (name.startsWith(`${category}-merged`)) {
+          scoped = this.scopeMergedFile(lines, sections, data.nodes.filter(node => node.category === category));
+        } else {
+          const node = nodesByFilename.get(`${name}.md`);
+          if (!node) {
+            // Category index
+            continue;
+          }
+          scoped = sections.map(section => ({
+            ...section,
+            scope: node.nodeType,
+            metadata: this.getNodeMetadata(node, section.headings),
+          }));
+        }
+      } else {
+        continue;
+      }
+
+      for (const section of this.pack(lines, scoped)) {
+        const text = lines.slice(section.start - 1, section.end).join('\n');
+        const baseId = [document.path, section.headings.map(slugify).join('/')].filter(Boolean).join('#');
+        const occurrence = (usedIds.get(baseId) || 0) + 1;
+        usedIds.set(baseId, occurrence);
+
+        chunks.push({
+          id: occurrence > 1 ? `${baseId}:${occurrence}` : baseId,
+          text,
+          tokens: this.config.countTokens(text),
+          contentHash: OutputWriter.hash(text),
+          metadata: {
+            kind,
+            locale: this.config.locale,
+            source: document.path,
+            startLine: section.start,
+            endLine: section.end,
+            headings: section.headings,
+            ...section.metadata,
+          },
+        });
+      }
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Assign the sections of a merged category file to the node documented above them
+   * Nodes start at a second-level heading with their display name; the title and table of
+   * contents before the first node are dropped
+   */
+  private scopeMergedFile(lines: string[], sections: Section[], nodes: ExportedNode[]): ScopedSection[] {
+    const nodesByName = new Map<string, ExportedNode[]>();
+    nodes.forEach(node => nodesByName.set(node.displayName, [...(nodesByName.get(node.displayName) || []), node]));
+
+    const nodeStarts: Array<{ line: number; node: ExportedNode }> = [];
+    let inFence = false;
+    lines.forEach((line, index) => {
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+      }
+      const candidates = !inFence && line.startsWith('## ') ? nodesByName.get(line.slice(3).trim()) : undefined;
+      if (candidates) {
+        // Nodes sharing a display name are told apart by the node type in their basic information
+        const block = lines.slice(index + 1, index + 12).join('\n');
+        const node = candidates.find(candidate => block.includes(`\`${candidate.nodeType}\``)) || candidates[0];
+        nodeStarts.push({ line: index + 1, node });
+      }
+    });
+
+    const scoped: ScopedSection[] = [];
+    for (const section of sections) {
+      const node = [...nodeStarts].reverse().find(start => start.line <= section.start)?.node;
+      if (!node) {
+        continue;
+      }
+      // Node sections are third-level headings (basic information is second-level), so the
+      // heading path is the node plus the innermost heading
+      const innermost = section.headings[section.headings.length - 1];
+      const headings = innermost === node.displayName ? [node.displayName] : [node.displayName, innermost];
+      scoped.push({ ...section, headings, scope: node.nodeType, metadata: this.getNodeMetadata(node, headings) });
+    }
+    return scoped;
+  }
+
+  private getNodeMetadata(node: ExportedNode, headings: string[]): Partial<ExportedChunk['metadata']> {
+    const operation = findOperation(node.operations, headings[headings.length - 1]);
+    return {
+      nodeType: node.nodeType,
+      displayName: node.displayName,
+      category: node.category,
+      ...(node.priority ? { tier: node.priority.tier } : {}),
+      ...(operation ? { operation: operation.value } : {}),
+      ...(operation?.resource ? { resource: operation.resource } : {}),
+    };
+  }
+
+  /**
+   * Merge small sections into the next section of the same scope and operation, and split large ones
+   */
+  private pack(lines: string[], sections: ScopedSection[]): ScopedSection[] {
+    const { maxTokens, minTokens, countTokens } = this.config;
+    const tokensOf = (start: number, end: number) => countTokens(lines.slice(start - 1, end).join('\n'));
+    const packed: ScopedSection[] = [];
+
+    for (let i = 0; i < sections.length; i++) {
+      let section = sections[i];
+      while (
+        i + 1 < sections.length
+        && sections[i + 1].scope === section.scope
+        && sections[i + 1].metadata.operation === section.metadata.operation
+        && tokensOf(section.start, section.end) < minTokens
+        && tokensOf(section.start, sections[i + 1].end) <= maxTokens
+      ) {
+        const next = sections[++i];
+        section = { ...section, end: next.end };
+      }
+
+      if (tokensOf(section.start, section.end) <= maxTokens) {
+        packed.push(section);
+        continue;
+      }
+
+      // Split at paragraphs, or at lines within an oversized paragraph; code blocks stay whole
+      let partStart = section.start;
+      for (const { start, end } of getSplitPoints(lines, section.start, section.end, tokensOf, maxTokens)) {
+        if (start > partStart && tokensOf(partStart, end) > maxTokens) {
+          packed.push({ ...section, start: partStart, end: trimEnd(lines, partStart, start - 1) });
+          partStart = start;
+        }
+      }
+      packed.push({ ...section, start: partStart });
+    }
+
+    return packed;
+  }
+}
+
+/**
+ * File name the resource generator uses for a node file
+ */
+function getNodeFilename(nodeType: string): string {
+  return `${nodeType.replace(/^@/, '').replace(/\//g, '-')}.md`;
+}
+
+/**
+ * Split lines at first- to third-level headings outside code blocks
+ * Blank lines and rules around a section are trimmed; a heading without body joins the next section
+ */
+function parseSections(lines: string[]): Section[] {
+  const raw: Array<Section & { hasHeading: boolean }> = [];
+  const stack: Array<{ level: number; text: string }> = [];
+  let inFence = false;
+
+  lines.forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+    const heading = inFence ? null : line.match(/^(#{1,3})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      const level = heading[1].length;
+      while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+        stack.pop();
+      }
+      stack.push({ level, text: heading[2] });
+    }
+    if (heading || raw.length === 0) {
+      if (raw.length > 0) {
+        raw[raw.length - 1].end = index;
+      }
+      raw.push({ start: index + 1, end: lines.length, headings: stack.map(entry => entry.text), hasHeading: !!heading });
+    }
+  });
+
+  const sections: Section[] = [];
+  let pendingStart: number | undefined;
+  for (const { start, end, headings, hasHeading } of raw) {
+    const bodyStart = hasHeading ? start + 1 : start;
+    if (!lines.slice(bodyStart - 1, end).some(line => !isFiller(line))) {
+      if (hasHeading) {
+        pendingStart = pendingStart ?? start;
+      }
+      continue;
+    }
+    const sectionEnd = trimEnd(lines, start, end);
+    sections.push({ start: trimStart(lines, pendingStart ?? start, sectionEnd), end: sectionEnd, headings });
+    pendingStart = undefined;
+  }
+
+  return sections;
+}
+
+/**
+ * Units a section can be split into: paragraphs, and the lines of paragraphs larger than maxTokens
+ * Paragraphs holding a code block are never split
+ */
+function getSplitPoints(
+  lines: string[],
+  start: number,
+  end: number,
+  tokensOf: (start: number, end: number) => number,
+  maxTokens: number
+): Array<{ start: number; end: number }> {
+  return getParagraphs(lines, start, end).flatMap(paragraph => {
+    const hasCode = lines.slice(paragraph.start - 1, paragraph.end).some(line => /^\s*(```|~~~)/.test(line));
+    if (hasCode || tokensOf(paragraph.start, paragraph.end) <= maxTokens) {
+      return [paragraph];
+    }
+    return Array.from({ length: paragraph.end - paragraph.start + 1 }, (_, offset) => ({
+      start: paragraph.start + offset,
+      end: paragraph.start + offset,
+    }));
+  });
+}
+
+/**
+ * Paragraphs (runs of lines between blank lines, code blocks kept whole) within a line range
+ */
+function getParagraphs(lines: string[], start: number, end: number): Array<{ start: number; end: number }> {
+  const paragraphs: Array<{ start: number; end: number }> = [];
+  let paragraphStart: number | undefined;
+  let inFence = false;
+
+  for (let lineNumber = start; lineNumber <= end; lineNumber++) {
+    const line = lines[lineNumber - 1];
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+    if (line.trim() === '' && !inFence) {
+      if (paragraphStart !== undefined) {
+        paragraphs.push({ start: paragraphStart, end: lineNumber - 1 });
+        paragraphStart = undefined;
+      }
+    } else if (paragraphStart === undefined) {
+      paragraphStart = lineNumber;
+    }
+  }
+  if (paragraphStart !== undefined) {
+    paragraphs.push({ start: paragraphStart, end });
+  }
+
+  return paragraphs;
+}
+
+function isFiller(line: string): boolean {
+  return line.trim() === '' || /^\s*-{3,}\s*$/.test(line);
+}
+
+function trimStart(lines: string[], start: number, end: number): number {
+  while (start < end && isFiller(lines[start - 1])) {
+    start++;
+  }
+  return start;
+}
+
+function trimEnd(lines: string[], start: number, end: number): number {
+  while (end > start && isFiller(lines[end - 1])) {
+    end--;
+  }
+  return end;
+}
+
+/**
+ * Operation a heading documents: "Send" or "Message → Send"
+ */
+function findOperation(operations: ExportedOperation[], heading: string | undefined): ExportedOperation | undefined {
+  if (!heading) {
+    return undefined;
+  }
+  const [resourceName, operationName] = heading.includes(' → ') ? heading.split(' → ') : [undefined, heading];
+  const candidates = operations.filter(operation => operation.name === operationName);
+  if (resourceName !== undefined && candidates.length > 1) {
+    const resource = resourceName.toLowerCase().replace(/\s+/g, '');
+    return candidates.find(operation => operation.resource?.toLowerCase() === resource) || candidates[0];
+  }
+  return candidates[0];
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+}
@@ -18,48 +18,28 @@ import {
   CommunityNodeInfo,
 } from '../collectors/community-collector';
 import { CoreProperty, Operation } from '../parsers/property-parser';
-
-// Category display information
-const CATEGORY_INFO: Record<
-  CommunityCategory,
-  { name: string; description: string; icon: string }
-> = {
-  communication: {
-    name: 'Communication & Messaging',
-    description: 'WhatsApp, ChatWoot, and other messaging platform integrations',
-    icon: '💬',
-  },
-  'ai-tools': {
-    name: 'AI & Voice Tools',
-    description: 'AI voice generation, search engines, and LLM integrations',
-    icon: '🤖',
-  },
-  'web-scraping': {
-    name: 'Web Scraping & Browser Automation',
-    description: 'Web scraping, browser automation, and search API integrations',
-    icon: '🕷️',
-  },
-  document: {
-    name: 'Document Processing',
-    description: 'PDF generation, document conversion, and file processing',
-    icon: '📄',
-  },
-  'data-processing': {
-    name: 'Data Processing',
-    description: 'Text manipulation, data validation, and transformation tools',
-    icon: '🔄',
-  },
-  utilities: {
-    name: 'Utilities & Tools',
-    description: 'General purpose utilities and helper tools',
-    icon: '🔧',
-  },
+import { OutputWriter } from '../utils/output-writer';
+import * as logger from '../utils/logger';
+import { DEFAULT_LOCALE, formatMessage, getMessages, type Locale, type MessageCatalog } from '../i18n';
+
+// Category icons (names and descriptions come from the message catalog)
+const CATEGORY_ICONS: Record<CommunityCategory, string> = {
+  communication: '💬',
+  'ai-tools': '🤖',
+  'web-scraping': '🕷️',
+  document: '📄',
+  'data-processing': '🔄',
+  utilities: '🔧',
 };
 
 export interface CommunityGeneratorConfig {
   outputDir?: string;
   configPath?: string;
   cachePath?: string;
+  /** Shared output writer (a private one is used when omitted) */
+  writer?: OutputWriter;
+  /** Language of the generated documents */
+  locale?: Locale;
 }
 
 /**
@@ -78,11 +58,17 @@ export class CommunityGenerator {
   private outputDir: string;
   private configPath: string;
   private cachePath: string;
+  private writer: OutputWriter;
+  private locale: Locale;
+  private messages: MessageCatalog['community'];
 
   constructor(config: CommunityGeneratorConfig = {}) {
     this.outputDir = config.outputDir || path.join(process.cwd(), 'output', 'resources', 'community');
     this.configPath = config.configPath || path.join(process.cwd(), 'config', 'community-packages.json');
     this.cachePath = config.cachePath || path.join(process.cwd(), 'data', 'cache', 'community-nodes.json');
+    this.writer = config.writer || new OutputWriter({ rootDir: this.outputDir });
+    this.locale = config.locale || DEFAULT_LOCALE;
+    this.messages = getMessages(this.locale).community;
   }
 
   /**
@@ -136,43 +122,42 @@ export class CommunityGenerator {
    * Generate README.md (index file)
    */
   private generateReadme(result: CommunityCollectionResult, cache: CommunityNodesCache | null): string {
+    const messages = this.messages;
     const groups = this.groupByCategory(result.packages);
-
-    let content = `# Popular Community Nodes
-
-> Top ${result.limit} most popular n8n community nodes from npm registry.
-> Last updated: ${new Date(result.lastUpdated).toLocaleDateString('en-US', {
+    const lastUpdated = new Date(result.lastUpdated).toLocaleDateString(this.locale, {
       year: 'numeric',
       month: 'long',
       day: 'numeric',
-    })}
-
-## Overview
-
-| Metric | Value |
-|--------|-------|
-| Total Packages | ${result.packages.length} |
-| Categories | ${groups.size} |
-
-## Packages
+    });
 
-| Rank | Package | Category | Nodes |
-|------|---------|----------|-------|
-`;
+    const lines = [
+      `# ${messages.title}`,
+      '',
+      formatMessage(messages.intro, { limit: result.limit }),
+      formatMessage(messages.lastUpdated, { date: lastUpdated }),
+      '',
+      `## ${messages.overview}`,
+      '',
+      messages.overviewTableHeader,
+      '|--------|-------|',
+      formatMessage(messages.totalPackages, { count: result.packages.length }),
+      formatMessage(messages.categoryCount, { count: groups.size }),
+      '',
+      `## ${messages.packages}`,
+      '',
+      messages.packagesTableHeader,
+      '|------|---------|----------|-------|',
+    ];
 
     result.packages.forEach((pkg, index) => {
-      const categoryInfo = CATEGORY_INFO[pkg.category];
       const cachedDetails = cache?.nodes[pkg.name];
       const nodeCount = cachedDetails?.nodes?.length || 0;
       const hasDetails = nodeCount > 0;
       const packageLink = hasDetails ? `[${pkg.name}](./${this.sanitizeFilename(pkg.name)}.md)` : pkg.name;
-      content += `| ${index + 1} | ${packageLink} | ${categoryInfo.icon} ${pkg.category} | ${nodeCount} |\n`;
+      lines.push(`| ${index + 1} | ${packageLink} | ${CATEGORY_ICONS[pkg.category]} ${pkg.category} | ${nodeCount} |`);
     });
 
-    content += `
-## Categories
-
-`;
+    lines.push('', `## ${messages.categories}`, '');
 
     // Sort categories by package count
     const sortedCategories = Array.from(groups.entries()).sort(
@@ -180,29 +165,20 @@ export class CommunityGenerator {
     );
 
     for (const [category, packages] of sortedCategories) {
-      const info = CATEGORY_INFO[category];
-      content += `### ${info.icon} ${info.name}
-
-> ${info.description}
-
-- Packages: ${packages.length}
-
-`;
+      const info = messages.categoryInfo[category];
+      lines.push(
+        `### ${CATEGORY_ICONS[category]} ${info.name}`,
+        '',
+        `> ${info.description}`,
+        '',
+        formatMessage(messages.packageCount, { count: packages.length }),
+        ''
+      );
     }
 
-    content += `## Installation
-
-Community nodes can be installed via n8n's GUI:
-
-1. Go to **Settings** > **Community Nodes**
-2. Click **Install**
-3. Enter the package name (e.g., \`n8n-nodes-evolution-api\`)
-4. Click **Install**
-
-> Note: Community nodes are only available on self-hosted n8n instances.
-`;
+    lines.push(`## ${messages.installation}`, '', ...messages.installSteps, '');
 
-    return content;
+    return lines.join('\n');
   }
 
   /**
@@ -219,6 +195,7 @@ Community nodes can be installed via n8n's GUI:
     pkg: CommunityPackage,
     details: CommunityNodeDetails | undefined
   ): string {
+    const messages = this.messages;
     const lines: string[] = [];
 
     // Title
@@ -226,32 +203,36 @@ Community nodes can be installed via n8n's GUI:
     lines.push('');
 
     // Basic information
-    lines.push('## Basic Information');
+    lines.push(`## ${messages.basicInformation}`);
     lines.push('');
-    lines.push(`- Package: \`${pkg.name}\``);
-    lines.push(`- Category: ${CATEGORY_INFO[pkg.category].icon} ${CATEGORY_INFO[pkg.category].name}`);
+    lines.push(formatMessage(messages.package, { name: pkg.name }));
+    lines.push(formatMessage(messages.category, {
+      category: `${CATEGORY_ICONS[pkg.category]} ${messages.categoryInfo[pkg.category].name}`,
+    }));
     if (pkg.version) {
-      lines.push(`- Version: ${pkg.version}`);
+      lines.push(formatMessage(messages.version, { version: pkg.version }));
     }
     if (pkg.maintainer) {
-      lines.push(`- Maintainer: ${pkg.maintainer}`);
+      lines.push(formatMessage(messages.maintainer, { maintainer: pkg.maintainer }));
+    }
+    if (pkg.npmUrl) {
+      lines.push(formatMessage(messages.npm, { url: pkg.npmUrl }));
     }
-    lines.push(`- npm: [View Package](${pkg.npmUrl})`);
     if (pkg.repository) {
-      lines.push(`- Repository: [View Source](${this.cleanRepositoryUrl(pkg.repository)})`);
+      lines.push(formatMessage(messages.repository, { url: this.cleanRepositoryUrl(pkg.repository) }));
     }
     lines.push('');
 
     // Description
     if (pkg.description) {
-      lines.push('## Description');
+      lines.push(`## ${messages.description}`);
       lines.push('');
       lines.push(escapeMarkdown(pkg.description));
       lines.push('');
     }
 
     // Installation
-    lines.push('## Installation');
+    lines.push(`## ${messages.installation}`);
     lines.push('');
     lines.push('```');
     lines.push(pkg.name);
@@ -260,22 +241,22 @@ Community nodes can be installed via n8n's GUI:
 
     // Node details from cache
     if (details && details.nodes && details.nodes.length > 0) {
-      lines.push(`## Nodes (${details.nodes.length})`);
+      lines.push(`## ${formatMessage(messages.nodes, { count: details.nodes.length })}`);
       lines.push('');
 
       for (const node of details.nodes) {
         this.appendNodeDetails(lines, node);
       }
     } else if (details?.loadError) {
-      lines.push('## Node Details');
+      lines.push(`## ${messages.nodeDetails}`);
       lines.push('');
-      lines.push(`> Node details unavailable: ${details.loadError}`);
+      lines.push(formatMessage(messages.nodeDetailsUnavailable, { error: details.loadError }));
       lines.push('');
     }
 
     lines.push('---');
     lines.push('');
-    lines.push('[← Back to Community Nodes Index](README.md)');
+    lines.push(messages.backToIndex);
     lines.push('');
 
     return lines.join('\n');
@@ -285,14 +266,15 @@ Community nodes can be installed via n8n's GUI:
    * Append details for a single node
    */
   private appendNodeDetails(lines: string[], node: CommunityNodeInfo): void {
+    const messages = this.messages;
     lines.push(`### ${node.displayName}`);
     lines.push('');
 
     // Basic info
-    lines.push(`- Node Type: \`${node.nodeType}\``);
-    lines.push(`- Version: ${node.version}`);
+    lines.push(formatMessage(messages.nodeType, { nodeType: node.nodeType }));
+    lines.push(formatMessage(messages.version, { version: node.version }));
     if (node.properties?.hasCredentials) {
-      lines.push(`- Requires Credentials: Yes`);
+      lines.push(messages.requiresCredentials);
     }
     lines.push('');
 
@@ -304,7 +286,7 @@ Community nodes can be installed via n8n's GUI:
 
     // Operations
     if (node.properties?.operations && node.properties.operations.length > 0) {
-      lines.push('#### Available Operations');
+      lines.push(`#### ${messages.availableOperations}`);
       lines.push('');
       this.appendOperations(lines, node.properties.operations);
     }
@@ -316,12 +298,12 @@ Community nodes can be installed via n8n's GUI:
 
     // Connection info
     if (node.ioInfo) {
-      lines.push('#### Connection');
+      lines.push(`#### ${messages.connection}`);
       lines.push('');
-      lines.push(`- Input Types: ${node.ioInfo.inputTypes.map(t => `\`${t}\``).join(', ')}`);
-      lines.push(`- Output Types: ${node.ioInfo.outputTypes.map(t => `\`${t}\``).join(', ')}`);
+      lines.push(formatMessage(messages.inputTypes, { types: node.ioInfo.inputTypes.map(t => `\`${t}\``).join(', ') }));
+      lines.push(formatMessage(messages.outputTypes, { types: node.ioInfo.outputTypes.map(t => `\`${t}\``).join(', ') }));
       if (node.ioInfo.outputCount > 1) {
-        lines.push(`- Output Count: ${node.ioInfo.outputCount}`);
+        lines.push(formatMessage(messages.outputCount, { count: node.ioInfo.outputCount }));
       }
       lines.push('');
     }
@@ -348,7 +330,7 @@ Community nodes can be installed via n8n's GUI:
     }
 
     if (operations.length > 10) {
-      lines.push(`- ... and ${operations.length - 10} more operations`);
+      lines.push(formatMessage(this.messages.moreOperations, { count: operations.length - 10 }));
     }
     lines.push('');
   }
@@ -357,14 +339,14 @@ Community nodes can be installed via n8n's GUI:
    * Append properties table
    */
   private appendProperties(lines: string[], properties: CoreProperty[]): void {
-    lines.push('#### Core Properties');
+    lines.push(`#### ${this.messages.coreProperties}`);
     lines.push('');
-    lines.push('| Property | Type | Required | Default |');
+    lines.push(this.messages.propertiesTableHeader);
     lines.push('|----------|------|----------|---------|');
 
     for (const prop of properties) {
       const defaultValue = prop.default !== undefined ? `\`${JSON.stringify(prop.default)}\`` : '-';
-      const required = prop.required ? 'Yes' : 'No';
+      const required = prop.required ? this.messages.yes : this.messages.no;
       lines.push(`| \`${prop.name}\` | ${prop.type} | ${required} | ${defaultValue} |`);
     }
     lines.push('');
@@ -374,7 +356,7 @@ Community nodes can be installed via n8n's GUI:
    * Append JSON example
    */
   private appendExample(lines: string[], node: CommunityNodeInfo): void {
-    lines.push('#### Example Configuration');
+    lines.push(`#### ${this.messages.exampleConfiguration}`);
     lines.push('');
     lines.push('```json');
 
@@ -441,28 +423,25 @@ Community nodes can be installed via n8n's GUI:
    * Generate all documentation files
    */
   public async generate(): Promise<void> {
-    console.log('Generating community node documentation...');
+    logger.info('Generating community node documentation...');
 
     // Load config and cache
     const result = await this.loadConfig();
     const cache = await this.loadCache();
 
     if (result.packages.length === 0) {
-      console.log('No community packages found, skipping generation');
+      logger.info('No community packages found, skipping generation');
       return;
     }
 
-    // Ensure output directory exists
-    await fs.promises.mkdir(this.outputDir, { recursive: true });
-
     // Generate README.md
     const readmeContent = this.generateReadme(result, cache);
-    await fs.promises.writeFile(
+    await this.writer.write(
       path.join(this.outputDir, 'README.md'),
       readmeContent,
-      'utf-8'
+      'CommunityGenerator'
     );
-    console.log(`  Generated: README.md`);
+    logger.info('Generated: README.md');
 
     // Generate detailed documentation for each package
     let detailedCount = 0;
@@ -473,10 +452,10 @@ Community nodes can be installed via n8n's GUI:
       const content = this.generatePackageDoc(pkg, details);
       const filename = `${this.sanitizeFilename(pkg.name)}.md`;
 
-      await fs.promises.writeFile(
+      await this.writer.write(
         path.join(this.outputDir, filename),
         content,
-        'utf-8'
+        'CommunityGenerator'
       );
 
       if (details?.nodes && details.nodes.length > 0) {
@@ -486,12 +465,10 @@ Community nodes can be installed via n8n's GUI:
       }
     }
 
-    console.log(`  Generated: ${result.packages.length} package files`);
-    console.log(`    - With detailed node info: ${detailedCount}`);
-    console.log(`    - Basic info only: ${basicCount}`);
-
-    console.log(`\nCommunity documentation generated in: ${this.outputDir}`);
-    console.log(`  Total files: ${result.packages.length + 1}`);
+    logger.info(
+      `Generated: ${result.packages.length} package files (${detailedCount} with detailed node info, ${basicCount} basic info only)`
+    );
+    logger.success(`Community documentation generated in: ${this.outputDir} (${result.packages.length + 1} files)`);
   }
 }
 
@@ -7,12 +7,19 @@
 
 import type { CompatibilityMatrix, NodeConnectionInfo } from '../models/connection';
 import type { NodeConnectionType } from 'n8n-workflow';
+import { DEFAULT_LOCALE, formatMessage, getMessages, type Locale, type MessageCatalog } from '../i18n';
 
 /**
  * Connection rule generator
  * Generate Markdown content for node connection guide
  */
 export class ConnectionRuleGenerator {
+  private messages: MessageCatalog['connections'];
+
+  constructor(locale: Locale = DEFAULT_LOCALE) {
+    this.messages = getMessages(locale).connections;
+  }
+
   /**
    * Generate complete connection guide for a single node
    * @param node Node information
@@ -29,27 +36,27 @@ export class ConnectionRuleGenerator {
   ): string {
     const sections: string[] = [];
 
-    sections.push('## Connection Guide\n');
+    sections.push(`## ${this.messages.guide}\n`);
 
     // 1. Connection Type information
-    sections.push('### Connection Type\n');
+    sections.push(`### ${this.messages.connectionType}\n`);
     sections.push(this.formatConnectionTypes(node));
 
     // 2. Can Receive From which nodes
     if (node.inputTypes.length > 0) {
-      sections.push('\n### Can Receive From\n');
+      sections.push(`\n### ${this.messages.canReceiveFrom}\n`);
       sections.push(this.formatIncomingConnections(node, matrix, allNodes, limit));
     }
 
     // 3. Can Connect To which nodes
     if (node.outputTypes.length > 0) {
-      sections.push('\n### Can Connect To\n');
+      sections.push(`\n### ${this.messages.canConnectTo}\n`);
       sections.push(this.formatOutgoingConnections(node, matrix, allNodes, limit));
     }
 
     // 4. Special notes (for AI nodes)
     if (node.requiresSpecialInputs) {
-      sections.push('\n### Special Requirements\n');
+      sections.push(`\n### ${this.messages.specialRequirements}\n`);
       sections.push(this.formatSpecialRequirements(node));
     }
 
@@ -63,20 +70,23 @@ export class ConnectionRuleGenerator {
     const lines: string[] = [];
 
     if (node.inputTypes.length > 0) {
-      lines.push(`- Input Types: ${this.formatConnectionTypeList(node.inputTypes)}`);
+      lines.push(formatMessage(this.messages.inputTypes, { types: this.formatConnectionTypeList(node.inputTypes) }));
     } else {
-      lines.push('- Input Types: None (this is a trigger or starting node)');
+      lines.push(this.messages.noInputTypes);
     }
 
     if (node.outputTypes.length > 0) {
-      lines.push(`- Output Types: ${this.formatConnectionTypeList(node.outputTypes)}`);
+      lines.push(formatMessage(this.messages.outputTypes, { types: this.formatConnectionTypeList(node.outputTypes) }));
 
       // If there are multiple outputs, display output details
       if (node.outputCount > 1 || node.isDynamicOutput) {
-        lines.push(`- Output Count: ${node.isDynamicOutput ? `${node.outputCount} (configurable)` : `${node.outputCount}`}`);
+        const count = node.isDynamicOutput
+          ? formatMessage(this.messages.configurableCount, { count: node.outputCount })
+          : `${node.outputCount}`;
+        lines.push(formatMessage(this.messages.outputCount, { count }));
 
         if (node.outputNames.length > 0) {
-          lines.push('\nOutput Details:');
+          lines.push(`\n${this.messages.outputDetails}`);
           node.outputNames.forEach((name, index) => {
             const description = this.getOutputDescription(node.nodeType, name);
             lines.push(`${index + 1}. \`${name}\`${description ? ` - ${description}` : ''}`);
@@ -94,7 +104,7 @@ export class ConnectionRuleGenerator {
   private formatConnectionTypeList(types: NodeConnectionType[]): string {
     return types.map(type => {
       if (type === 'main') {
-        return '`main` (general data flow)';
+        return this.messages.mainType;
       } else if (type.startsWith('ai_')) {
         const name = type.replace('ai_', '').replace(/([A-Z])/g, ' $1').trim();
         return `\`${type}\` (${name})`;
@@ -109,32 +119,34 @@ export class ConnectionRuleGenerator {
    * Provides useful descriptions for common multi-output nodes
    */
   private getOutputDescription(nodeType: string, outputName: string): string {
+    const descriptions = this.messages.outputDescriptions;
+
     // If node
     if (nodeType === 'nodes-base.if') {
-      if (outputName === 'true') return 'Output when condition is true';
-      if (outputName === 'false') return 'Output when condition is false';
+      if (outputName === 'true') return descriptions.ifTrue;
+      if (outputName === 'false') return descriptions.ifFalse;
     }
 
     // Split In Batches node
     if (nodeType === 'nodes-base.splitInBatches') {
-      if (outputName === 'done') return 'Output when all batches are processed';
-      if (outputName === 'loop') return 'Output for each batch iteration (for looping)';
+      if (outputName === 'done') return descriptions.batchesDone;
+      if (outputName === 'loop') return descriptions.batchesLoop;
     }
 
     // Compare Datasets node
     if (nodeType === 'nodes-base.compareDatasets') {
-      if (outputName === 'In A only') return 'Items only in dataset A';
-      if (outputName === 'Same') return 'Items that are the same in both datasets';
-      if (outputName === 'Different') return 'Items that are different between datasets';
-      if (outputName === 'In B only') return 'Items only in dataset B';
+      if (outputName === 'In A only') return descriptions.inAOnly;
+      if (outputName === 'Same') return descriptions.same;
+      if (outputName === 'Different') return descriptions.different;
+      if (outputName === 'In B only') return descriptions.inBOnly;
     }
 
     // Switch node
     if (nodeType === 'nodes-base.switch') {
       if (!isNaN(Number(outputName))) {
-        return `Output path ${outputName}`;
+        return formatMessage(descriptions.switchPath, { output: outputName });
       }
-      if (outputName === 'Fallback') return 'Default output when no rules match';
+      if (outputName === 'Fallback') return descriptions.switchFallback;
     }
 
     return '';
@@ -169,13 +181,13 @@ export class ConnectionRuleGenerator {
       .slice(0, limit);
 
     if (incoming.length === 0) {
-      return 'This node does not accept input from other nodes (usually a trigger node).';
+      return this.messages.noIncoming;
     }
 
     const lines: string[] = [];
     incoming.forEach((item, idx) => {
       const typeStr = item.connectionTypes.map(t => `\`${t}\``).join(', ');
-      lines.push(`${idx + 1}. ${item.node.displayName} - via ${typeStr} connection`);
+      lines.push(formatMessage(this.messages.connectionVia, { index: idx + 1, name: item.node.displayName, types: typeStr }));
     });
 
     return lines.join('\n');
@@ -192,7 +204,7 @@ export class ConnectionRuleGenerator {
   ): string {
     const entry = matrix[node.nodeType];
     if (!entry || entry.compatible.length === 0) {
-      return 'This node has no output, usually used as a workflow endpoint.';
+      return this.messages.noOutgoing;
     }
 
     const outgoing = entry.compatible
@@ -210,7 +222,7 @@ export class ConnectionRuleGenerator {
     const lines: string[] = [];
     outgoing.forEach((item, idx) => {
       const typeStr = item.connectionTypes.map(t => `\`${t}\``).join(', ');
-      lines.push(`${idx + 1}. ${item.node!.displayName} - via ${typeStr} connection`);
+      lines.push(formatMessage(this.messages.connectionVia, { index: idx + 1, name: item.node!.displayName, types: typeStr }));
     });
 
     return lines.join('\n');
@@ -228,18 +240,18 @@ export class ConnectionRuleGenerator {
       return '';
     }
 
-    lines.push('This AI node requires the following special inputs:\n');
+    lines.push(`${this.messages.specialInputs}\n`);
 
     aiInputTypes.forEach(type => {
       const name = type.replace('ai_', '').replace(/([A-Z])/g, ' $1').trim();
       let required = '';
 
       if (type === 'ai_languageModel') {
-        required = '(required)';
+        required = this.messages.required;
       } else if (type === 'ai_tool' || type === 'ai_memory') {
-        required = '(optional, multiple allowed)';
+        required = this.messages.optionalMultiple;
       } else {
-        required = '(optional)';
+        required = this.messages.optional;
       }
 
       lines.push(`- ${name} ${required}`);
@@ -261,15 +273,16 @@ export class ConnectionRuleGenerator {
     topN: number = 30
   ): string {
     const sections: string[] = [];
+    const messages = this.messages.matrix;
 
-    sections.push('# Node Compatibility Matrix\n');
-    sections.push('This matrix shows connection compatibility between nodes. Rows are source nodes, columns are target nodes.\n');
+    sections.push(`# ${messages.title}\n`);
+    sections.push(`${messages.intro}\n`);
 
     // Only select top N nodes
     const selectedNodes = allNodes.slice(0, topN);
 
     // Build header
-    const header = ['Source Node ↓ / Target Node →'];
+    const header = [messages.corner];
     selectedNodes.forEach(node => {
       header.push(this.truncateName(node.displayName, 12));
     });
@@ -308,12 +321,8 @@ export class ConnectionRuleGenerator {
     });
 
     // Legend
-    sections.push('\n## Legend\n');
-    sections.push('- `++` High Compatibility (score ≥ 70) - Strongly recommended');
-    sections.push('- `+` Medium Compatibility (score 50-69) - Can connect');
-    sections.push('- `~` Low Compatibility (score < 50) - May be able to connect');
-    sections.push('- `X` Incompatible - Cannot connect');
-    sections.push('- `-` N/A - Same node');
+    sections.push(`\n## ${messages.legend}\n`);
+    sections.push(...messages.legendItems);
 
     return sections.join('\n');
   }
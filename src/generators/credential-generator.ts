@@ -0,0 +1,257 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ *
+ * Generate the credential type catalog (resources/credentials/).
+ */
+
+import * as path from 'path';
+import type { CredentialAuthType, CredentialField, CredentialTypeInfo } from '../collectors/credential-collector';
+import type { EnrichedNodeInfo } from './skill-generator';
+import { escapeTableCell } from './template-formatter';
+import { OutputWriter } from '../utils/output-writer';
+import { DEFAULT_LOCALE, formatMessage, getMessages, type Locale, type MessageCatalog } from '../i18n';
+
+/** Auth types in the order the index lists them */
+const AUTH_TYPES: CredentialAuthType[] = ['oauth2', 'oauth1', 'apiKey', 'header', 'basic', 'custom'];
+
+
+export interface CredentialGeneratorConfig {
+  outputDir?: string;
+  /** Shared output writer (a private one is used when omitted) */
+  writer?: OutputWriter;
+  /** Language of the generated documents */
+  locale?: Locale;
+}
+
+/**
+ * Node that uses a credential type
+ */
+interface CredentialUsage {
+  nodeType: string;
+  displayName: string;
+  required: boolean;
+  /** Parameter values that select this credential (e.g. authentication = oAuth2) */
+  condition?: string;
+}
+
+/**
+ * Credential generator
+ * Writes one file per credential type plus an index linking nodes to their credential types
+ */
+export class CredentialGenerator {
+  private outputDir: string;
+  private writer: OutputWriter;
+  private messages: MessageCatalog['credentials'];
+
+  constructor(config: CredentialGeneratorConfig = {}) {
+    this.outputDir = config.outputDir || path.join(process.cwd(), 'output', 'resources', 'credentials');
+    this.writer = config.writer || new OutputWriter({ rootDir: this.outputDir });
+    this.messages = getMessages(config.locale || DEFAULT_LOCALE).credentials;
+  }
+
+  /**
+   * Generate the credential catalog
+   * @param credentials Collected credential types
+   * @param nodes Nodes whose properties list their credential types
+   * @returns Number of credential files written (index excluded)
+   */
+  async generate(credentials: CredentialTypeInfo[], nodes: EnrichedNodeInfo[]): Promise<number> {
+    const usage = this.buildUsage(nodes);
+    const known = new Set(credentials.map(credential => credential.name));
+
+    for (const credential of credentials) {
+      const content = this.buildCredentialContent(credential, usage.get(credential.name) || []);
+      await this.writer.write(path.join(this.outputDir, `${credential.name}.md`), content, 'CredentialGenerator');
+    }
+
+    await this.writer.write(
+      path.join(this.outputDir, 'README.md'),
+      this.buildIndexContent(credentials, nodes, known),
+      'CredentialGenerator'
+    );
+
+    return credentials.length;
+  }
+
+  /**
+   * Map credential names to the nodes that use them
+   */
+  private buildUsage(nodes: EnrichedNodeInfo[]): Map<string, CredentialUsage[]> {
+    const usage = new Map<string, CredentialUsage[]>();
+
+    for (const node of nodes) {
+      for (const ref of node.properties?.credentials || []) {
+        if (!usage.has(ref.name)) {
+          usage.set(ref.name, []);
+        }
+        usage.get(ref.name)!.push({
+          nodeType: node.nodeType,
+          displayName: node.displayName,
+          required: ref.required,
+          condition: this.formatCondition(ref.displayOptions?.show),
+        });
+      }
+    }
+
+    return usage;
+  }
+
+  /**
+   * Build the index (auth type summary and node → credential table)
+   */
+  private buildIndexContent(credentials: CredentialTypeInfo[], nodes: EnrichedNodeInfo[], known: Set<string>): string {
+    const messages = this.messages;
+    const lines: string[] = [];
+
+    lines.push(`# ${messages.title}`);
+    lines.push('');
+    lines.push(messages.intro);
+    lines.push('');
+
+    // Auth type summary
+    lines.push(`## ${messages.authTypes}`);
+    lines.push('');
+    lines.push(messages.authTypesTableHeader);
+    lines.push('|-----------|-------------|-------|');
+    AUTH_TYPES.forEach(type => {
+      const count = credentials.filter(credential => credential.authType === type).length;
+      if (count > 0) {
+        lines.push(`| ${messages.authTypeInfo[type].name} | ${count} | ${messages.authTypeInfo[type].setup} |`);
+      }
+    });
+    lines.push('');
+
+    // Node → credential types
+    const nodesWithCredentials = nodes
+      .filter(node => (node.properties?.credentials || []).length > 0)
+      .sort((a, b) => a.displayName.localeCompare(b.displayName));
+
+    if (nodesWithCredentials.length > 0) {
+      lines.push(`## ${messages.nodes}`);
+      lines.push('');
+      lines.push(messages.nodesTableHeader);
+      lines.push('|------|------------------|');
+      nodesWithCredentials.forEach(node => {
+        const links = (node.properties?.credentials || []).map(ref =>
+          known.has(ref.name) ? `[${ref.name}](./${ref.name}.md)` : `\`${ref.name}\``
+        );
+        lines.push(`| ${escapeTableCell(node.displayName)} (\`${node.nodeType}\`) | ${links.join(', ')} |`);
+      });
+      lines.push('');
+    }
+
+    // All credential types
+    lines.push(`## ${messages.allCredentialTypes}`);
+    lines.push('');
+    lines.push(messages.allCredentialTypesTableHeader);
+    lines.push('|------------|-----------|-----------------|');
+    credentials.forEach(credential => {
+      const required = credential.fields.filter(field => field.required).map(field => `\`${field.name}\``);
+      lines.push(
+        `| [${escapeTableCell(credential.displayName)}](./${credential.name}.md) | ${messages.authTypeInfo[credential.authType].name} | ${required.join(', ') || '-'} |`
+      );
+    });
+    lines.push('');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Build the document of a single credential type
+   */
+  private buildCredentialContent(credential: CredentialTypeInfo, usedBy: CredentialUsage[]): string {
+    const messages = this.messages;
+    const lines: string[] = [];
+    const authType = messages.authTypeInfo[credential.authType];
+
+    lines.push(`# ${credential.displayName}`);
+    lines.push('');
+    lines.push(formatMessage(messages.credentialType, { name: credential.name }));
+    lines.push(formatMessage(messages.authType, { authType: authType.name }));
+    lines.push(formatMessage(messages.package, { packageName: credential.packageName }));
+    if (credential.extends.length > 0) {
+      lines.push(formatMessage(messages.extends, { credentials: credential.extends.map(name => `\`${name}\``).join(', ') }));
+    }
+    if (credential.documentationUrl) {
+      lines.push(formatMessage(messages.documentation, { url: credential.documentationUrl }));
+    }
+    lines.push('');
+
+    lines.push(`## ${messages.setup}`);
+    lines.push('');
+    lines.push(authType.setup);
+    lines.push('');
+
+    const required = credential.fields.filter(field => field.required);
+    const optional = credential.fields.filter(field => !field.required);
+
+    if (required.length > 0) {
+      lines.push(`## ${messages.requiredFields}`);
+      lines.push('');
+      this.appendFieldTable(lines, required);
+    }
+
+    if (optional.length > 0) {
+      lines.push(`## ${messages.optionalFields}`);
+      lines.push('');
+      this.appendFieldTable(lines, optional);
+    }
+
+    if (usedBy.length > 0) {
+      lines.push(`## ${messages.usedBy}`);
+      lines.push('');
+      [...usedBy]
+        .sort((a, b) => a.displayName.localeCompare(b.displayName))
+        .forEach(node => {
+          const notes = [node.required ? messages.required : messages.optional, node.condition].filter(Boolean).join(', ');
+          lines.push(`- ${node.displayName} (\`${node.nodeType}\`) - ${notes}`);
+        });
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Append a field table
+   */
+  private appendFieldTable(lines: string[], fields: CredentialField[]): void {
+    lines.push(this.messages.fieldTableHeader);
+    lines.push('|-------|------|---------|-------------|');
+    fields.forEach(field => {
+      const type = field.secret ? formatMessage(this.messages.secretType, { type: field.type }) : field.type;
+      const defaultValue = field.default !== undefined ? `\`${String(JSON.stringify(field.default)).replace(/\|/g, '\\|')}\`` : '-';
+      const description = field.description ? escapeTableCell(field.description.replace(/\n/g, ' ')) : '-';
+      lines.push(`| \`${field.name}\` (${escapeTableCell(field.displayName)}) | ${type} | ${defaultValue} | ${description} |`);
+    });
+    lines.push('');
+  }
+
+  /**
+   * Format displayOptions.show of a credential reference
+   */
+  private formatCondition(show?: Record<string, unknown[]>): string | undefined {
+    const conditions = Object.entries(show || {}).map(([key, values]) =>
+      formatMessage(this.messages.conditionValues, {
+        name: key.replace(/^\//, ''),
+        values: values.map(value => JSON.stringify(value)).join(this.messages.or),
+      })
+    );
+    return conditions.length > 0 ? formatMessage(this.messages.condition, { conditions: conditions.join(', ') }) : undefined;
+  }
+}
+
+/**
+ * Convenience function: generate the credential catalog
+ */
+export async function generateCredentialDocs(
+  credentials: CredentialTypeInfo[],
+  nodes: EnrichedNodeInfo[],
+  config: CredentialGeneratorConfig = {}
+): Promise<number> {
+  const generator = new CredentialGenerator(config);
+  return generator.generate(credentials, nodes);
+}
@@ -36,8 +36,49 @@ export {
   type TemplateGeneratorConfig,
 } from './template-generator';
 
+export {
+  TemplateCategorizer,
+  type CategorizableTemplate,
+  type TemplateCategoryTag,
+  type TemplateCategorization,
+  type TemplateCategorizerOptions,
+} from './template-categorizer';
+
 export {
   CommunityGenerator,
   generateCommunityDocs,
   type CommunityGeneratorConfig,
 } from './community-generator';
+
+export {
+  CredentialGenerator,
+  generateCredentialDocs,
+  type CredentialGeneratorConfig,
+} from './credential-generator';
+
+export {
+  WebsiteGenerator,
+  type WebsiteCatalog,
+  type WebsiteCatalogData,
+  type WebsitePage,
+  type WebsiteSearchEntry,
+  type WebsiteGeneratorConfig,
+} from './website-generator';
+
+export {
+  KnowledgeExporter,
+  parseJsonLines,
+  type KnowledgeExport,
+  type KnowledgeExportData,
+  type KnowledgeExportFileContent,
+  type KnowledgeExporterConfig,
+} from './knowledge-exporter';
+
+export {
+  ChunkExporter,
+  estimateTokens,
+  CHUNK_SCHEMA,
+  type ChunkExportData,
+  type ChunkExporterConfig,
+  type ChunkSourceDocument,
+} from './chunk-exporter';
@@ -0,0 +1,506 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import * as fs from 'fs';
+import path from 'path';
+import type { EnrichedNodeInfo } from './skill-generator';
+import type { Template } from './template-generator';
+import type { WorkflowDefinition } from '../collectors/api-collector';
+import type { CompatibilityMatrix, NodeConnectionInfo } from '../models/connection';
+import { normalizeNodeType } from '../analyzers/workflow-validator';
+import {
+  KNOWLEDGE_EXPORT_FILES,
+  KNOWLEDGE_EXPORT_SCHEMA_VERSION,
+  type ExportedCompatibility,
+  type ExportedCompatibilityGroup,
+  type ExportedNode,
+  type ExportedTemplate,
+  type KnowledgeExportManifest,
+} from '../models/knowledge-export';
+
+/**
+ * Data the export is generated from (the build stage artifacts)
+ */
+export interface KnowledgeExportData {
+  /** Ranked nodes (primary and remaining) with properties and usage */
+  nodes: EnrichedNodeInfo[];
+  connections?: NodeConnectionInfo[];
+  compatibilityMatrix?: CompatibilityMatrix;
+  /** Template summaries (templates.json) */
+  templates?: Template[];
+  /** Downloaded template workflows */
+  templateWorkflows?: Array<WorkflowDefinition & { id: number; name: string }>;
+}
+
+/**
+ * Exporter configuration
+ */
+export interface KnowledgeExporterConfig {
+  generatorVersion: string;
+  n8nVersion: string;
+}
+
+/**
+ * Generated export file, path relative to the export directory
+ */
+export interface KnowledgeExportFileContent {
+  path: string;
+  content: string;
+}
+
+/**
+ * Export read back from disk
+ */
+export interface KnowledgeExport {
+  manifest: KnowledgeExportManifest;
+  nodes: ExportedNode[];
+  compatibility: ExportedCompatibility;
+  templates: ExportedTemplate[];
+}
+
+const SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+const stringArray = { type: 'array', items: { type: 'string' } };
+
+/**
+ * JSON Schemas written to schema/ in the export, keyed by file name
+ * Keep in sync with src/models/knowledge-export.ts
+ */
+const SCHEMAS: Record<string, Record<string, unknown>> = {
+  'manifest.schema.json': {
+    $schema: SCHEMA_DIALECT,
+    $id: 'manifest.schema.json',
+    title: 'n8n-skills knowledge export manifest',
+    description: 'Entry point of the export: schema version, generator and the data files with their record counts.',
+    type: 'object',
+    required: ['schemaVersion', 'generator', 'n8nVersion', 'files'],
+    properties: {
+      schemaVersion: { type: 'string', description: 'Semantic version of the export schemas. A new major version changes records incompatibly.' },
+      generator: {
+        type: 'object',
+        required: ['name', 'version'],
+        properties: { name: { type: 'string' }, version: { type: 'string' } },
+      },
+      n8nVersion: { type: 'string', description: 'n8n version the node data was collected from.' },
+      files: {
+        type: 'object',
+        required: ['nodes', 'compatibility', 'templates'],
+        additionalProperties: { $ref: '#/$defs/file' },
+      },
+    },
+    $defs: {
+      file: {
+        type: 'object',
+        required: ['path', 'format', 'schema', 'count'],
+        properties: {
+          path: { type: 'string', description: 'Path relative to the export directory.' },
+          format: { enum: ['json', 'jsonl'], description: 'json: one document; jsonl: one record per line.' },
+          schema: { type: 'string', description: 'JSON Schema of one record (jsonl) or of the document (json).' },
+          count: { type: 'integer', minimum: 0 },
+        },
+      },
+    },
+  },
+  'node.schema.json': {
+    $schema: SCHEMA_DIALECT,
+    $id: 'node.schema.json',
+    title: 'n8n node',
+    description: 'One line of nodes.jsonl: node metadata, parameters, operations, credentials, connection types, usage and priority.',
+    type: 'object',
+    required: [
+      'nodeType', 'workflowType', 'displayName', 'description', 'category', 'packageName', 'packageOrigin',
+      'version', 'typeVersions', 'isTrigger', 'isWebhook', 'isAITool', 'usage', 'priority', 'connections',
+      'credentials', 'operations', 'properties', 'totalPropertyCount',
+    ],
+    properties: {
+      nodeType: { type: 'string', description: 'Collected node type, e.g. nodes-base.slack.' },
+      workflowType: { type: 'string', description: 'Type used in workflow JSON, e.g. n8n-nodes-base.slack.' },
+      displayName: { type: 'string' },
+      description: { type: 'string' },
+      category: { type: 'string', description: 'transform, input, output, trigger, organization or misc.' },
+      packageName: { type: 'string' },
+      packageOrigin: { enum: ['core', 'extra'], description: 'core: official n8n packages; extra: packages added in skill-config.json.' },
+      version: { type: 'string', description: 'Latest typeVersion.' },
+      typeVersions: { type: 'array', items: { type: 'number' }, description: 'Every supported typeVersion (empty when unknown).' },
+      isTrigger: { type: 'boolean' },
+      isWebhook: { type: 'boolean' },
+      isAITool: { type: 'boolean' },
+      usage: {
+        type: 'object',
+        required: ['count', 'percentage'],
+        properties: {
+          count: { type: 'integer', minimum: 0, description: 'Number of collected templates using the node.' },
+          percentage: { type: 'number', minimum: 0, maximum: 100, description: 'Share of collected templates using the node.' },
+        },
+      },
+      priority: {
+        description: 'Position in the priority ranking; null for nodes that were not ranked.',
+        oneOf: [
+          { type: 'null' },
+          {
+            type: 'object',
+            required: ['rank', 'score', 'tier'],
+            properties: {
+              rank: { type: 'integer', minimum: 1 },
+              score: { type: 'number' },
+              tier: { enum: ['essential', 'common', 'specialized'] },
+            },
+          },
+        ],
+      },
+      connections: {
+        description: 'Connection types; null when they could not be parsed.',
+        oneOf: [
+          { type: 'null' },
+          {
+            type: 'object',
+            required: ['inputTypes', 'outputTypes', 'outputCount', 'outputNames', 'isDynamicOutput', 'requiresSpecialInputs'],
+            properties: {
+              inputTypes: stringArray,
+              outputTypes: stringArray,
+              outputCount: { type: 'integer', minimum: 0 },
+              outputNames: stringArray,
+              isDynamicOutput: { type: 'boolean' },
+              requiresSpecialInputs: { type: 'boolean', description: 'AI nodes that need sub-nodes (language model, memory, tools) connected.' },
+            },
+          },
+        ],
+      },
+      credentials: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['name', 'required'],
+          properties: {
+            name: { type: 'string' },
+            required: { type: 'boolean' },
+            displayOptions: { type: 'object', description: 'Parameter values the credential is shown for.' },
+          },
+        },
+      },
+      operations: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['value', 'name'],
+          properties: {
+            value: { type: 'string', description: 'Operation value set in the node parameters.' },
+            name: { type: 'string' },
+            resource: { type: 'string' },
+            description: { type: 'string' },
+          },
+        },
+      },
+      properties: {
+        type: 'array',
+        description: 'Most relevant parameters.',
+        items: {
+          type: 'object',
+          required: ['name', 'displayName', 'type', 'required'],
+          properties: {
+            name: { type: 'string' },
+            displayName: { type: 'string' },
+            type: { type: 'string' },
+            required: { type: 'boolean' },
+            description: { type: 'string' },
+            default: {},
+            options: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['name', 'value'],
+                properties: { name: { type: 'string' }, value: {}, description: { type: 'string' } },
+              },
+            },
+          },
+        },
+      },
+      totalPropertyCount: { type: 'integer', minimum: 0, description: 'Number of parameters of the node, including those not listed.' },
+    },
+  },
+  'compatibility.schema.json': {
+    $schema: SCHEMA_DIALECT,
+    $id: 'compatibility.schema.json',
+    title: 'Node compatibility',
+    description: 'Nodes each node can connect to. Only compatible pairs are listed; targets are grouped by score, reason and connection types.',
+    type: 'object',
+    required: ['sources'],
+    properties: {
+      sources: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['source', 'groups'],
+          properties: {
+            source: { type: 'string', description: 'Collected node type of the source node.' },
+            groups: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['score', 'reason', 'connectionTypes', 'targets'],
+                properties: {
+                  score: { type: 'number', minimum: 0, maximum: 100, description: 'Higher is a more natural connection.' },
+                  reason: { type: 'string' },
+                  connectionTypes: stringArray,
+                  targets: stringArray,
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  'template.schema.json': {
+    $schema: SCHEMA_DIALECT,
+    $id: 'template.schema.json',
+    title: 'n8n.io workflow template',
+    description: 'One line of templates.jsonl: template summary, the node types it uses and its workflow when downloaded.',
+    type: 'object',
+    required: ['id', 'name', 'url', 'description', 'totalViews', 'nodeTypes'],
+    properties: {
+      id: { type: 'integer' },
+      name: { type: 'string' },
+      url: { type: 'string' },
+      description: { type: 'string' },
+      totalViews: { type: 'integer', minimum: 0 },
+      createdAt: { type: 'string' },
+      author: { type: 'string' },
+      nodeTypes: { ...stringArray, description: 'Collected node types used by the template (sticky notes excluded).' },
+      workflow: {
+        type: 'object',
+        required: ['nodes', 'connections'],
+        properties: {
+          nodes: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['name', 'type', 'parameters'],
+              properties: {
+                name: { type: 'string' },
+                type: { type: 'string', description: 'Workflow node type, e.g. n8n-nodes-base.slack.' },
+                typeVersion: { type: 'number' },
+                parameters: { type: 'object' },
+              },
+            },
+          },
+          connections: { type: 'object', description: 'n8n connections object keyed by source node name.' },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Knowledge Exporter
+ * Writes the collected node knowledge as a versioned JSON/JSONL bundle with JSON Schemas
+ * (manifest.json, nodes.jsonl, compatibility.json, templates.jsonl, schema/)
+ */
+export class KnowledgeExporter {
+  constructor(private config: KnowledgeExporterConfig) {}
+
+  /**
+   * Generate all export files
+   */
+  generate(data: KnowledgeExportData): KnowledgeExportFileContent[] {
+    const connections = new Map((data.connections || []).map(info => [info.nodeType, info]));
+    const nodes = [...data.nodes]
+      .sort((a, b) => (a.rank || Infinity) - (b.rank || Infinity) || a.nodeType.localeCompare(b.nodeType))
+      .map(node => this.exportNode(node, connections.get(node.nodeType)));
+    const compatibility = this.exportCompatibility(data.compatibilityMatrix || {});
+    const templates = this.exportTemplates(data.templates || [], data.templateWorkflows || []);
+
+    const manifest: KnowledgeExportManifest = {
+      schemaVersion: KNOWLEDGE_EXPORT_SCHEMA_VERSION,
+      generator: { name: 'n8n-skills', version: this.config.generatorVersion },
+      n8nVersion: this.config.n8nVersion,
+      files: {
+        nodes: { path: KNOWLEDGE_EXPORT_FILES.nodes, format: 'jsonl', schema: 'schema/node.schema.json', count: nodes.length },
+        compatibility: {
+          path: KNOWLEDGE_EXPORT_FILES.compatibility,
+          format: 'json',
+          schema: 'schema/compatibility.schema.json',
+          count: compatibility.sources.length,
+        },
+        templates: {
+          path: KNOWLEDGE_EXPORT_FILES.templates,
+          format: 'jsonl',
+          schema: 'schema/template.schema.json',
+          count: templates.length,
+        },
+      },
+    };
+
+    return [
+      { path: KNOWLEDGE_EXPORT_FILES.manifest, content: toJson(manifest) },
+      { path: KNOWLEDGE_EXPORT_FILES.nodes, content: toJsonLines(nodes) },
+      { path: KNOWLEDGE_EXPORT_FILES.compatibility, content: toJson(compatibility, false) },
+      { path: KNOWLEDGE_EXPORT_FILES.templates, content: toJsonLines(templates) },
+      ...Object.entries(SCHEMAS).map(([file, schema]) => ({ path: `schema/${file}`, content: toJson(schema) })),
+    ];
+  }
+
+  /**
+   * Read an export directory
+   * Throws when the export was written with an incompatible (different major) schema version
+   */
+  static read(exportDir: string): KnowledgeExport {
+    const readFile = (file: string) => fs.readFileSync(path.join(exportDir, file), 'utf-8');
+    const manifest: KnowledgeExportManifest = JSON.parse(readFile(KNOWLEDGE_EXPORT_FILES.manifest));
+
+    const major = (version: string) => version.split('.')[0];
+    if (major(manifest.schemaVersion) !== major(KNOWLEDGE_EXPORT_SCHEMA_VERSION)) {
+      throw new Error(
+        `Unsupported knowledge export schema ${manifest.schemaVersion} in ${exportDir} (expected ${KNOWLEDGE_EXPORT_SCHEMA_VERSION})`
+      );
+    }
+
+    return {
+      manifest,
+      nodes: parseJsonLines<ExportedNode>(readFile(manifest.files.nodes.path)),
+      compatibility: JSON.parse(readFile(manifest.files.compatibility.path)),
+      templates: parseJsonLines<ExportedTemplate>(readFile(manifest.files.templates.path)),
+    };
+  }
+
+  private exportNode(node: EnrichedNodeInfo, connection?: NodeConnectionInfo): ExportedNode {
+    const properties = node.properties;
+    const typeVersions = (properties?.versions || []).map(version => version.version).sort((a, b) => a - b);
+
+    return {
+      nodeType: node.nodeType,
+      workflowType: `${node.packageName}.${node.nodeType.slice(node.nodeType.indexOf('.') + 1)}`,
+      displayName: node.displayName,
+      description: node.description,
+      category: node.category,
+      packageName: node.packageName,
+      packageOrigin: node.packageOrigin || 'core',
+      version: node.version,
+      typeVersions,
+      isTrigger: node.isTrigger,
+      isWebhook: node.isWebhook,
+      isAITool: node.isAITool,
+      usage: {
+        count: node.usageCount || 0,
+        percentage: node.usagePercentage || 0,
+      },
+      priority: node.rank !== undefined && node.score !== undefined && node.tier
+        ? { rank: node.rank, score: node.score, tier: node.tier }
+        : null,
+      connections: connection
+        ? {
+          inputTypes: connection.inputTypes,
+          outputTypes: connection.outputTypes,
+          outputCount: connection.outputCount,
+          outputNames: connection.outputNames,
+          isDynamicOutput: connection.isDynamicOutput,
+          requiresSpecialInputs: connection.requiresSpecialInputs,
+        }
+        : null,
+      credentials: (properties?.credentials || []).map(credential => ({ ...credential })),
+      operations: (properties?.operations || []).map(operation => ({
+        value: operation.value,
+        name: operation.name,
+        ...(operation.resource ? { resource: operation.resource } : {}),
+        ...(operation.description ? { description: operation.description } : {}),
+      })),
+      properties: (properties?.coreProperties || []).map(property => ({ ...property })),
+      totalPropertyCount: properties?.totalPropertyCount || 0,
+    };
+  }
+
+  /**
+   * Group the compatible targets of each source node by score, reason and connection types
+   */
+  private exportCompatibility(matrix: CompatibilityMatrix): ExportedCompatibility {
+    const sources = Object.keys(matrix).sort().map(source => {
+      const groups = new Map<string, ExportedCompatibilityGroup>();
+      for (const entry of matrix[source].compatible) {
+        const key = JSON.stringify([entry.score, entry.reason, entry.connectionTypes]);
+        let group = groups.get(key);
+        if (!group) {
+          group = { score: entry.score, reason: entry.reason, connectionTypes: [...entry.connectionTypes], targets: [] };
+          groups.set(key, group);
+        }
+        group.targets.push(entry.targetNode);
+      }
+
+      return {
+        source,
+        groups: Array.from(groups.values())
+          .map(group => ({ ...group, targets: group.targets.sort() }))
+          .sort((a, b) => b.score - a.score || a.reason.localeCompare(b.reason)),
+      };
+    });
+
+    return { sources: sources.filter(source => source.groups.length > 0) };
+  }
+
+  private exportTemplates(
+    templates: Template[],
+    workflows: Array<WorkflowDefinition & { id: number; name: string }>
+  ): ExportedTemplate[] {
+    const workflowsById = new Map(workflows.map(workflow => [Number(workflow.id), workflow]));
+
+    return [...templates]
+      .sort((a, b) => b.totalViews - a.totalViews || a.id - b.id)
+      .map(template => {
+        const workflow = workflowsById.get(template.id);
+        const exported: ExportedTemplate = {
+          id: template.id,
+          name: template.name,
+          url: `https://n8n.io/workflows/${template.id}`,
+          description: template.description || '',
+          totalViews: template.totalViews,
+          ...(template.createdAt ? { createdAt: template.createdAt } : {}),
+          ...(template.user?.name ? { author: template.user.name } : {}),
+          nodeTypes: Array.from(new Set(
+            (template.nodes || [])
+              .map(node => normalizeNodeType(node.name))
+              .filter(type => type !== 'nodes-base.stickyNote')
+          )),
+        };
+
+        if (workflow) {
+          exported.workflow = {
+            nodes: workflow.nodes
+              .filter(node => normalizeNodeType(node.type) !== 'nodes-base.stickyNote')
+              .map(node => ({
+                name: node.name,
+                type: node.type,
+                ...(node.typeVersion !== undefined ? { typeVersion: node.typeVersion } : {}),
+                parameters: node.parameters || {},
+              })),
+            connections: workflow.connections || {},
+          };
+        }
+
+        return exported;
+      });
+  }
+}
+
+/**
+ * Parse a JSON-lines document, skipping blank lines
+ */
+export function parseJsonLines<T>(content: string): T[] {
+  return content
+    .split('\n')
+    .filter(line => line.trim() !== '')
+    .map(line => JSON.parse(line) as T);
+}
+
+/**
+ * Serialize a JSON document; data files are compact, manifest and schemas indented
+ */
+function toJson(value: unknown, indent = true): string {
+  return JSON.stringify(value, null, indent ? 2 : undefined) + '\n';
+}
+
+function toJsonLines(records: unknown[]): string {
+  return records.map(record => JSON.stringify(record)).join('\n') + (records.length > 0 ? '\n' : '');
+}
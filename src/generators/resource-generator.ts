@@ -9,9 +9,24 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import type { EnrichedNodeInfo, ResourceFile } from './skill-generator';
 import type { Operation, CoreProperty } from '../parsers/property-parser';
+import {
+  PropertyTreeParser,
+  type PropertyTree,
+  type PropertyNode,
+  type ResourceOperationScope
+} from '../parsers/property-tree-parser';
 import { escapeMarkdown, escapeTableCell } from './template-formatter';
 import type { CompatibilityMatrix, NodeConnectionInfo } from '../models/connection';
 import { ConnectionRuleGenerator } from './connection-rule-generator';
+import {
+  getFollowingNodes,
+  getPrecedingNodes,
+  type NodeCoOccurrenceGraph,
+  type NodeTransition
+} from '../analyzers/co-occurrence-miner';
+import { OutputWriter } from '../utils/output-writer';
+import { DEFAULT_LOCALE, formatMessage, getMessages, type Locale, type MessageCatalog } from '../i18n';
+import * as logger from '../utils/logger';
 
 /**
  * Node position information (for nodes in merged files)
@@ -43,14 +58,22 @@ export interface MergedFileInfo {
 export interface ResourceGeneratorConfig {
   outputDir: string;
   overwrite?: boolean;
+  /** Shared output writer (a private one is used when omitted) */
+  writer?: OutputWriter;
+  /** Language of the generated prose */
+  locale?: Locale;
+  /** Community packages listed in the master index */
+  communityConfigPath?: string;
 }
 
 /**
  * Default configuration
  */
-const DEFAULT_CONFIG: Required<ResourceGeneratorConfig> = {
+const DEFAULT_CONFIG: Required<Omit<ResourceGeneratorConfig, 'writer'>> = {
   outputDir: path.join(process.cwd(), 'output/resources'),
   overwrite: true,
+  locale: DEFAULT_LOCALE,
+  communityConfigPath: path.join(process.cwd(), 'config/community-packages.json'),
 };
 
 /**
@@ -58,13 +81,23 @@ const DEFAULT_CONFIG: Required<ResourceGeneratorConfig> = {
  * Generate detailed Markdown files for each node, organized by category
  */
 export class ResourceGenerator {
-  private config: Required<ResourceGeneratorConfig>;
+  private config: Required<Omit<ResourceGeneratorConfig, 'writer'>>;
+  private writer: OutputWriter;
+  private hasSharedWriter: boolean;
   private processedCount: number = 0;
   private compatibilityMatrix?: CompatibilityMatrix;
   private nodeConnectionInfoList?: NodeConnectionInfo[];
+  private nodeGraph?: NodeCoOccurrenceGraph;
+  private displayNames = new Map<string, string>();
+  private treeParser = new PropertyTreeParser();
+  private messages: MessageCatalog;
 
   constructor(config: ResourceGeneratorConfig) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
+    const { writer, ...rest } = config;
+    this.config = { ...DEFAULT_CONFIG, ...rest };
+    this.messages = getMessages(this.config.locale);
+    this.hasSharedWriter = writer !== undefined;
+    this.writer = writer || new OutputWriter({ rootDir: this.config.outputDir });
   }
 
   /**
@@ -74,14 +107,17 @@ export class ResourceGenerator {
   public async generateAll(
     nodes: EnrichedNodeInfo[],
     compatibilityMatrix?: CompatibilityMatrix,
-    nodeConnectionInfoList?: NodeConnectionInfo[]
+    nodeConnectionInfoList?: NodeConnectionInfo[],
+    nodeGraph?: NodeCoOccurrenceGraph
   ): Promise<ResourceFile[]> {
     this.compatibilityMatrix = compatibilityMatrix;
     this.nodeConnectionInfoList = nodeConnectionInfoList;
+    this.nodeGraph = nodeGraph;
 
     const resourceFiles: ResourceFile[] = [];
     const categorizedNodes = new Map<string, EnrichedNodeInfo[]>();
     this.processedCount = 0;
+    this.displayNames = new Map(nodes.map(node => [node.nodeType, node.displayName]));
 
     // Ensure output directory exists
     await this.ensureDirectory(this.config.outputDir);
@@ -103,11 +139,11 @@ export class ResourceGenerator {
       // Generate node files for this category
       for (const node of categoryNodes) {
         try {
-          const filename = `${node.nodeType}.md`;
+          const filename = this.getNodeFilename(node);
           const filepath = path.join(categoryDir, filename);
           const content = this.buildContent(node);
 
-          await fs.writeFile(filepath, content, 'utf-8');
+          await this.writer.write(filepath, content, 'ResourceGenerator');
 
           resourceFiles.push({
             name: node.displayName,
@@ -119,7 +155,7 @@ export class ResourceGenerator {
           this.processedCount++;
         } catch (error) {
           // Ignore individual file generation errors, continue processing other files
-          console.warn(`Failed to generate resource file: ${node.displayName}`, error);
+          logger.warn(`Failed to generate resource file: ${node.displayName}`, error);
         }
       }
 
@@ -138,16 +174,24 @@ export class ResourceGenerator {
     highPriorityNodes: EnrichedNodeInfo[],
     lowPriorityNodes: EnrichedNodeInfo[],
     compatibilityMatrix?: CompatibilityMatrix,
-    nodeConnectionInfoList?: NodeConnectionInfo[]
+    nodeConnectionInfoList?: NodeConnectionInfo[],
+    nodeGraph?: NodeCoOccurrenceGraph
   ): Promise<ResourceFile[]> {
     this.compatibilityMatrix = compatibilityMatrix;
     this.nodeConnectionInfoList = nodeConnectionInfoList;
+    this.nodeGraph = nodeGraph;
 
     const resourceFiles: ResourceFile[] = [];
     this.processedCount = 0;
+    this.displayNames = new Map(
+      [...highPriorityNodes, ...lowPriorityNodes].map(node => [node.nodeType, node.displayName])
+    );
 
     // Clean old node resource files (preserve templates directory)
-    await this.cleanNodeResources();
+    // A shared writer removes files that are no longer generated instead
+    if (!this.hasSharedWriter) {
+      await this.cleanNodeResources();
+    }
 
     // Ensure output directory exists
     await this.ensureDirectory(this.config.outputDir);
@@ -168,11 +212,11 @@ export class ResourceGenerator {
 
       for (const node of categoryNodes) {
         try {
-          const filename = `${node.nodeType}.md`;
+          const filename = this.getNodeFilename(node);
           const filepath = path.join(categoryDir, filename);
           const content = this.buildContent(node);
 
-          await fs.writeFile(filepath, content, 'utf-8');
+          await this.writer.write(filepath, content, 'ResourceGenerator');
 
           resourceFiles.push({
             name: node.displayName,
@@ -183,7 +227,7 @@ export class ResourceGenerator {
 
           this.processedCount++;
         } catch (error) {
-          console.warn(`Failed to generate high-priority resource file: ${node.displayName}`, error);
+          logger.warn(`Failed to generate high-priority resource file: ${node.displayName}`, error);
         }
       }
     }
@@ -247,17 +291,8 @@ export class ResourceGenerator {
     mergedFileInfo: MergedFileInfo[]
   ): Promise<void> {
     const lines: string[] = [];
-
-    // Category name mapping
-    const categoryNames: Record<string, string> = {
-      transform: 'Data Transformation Nodes',
-      input: 'Input Nodes',
-      output: 'Output Nodes',
-      trigger: 'Trigger Nodes',
-      organization: 'Organization Nodes',
-      misc: 'Miscellaneous Nodes',
-      community: 'Community Packages',
-    };
+    const messages = this.messages.resources.index;
+    const categoryNames = this.messages.resources.categoryNames;
 
     // Load community packages config
     let communityPackages: Array<{
@@ -269,8 +304,7 @@ export class ResourceGenerator {
       maintainer?: string;
     }> = [];
     try {
-      const communityConfigPath = path.resolve(process.cwd(), 'config/community-packages.json');
-      const communityConfigContent = await fs.readFile(communityConfigPath, 'utf-8');
+      const communityConfigContent = await fs.readFile(this.config.communityConfigPath, 'utf-8');
       const communityConfig = JSON.parse(communityConfigContent);
       communityPackages = communityConfig.packages || [];
     } catch {
@@ -278,76 +312,41 @@ export class ResourceGenerator {
     }
 
     // Title
-    lines.push('# n8n Node Resource Index');
+    lines.push(`# ${messages.title}`);
     lines.push('');
     const builtInNodeCount = highPriorityNodes.length + lowPriorityNodes.length;
     const communityPackageCount = communityPackages.length;
     if (communityPackageCount > 0) {
-      lines.push(`This index provides quick access to all ${builtInNodeCount} built-in n8n nodes and ${communityPackageCount} community packages.`);
+      lines.push(formatMessage(messages.introWithCommunity, { nodeCount: builtInNodeCount, packageCount: communityPackageCount }));
     } else {
-      lines.push(`This index provides quick access to all ${builtInNodeCount} n8n nodes.`);
+      lines.push(formatMessage(messages.intro, { nodeCount: builtInNodeCount }));
     }
     lines.push('');
 
     // Usage guide
-    lines.push('## Usage Guide');
-    lines.push('');
-    lines.push('This index contains two ways to search:');
-    lines.push('');
-    lines.push('1. Find by Category: Browse nodes by functional category');
-    lines.push('2. Template Index: Browse popular workflow templates');
-    lines.push('');
-    lines.push('### Instructions for AI Assistants');
-    lines.push('');
-    lines.push('For nodes in merged files, use line number ranges for precise reading:');
-    lines.push('');
-    lines.push('```');
-    lines.push('Read(file_path, offset=starting_line, limit=line_count)');
-    lines.push('```');
-    lines.push('');
-    lines.push('Example: Read Azure Cosmos DB node (starting line 110, line count 64)');
-    lines.push('```');
-    lines.push('Read("resources/transform/transform-merged-1.md", offset=110, limit=64)');
-    lines.push('```');
-    lines.push('');
+    lines.push(...messages.usageGuide);
 
     // Quick navigation
-    lines.push('## Quick Navigation');
+    lines.push(`## ${messages.quickNavigation}`);
     lines.push('');
-    lines.push('- [Quick Task Reference](#quick-task-reference)');
-    lines.push('- [Find by Category](#find-by-category)');
+    lines.push(messages.navigation.quickTaskReference);
+    lines.push(messages.navigation.findByCategory);
     if (communityPackageCount > 0) {
-      lines.push('- [Community Packages](#community-packages)');
+      lines.push(messages.navigation.communityPackages);
     }
-    lines.push('- [Template Index](#template-index)');
-    lines.push('- [Statistics](#statistics)');
+    lines.push(messages.navigation.templateIndex);
+    lines.push(messages.navigation.statistics);
     lines.push('');
     lines.push('---');
     lines.push('');
 
     // Quick Task Reference
-    lines.push('## Quick Task Reference');
-    lines.push('');
-    lines.push('Find the right node for common tasks:');
-    lines.push('');
-    lines.push('| Task | Recommended Node | File Location |');
-    lines.push('|------|------------------|---------------|');
-    lines.push('| Send HTTP requests | HTTP Request | input/nodes-base.httpRequest.md |');
-    lines.push('| Conditional branching | IF | transform/nodes-base.if.md |');
-    lines.push('| Merge multiple data streams | Merge | transform/nodes-base.merge.md |');
-    lines.push('| Execute custom code | Code | transform/nodes-base.code.md |');
-    lines.push('| Send emails | Gmail | output/nodes-base.gmail.md |');
-    lines.push('| Receive webhooks | Webhook | trigger/nodes-base.webhook.md |');
-    lines.push('| Schedule workflows | Schedule Trigger | trigger/nodes-base.scheduleTrigger.md |');
-    lines.push('| AI conversation handling | AI Agent | transform/transform-merged-2.md (see INDEX for line) |');
-    lines.push('| Read/write Google Sheets | Google Sheets | output/nodes-base.googleSheets.md |');
-    lines.push('| Transform data format | Set | transform/nodes-base.set.md |');
-    lines.push('');
+    lines.push(...messages.quickTaskReference);
     lines.push('---');
     lines.push('');
 
     // Find by category
-    lines.push('## Find by Category');
+    lines.push(`## ${messages.findByCategory}`);
     lines.push('');
 
     // Organize nodes by category
@@ -381,14 +380,14 @@ export class ResourceGenerator {
       if (totalCount === 0) continue;
 
       const categoryName = categoryNames[category] || category;
-      lines.push(`### ${categoryName} - ${totalCount} nodes`);
+      lines.push(`### ${formatMessage(messages.categoryHeading, { category: categoryName, count: totalCount })}`);
       lines.push('');
 
       // High-priority nodes (individual files)
       if (highNodes.length > 0) {
-        lines.push(`#### High-Priority Nodes (${highNodes.length} individual files)`);
+        lines.push(`#### ${formatMessage(messages.highPriorityHeading, { count: highNodes.length })}`);
         lines.push('');
-        lines.push('| Node Name | nodeType | File Path | Description |');
+        lines.push(messages.highPriorityTableHeader);
         lines.push('|---------|---------|---------|------|');
 
         highNodes
@@ -397,7 +396,7 @@ export class ResourceGenerator {
             const desc = (node.description || '').substring(0, 50);
             const descEscaped = escapeTableCell(desc);
             lines.push(
-              `| ${node.displayName} | \`${node.nodeType}\` | ${category}/${node.nodeType}.md | ${descEscaped} |`
+              `| ${this.getIndexNodeName(node)} | \`${node.nodeType}\` | ${category}/${this.getNodeFilename(node)} | ${descEscaped} |`
             );
           });
         lines.push('');
@@ -405,9 +404,9 @@ export class ResourceGenerator {
 
       // Low-priority nodes (merged files)
       if (lowNodes.length > 0) {
-        lines.push(`#### Other Nodes (${lowNodes.length} nodes in merged files)`);
+        lines.push(`#### ${formatMessage(messages.otherHeading, { count: lowNodes.length })}`);
         lines.push('');
-        lines.push('| Node Name | nodeType | File Path | Start Line | Line Count | Description |');
+        lines.push(messages.otherTableHeader);
         lines.push('|---------|---------|---------|---------|-----|------|');
 
         // Find merged file information for this category
@@ -432,7 +431,7 @@ export class ResourceGenerator {
               const desc = (node.description || '').substring(0, 40);
               const descEscaped = escapeTableCell(desc);
               lines.push(
-                `| ${node.displayName} | \`${node.nodeType}\` | ${category}/${mergedFilename} | ${positionInfo.startLine} | ${positionInfo.lineCount} | ${descEscaped} |`
+                `| ${this.getIndexNodeName(node)} | \`${node.nodeType}\` | ${category}/${mergedFilename} | ${positionInfo.startLine} | ${positionInfo.lineCount} | ${descEscaped} |`
               );
             }
           });
@@ -445,22 +444,14 @@ export class ResourceGenerator {
 
     // Community packages section
     if (communityPackageCount > 0) {
-      lines.push('## Community Packages');
+      lines.push(`## ${messages.communityPackages}`);
       lines.push('');
-      lines.push(`Popular community-developed node packages (${communityPackageCount} packages).`);
+      lines.push(formatMessage(messages.communityIntro, { count: communityPackageCount }));
       lines.push('');
-      lines.push('| Package Name | Category | File Path | Description |');
+      lines.push(messages.communityTableHeader);
       lines.push('|--------------|----------|-----------|-------------|');
 
-      // Community package category mapping
-      const communityCategoryNames: Record<string, string> = {
-        'communication': 'Communication',
-        'ai-tools': 'AI Tools',
-        'utilities': 'Utilities',
-        'document': 'Document',
-        'data-processing': 'Data Processing',
-        'web-scraping': 'Web Scraping',
-      };
+      const communityCategoryNames = this.messages.resources.communityCategoryNames;
 
       communityPackages.forEach(pkg => {
         const categoryDisplay = communityCategoryNames[pkg.category] || pkg.category;
@@ -473,41 +464,35 @@ export class ResourceGenerator {
         );
       });
       lines.push('');
-      lines.push('For detailed information, see [community/README.md](community/README.md).');
+      lines.push(messages.communityDetails);
       lines.push('');
       lines.push('---');
       lines.push('');
     }
 
     // Template index
-    lines.push('## Template Index');
-    lines.push('');
-    lines.push('Popular workflow templates are located in the `templates/` directory, categorized by functionality:');
-    lines.push('');
-    lines.push('- [AI & Chatbots](templates/ai-chatbots/) - AI agents, chatbot-related templates');
-    lines.push('- [Social Media](templates/social-media/) - Social media automation templates');
-    lines.push('- [Data Processing](templates/data-processing/) - Data transformation and processing templates');
-    lines.push('- [Communication](templates/communication/) - Communication tool integration templates');
-    lines.push('');
-    lines.push('For detailed template lists, please refer to the README.md file in each subdirectory.');
-    lines.push('');
+    lines.push(...messages.templateIndex);
     lines.push('---');
     lines.push('');
 
     // Statistics
-    lines.push('## Statistics');
+    lines.push(`## ${messages.statistics}`);
     lines.push('');
-    lines.push(`- Total built-in nodes: ${builtInNodeCount}`);
-    lines.push(`- High-priority nodes: ${highPriorityNodes.length} (individual files)`);
-    lines.push(`- Low-priority nodes: ${lowPriorityNodes.length} (merged files)`);
-    lines.push(`- Merged file count: ${mergedFileInfo.length}`);
+    lines.push(formatMessage(messages.totalNodes, { count: builtInNodeCount }));
+    lines.push(formatMessage(messages.highPriorityNodes, { count: highPriorityNodes.length }));
+    lines.push(formatMessage(messages.lowPriorityNodes, { count: lowPriorityNodes.length }));
+    lines.push(formatMessage(messages.mergedFileCount, { count: mergedFileInfo.length }));
+    const extraNodeCount = [...highPriorityNodes, ...lowPriorityNodes].filter(node => node.packageOrigin === 'extra').length;
+    if (extraNodeCount > 0) {
+      lines.push(formatMessage(messages.extraNodes, { count: extraNodeCount }));
+    }
     if (communityPackageCount > 0) {
-      lines.push(`- Community packages: ${communityPackageCount}`);
+      lines.push(formatMessage(messages.communityPackageCount, { count: communityPackageCount }));
     }
     lines.push('');
 
     // Statistics by category
-    lines.push('### Nodes by Category');
+    lines.push(`### ${messages.nodesByCategory}`);
     lines.push('');
     for (const category of categories) {
       const highNodes = categorizedHigh.get(category) || [];
@@ -515,20 +500,25 @@ export class ResourceGenerator {
       const total = highNodes.length + lowNodes.length;
       if (total > 0) {
         const categoryName = categoryNames[category] || category;
-        lines.push(`- ${categoryName}: ${total} nodes (high-priority: ${highNodes.length}, other: ${lowNodes.length})`);
+        lines.push(formatMessage(messages.categoryCount, {
+          category: categoryName,
+          total,
+          high: highNodes.length,
+          low: lowNodes.length,
+        }));
       }
     }
     lines.push('');
 
     const currentDate = new Date().toISOString().split('T')[0];
-    lines.push(`- Last updated: ${currentDate}`);
+    lines.push(formatMessage(messages.lastUpdated, { date: currentDate }));
     lines.push('');
 
     // Write file
     const indexPath = path.join(this.config.outputDir, 'INDEX.md');
-    await fs.writeFile(indexPath, lines.join('\n'), 'utf-8');
+    await this.writer.write(indexPath, lines.join('\n'), 'ResourceGenerator');
 
-    console.log(`✓ Generated unified index: INDEX.md`);
+    logger.success('Generated unified index: INDEX.md');
   }
 
   /**
@@ -545,6 +535,7 @@ export class ResourceGenerator {
 
     const resourceFiles: ResourceFile[] = [];
     const mergedFileInfo: MergedFileInfo[] = [];
+    const messages = this.messages.resources.merged;
     const NODES_PER_FILE = 100;
 
     if (nodes.length > NODES_PER_FILE) {
@@ -561,12 +552,12 @@ export class ResourceGenerator {
         const filepath = path.join(categoryDir, filename);
         const { content, nodePositions } = this.buildMergedContent(category, partNodes, partNumber);
 
-        await fs.writeFile(filepath, content, 'utf-8');
+        await this.writer.write(filepath, content, 'ResourceGenerator');
 
         resourceFiles.push({
-          name: `${category} - Node Collection (Part ${partNumber})`,
+          name: formatMessage(messages.titleWithPart, { category, part: partNumber }),
           path: `resources/${category}/${filename}`,
-          description: `Contains ${partNodes.length} nodes`,
+          description: formatMessage(messages.fileDescription, { count: partNodes.length }),
           category,
         });
 
@@ -585,12 +576,12 @@ export class ResourceGenerator {
       const filepath = path.join(categoryDir, filename);
       const { content, nodePositions } = this.buildMergedContent(category, nodes);
 
-      await fs.writeFile(filepath, content, 'utf-8');
+      await this.writer.write(filepath, content, 'ResourceGenerator');
 
       resourceFiles.push({
-        name: `${category} - Node Collection`,
+        name: formatMessage(messages.title, { category }),
         path: `resources/${category}/${filename}`,
-        description: `Contains ${nodes.length} nodes`,
+        description: formatMessage(messages.fileDescription, { count: nodes.length }),
         category,
       });
 
@@ -619,30 +610,22 @@ export class ResourceGenerator {
   ): { content: string; nodePositions: NodePositionInfo[] } {
     const lines: string[] = [];
     const nodePositions: NodePositionInfo[] = [];
+    const messages = this.messages.resources.merged;
+    const nodeMessages = this.messages.resources.node;
 
-    // Category name mapping
-    const categoryNames: Record<string, string> = {
-      transform: 'Data Transformation Nodes',
-      input: 'Input Nodes',
-      output: 'Output Nodes',
-      trigger: 'Trigger Nodes',
-      organization: 'Organization Nodes',
-      misc: 'Miscellaneous Nodes',
-    };
-
-    const categoryName = categoryNames[category] || category;
+    const categoryName = this.messages.resources.categoryNames[category] || category;
     const title = partNumber
-      ? `${categoryName} - Node Collection (Part ${partNumber})`
-      : `${categoryName} - Node Collection`;
+      ? formatMessage(messages.titleWithPart, { category: categoryName, part: partNumber })
+      : formatMessage(messages.title, { category: categoryName });
 
     // Title
     lines.push(`# ${title}`);
     lines.push('');
-    lines.push(`This file contains complete information for ${nodes.length} nodes.`);
+    lines.push(formatMessage(messages.intro, { count: nodes.length }));
     lines.push('');
 
     // Generate TOC
-    lines.push('## Table of Contents');
+    lines.push(`## ${messages.tableOfContents}`);
     lines.push('');
 
     // Sort nodes alphabetically for TOC
@@ -684,7 +667,7 @@ export class ResourceGenerator {
 
       // Description
       if (node.description) {
-        lines.push('### Description');
+        lines.push(`### ${nodeMessages.description}`);
         lines.push('');
         lines.push(escapeMarkdown(node.description));
         lines.push('');
@@ -692,7 +675,7 @@ export class ResourceGenerator {
 
       // Operations list
       if (node.properties?.operations && node.properties.operations.length > 0) {
-        lines.push('### Available Operations');
+        lines.push(`### ${nodeMessages.availableOperations}`);
         lines.push('');
         this.appendOperations(lines, node.properties.operations);
       }
@@ -702,6 +685,9 @@ export class ResourceGenerator {
         this.appendPropertiesForMerged(lines, node.properties.coreProperties);
       }
 
+      // Version history (summary only, to keep merged files compact)
+      this.appendVersionHistory(lines, node, 3, false);
+
       // Connection guide
       if (this.compatibilityMatrix && this.nodeConnectionInfoList) {
         const connectionGuide = this.generateConnectionGuide(node);
@@ -712,6 +698,9 @@ export class ResourceGenerator {
         }
       }
 
+      // Nodes connected before and after this node in templates
+      this.appendCoOccurrence(lines, node, 3);
+
       // JSON configuration examples
       this.appendExamplesForMerged(lines, node);
 
@@ -751,15 +740,16 @@ export class ResourceGenerator {
    * Append properties list for merged files (adjust heading levels)
    */
   private appendPropertiesForMerged(lines: string[], properties: CoreProperty[]): void {
-    lines.push('### Core Properties');
+    const messages = this.messages.resources.node;
+    lines.push(`### ${messages.coreProperties}`);
     lines.push('');
-    lines.push('| Property Name | Type | Required | Default | Description |');
+    lines.push(messages.propertyTableHeader);
     lines.push('|---------|------|------|--------|------|');
 
     properties.forEach(prop => {
       const defaultValue = prop.default !== undefined ? `\`${JSON.stringify(prop.default)}\`` : '-';
       const description = escapeTableCell(prop.description || '-');
-      const required = prop.required ? 'Yes' : 'No';
+      const required = prop.required ? messages.yes : messages.no;
       lines.push(`| \`${prop.name}\` | ${prop.type} | ${required} | ${defaultValue} | ${description} |`);
     });
     lines.push('');
@@ -767,7 +757,7 @@ export class ResourceGenerator {
     // Detail properties with options
     const propsWithOptions = properties.filter(p => p.options && p.options.length > 0);
     if (propsWithOptions.length > 0) {
-      lines.push('#### Property Details');
+      lines.push(`#### ${messages.propertyDetails}`);
       lines.push('');
       propsWithOptions.forEach(prop => {
         lines.push(`##### ${prop.displayName} (\`${prop.name}\`)`);
@@ -776,7 +766,7 @@ export class ResourceGenerator {
           lines.push(escapeMarkdown(prop.description));
           lines.push('');
         }
-        lines.push('Optional values:');
+        lines.push(messages.optionalValues);
         prop.options!.forEach(opt => {
           const desc = opt.description ? ` - ${escapeMarkdown(opt.description)}` : '';
           lines.push(`- \`${opt.value}\`: ${opt.name}${desc}`);
@@ -790,14 +780,15 @@ export class ResourceGenerator {
    * Append JSON examples for merged files (adjust heading levels)
    */
   private appendExamplesForMerged(lines: string[], node: EnrichedNodeInfo): void {
-    lines.push('### JSON Configuration Examples');
+    const messages = this.messages.resources.node;
+    lines.push(`### ${messages.jsonExamples}`);
     lines.push('');
 
     const operations = node.properties?.operations || [];
     const hasOperations = operations.length > 0;
 
     // Always generate basic example
-    lines.push('#### Basic Configuration');
+    lines.push(`#### ${messages.basicConfiguration}`);
     lines.push('```json');
     lines.push(JSON.stringify(this.generateBasicExample(node), null, 2));
     lines.push('```');
@@ -807,7 +798,7 @@ export class ResourceGenerator {
     if (hasOperations) {
       const exampleOperations = operations.slice(0, 2);
       exampleOperations.forEach(operation => {
-        lines.push(`#### ${operation.name} Example`);
+        lines.push(`#### ${formatMessage(messages.operationExample, { operation: operation.name })}`);
         lines.push('```json');
         lines.push(JSON.stringify(this.generateOperationExample(node, operation), null, 2));
         lines.push('```');
@@ -826,18 +817,9 @@ export class ResourceGenerator {
     lowPriorityNodes?: EnrichedNodeInfo[]
   ): Promise<void> {
     const lines: string[] = [];
+    const messages = this.messages.resources.categoryIndex;
 
-    // Category name mapping
-    const categoryNames: Record<string, string> = {
-      transform: 'Data Transformation Nodes',
-      input: 'Input Nodes',
-      output: 'Output Nodes',
-      trigger: 'Trigger Nodes',
-      organization: 'Organization Nodes',
-      misc: 'Miscellaneous Nodes',
-    };
-
-    const categoryName = categoryNames[category] || category;
+    const categoryName = this.messages.resources.categoryNames[category] || category;
 
     // Compatibility with old single-parameter usage (generateAll method)
     if (highPriorityNodes === undefined && lowPriorityNodes === undefined) {
@@ -850,7 +832,7 @@ export class ResourceGenerator {
       const allNodes = highPriorityNodes;
       lines.push(`# ${categoryName}`);
       lines.push('');
-      lines.push(`Total: ${allNodes.length} nodes`);
+      lines.push(formatMessage(messages.total, { count: allNodes.length }));
       lines.push('');
 
       // Sort alphabetically
@@ -859,10 +841,10 @@ export class ResourceGenerator {
       );
 
       // Generate node list
-      lines.push('## Node List');
+      lines.push(`## ${messages.nodeList}`);
       lines.push('');
       sortedNodes.forEach(node => {
-        const filename = `${node.nodeType}.md`;
+        const filename = this.getNodeFilename(node);
         const description = escapeMarkdown(node.description || '');
         lines.push(`- [${node.displayName}](./${filename}) - ${description}`);
       });
@@ -875,14 +857,14 @@ export class ResourceGenerator {
 
       lines.push(`# ${categoryName}`);
       lines.push('');
-      lines.push(`Total: ${totalCount} nodes (high-priority: ${high.length}, other: ${low.length})`);
+      lines.push(formatMessage(messages.totalTiered, { total: totalCount, high: high.length, low: low.length }));
       lines.push('');
 
       // High-priority nodes (individual files)
       if (high.length > 0) {
-        lines.push('## High-Priority Nodes');
+        lines.push(`## ${messages.highPriority}`);
         lines.push('');
-        lines.push('The following nodes have individual detailed documentation:');
+        lines.push(messages.highPriorityIntro);
         lines.push('');
 
         const sortedHigh = [...high].sort((a, b) =>
@@ -890,7 +872,7 @@ export class ResourceGenerator {
         );
 
         sortedHigh.forEach(node => {
-          const filename = `${node.nodeType}.md`;
+          const filename = this.getNodeFilename(node);
           const description = escapeMarkdown(node.description || '');
           lines.push(`- [${node.displayName}](./${filename}) - ${description}`);
         });
@@ -899,14 +881,14 @@ export class ResourceGenerator {
 
       // Low-priority nodes (merged files)
       if (low.length > 0) {
-        lines.push('## Other Nodes');
+        lines.push(`## ${messages.other}`);
         lines.push('');
 
         const NODES_PER_FILE = 100;
         if (low.length > NODES_PER_FILE) {
           // Multiple merged files
           const numParts = Math.ceil(low.length / NODES_PER_FILE);
-          lines.push(`The following ${low.length} nodes are merged into ${numParts} files:`);
+          lines.push(formatMessage(messages.mergedIntoParts, { count: low.length, parts: numParts }));
           lines.push('');
 
           for (let i = 0; i < numParts; i++) {
@@ -915,12 +897,16 @@ export class ResourceGenerator {
             const partNodes = low.slice(startIdx, endIdx);
             const partNumber = i + 1;
 
-            lines.push(`- [Part ${partNumber}](./${category}-merged-${partNumber}.md) - Contains ${partNodes.length} nodes`);
+            lines.push(formatMessage(messages.partLink, {
+              part: partNumber,
+              path: `./${category}-merged-${partNumber}.md`,
+              count: partNodes.length,
+            }));
           }
           lines.push('');
 
           // List all node names
-          lines.push('### Complete Node List');
+          lines.push(`### ${messages.completeNodeList}`);
           lines.push('');
           const sortedLow = [...low].sort((a, b) =>
             a.displayName.localeCompare(b.displayName, 'en')
@@ -931,13 +917,13 @@ export class ResourceGenerator {
           lines.push('');
         } else {
           // Single merged file
-          lines.push('The following nodes are merged into a single file:');
+          lines.push(messages.mergedIntoSingle);
           lines.push('');
-          lines.push(`- [View Complete List](./${category}-merged.md) - Contains ${low.length} nodes`);
+          lines.push(formatMessage(messages.viewCompleteList, { path: `./${category}-merged.md`, count: low.length }));
           lines.push('');
 
           // List all node names
-          lines.push('### Complete Node List');
+          lines.push(`### ${messages.completeNodeList}`);
           lines.push('');
           const sortedLow = [...low].sort((a, b) =>
             a.displayName.localeCompare(b.displayName, 'en')
@@ -952,7 +938,7 @@ export class ResourceGenerator {
 
     // Write index file
     const indexPath = path.join(this.config.outputDir, category, 'README.md');
-    await fs.writeFile(indexPath, lines.join('\n'), 'utf-8');
+    await this.writer.write(indexPath, lines.join('\n'), 'ResourceGenerator');
   }
 
   /**
@@ -960,6 +946,7 @@ export class ResourceGenerator {
    */
   private buildContent(node: EnrichedNodeInfo): string {
     const lines: string[] = [];
+    const messages = this.messages.resources.node;
 
     // Title
     lines.push(`# ${node.displayName}`);
@@ -970,15 +957,37 @@ export class ResourceGenerator {
 
     // Description
     if (node.description) {
-      lines.push('## Description');
+      lines.push(`## ${messages.description}`);
       lines.push('');
       lines.push(escapeMarkdown(node.description));
       lines.push('');
     }
 
-    // Operations list
-    if (node.properties?.operations && node.properties.operations.length > 0) {
-      lines.push('## Available Operations');
+    // Credential types (documented in resources/credentials/)
+    if (node.properties?.credentials && node.properties.credentials.length > 0) {
+      lines.push(`## ${messages.credentials}`);
+      lines.push('');
+      node.properties.credentials.forEach(ref => {
+        const condition = Object.entries(ref.displayOptions?.show || {})
+          .map(([key, values]) => `${key} = ${values.map(value => JSON.stringify(value)).join(` ${messages.or} `)}`)
+          .join(', ');
+        const notes = [
+          ref.required ? messages.credentialRequired : messages.credentialOptional,
+          condition && formatMessage(messages.credentialCondition, { condition }),
+        ].filter(Boolean).join(', ');
+        lines.push(`- [${ref.name}](../credentials/${ref.name}.md) - ${notes}`);
+      });
+      lines.push('');
+    }
+
+    // Operations list (per-operation parameters when the property tree is available)
+    const propertyTree = node.properties?.propertyTree;
+    if (propertyTree && propertyTree.scopes.length > 0) {
+      lines.push(`## ${messages.availableOperations}`);
+      lines.push('');
+      this.appendOperationDetails(lines, node, propertyTree);
+    } else if (node.properties?.operations && node.properties.operations.length > 0) {
+      lines.push(`## ${messages.availableOperations}`);
       lines.push('');
       this.appendOperations(lines, node.properties.operations);
     }
@@ -988,6 +997,9 @@ export class ResourceGenerator {
       this.appendProperties(lines, node.properties.coreProperties);
     }
 
+    // Version history (multi-version nodes)
+    this.appendVersionHistory(lines, node, 2, true);
+
     // Connection guide (if compatibility data available)
     if (this.compatibilityMatrix && this.nodeConnectionInfoList) {
       const connectionGuide = this.generateConnectionGuide(node);
@@ -996,6 +1008,9 @@ export class ResourceGenerator {
       }
     }
 
+    // Nodes connected before and after this node in templates
+    this.appendCoOccurrence(lines, node, 2);
+
     // JSON configuration examples (enhanced: 1-3 examples)
     this.appendExamples(lines, node);
 
@@ -1015,7 +1030,7 @@ export class ResourceGenerator {
       return null;
     }
 
-    const ruleGenerator = new ConnectionRuleGenerator();
+    const ruleGenerator = new ConnectionRuleGenerator(this.config.locale);
     return ruleGenerator.generateNodeConnectionGuide(
       nodeInfo,
       this.compatibilityMatrix,
@@ -1024,24 +1039,45 @@ export class ResourceGenerator {
     );
   }
 
+  /**
+   * Node name for index tables, marking nodes of extra packages
+   */
+  private getIndexNodeName(node: EnrichedNodeInfo): string {
+    return node.packageOrigin === 'extra'
+      ? formatMessage(this.messages.resources.index.extraPackageNode, { name: node.displayName })
+      : node.displayName;
+  }
+
+  /**
+   * Resource filename of a node
+   * Scoped package names of extra packages must not create subdirectories
+   */
+  private getNodeFilename(node: EnrichedNodeInfo): string {
+    return `${node.nodeType.replace(/^@/, '').replace(/\//g, '-')}.md`;
+  }
+
   /**
    * Append basic information
    */
   private appendBasicInfo(lines: string[], node: EnrichedNodeInfo): void {
-    lines.push('## Basic Information');
+    const messages = this.messages.resources.node;
+    lines.push(`## ${messages.basicInformation}`);
     lines.push('');
-    lines.push(`- Node Type: \`${node.nodeType}\``);
-    lines.push(`- Category: ${node.category}`);
-    lines.push(`- Package: ${node.packageName}`);
+    lines.push(formatMessage(messages.nodeType, { nodeType: node.nodeType }));
+    lines.push(formatMessage(messages.category, { category: node.category }));
+    lines.push(formatMessage(
+      node.packageOrigin === 'extra' ? messages.extraPackage : messages.package,
+      { packageName: node.packageName }
+    ));
 
     if (node.usageCount !== undefined && node.usageCount > 0) {
-      lines.push(`- Usage Count: ${node.usageCount}`);
+      lines.push(formatMessage(messages.usageCount, { count: node.usageCount }));
     }
     if (node.usagePercentage !== undefined && node.usagePercentage > 0) {
-      lines.push(`- Usage Rate: ${node.usagePercentage.toFixed(2)}%`);
+      lines.push(formatMessage(messages.usageRate, { rate: node.usagePercentage.toFixed(2) }));
     }
     if (node.properties?.hasCredentials) {
-      lines.push(`- Requires Credentials: Yes`);
+      lines.push(messages.requiresCredentials);
     }
 
     lines.push('');
@@ -1051,32 +1087,396 @@ export class ResourceGenerator {
    * Append operations list
    */
   private appendOperations(lines: string[], operations: Operation[]): void {
+    const messages = this.messages.resources.node;
     operations.forEach(op => {
       lines.push(`### ${op.name}`);
       if (op.description) {
         lines.push(`${escapeMarkdown(op.description)}`);
       }
-      lines.push(`- Value: \`${op.value}\``);
+      lines.push(formatMessage(messages.value, { value: op.value }));
       if (op.resource) {
-        lines.push(`- Resource: \`${op.resource}\``);
+        lines.push(formatMessage(messages.resource, { resource: op.resource }));
       }
       lines.push('');
     });
   }
 
+  /**
+   * Append version history for multi-version nodes
+   * Lists every typeVersion, what changed between versions, and optionally per-version details
+   */
+  private appendVersionHistory(
+    lines: string[],
+    node: EnrichedNodeInfo,
+    level: number,
+    includeDetails: boolean
+  ): void {
+    const versions = node.properties?.versions;
+    if (!versions || versions.length < 2) {
+      return;
+    }
+
+    const messages = this.messages.resources.node;
+    const h = '#'.repeat(level);
+    const latest = versions[versions.length - 1].version;
+    const formatCode = (items: string[]) => items.map(item => `\`${item}\``).join(', ');
+
+    lines.push(`${h} ${messages.versionHistory}`);
+    lines.push('');
+    lines.push(formatMessage(messages.supportedVersions, { versions: versions.map(v => v.version).join(', '), latest }));
+    lines.push(messages.pinnedVersions);
+    lines.push('');
+    lines.push(messages.versionTableHeader);
+    lines.push('|---------|------------|------------|-------------|--------|---------|');
+    versions.forEach(v => {
+      const inputs = v.inputTypes && v.inputTypes.length > 0 ? v.inputTypes.join(', ') : '-';
+      const outputs = v.outputTypes && v.outputTypes.length > 0 ? v.outputTypes.join(', ') : '-';
+      lines.push(
+        `| ${v.version} | ${v.totalPropertyCount} | ${v.operations.length} | ${v.hasCredentials ? messages.yes : messages.no} | ${inputs} | ${outputs} |`
+      );
+    });
+    lines.push('');
+
+    const changes = node.properties?.versionChanges || [];
+    changes.forEach(change => {
+      lines.push(`${h}# ${formatMessage(messages.versionChanges, { from: change.fromVersion, to: change.toVersion })}`);
+      lines.push('');
+      if (change.addedProperties.length > 0) {
+        lines.push(formatMessage(messages.addedProperties, { properties: formatCode(change.addedProperties) }));
+      }
+      if (change.removedProperties.length > 0) {
+        lines.push(formatMessage(messages.removedProperties, { properties: formatCode(change.removedProperties) }));
+      }
+      change.changedDefaults.forEach(({ name, from, to }) => {
+        lines.push(formatMessage(messages.changedDefault, { name, from: JSON.stringify(from), to: JSON.stringify(to) }));
+      });
+      if (change.addedOperations.length > 0) {
+        lines.push(formatMessage(messages.addedOperations, { operations: change.addedOperations.map(escapeMarkdown).join(', ') }));
+      }
+      if (change.removedOperations.length > 0) {
+        lines.push(formatMessage(messages.removedOperations, { operations: change.removedOperations.map(escapeMarkdown).join(', ') }));
+      }
+      lines.push('');
+    });
+
+    if (!includeDetails) {
+      return;
+    }
+
+    // Older versions only: the latest version is documented in the sections above
+    versions.slice(0, -1).reverse().forEach(v => {
+      lines.push(`${h}# ${formatMessage(messages.versionParameters, { version: v.version })}`);
+      lines.push('');
+      if (v.coreProperties.length > 0) {
+        lines.push(messages.versionPropertyTableHeader);
+        lines.push('|---------|------|------|--------|');
+        v.coreProperties.forEach(prop => {
+          const defaultValue = prop.default !== undefined ? `\`${JSON.stringify(prop.default)}\`` : '-';
+          lines.push(`| \`${prop.name}\` | ${prop.type} | ${prop.required ? messages.yes : messages.no} | ${defaultValue} |`);
+        });
+        lines.push('');
+      }
+      if (v.operations.length > 0) {
+        const operationNames = v.operations.map(op => (op.resource ? `${op.resource}: ${op.name}` : op.name));
+        lines.push(formatMessage(messages.versionOperations, { operations: operationNames.map(escapeMarkdown).join(', ') }));
+        lines.push('');
+      }
+    });
+  }
+
+  /**
+   * Append the nodes most often connected after and before a node in the collected templates
+   */
+  private appendCoOccurrence(lines: string[], node: EnrichedNodeInfo, level: number): void {
+    if (!this.nodeGraph) {
+      return;
+    }
+
+    const following = getFollowingNodes(this.nodeGraph, node.nodeType);
+    const preceding = getPrecedingNodes(this.nodeGraph, node.nodeType);
+    if (following.length === 0 && preceding.length === 0) {
+      return;
+    }
+
+    const messages = this.messages.resources.node;
+    const h = '#'.repeat(level);
+    const templateCount = this.nodeGraph.nodeWorkflowCounts[node.nodeType] || 0;
+    const appendTable = (title: string, transitions: NodeTransition[], getNodeType: (t: NodeTransition) => string) => {
+      if (transitions.length === 0) {
+        return;
+      }
+      lines.push(`${h} ${title}`);
+      lines.push('');
+      lines.push(messages.coOccurrenceTableHeader);
+      lines.push('|------|-----------|-------------|');
+      transitions.forEach(transition => {
+        const nodeType = getNodeType(transition);
+        const name = this.displayNames.get(nodeType) || nodeType;
+        lines.push(
+          `| ${escapeTableCell(name)} (\`${nodeType}\`) | ${formatMessage(messages.templateShare, { count: transition.workflowCount, total: templateCount })} | ${transition.count} |`
+        );
+      });
+      lines.push('');
+    };
+
+    appendTable(messages.commonlyFollowedBy, following, transition => transition.target);
+    appendTable(messages.commonlyPrecededBy, preceding, transition => transition.source);
+    lines.push(formatMessage(messages.coOccurrenceNote, {
+      workflowCount: this.nodeGraph.workflowCount,
+      displayName: escapeMarkdown(node.displayName),
+    }));
+    lines.push('');
+  }
+
+  /**
+   * Append per-operation documentation
+   * Each resource + operation gets its required/optional parameters and an example node
+   */
+  private appendOperationDetails(lines: string[], node: EnrichedNodeInfo, tree: PropertyTree): void {
+    const messages = this.messages.resources.node;
+    const resourceNames = new Map<string, string>();
+    tree.properties
+      .filter(prop => prop.name === 'resource')
+      .forEach(prop => prop.options?.forEach(opt => resourceNames.set(String(opt.value), opt.name)));
+
+    const descriptions = new Map<string, string | undefined>();
+    (node.properties?.operations || []).forEach(op => {
+      descriptions.set(`${op.resource || ''}:${op.value}`, op.description);
+    });
+
+    tree.scopes.forEach(scope => {
+      const resourceName = scope.resource ? resourceNames.get(scope.resource) || scope.resource : undefined;
+      lines.push(`### ${resourceName ? `${resourceName} → ${scope.operationName}` : scope.operationName}`);
+      lines.push('');
+
+      const description = descriptions.get(`${scope.resource || ''}:${scope.operation}`)
+        || descriptions.get(`:${scope.operation}`);
+      if (description) {
+        lines.push(escapeMarkdown(description));
+        lines.push('');
+      }
+
+      if (scope.resource) {
+        lines.push(formatMessage(messages.resource, { resource: scope.resource }));
+      }
+      lines.push(formatMessage(
+        scope.operationParameter === 'action' ? messages.action : messages.operation,
+        { operation: scope.operation }
+      ));
+      lines.push('');
+
+      const seen = new Set<string>();
+      const properties = this.treeParser
+        .getScopedProperties(tree, scope.resource, scope.operation)
+        .filter(prop => !seen.has(prop.name) && seen.add(prop.name));
+      const required = properties.filter(prop => prop.required);
+      const optional = properties.filter(prop => !prop.required);
+
+      if (required.length > 0) {
+        lines.push(messages.requiredParameters);
+        lines.push('');
+        lines.push(messages.requiredParametersTableHeader);
+        lines.push('|-----------|------|---------|-------------|');
+        required.forEach(prop => {
+          lines.push(`| \`${prop.name}\` | ${prop.type} | ${this.formatDefault(prop.default)} | ${this.describeTreeProperty(prop)} |`);
+        });
+        lines.push('');
+      }
+
+      if (optional.length > 0) {
+        lines.push(messages.optionalParameters);
+        lines.push('');
+        lines.push(messages.optionalParametersTableHeader);
+        lines.push('|-----------|------|---------|------------|-------------|');
+        optional.forEach(prop => {
+          lines.push(
+            `| \`${prop.name}\` | ${prop.type} | ${this.formatDefault(prop.default)} | ${this.describeCondition(prop)} | ${this.describeTreeProperty(prop)} |`
+          );
+        });
+        lines.push('');
+      }
+
+      lines.push(messages.example);
+      lines.push('```json');
+      lines.push(JSON.stringify(this.generateScopedExample(node, tree, scope, required), null, 2));
+      lines.push('```');
+      lines.push('');
+    });
+  }
+
+  /**
+   * Describe a property for a parameter table (description, nested fields, locator modes)
+   */
+  private describeTreeProperty(prop: PropertyNode): string {
+    const messages = this.messages.resources.node;
+    const parts: string[] = [];
+    if (prop.description) {
+      parts.push(escapeTableCell(prop.description));
+    }
+    if (prop.options && prop.options.length > 0) {
+      const values = prop.options.slice(0, 8).map(opt => this.formatCodeCell(opt.value));
+      parts.push(formatMessage(messages.values, { values: `${values.join(', ')}${prop.options.length > 8 ? ', ...' : ''}` }));
+    }
+    if (prop.children && prop.children.length > 0) {
+      const fields = prop.type === 'fixedCollection'
+        ? prop.children.flatMap(group => (group.children || []).map(child => `${group.name}.${child.name}`))
+        : prop.children.map(child => child.name);
+      parts.push(formatMessage(messages.fields, { fields: fields.map(field => `\`${field}\``).join(', ') }));
+    }
+    if (prop.modes && prop.modes.length > 0) {
+      parts.push(formatMessage(messages.modes, { modes: prop.modes.map(mode => `\`${mode.name}\``).join(', ') }));
+    }
+    return parts.length > 0 ? parts.join('. ') : '-';
+  }
+
+  /**
+   * Describe displayOptions dependencies outside resource/operation
+   */
+  private describeCondition(prop: PropertyNode): string {
+    const scopeKeys = ['resource', 'operation', 'action', '@version'];
+    const conditions: string[] = [];
+    const separator = ` ${this.messages.resources.node.or} `;
+    const format = (values: unknown[]) => values.map(value => JSON.stringify(value).replace(/\|/g, '\\|')).join(separator);
+
+    Object.entries(prop.displayOptions?.show || {}).forEach(([key, values]) => {
+      const name = key.replace(/^\//, '');
+      if (!scopeKeys.includes(name)) {
+        conditions.push(`\`${name}\` = ${format(values)}`);
+      }
+    });
+    Object.entries(prop.displayOptions?.hide || {}).forEach(([key, values]) => {
+      const name = key.replace(/^\//, '');
+      if (!scopeKeys.includes(name)) {
+        conditions.push(`\`${name}\` ≠ ${format(values)}`);
+      }
+    });
+
+    return conditions.length > 0 ? conditions.join(', ') : '-';
+  }
+
+  /**
+   * Format a default value for a table cell
+   */
+  private formatDefault(value: unknown): string {
+    if (value === undefined || value === '') {
+      return '-';
+    }
+    return this.formatCodeCell(JSON.stringify(value));
+  }
+
+  /**
+   * Format a value as inline code inside a table cell
+   */
+  private formatCodeCell(value: unknown): string {
+    return `\`${String(value).replace(/\|/g, '\\|')}\``;
+  }
+
+  /**
+   * Generate an example node for a resource/operation from the real property definitions
+   */
+  private generateScopedExample(
+    node: EnrichedNodeInfo,
+    tree: PropertyTree,
+    scope: ResourceOperationScope,
+    required: PropertyNode[]
+  ): Record<string, unknown> {
+    const parameters: Record<string, unknown> = {};
+    if (scope.resource) {
+      parameters.resource = scope.resource;
+    }
+    parameters[scope.operationParameter] = scope.operation;
+    required.forEach(prop => {
+      parameters[prop.name] = this.getExampleValue(prop);
+    });
+
+    return {
+      name: scope.operationName,
+      type: node.nodeType,
+      typeVersion: tree.version,
+      position: [250, 300],
+      parameters
+    };
+  }
+
+  /**
+   * Get a realistic example value for a property
+   */
+  private getExampleValue(prop: PropertyNode): unknown {
+    const hasDefault = prop.default !== undefined && prop.default !== '' && prop.default !== null;
+
+    switch (prop.type) {
+      case 'resourceLocator': {
+        const mode = prop.modes?.find(m => m.name === 'id') || prop.modes?.[0];
+        return {
+          __rl: true,
+          value: mode?.placeholder || this.getExampleString(prop.name),
+          mode: mode?.name || 'id'
+        };
+      }
+      case 'options':
+        return hasDefault ? prop.default : prop.options?.[0]?.value ?? '';
+      case 'multiOptions':
+        return Array.isArray(prop.default) && prop.default.length > 0
+          ? prop.default
+          : prop.options?.slice(0, 1).map(opt => opt.value) || [];
+      case 'number':
+        return typeof prop.default === 'number' ? prop.default : 1;
+      case 'boolean':
+        return typeof prop.default === 'boolean' ? prop.default : false;
+      case 'dateTime':
+        return hasDefault ? prop.default : '2025-01-01T09:00:00.000Z';
+      case 'fixedCollection': {
+        const group = prop.children?.[0];
+        if (!group) {
+          return {};
+        }
+        const values: Record<string, unknown> = {};
+        (group.children || []).forEach(child => {
+          values[child.name] = this.getExampleValue(child);
+        });
+        return { [group.name]: prop.typeOptions?.multipleValues ? [values] : values };
+      }
+      case 'collection':
+        return hasDefault ? prop.default : {};
+      case 'string':
+        if (hasDefault) {
+          return prop.default;
+        }
+        return prop.placeholder || this.getExampleString(prop.name);
+      default:
+        return hasDefault ? prop.default : this.getDefaultValueForType(prop.type);
+    }
+  }
+
+  /**
+   * Get an example string based on the parameter name
+   */
+  private getExampleString(name: string): string {
+    const lower = name.toLowerCase();
+    if (lower.includes('email')) return 'user@example.com';
+    if (lower.includes('url') || lower.includes('link')) return 'https://example.com';
+    if (lower.includes('channel')) return '#general';
+    if (lower.includes('phone')) return '+15555550123';
+    if (/(text|message|content|body)/.test(lower)) return 'Hello from n8n';
+    if (/(name|title|subject)/.test(lower)) return 'Example';
+    if (lower.endsWith('id')) return '={{ $json.id }}';
+    return `={{ $json.${name} }}`;
+  }
+
   /**
    * Append properties list
    */
   private appendProperties(lines: string[], properties: CoreProperty[]): void {
-    lines.push('## Core Properties');
+    const messages = this.messages.resources.node;
+    lines.push(`## ${messages.coreProperties}`);
     lines.push('');
-    lines.push('| Property Name | Type | Required | Default | Description |');
+    lines.push(messages.propertyTableHeader);
     lines.push('|---------|------|------|--------|------|');
 
     properties.forEach(prop => {
       const defaultValue = prop.default !== undefined ? `\`${JSON.stringify(prop.default)}\`` : '-';
       const description = escapeTableCell(prop.description || '-');
-      const required = prop.required ? 'Yes' : 'No';
+      const required = prop.required ? messages.yes : messages.no;
       lines.push(`| \`${prop.name}\` | ${prop.type} | ${required} | ${defaultValue} | ${description} |`);
     });
     lines.push('');
@@ -1084,7 +1484,7 @@ export class ResourceGenerator {
     // Detail properties with options
     const propsWithOptions = properties.filter(p => p.options && p.options.length > 0);
     if (propsWithOptions.length > 0) {
-      lines.push('### Property Details');
+      lines.push(`### ${messages.propertyDetails}`);
       lines.push('');
       propsWithOptions.forEach(prop => {
         lines.push(`#### ${prop.displayName} (\`${prop.name}\`)`);
@@ -1093,7 +1493,7 @@ export class ResourceGenerator {
           lines.push(escapeMarkdown(prop.description));
           lines.push('');
         }
-        lines.push('Optional values:');
+        lines.push(messages.optionalValues);
         prop.options!.forEach(opt => {
           const desc = opt.description ? ` - ${escapeMarkdown(opt.description)}` : '';
           lines.push(`- \`${opt.value}\`: ${opt.name}${desc}`);
@@ -1107,14 +1507,16 @@ export class ResourceGenerator {
    * Append enhanced JSON examples (1-3 examples)
    */
   private appendExamples(lines: string[], node: EnrichedNodeInfo): void {
-    lines.push('## JSON Configuration Examples');
+    const messages = this.messages.resources.node;
+    lines.push(`## ${messages.jsonExamples}`);
     lines.push('');
 
     const operations = node.properties?.operations || [];
-    const hasOperations = operations.length > 0;
+    // Operations documented with the property tree already include their own example
+    const hasOperations = operations.length > 0 && !node.properties?.propertyTree?.scopes.length;
 
     // Always generate basic example
-    lines.push('### Basic Configuration');
+    lines.push(`### ${messages.basicConfiguration}`);
     lines.push('```json');
     lines.push(JSON.stringify(this.generateBasicExample(node), null, 2));
     lines.push('```');
@@ -1124,7 +1526,7 @@ export class ResourceGenerator {
     if (hasOperations) {
       const exampleOperations = operations.slice(0, 2);
       exampleOperations.forEach(operation => {
-        lines.push(`### ${operation.name} Example`);
+        lines.push(`### ${formatMessage(messages.operationExample, { operation: operation.name })}`);
         lines.push('```json');
         lines.push(JSON.stringify(this.generateOperationExample(node, operation), null, 2));
         lines.push('```');
@@ -0,0 +1,414 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import * as fs from 'fs';
+import type { WorkflowAnalysis } from '../analyzers/workflow-analyzer';
+import * as logger from '../utils/logger';
+
+/**
+ * Template categories
+ */
+export enum TemplateCategory {
+  AI_CHATBOTS = 'ai-chatbots',
+  SOCIAL_MEDIA = 'social-media',
+  DATA_PROCESSING = 'data-processing',
+  COMMUNICATION = 'communication',
+  AUTOMATION = 'automation',
+  LEARNING = 'learning',
+}
+
+/**
+ * Category information
+ */
+export interface CategoryInfo {
+  id: TemplateCategory;
+  name: string;
+  description: string;
+  icon: string;
+}
+
+/**
+ * Category mapping
+ */
+export const CATEGORY_INFO: Record<TemplateCategory, CategoryInfo> = {
+  [TemplateCategory.AI_CHATBOTS]: {
+    id: TemplateCategory.AI_CHATBOTS,
+    name: 'AI & Chatbots',
+    description: 'AI Agents, RAG systems, intelligent conversational bots',
+    icon: '',
+  },
+  [TemplateCategory.SOCIAL_MEDIA]: {
+    id: TemplateCategory.SOCIAL_MEDIA,
+    name: 'Social Media & Video',
+    description: 'TikTok, Instagram, YouTube automation and AI video generation',
+    icon: '',
+  },
+  [TemplateCategory.DATA_PROCESSING]: {
+    id: TemplateCategory.DATA_PROCESSING,
+    name: 'Data Processing & Analysis',
+    description: 'Google Sheets, database integration, data analysis workflows',
+    icon: '',
+  },
+  [TemplateCategory.COMMUNICATION]: {
+    id: TemplateCategory.COMMUNICATION,
+    name: 'Communication & Collaboration',
+    description: 'Email, WhatsApp, Telegram, Slack automation',
+    icon: '',
+  },
+  [TemplateCategory.AUTOMATION]: {
+    id: TemplateCategory.AUTOMATION,
+    name: 'Automation & Integration',
+    description: 'Workflow automation, API integration, scheduled tasks',
+    icon: '',
+  },
+  [TemplateCategory.LEARNING]: {
+    id: TemplateCategory.LEARNING,
+    name: 'Learning & Teaching',
+    description: 'n8n introductory tutorials, interactive lessons',
+    icon: '',
+  },
+};
+
+/**
+ * Template fields used for categorization
+ */
+export interface CategorizableTemplate {
+  id: number;
+  name: string;
+  description: string;
+  nodes?: Array<{ name: string }>;
+  analysis?: WorkflowAnalysis;
+}
+
+/**
+ * Category tag with confidence (0-1)
+ */
+export interface TemplateCategoryTag {
+  category: TemplateCategory;
+  confidence: number;
+}
+
+/**
+ * Categorization result
+ * Tags are sorted by confidence; the first tag is the primary category
+ */
+export interface TemplateCategorization {
+  primary: TemplateCategory;
+  tags: TemplateCategoryTag[];
+  /** Tags come from the override file */
+  overridden: boolean;
+}
+
+/**
+ * Categorizer options
+ */
+export interface TemplateCategorizerOptions {
+  /** Manual categories by template id (first entry is the primary category) */
+  overrides?: Record<string, TemplateCategory[]>;
+  /** Minimum confidence of secondary tags (default 0.5) */
+  minConfidence?: number;
+  /** Maximum tags per template (default 3) */
+  maxTags?: number;
+}
+
+interface KeywordSignal {
+  pattern: RegExp;
+  weight: number;
+}
+
+interface NodeSignal {
+  /** Matched against the node name without package prefix, lowercased */
+  pattern: RegExp;
+  weight: number;
+}
+
+/**
+ * Weighted keywords matched as whole words in the template name and description
+ * Name matches count double
+ */
+const KEYWORD_SIGNALS: Record<TemplateCategory, KeywordSignal[]> = {
+  [TemplateCategory.AI_CHATBOTS]: [
+    { pattern: /\bai agents?\b/, weight: 3 },
+    { pattern: /\bchat ?bots?\b/, weight: 3 },
+    { pattern: /\brag\b/, weight: 3 },
+    { pattern: /\bllms?\b/, weight: 2 },
+    { pattern: /\b(gpt[\w.-]*|openai|gemini|claude|mistral|ollama)\b/, weight: 2 },
+    { pattern: /\bembeddings?\b|\bvector (store|database)\b/, weight: 2 },
+    { pattern: /\bassistants?\b|\bagents?\b/, weight: 1.5 },
+    { pattern: /\bai\b/, weight: 1 },
+  ],
+  [TemplateCategory.SOCIAL_MEDIA]: [
+    { pattern: /\b(tiktok|instagram|youtube)\b/, weight: 3 },
+    { pattern: /\bsocial media\b/, weight: 3 },
+    { pattern: /\b(linkedin|twitter|facebook|reddit|threads)\b/, weight: 2.5 },
+    { pattern: /\b(videos?|shorts|reels|viral)\b/, weight: 2 },
+    { pattern: /\b(posts?|influencers?)\b/, weight: 0.5 },
+  ],
+  [TemplateCategory.DATA_PROCESSING]: [
+    { pattern: /\bgoogle sheets?\b|\bspreadsheets?\b|\bexcel\b/, weight: 2 },
+    { pattern: /\b(databases?|sql|postgres(ql)?|mysql|mongodb|supabase|airtable)\b/, weight: 2 },
+    { pattern: /\b(csv|etl|analytics|dashboards?)\b/, weight: 2 },
+    { pattern: /\b(scrap(e|er|ing)|crawl(er|ing)?|extract(ion)?)\b/, weight: 1.5 },
+    { pattern: /\breports?\b|\banaly[sz](e|is)\b/, weight: 1 },
+    { pattern: /\bdata\b/, weight: 0.5 },
+  ],
+  [TemplateCategory.COMMUNICATION]: [
+    { pattern: /\b(whatsapp|telegram)\b/, weight: 3 },
+    { pattern: /\b(slack|discord|microsoft teams|sms)\b/, weight: 2.5 },
+    { pattern: /\b(e-?mails?|gmail|outlook|inbox)\b/, weight: 2 },
+    { pattern: /\bnewsletters?\b|\bnotifications?\b/, weight: 1.5 },
+    { pattern: /\bmessages?\b/, weight: 1 },
+  ],
+  [TemplateCategory.AUTOMATION]: [
+    { pattern: /\b(crm|invoices?|leads?|sync(hroni[sz]e)?)\b/, weight: 1.5 },
+    { pattern: /\b(webhooks?|apis?|integrations?|scheduled?)\b/, weight: 1 },
+    { pattern: /\bautomat(e|es|ed|ion)\b/, weight: 0.5 },
+  ],
+  [TemplateCategory.LEARNING]: [
+    { pattern: /\b(tutorial|beginners?|lessons?)\b/, weight: 3 },
+    { pattern: /\bget(ting)? started\b/, weight: 3 },
+    { pattern: /\blearn(ing)?\b|\bcourse\b|\byour first\b/, weight: 2.5 },
+  ],
+};
+
+/**
+ * Node types that indicate a category (each distinct node type counts once)
+ */
+const NODE_SIGNALS: Record<TemplateCategory, NodeSignal[]> = {
+  [TemplateCategory.AI_CHATBOTS]: [
+    { pattern: /^openai$/, weight: 2 },
+  ],
+  [TemplateCategory.SOCIAL_MEDIA]: [
+    { pattern: /^(youtube|twitter|linkedin|facebookgraphapi|reddit)$/, weight: 2.5 },
+  ],
+  [TemplateCategory.DATA_PROCESSING]: [
+    { pattern: /^(googlesheets|postgres|mysql|mongodb|microsoftsql|supabase|airtable|baserow|nocodb|snowflake|googlebigquery|redis)$/, weight: 2 },
+    { pattern: /^(spreadsheetfile|extractfromfile|converttofile|html|htmlextract)$/, weight: 1.5 },
+    { pattern: /^(aggregate|summarize|splitout|itemlists|comparedatasets|removeduplicates|sort|datetime|crypto|xml)$/, weight: 0.5 },
+  ],
+  [TemplateCategory.COMMUNICATION]: [
+    { pattern: /^(gmail|emailsend|emailreadimap|microsoftoutlook|slack|telegram|whatsapp|discord|microsoftteams|twilio|mattermost)$/, weight: 2 },
+  ],
+  [TemplateCategory.AUTOMATION]: [
+    { pattern: /^(httprequest|executeworkflow|wait|respondtowebhook)$/, weight: 0.5 },
+  ],
+  [TemplateCategory.LEARNING]: [],
+};
+
+/**
+ * Trigger nodes that indicate a category
+ */
+const TRIGGER_SIGNALS: Array<{ pattern: RegExp; category: TemplateCategory; weight: number }> = [
+  { pattern: /^(chattrigger|mcptrigger)$/, category: TemplateCategory.AI_CHATBOTS, weight: 3 },
+  { pattern: /^(telegramtrigger|whatsapptrigger|slacktrigger|gmailtrigger|emailreadimap|discordtrigger|microsoftoutlooktrigger)$/, category: TemplateCategory.COMMUNICATION, weight: 2 },
+  { pattern: /^(scheduletrigger|cron|interval)$/, category: TemplateCategory.AUTOMATION, weight: 2 },
+  { pattern: /^(webhook|formtrigger)$/, category: TemplateCategory.AUTOMATION, weight: 1 },
+  { pattern: /^(googlesheetstrigger|postgrestrigger|airtabletrigger)$/, category: TemplateCategory.DATA_PROCESSING, weight: 2 },
+  { pattern: /^(youtubetrigger|rssfeedreadtrigger)$/, category: TemplateCategory.SOCIAL_MEDIA, weight: 1 },
+];
+
+/** Root AI nodes of @n8n/n8n-nodes-langchain */
+const AI_ROOT_NODE = /^(agent|agenttool|chainllm|chainretrievalqa|chainsummarization|openai|informationextractor|textclassifier|sentimentanalysis)$/;
+
+/** AI sub-nodes of @n8n/n8n-nodes-langchain (models, memory, tools, vector stores...) */
+const AI_SUB_NODE = /^(lm|embeddings|vectorstore|memory|tool|outputparser|retriever|textsplitter|document)/;
+
+/** Score at which confidence reaches ~63% */
+const CONFIDENCE_SCALE = 6;
+
+/** Secondary tags need at least this share of the primary category's score */
+const RELATIVE_SCORE_THRESHOLD = 0.5;
+
+/**
+ * Template Categorizer
+ * Scores each category from the analyzed workflow (trigger kind, AI sub-nodes,
+ * node types) and weighted keywords, and returns every category above the
+ * confidence threshold as a tag. Overrides replace the computed tags.
+ */
+export class TemplateCategorizer {
+  private overrides: Record<string, TemplateCategory[]>;
+  private minConfidence: number;
+  private maxTags: number;
+
+  constructor(options: TemplateCategorizerOptions = {}) {
+    this.overrides = options.overrides || {};
+    this.minConfidence = options.minConfidence ?? 0.5;
+    this.maxTags = options.maxTags ?? 3;
+  }
+
+  /**
+   * Create a categorizer with overrides from a JSON file
+   * File format: { "overrides": { "<templateId>": ["learning", "ai-chatbots"] } }
+   * A missing file means no overrides
+   */
+  static fromFile(overridesPath: string, options: Omit<TemplateCategorizerOptions, 'overrides'> = {}): TemplateCategorizer {
+    if (!fs.existsSync(overridesPath)) {
+      return new TemplateCategorizer(options);
+    }
+
+    const content = JSON.parse(fs.readFileSync(overridesPath, 'utf-8'));
+    const validCategories = Object.values(TemplateCategory) as string[];
+    const overrides: Record<string, TemplateCategory[]> = {};
+
+    for (const [templateId, categories] of Object.entries(content.overrides || {})) {
+      const list = (Array.isArray(categories) ? categories : [categories]) as string[];
+      const invalid = list.filter(category => !validCategories.includes(category));
+      if (invalid.length > 0) {
+        logger.warn(`Ignoring unknown template categories for template ${templateId}: ${invalid.join(', ')}`);
+      }
+      const valid = list.filter(category => validCategories.includes(category)) as TemplateCategory[];
+      if (valid.length > 0) {
+        overrides[templateId] = valid;
+      }
+    }
+
+    return new TemplateCategorizer({ ...options, overrides });
+  }
+
+  /**
+   * Categorize a template
+   */
+  categorize(template: CategorizableTemplate): TemplateCategorization {
+    const override = this.overrides[String(template.id)];
+    if (override) {
+      return {
+        primary: override[0],
+        tags: override.map(category => ({ category, confidence: 1 })),
+        overridden: true,
+      };
+    }
+
+    const scores = this.score(template);
+    const ranked = (Object.keys(scores) as TemplateCategory[])
+      .filter(category => scores[category] > 0)
+      .sort((a, b) => scores[b] - scores[a]);
+
+    if (ranked.length === 0) {
+      // Nothing recognizable: generic automation
+      return {
+        primary: TemplateCategory.AUTOMATION,
+        tags: [{ category: TemplateCategory.AUTOMATION, confidence: 0 }],
+        overridden: false,
+      };
+    }
+
+    // The best category is always kept, the others only when confident enough
+    // and close to the best one
+    const topScore = scores[ranked[0]];
+    const tags = ranked
+      .filter((category, index) =>
+        index === 0 ||
+        (this.toConfidence(scores[category]) >= this.minConfidence &&
+          scores[category] >= topScore * RELATIVE_SCORE_THRESHOLD)
+      )
+      .slice(0, this.maxTags)
+      .map(category => ({ category, confidence: this.toConfidence(scores[category]) }));
+
+    return { primary: tags[0].category, tags, overridden: false };
+  }
+
+  /**
+   * Raw category scores
+   */
+  score(template: CategorizableTemplate): Record<TemplateCategory, number> {
+    const scores = Object.fromEntries(
+      Object.values(TemplateCategory).map(category => [category, 0])
+    ) as Record<TemplateCategory, number>;
+
+    this.scoreNodes(template, scores);
+    this.scoreKeywords(template, scores);
+
+    return scores;
+  }
+
+  /**
+   * Workflow signals: trigger kind, AI root and sub-nodes, app nodes
+   */
+  private scoreNodes(template: CategorizableTemplate, scores: Record<TemplateCategory, number>): void {
+    const nodeTypes = this.getNodeTypes(template);
+    const triggerTypes = new Set(
+      template.analysis
+        ? template.analysis.keyNodes.triggers.map(node => node.type)
+        : nodeTypes.filter(type => /trigger|webhook/i.test(type))
+    );
+
+    let aiRootScore = 0;
+    let aiSubNodes = 0;
+
+    for (const type of nodeTypes) {
+      const name = this.getShortName(type);
+
+      if (triggerTypes.has(type)) {
+        for (const signal of TRIGGER_SIGNALS) {
+          if (signal.pattern.test(name)) {
+            scores[signal.category] += signal.weight;
+          }
+        }
+      }
+
+      if (type.includes('n8n-nodes-langchain.')) {
+        if (AI_ROOT_NODE.test(name)) {
+          aiRootScore = 3;
+        } else if (AI_SUB_NODE.test(name)) {
+          aiSubNodes++;
+        }
+        continue;
+      }
+
+      for (const category of Object.keys(NODE_SIGNALS) as TemplateCategory[]) {
+        for (const signal of NODE_SIGNALS[category]) {
+          if (signal.pattern.test(name)) {
+            scores[category] += signal.weight;
+          }
+        }
+      }
+    }
+
+    // An AI root node with models, memory and tools attached is a strong AI signal
+    scores[TemplateCategory.AI_CHATBOTS] += aiRootScore + Math.min(aiSubNodes, 4);
+  }
+
+  /**
+   * Keyword signals from the name (double weight) and description
+   */
+  private scoreKeywords(template: CategorizableTemplate, scores: Record<TemplateCategory, number>): void {
+    const name = template.name.toLowerCase();
+    const description = (template.description || '').toLowerCase();
+
+    for (const category of Object.keys(KEYWORD_SIGNALS) as TemplateCategory[]) {
+      for (const signal of KEYWORD_SIGNALS[category]) {
+        if (signal.pattern.test(name)) {
+          scores[category] += signal.weight * 2;
+        } else if (signal.pattern.test(description)) {
+          scores[category] += signal.weight;
+        }
+      }
+    }
+  }
+
+  /**
+   * Distinct node types of the workflow (analysis first, template summary otherwise)
+   */
+  private getNodeTypes(template: CategorizableTemplate): string[] {
+    const types = template.analysis
+      ? template.analysis.nodes.map(node => node.type)
+      : (template.nodes || []).map(node => node.name);
+    return Array.from(new Set(types.filter(Boolean)));
+  }
+
+  /**
+   * Node name without package prefix, lowercased
+   * e.g. n8n-nodes-base.googleSheets -> googlesheets
+   */
+  private getShortName(nodeType: string): string {
+    return nodeType.slice(nodeType.lastIndexOf('.') + 1).toLowerCase();
+  }
+
+  private toConfidence(score: number): number {
+    return Math.round((1 - Math.exp(-score / CONFIDENCE_SCALE)) * 100) / 100;
+  }
+}
@@ -10,6 +10,8 @@
  * Standardizes and beautifies Markdown document formatting
  */
 
+import * as logger from '../utils/logger';
+
 /**
  * Formatter options
  */
@@ -518,7 +520,7 @@ export class TemplateFormatter {
         results.set(filePath, true);
       } catch (error) {
         results.set(filePath, false);
-        console.error(`Failed to format file ${filePath}:`, error);
+        logger.error(`Failed to format file ${filePath}`, error);
       }
     }
 
@@ -552,7 +554,7 @@ export class TemplateFormatter {
             results.set(fullPath, true);
           } catch (error) {
             results.set(fullPath, false);
-            console.error(`Failed to format file ${fullPath}:`, error);
+            logger.error(`Failed to format file ${fullPath}`, error);
           }
         }
       }
@@ -1,7 +1,17 @@
-import { promises as fs } from 'fs';
 import path from 'path';
 import type { WorkflowDefinition } from '../collectors/api-collector';
 import { WorkflowAnalyzer, type WorkflowAnalysis } from '../analyzers/workflow-analyzer';
+import { OutputWriter } from '../utils/output-writer';
+import * as logger from '../utils/logger';
+import { DEFAULT_LOCALE, formatMessage, getMessages, type Locale, type MessageCatalog } from '../i18n';
+import {
+  TemplateCategorizer,
+  TemplateCategory,
+  CATEGORY_INFO,
+  type TemplateCategorization,
+} from './template-categorizer';
+
+export { TemplateCategory, CATEGORY_INFO, type CategoryInfo } from './template-categorizer';
 
 /**
  * Template data structure
@@ -34,76 +44,18 @@ export interface EnhancedTemplate extends Template {
   analysis?: WorkflowAnalysis;
 }
 
-/**
- * Template categories
- */
-export enum TemplateCategory {
-  AI_CHATBOTS = 'ai-chatbots',
-  SOCIAL_MEDIA = 'social-media',
-  DATA_PROCESSING = 'data-processing',
-  COMMUNICATION = 'communication',
-  AUTOMATION = 'automation',
-  LEARNING = 'learning',
-}
-
-/**
- * Category information
- */
-export interface CategoryInfo {
-  id: TemplateCategory;
-  name: string;
-  description: string;
-  icon: string;
-}
-
-/**
- * Category mapping
- */
-export const CATEGORY_INFO: Record<TemplateCategory, CategoryInfo> = {
-  [TemplateCategory.AI_CHATBOTS]: {
-    id: TemplateCategory.AI_CHATBOTS,
-    name: 'AI & Chatbots',
-    description: 'AI Agents, RAG systems, intelligent conversational bots',
-    icon: '',
-  },
-  [TemplateCategory.SOCIAL_MEDIA]: {
-    id: TemplateCategory.SOCIAL_MEDIA,
-    name: 'Social Media & Video',
-    description: 'TikTok, Instagram, YouTube automation and AI video generation',
-    icon: '',
-  },
-  [TemplateCategory.DATA_PROCESSING]: {
-    id: TemplateCategory.DATA_PROCESSING,
-    name: 'Data Processing & Analysis',
-    description: 'Google Sheets, database integration, data analysis workflows',
-    icon: '',
-  },
-  [TemplateCategory.COMMUNICATION]: {
-    id: TemplateCategory.COMMUNICATION,
-    name: 'Communication & Collaboration',
-    description: 'Email, WhatsApp, Telegram, Slack automation',
-    icon: '',
-  },
-  [TemplateCategory.AUTOMATION]: {
-    id: TemplateCategory.AUTOMATION,
-    name: 'Automation & Integration',
-    description: 'Workflow automation, API integration, scheduled tasks',
-    icon: '',
-  },
-  [TemplateCategory.LEARNING]: {
-    id: TemplateCategory.LEARNING,
-    name: 'Learning & Teaching',
-    description: 'n8n introductory tutorials, interactive lessons',
-    icon: '',
-  },
-};
-
 /**
  * Template generator configuration
  */
 export interface TemplateGeneratorConfig {
   outputDir: string;
   maxTemplatesPerCategory?: number;
+  /** Shared output writer (a private one is used when omitted) */
+  writer?: OutputWriter;
+  /** Template categorizer (one without overrides is used when omitted) */
+  categorizer?: TemplateCategorizer;
+  /** Language of the generated documents */
+  locale?: Locale;
 }
 
 /**
@@ -112,13 +64,20 @@ export interface TemplateGeneratorConfig {
 export class TemplateGenerator {
   private config: TemplateGeneratorConfig;
   private analyzer: WorkflowAnalyzer;
+  private writer: OutputWriter;
+  private categorizer: TemplateCategorizer;
+  private messages: MessageCatalog['templates'];
 
   constructor(config: TemplateGeneratorConfig) {
     this.config = {
       maxTemplatesPerCategory: 20,
+      locale: DEFAULT_LOCALE,
       ...config,
     };
     this.analyzer = new WorkflowAnalyzer();
+    this.writer = config.writer || new OutputWriter({ rootDir: config.outputDir });
+    this.categorizer = config.categorizer || new TemplateCategorizer();
+    this.messages = getMessages(this.config.locale).templates;
   }
 
   /**
@@ -135,104 +94,55 @@ export class TemplateGenerator {
   }
 
   /**
-   * Categorize templates
+   * Categorize templates (primary category)
    */
-  categorizeTemplate(template: Template): TemplateCategory {
-    const name = template.name.toLowerCase();
-    const description = template.description.toLowerCase();
-    const content = `${name} ${description}`;
-
-    // AI & Chatbots
-    if (
-      content.includes('ai agent') ||
-      content.includes('chatbot') ||
-      content.includes('rag') ||
-      content.includes('chat interface') ||
-      content.includes('gpt') ||
-      content.includes('gemini') ||
-      content.includes('claude')
-    ) {
-      return TemplateCategory.AI_CHATBOTS;
-    }
-
-    // Social Media & Video
-    if (
-      content.includes('tiktok') ||
-      content.includes('instagram') ||
-      content.includes('youtube') ||
-      content.includes('video') ||
-      content.includes('social media') ||
-      content.includes('viral')
-    ) {
-      return TemplateCategory.SOCIAL_MEDIA;
-    }
-
-    // Data Processing
-    if (
-      content.includes('google sheets') ||
-      content.includes('database') ||
-      content.includes('data') ||
-      content.includes('spreadsheet') ||
-      content.includes('analytics')
-    ) {
-      return TemplateCategory.DATA_PROCESSING;
-    }
-
-    // Communication
-    if (
-      content.includes('email') ||
-      content.includes('whatsapp') ||
-      content.includes('telegram') ||
-      content.includes('slack') ||
-      content.includes('discord')
-    ) {
-      return TemplateCategory.COMMUNICATION;
-    }
-
-    // Learning
-    if (
-      content.includes('learn') ||
-      content.includes('tutorial') ||
-      content.includes('get started') ||
-      content.includes('beginner')
-    ) {
-      return TemplateCategory.LEARNING;
-    }
+  categorizeTemplate(template: Template | EnhancedTemplate): TemplateCategory {
+    return this.categorizer.categorize(template).primary;
+  }
 
-    // Default to Automation
-    return TemplateCategory.AUTOMATION;
+  /**
+   * Categorize templates with all category tags and their confidence
+   */
+  categorizeTemplateTags(template: Template | EnhancedTemplate): TemplateCategorization {
+    return this.categorizer.categorize(template);
   }
 
   /**
    * Generate markdown file for single template
    */
-  generateTemplateMarkdown(template: Template | EnhancedTemplate, category: TemplateCategory): string {
+  generateTemplateMarkdown(
+    template: Template | EnhancedTemplate,
+    category: TemplateCategory,
+    categorization?: TemplateCategorization
+  ): string {
     const enhanced = template as EnhancedTemplate;
+    const messages = this.messages;
 
     const sections = [
       `# ${template.name}`,
       '',
-      `> **Category**: ${CATEGORY_INFO[category].name}`,
-      `> **Views**: ${template.totalViews.toLocaleString()}`,
-      `> **Created**: ${new Date(template.createdAt).toLocaleDateString('en-US')}`,
+      formatMessage(messages.categoryLabel, { category: messages.categories[category].name }),
+      categorization ? formatMessage(messages.tagsLabel, { tags: this.formatTags(categorization) }) : '',
+      formatMessage(messages.viewsLabel, { views: template.totalViews.toLocaleString() }),
+      formatMessage(messages.createdLabel, { date: new Date(template.createdAt).toLocaleDateString(this.config.locale) }),
       '',
-      '## Description',
+      `## ${messages.description}`,
       '',
-      template.description || 'No description',
+      template.description || messages.noDescription,
       '',
     ];
 
     // If workflow analysis results exist, use structured description
     if (enhanced.analysis) {
       sections.push(
-        '## Workflow Structure',
+        `## ${messages.workflowStructure}`,
         '',
         enhanced.analysis.structuredDescription,
         ''
       );
     } else {
       // Otherwise display traditional node list
-      sections.push('## Nodes Used', '');
+      sections.push(`## ${messages.nodesUsed}`, '');
 
       if (template.nodes && template.nodes.length > 0) {
         template.nodes.forEach((node) => {
@@ -240,31 +150,31 @@ export class TemplateGenerator {
           sections.push(`- ${displayName}`);
         });
       } else {
-        sections.push('*This template contains no node information*');
+        sections.push(messages.noNodes);
       }
       sections.push('');
     }
 
     sections.push(
-      '## Author Information',
+      `## ${messages.authorInformation}`,
       '',
-      `- **Name**: ${template.user.name}`,
-      `- **Username**: @${template.user.username}`,
-      template.user.verified ? `- Verified user` : '',
+      formatMessage(messages.authorName, { name: template.user.name }),
+      formatMessage(messages.authorUsername, { username: template.user.username }),
+      template.user.verified ? messages.verifiedUser : '',
       '',
-      '## Related Links',
+      `## ${messages.relatedLinks}`,
       '',
-      `- [View this template on n8n.io](https://n8n.io/workflows/${template.id})`,
+      formatMessage(messages.viewOnN8n, { url: `https://n8n.io/workflows/${template.id}` }),
       ''
     );
 
     // If complete workflow exists, add JSON
     if (enhanced.workflow) {
       sections.push(
-        '## Complete Workflow JSON',
+        `## ${messages.workflowJson}`,
         '',
         '<details>',
-        '<summary>Click to expand Workflow JSON</summary>',
+        `<summary>${messages.expandWorkflowJson}</summary>`,
         '',
         '```json',
         JSON.stringify(enhanced.workflow, null, 2),
@@ -285,16 +195,17 @@ export class TemplateGenerator {
     category: TemplateCategory,
     templates: Template[]
   ): string {
-    const info = CATEGORY_INFO[category];
+    const messages = this.messages;
+    const info = messages.categories[category];
 
     const sections = [
       `# ${info.name}`,
       '',
       info.description,
       '',
-      `Total: ${templates.length} templates`,
+      formatMessage(messages.categoryTotal, { count: templates.length }),
       '',
-      '## Template List',
+      `## ${messages.templateList}`,
       '',
     ];
 
@@ -305,7 +216,7 @@ export class TemplateGenerator {
       const filename = this.getTemplateFilename(template);
       const views = template.totalViews.toLocaleString();
       sections.push(
-        `- [${template.name}](./${filename}) - ${views} views`
+        formatMessage(messages.templateEntry, { name: template.name, filename, views })
       );
     });
 
@@ -318,13 +229,19 @@ export class TemplateGenerator {
    * Generate main index
    */
   generateMainIndex(categorizedTemplates: Map<TemplateCategory, Template[]>): string {
-    const totalCount = Array.from(categorizedTemplates.values()).reduce((sum, arr) => sum + arr.length, 0);
+    // Templates with several tags are listed in several categories; count them once
+    const uniqueTemplates = new Map<number, Template>();
+    categorizedTemplates.forEach((templates) => {
+      templates.forEach((template) => uniqueTemplates.set(template.id, template));
+    });
+    const totalCount = uniqueTemplates.size;
+    const messages = this.messages.index;
     const sections = [
-      '# n8n Workflow Templates',
+      `# ${messages.title}`,
       '',
-      `We have collected ${totalCount} popular workflow templates from n8n.io, organized by use case categories.`,
+      formatMessage(messages.intro, { count: totalCount }),
       '',
-      '## Category Navigation',
+      `## ${messages.categoryNavigation}`,
       '',
     ];
 
@@ -339,7 +256,7 @@ export class TemplateGenerator {
     ];
 
     categories.forEach((category) => {
-      const info = CATEGORY_INFO[category];
+      const info = this.messages.categories[category];
       const templates = categorizedTemplates.get(category) || [];
 
       // Only display categories with templates
@@ -349,33 +266,44 @@ export class TemplateGenerator {
           '',
           info.description,
           '',
-          `**Template Count**: ${templates.length}`,
+          formatMessage(messages.templateCount, { count: templates.length }),
           ''
         );
       }
     });
 
     sections.push(
-      '## Usage Instructions',
+      `## ${messages.usageInstructions}`,
       '',
-      '1. Browse the categories above to find the workflow type you need',
-      '2. Click on a category link to view all templates in that category',
-      '3. Select a template you are interested in to view detailed information',
-      '4. Click on the "View this template on n8n.io" link in the template to use it directly in n8n',
+      ...messages.usageSteps,
       '',
-      '## Statistics',
+      `## ${messages.statistics}`,
       '',
-      `- Total Templates: ${Array.from(categorizedTemplates.values()).reduce((sum, arr) => sum + arr.length, 0)}`,
-      `- Total Views: ${Array.from(categorizedTemplates.values())
-        .flat()
-        .reduce((sum, t) => sum + t.totalViews, 0)
-        .toLocaleString()}`,
+      formatMessage(messages.totalTemplates, { count: totalCount }),
+      formatMessage(messages.totalViews, {
+        count: Array.from(uniqueTemplates.values())
+          .reduce((sum, t) => sum + t.totalViews, 0)
+          .toLocaleString(),
+      }),
       ''
     );
 
     return sections.join('\n');
   }
 
+  /**
+   * Format category tags, e.g. "AI & Chatbots (confidence 0.92), Communication (confidence 0.41)"
+   */
+  private formatTags(categorization: TemplateCategorization): string {
+    const tags = categorization.tags
+      .map((tag) => formatMessage(this.messages.tag, {
+        category: this.messages.categories[tag.category].name,
+        confidence: tag.confidence.toFixed(2),
+      }))
+      .join(', ');
+    return categorization.overridden ? formatMessage(this.messages.manuallyAssigned, { tags }) : tags;
+  }
+
   /**
    * Get template filename
    */
@@ -395,21 +323,24 @@ export class TemplateGenerator {
    * Generate all template files
    */
   async generate(templates: Array<Template | EnhancedTemplate>): Promise<void> {
-    // Organize templates by category
+    // Organize templates by category (a template is listed under each of its tags)
     const categorized = new Map<TemplateCategory, Array<Template | EnhancedTemplate>>();
+    const categorizations = new Map<number, TemplateCategorization>();
 
     templates.forEach((template) => {
-      const category = this.categorizeTemplate(template);
-      if (!categorized.has(category)) {
-        categorized.set(category, []);
-      }
-      categorized.get(category)!.push(template);
+      const categorization = this.categorizeTemplateTags(template);
+      categorizations.set(template.id, categorization);
+      categorization.tags.forEach(({ category }) => {
+        if (!categorized.has(category)) {
+          categorized.set(category, []);
+        }
+        categorized.get(category)!.push(template);
+      });
     });
 
     // Create directory for each category
     for (const [category, categoryTemplates] of categorized.entries()) {
       const categoryDir = path.join(this.config.outputDir, category);
-      await fs.mkdir(categoryDir, { recursive: true });
 
       // Limit the number of templates per category
       const limited = categoryTemplates
@@ -420,31 +351,31 @@ export class TemplateGenerator {
       for (const template of limited) {
         const filename = this.getTemplateFilename(template);
         const filepath = path.join(categoryDir, filename);
-        const content = this.generateTemplateMarkdown(template, category);
-        await fs.writeFile(filepath, content, 'utf-8');
+        const content = this.generateTemplateMarkdown(template, category, categorizations.get(template.id));
+        await this.writer.write(filepath, content, 'TemplateGenerator');
       }
 
       // Generate category index
       const indexContent = this.generateCategoryIndex(category, limited);
-      await fs.writeFile(
+      await this.writer.write(
         path.join(categoryDir, 'README.md'),
         indexContent,
-        'utf-8'
+        'TemplateGenerator'
       );
     }
 
     // Generate main index
     const mainIndex = this.generateMainIndex(categorized);
-    await fs.writeFile(
+    await this.writer.write(
       path.join(this.config.outputDir, 'README.md'),
       mainIndex,
-      'utf-8'
+      'TemplateGenerator'
     );
 
-    console.log(`Successfully generated ${templates.length} template files`);
-    console.log(`Number of categories: ${categorized.size}`);
+    logger.info(`Successfully generated ${templates.length} template files`);
+    logger.info(`Number of categories: ${categorized.size}`);
     categorized.forEach((templates, category) => {
-      console.log(`  ${CATEGORY_INFO[category].name}: ${templates.length}`);
+      logger.info(`${CATEGORY_INFO[category].name}: ${templates.length}`);
     });
   }
 }
@@ -0,0 +1,548 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import type { SimplifiedNodeInfo } from '../collectors/npm-collector';
+import type { ParsedProperties } from '../parsers/property-parser';
+import type { NodeConnectionInfo } from '../models/connection';
+import type { Template } from './template-generator';
+import { normalizeNodeType } from '../analyzers/workflow-validator';
+import {
+  getFollowingNodes,
+  getPrecedingNodes,
+  type NodeCoOccurrenceGraph,
+  type NodeTransition,
+} from '../analyzers/co-occurrence-miner';
+
+/**
+ * Data the catalog is generated from (the same data/cache files the skill pack is built from)
+ */
+export interface WebsiteCatalogData {
+  nodes: SimplifiedNodeInfo[];
+  /** properties.json: parsed properties per node type */
+  properties?: Record<string, { properties?: ParsedProperties }>;
+  /** node-io-config.json */
+  connections?: NodeConnectionInfo[];
+  /** templates.json */
+  templates?: Template[];
+  /** node-co-occurrence.json */
+  nodeGraph?: NodeCoOccurrenceGraph;
+}
+
+/**
+ * Generated page, path relative to the website directory
+ */
+export interface WebsitePage {
+  path: string;
+  content: string;
+}
+
+/**
+ * Entry of the client-side search index (search-index.json)
+ */
+export interface WebsiteSearchEntry {
+  kind: 'node' | 'category' | 'template';
+  title: string;
+  description: string;
+  /** Page path relative to the website root */
+  url: string;
+  category?: string;
+  keywords: string[];
+}
+
+/**
+ * Generated catalog
+ */
+export interface WebsiteCatalog {
+  pages: WebsitePage[];
+  searchIndex: WebsiteSearchEntry[];
+}
+
+/**
+ * Website generator configuration
+ */
+export interface WebsiteGeneratorConfig {
+  /** Site URL without trailing slash, used for canonical links and the sitemap */
+  siteUrl: string;
+  /** Templates listed on a node page (default 10) */
+  maxTemplatesPerNode?: number;
+}
+
+const CATEGORY_NAMES: Record<string, string> = {
+  transform: 'Data Transformation Nodes',
+  input: 'Input Nodes',
+  output: 'Output Nodes',
+  trigger: 'Trigger Nodes',
+  organization: 'Organization Nodes',
+  misc: 'Miscellaneous Nodes',
+};
+
+/**
+ * Website Generator
+ * Generates a static, browsable catalog for the project website:
+ * one page per node, per-category listings, template pages, a search index and the sitemap
+ */
+export class WebsiteGenerator {
+  private config: Required<WebsiteGeneratorConfig>;
+
+  constructor(config: WebsiteGeneratorConfig) {
+    this.config = {
+      maxTemplatesPerNode: 10,
+      ...config,
+      siteUrl: config.siteUrl.replace(/\/$/, ''),
+    };
+  }
+
+  /**
+   * Generate all catalog pages and the search index
+   */
+  generate(data: WebsiteCatalogData): WebsiteCatalog {
+    const nodes = [...data.nodes].sort((a, b) => a.displayName.localeCompare(b.displayName));
+    const nodesByType = new Map(nodes.map(node => [node.nodeType, node]));
+    const connections = new Map((data.connections || []).map(info => [info.nodeType, info]));
+    const templates = [...(data.templates || [])].sort((a, b) => b.totalViews - a.totalViews);
+
+    const templatesByNode = new Map<string, Template[]>();
+    for (const template of templates) {
+      for (const nodeType of this.getTemplateNodeTypes(template)) {
+        templatesByNode.set(nodeType, [...(templatesByNode.get(nodeType) || []), template]);
+      }
+    }
+
+    const categories = new Map<string, SimplifiedNodeInfo[]>();
+    for (const node of nodes) {
+      const category = node.category || 'misc';
+      categories.set(category, [...(categories.get(category) || []), node]);
+    }
+
+    const pages: WebsitePage[] = [];
+    const searchIndex: WebsiteSearchEntry[] = [];
+
+    for (const node of nodes) {
+      const url = this.getNodePath(node.nodeType);
+      pages.push({
+        path: url,
+        content: this.renderNodePage(
+          node,
+          data.properties?.[node.nodeType]?.properties,
+          connections.get(node.nodeType),
+          templatesByNode.get(node.nodeType) || [],
+          nodesByType,
+          data.nodeGraph
+        ),
+      });
+      searchIndex.push({
+        kind: 'node',
+        title: node.displayName,
+        description: stripHtml(node.description),
+        url,
+        category: node.category,
+        keywords: [
+          node.nodeType,
+          ...(data.properties?.[node.nodeType]?.properties?.operations || []).map(operation => operation.name),
+        ],
+      });
+    }
+
+    const sortedCategories = Array.from(categories.entries()).sort(([a], [b]) => a.localeCompare(b));
+    for (const [category, categoryNodes] of sortedCategories) {
+      const url = `categories/${category}.html`;
+      pages.push({ path: url, content: this.renderCategoryPage(category, categoryNodes) });
+      searchIndex.push({
+        kind: 'category',
+        title: getCategoryName(category),
+        description: `${categoryNodes.length} nodes`,
+        url,
+        keywords: [category],
+      });
+    }
+
+    for (const template of templates) {
+      const url = this.getTemplatePath(template.id);
+      pages.push({ path: url, content: this.renderTemplatePage(template, nodesByType) });
+      searchIndex.push({
+        kind: 'template',
+        title: template.name,
+        description: truncate(stripHtml(template.description || ''), 160),
+        url,
+        keywords: this.getTemplateNodeTypes(template).map(type => nodesByType.get(type)?.displayName || type),
+      });
+    }
+
+    pages.push({ path: 'nodes/index.html', content: this.renderNodeIndex(nodes, sortedCategories) });
+    if (templates.length > 0) {
+      pages.push({ path: 'templates/index.html', content: this.renderTemplateIndex(templates) });
+    }
+
+    return { pages, searchIndex };
+  }
+
+  /**
+   * Generate sitemap.xml for the given page paths (relative to the website root)
+   */
+  generateSitemap(paths: string[], lastmod: string): string {
+    const urls = paths.map(pagePath => {
+      const loc = pagePath.endsWith('index.html') ? pagePath.slice(0, -'index.html'.length) : pagePath;
+      return [
+        '    <url>',
+        `        <loc>${escapeHtml(`${this.config.siteUrl}/${loc}`)}</loc>`,
+        `        <lastmod>${lastmod}</lastmod>`,
+        '        <changefreq>weekly</changefreq>',
+        `        <priority>${getSitemapPriority(pagePath)}</priority>`,
+        '    </url>',
+      ].join('\n');
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+      ...urls,
+      '</urlset>',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Page path of a node, scoped package names must not create subdirectories
+   */
+  getNodePath(nodeType: string): string {
+    return `nodes/${nodeType.replace(/^@/, '').replace(/\//g, '-')}.html`;
+  }
+
+  /**
+   * Page path of a template
+   */
+  getTemplatePath(templateId: number): string {
+    return `templates/${templateId}.html`;
+  }
+
+  /**
+   * Node page: operations, properties, connection guide and templates using the node
+   */
+  private renderNodePage(
+    node: SimplifiedNodeInfo,
+    properties: ParsedProperties | undefined,
+    connection: NodeConnectionInfo | undefined,
+    templates: Template[],
+    nodesByType: Map<string, SimplifiedNodeInfo>,
+    nodeGraph?: NodeCoOccurrenceGraph
+  ): string {
+    const sections: string[] = [];
+    const badges = [
+      node.isTrigger ? 'Trigger' : null,
+      node.isWebhook ? 'Webhook' : null,
+      node.isAITool ? 'Usable as AI tool' : null,
+      node.hasCredentials ? 'Requires credentials' : null,
+    ].filter((badge): badge is string => badge !== null);
+
+    sections.push(`<p class="catalog-meta"><code>${escapeHtml(node.nodeType)}</code> · ${escapeHtml(node.packageName)} · v${escapeHtml(node.version)} · <a href="../categories/${escapeHtml(node.category || 'misc')}.html">${escapeHtml(getCategoryName(node.category || 'misc'))}</a></p>`);
+    sections.push(`<p>${escapeHtml(stripHtml(node.description))}</p>`);
+    if (badges.length > 0) {
+      sections.push(`<p>${badges.map(badge => `<span class="catalog-badge">${badge}</span>`).join(' ')}</p>`);
+    }
+
+    const operations = properties?.operations || [];
+    if (operations.length > 0) {
+      const hasResources = operations.some(operation => operation.resource);
+      sections.push('<h2>Operations</h2>');
+      sections.push(renderTable(
+        hasResources ? ['Resource', 'Operation', 'Description'] : ['Operation', 'Description'],
+        operations.map(operation => [
+          ...(hasResources ? [escapeHtml(operation.resource || '')] : []),
+          `${escapeHtml(operation.name)} <code>${escapeHtml(operation.value)}</code>`,
+          escapeHtml(stripHtml(operation.description || '')),
+        ])
+      ));
+    }
+
+    const coreProperties = properties?.coreProperties || [];
+    if (coreProperties.length > 0) {
+      sections.push('<h2>Properties</h2>');
+      sections.push(renderTable(
+        ['Name', 'Type', 'Required', 'Default', 'Description'],
+        coreProperties.map(prop => [
+          `${escapeHtml(prop.displayName)} <code>${escapeHtml(prop.name)}</code>`,
+          escapeHtml(prop.type),
+          prop.required ? 'Yes' : 'No',
+          prop.default === undefined || prop.default === '' ? '' : `<code>${escapeHtml(JSON.stringify(prop.default))}</code>`,
+          escapeHtml(stripHtml(prop.description || '')),
+        ])
+      ));
+      if (properties && properties.totalPropertyCount > coreProperties.length) {
+        sections.push(`<p class="catalog-note">Showing ${coreProperties.length} core properties of ${properties.totalPropertyCount}.</p>`);
+      }
+    }
+
+    const following = nodeGraph ? getFollowingNodes(nodeGraph, node.nodeType) : [];
+    const preceding = nodeGraph ? getPrecedingNodes(nodeGraph, node.nodeType) : [];
+    if (connection || following.length > 0 || preceding.length > 0) {
+      sections.push('<h2>Connection Guide</h2>');
+      if (connection) {
+        const outputs = connection.outputNames.length > 1
+          ? `${formatTypes(connection.outputTypes)} (${connection.outputNames.map(escapeHtml).join(', ')})`
+          : formatTypes(connection.outputTypes);
+        sections.push('<ul>');
+        sections.push(`<li>Input types: ${connection.inputTypes.length > 0 ? formatTypes(connection.inputTypes) : 'None (trigger or starting node)'}</li>`);
+        sections.push(`<li>Output types: ${connection.outputTypes.length > 0 ? outputs : 'None'}</li>`);
+        if (connection.requiresSpecialInputs) {
+          const aiInputs = connection.inputTypes.filter(type => type !== 'main');
+          sections.push(`<li>Needs sub-nodes connected to: ${formatTypes(aiInputs)}</li>`);
+        }
+        sections.push('</ul>');
+      }
+      const renderTransitions = (title: string, transitions: NodeTransition[], pick: (t: NodeTransition) => string) => {
+        if (transitions.length === 0) {
+          return;
+        }
+        sections.push(`<h3>${title}</h3>`);
+        sections.push(renderTable(
+          ['Node', 'Templates'],
+          transitions.map(transition => [
+            this.renderNodeLink(pick(transition), nodesByType, '../'),
+            `${transition.workflowCount} of ${nodeGraph!.workflowCount}`,
+          ])
+        ));
+      };
+      renderTransitions('Commonly Followed By', following, transition => transition.target);
+      renderTransitions('Commonly Preceded By', preceding, transition => transition.source);
+    }
+
+    if (templates.length > 0) {
+      sections.push('<h2>Templates Using This Node</h2>');
+      sections.push('<ul>');
+      templates.slice(0, this.config.maxTemplatesPerNode).forEach(template => {
+        sections.push(`<li><a href="../${this.getTemplatePath(template.id)}">${escapeHtml(template.name)}</a> <span class="catalog-note">${template.totalViews.toLocaleString('en-US')} views</span></li>`);
+      });
+      sections.push('</ul>');
+    }
+
+    return this.renderPage({
+      title: node.displayName,
+      description: stripHtml(node.description),
+      path: this.getNodePath(node.nodeType),
+      body: sections.join('\n'),
+    });
+  }
+
+  /**
+   * Category listing page
+   */
+  private renderCategoryPage(category: string, nodes: SimplifiedNodeInfo[]): string {
+    const body = [
+      `<p>${nodes.length} nodes</p>`,
+      renderTable(
+        ['Node', 'Description'],
+        nodes.map(node => [
+          `<a href="../${this.getNodePath(node.nodeType)}">${escapeHtml(node.displayName)}</a>`,
+          escapeHtml(truncate(stripHtml(node.description), 160)),
+        ])
+      ),
+    ].join('\n');
+
+    return this.renderPage({
+      title: getCategoryName(category),
+      description: `${nodes.length} n8n nodes in ${getCategoryName(category)}`,
+      path: `categories/${category}.html`,
+      body,
+    });
+  }
+
+  /**
+   * Template page: description, author and the nodes it uses
+   */
+  private renderTemplatePage(template: Template, nodesByType: Map<string, SimplifiedNodeInfo>): string {
+    const nodeTypes = this.getTemplateNodeTypes(template);
+    const paragraphs = stripHtml(template.description || '')
+      .split(/\n{2,}/)
+      .map(paragraph => paragraph.trim())
+      .filter(paragraph => paragraph.length > 0)
+      .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`);
+
+    const body = [
+      `<p class="catalog-meta">By ${escapeHtml(template.user?.name || 'unknown')} · ${template.totalViews.toLocaleString('en-US')} views · <a href="https://n8n.io/workflows/${template.id}" target="_blank" rel="noopener noreferrer">View on n8n.io</a></p>`,
+      ...paragraphs,
+      nodeTypes.length > 0 ? '<h2>Nodes Used</h2>' : '',
+      nodeTypes.length > 0
+        ? `<ul>\n${nodeTypes.map(type => `<li>${this.renderNodeLink(type, nodesByType, '../')}</li>`).join('\n')}\n</ul>`
+        : '',
+    ].filter(part => part.length > 0).join('\n');
+
+    return this.renderPage({
+      title: template.name,
+      description: truncate(stripHtml(template.description || ''), 160),
+      path: this.getTemplatePath(template.id),
+      body,
+    });
+  }
+
+  /**
+   * Node catalog entry page with the search box and category list
+   */
+  private renderNodeIndex(nodes: SimplifiedNodeInfo[], categories: Array<[string, SimplifiedNodeInfo[]]>): string {
+    const body = [
+      `<p>${nodes.length} nodes in ${categories.length} categories.</p>`,
+      '<h2>Categories</h2>',
+      '<ul>',
+      ...categories.map(([category, categoryNodes]) =>
+        `<li><a href="../categories/${escapeHtml(category)}.html">${escapeHtml(getCategoryName(category))}</a> (${categoryNodes.length})</li>`
+      ),
+      '</ul>',
+      '<h2>All Nodes</h2>',
+      '<ul class="catalog-list">',
+      ...nodes.map(node => `<li><a href="../${this.getNodePath(node.nodeType)}">${escapeHtml(node.displayName)}</a></li>`),
+      '</ul>',
+    ].join('\n');
+
+    return this.renderPage({
+      title: 'Node Catalog',
+      description: `Documentation for ${nodes.length} n8n nodes: operations, properties and connection guides`,
+      path: 'nodes/index.html',
+      body,
+    });
+  }
+
+  /**
+   * Template listing page, most viewed first
+   */
+  private renderTemplateIndex(templates: Template[]): string {
+    const body = renderTable(
+      ['Template', 'Views'],
+      templates.map(template => [
+        `<a href="../${this.getTemplatePath(template.id)}">${escapeHtml(template.name)}</a>`,
+        template.totalViews.toLocaleString('en-US'),
+      ])
+    );
+
+    return this.renderPage({
+      title: 'Workflow Templates',
+      description: `${templates.length} popular n8n workflow templates and the nodes they use`,
+      path: 'templates/index.html',
+      body,
+    });
+  }
+
+  /**
+   * Page layout shared by all catalog pages (they live one directory below the website root)
+   */
+  private renderPage(page: { title: string; description: string; path: string; body: string }): string {
+    const canonical = `${this.config.siteUrl}/${page.path.replace(/index\.html$/, '')}`;
+    const title = `${escapeHtml(page.title)} | n8n Skills`;
+    const description = escapeHtml(truncate(page.description, 160));
+
+    return `<!DOCTYPE html>
+<html lang="en">
+
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${title}</title>
+    <meta name="description" content="${description}">
+    <meta name="robots" content="index, follow">
+    <link rel="canonical" href="${escapeHtml(canonical)}">
+    <link rel="icon" href="../assets/n8n-skills-icon.png">
+    <meta property="og:type" content="article">
+    <meta property="og:url" content="${escapeHtml(canonical)}">
+    <meta property="og:title" content="${title}">
+    <meta property="og:description" content="${description}">
+    <meta name="theme-color" content="#0f172a">
+    <link rel="stylesheet" href="../styles.css">
+    <script src="../search.js" defer></script>
+</head>
+
+<body class="catalog">
+    <nav class="navbar navbar-visible">
+        <div class="navbar-container">
+            <a class="navbar-brand" href="../">n8n Skills</a>
+            <div class="navbar-buttons">
+                <a href="../nodes/" class="btn btn-secondary btn-nav">Nodes</a>
+                <a href="../templates/" class="btn btn-secondary btn-nav">Templates</a>
+                <input type="search" class="catalog-search" placeholder="Search nodes and templates" aria-label="Search nodes and templates" data-base-path="../">
+            </div>
+        </div>
+    </nav>
+    <ul class="catalog-search-results" hidden></ul>
+
+    <main class="container catalog-content">
+        <h1>${escapeHtml(page.title)}</h1>
+${page.body}
+    </main>
+</body>
+
+</html>
+`;
+  }
+
+  /**
+   * Link to a node page, or the plain node type when the node is not in the catalog
+   */
+  private renderNodeLink(nodeType: string, nodesByType: Map<string, SimplifiedNodeInfo>, basePath: string): string {
+    const node = nodesByType.get(nodeType);
+    return node
+      ? `<a href="${basePath}${this.getNodePath(nodeType)}">${escapeHtml(node.displayName)}</a>`
+      : `<code>${escapeHtml(nodeType)}</code>`;
+  }
+
+  /**
+   * Node types used by a template (collected format), sticky notes excluded
+   */
+  private getTemplateNodeTypes(template: Template): string[] {
+    const types = (template.nodes || [])
+      .map(node => normalizeNodeType(node.name))
+      .filter(type => type !== 'nodes-base.stickyNote');
+    return Array.from(new Set(types));
+  }
+}
+
+function getCategoryName(category: string): string {
+  return CATEGORY_NAMES[category] || category;
+}
+
+function getSitemapPriority(pagePath: string): string {
+  if (pagePath === 'index.html') return '1.0';
+  if (pagePath.endsWith('index.html') && pagePath.split('/').length === 2) {
+    return pagePath.startsWith('nodes/') || pagePath.startsWith('templates/') ? '0.8' : '0.9';
+  }
+  if (pagePath.startsWith('categories/')) return '0.7';
+  return '0.6';
+}
+
+function renderTable(headers: string[], rows: string[][]): string {
+  return [
+    '<table class="catalog-table">',
+    `<thead><tr>${headers.map(header => `<th>${header}</th>`).join('')}</tr></thead>`,
+    '<tbody>',
+    ...rows.map(row => `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`),
+    '</tbody>',
+    '</table>',
+  ].join('\n');
+}
+
+function formatTypes(types: string[]): string {
+  return types.map(type => `<code>${escapeHtml(type)}</code>`).join(', ');
+}
+
+function escapeHtml(text: string): string {
+  const htmlEntities: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+  };
+  return text.replace(/[&<>"']/g, char => htmlEntities[char]);
+}
+
+/**
+ * Plain text of node and template descriptions, which may contain HTML links
+ */
+function stripHtml(text: string): string {
+  return (text || '').replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ');
+}
+
+function truncate(text: string, maxLength: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 3)}...` : singleLine;
+}
@@ -0,0 +1,65 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+/**
+ * Locale message catalogs
+ * All prose of the generated skill pack comes from these catalogs
+ */
+
+import { en, type MessageCatalog } from './locales/en';
+import { zhTW } from './locales/zh-TW';
+
+export type { MessageCatalog } from './locales/en';
+
+/**
+ * Locales the skill pack can be generated in
+ */
+export const SUPPORTED_LOCALES = ['en', 'zh-TW'] as const;
+
+export type Locale = typeof SUPPORTED_LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const CATALOGS: Record<Locale, MessageCatalog> = {
+  'en': en,
+  'zh-TW': zhTW,
+};
+
+/**
+ * Check whether a string names a supported locale
+ */
+export function isSupportedLocale(value: string): value is Locale {
+  return (SUPPORTED_LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Get the message catalog of a locale
+ */
+export function getMessages(locale: Locale = DEFAULT_LOCALE): MessageCatalog {
+  const messages = CATALOGS[locale];
+  if (!messages) {
+    throw new Error(`Unsupported locale: ${locale} (supported: ${SUPPORTED_LOCALES.join(', ')})`);
+  }
+  return messages;
+}
+
+/**
+ * Fill {{name}} placeholders of a message
+ * Unknown placeholders are left as-is
+ */
+export function formatMessage(template: string, params: Record<string, string | number> = {}): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * Fill placeholders of a multi-line message
+ */
+export function formatLines(lines: string[], params: Record<string, string | number> = {}): string[] {
+  return lines.map(line => formatMessage(line, params));
+}
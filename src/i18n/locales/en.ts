@@ -0,0 +1,1053 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+/**
+ * English messages of the generated skill pack
+ * Every other catalog must provide the same keys; {{name}} placeholders are filled by formatMessage()
+ */
+export const en = {
+  skill: {
+    description: 'Use when building or troubleshooting n8n workflows. Covers node discovery, configuration details, connection compatibility, and workflow patterns. Keywords: n8n, workflow, automation, node, trigger, webhook, http request, database, ai agent.',
+    /** Section headings of SKILL.md, also checked by the skill validator */
+    headings: {
+      title: 'n8n Workflow Automation Skill Pack',
+      overview: 'Overview',
+      whenToUse: 'When to Use',
+      quickNavigation: 'Quick Navigation',
+      commonMistakes: 'Common Mistakes',
+      resources: 'Resources',
+      license: 'License and Attribution',
+    },
+    overview: [
+      'This skill helps with:',
+      '- Understanding n8n node functionality and usage',
+      '- Finding nodes suitable for specific tasks',
+      '- Learning common workflow patterns',
+      '- Getting node configuration examples',
+      '- Solving workflow design problems',
+      '',
+      'This skill includes:',
+      '- Detailed information on the {{topNodesCount}} most commonly used built-in n8n nodes',
+      '- 30+ popular community packages for extended functionality',
+      '- Node configuration examples and best practices',
+      '- Common workflow patterns',
+      '- Node categorization and indexing for both built-in and community nodes',
+    ],
+    whenToUse: [
+      'Use this skill when:',
+      '- Building or designing n8n workflows',
+      '- Searching for nodes that match specific functionality',
+      '- Troubleshooting node configurations or connections',
+      '- Understanding node input/output compatibility',
+      '- Exploring community packages for extended functionality',
+      '',
+      'Do NOT use when:',
+      '- Learning general automation concepts (use n8n official docs)',
+      '- Deploying or hosting n8n (infrastructure questions)',
+      '- Pricing or licensing questions (contact n8n directly)',
+    ],
+    quickNavigation: [
+      'Use this flowchart to find the right resource:',
+      '',
+      '```dot',
+      'digraph navigation {',
+      '    rankdir=TB;',
+      '    node [shape=diamond];',
+      '',
+      '    start [label="What do you need?" shape=ellipse];',
+      '    q1 [label="Know the\\nnode name?"];',
+      '    q2 [label="Know the\\nfunctionality?"];',
+      '    q3 [label="Need\\nexamples?"];',
+      '',
+      '    node [shape=box];',
+      '    a1 [label="Glob: resources/**/*{name}*.md"];',
+      '    a2 [label="Grep: search keywords\\nin resources/"];',
+      '    a3 [label="Read: resources/templates/"];',
+      '    a4 [label="Read: INDEX.md\\nby category"];',
+      '',
+      '    start -> q1;',
+      '    q1 -> a1 [label="yes"];',
+      '    q1 -> q2 [label="no"];',
+      '    q2 -> a2 [label="yes"];',
+      '    q2 -> q3 [label="no"];',
+      '    q3 -> a3 [label="yes"];',
+      '    q3 -> a4 [label="no"];',
+      '}',
+      '```',
+      '',
+      '### Quick Links',
+      '',
+      '- [Complete Node Index](resources/INDEX.md) - All nodes with line numbers',
+      '- [How to Find Nodes](resources/guides/how-to-find-nodes.md) - Search strategies',
+      '- [Usage Guide](resources/guides/usage-guide.md) - Detailed instructions',
+      '- [Workflow Patterns](resources/guides/workflow-patterns.md) - Common patterns',
+    ],
+    commonMistakes: [
+      '| Mistake | Solution |',
+      '|---------|----------|',
+      '| Reading entire merged files (thousands of lines) | Use INDEX.md to find line numbers, then use offset/limit for precise reading |',
+      '| Confusing Trigger and Action nodes | Triggers can only be placed at workflow start, Actions can be anywhere |',
+      '| Ignoring node compatibility | Check compatibility-matrix.md to verify node connections |',
+      '| Using wrong node naming format | File format is `nodes-base.{nodeType}.md`, nodeType is usually camelCase |',
+      '',
+      'See [Usage Guide](resources/guides/usage-guide.md#common-pitfalls) for more details.',
+    ],
+    resources: [
+      '- [Workflow Patterns](resources/guides/workflow-patterns.md) - {{patternCount}} common workflow patterns',
+      '- [Template Library](resources/templates/README.md) - {{templateCount}} popular templates',
+      '- [Node Index](resources/INDEX.md) - Complete node reference',
+      '- [Compatibility Matrix](resources/compatibility-matrix.md) - Node connection rules',
+    ],
+    license: [
+      '## This Skill Pack License',
+      '',
+      'This skill pack project is licensed under the MIT License.',
+      'See: https://github.com/haunchen/n8n-skills/blob/main/LICENSE',
+      '',
+      '## Important Notice',
+      '',
+      'This is an unofficial educational project and is not affiliated with n8n GmbH.',
+      '',
+      'This skill content is generated based on the following resources:',
+      '- n8n node type definitions (Sustainable Use License)',
+      '- n8n official documentation (MIT License)',
+      '- n8n-mcp project architecture (MIT License)',
+      '',
+      'For detailed attribution information, please refer to the ATTRIBUTIONS.md file in the project.',
+      '',
+      '## About n8n',
+      '',
+      'n8n is an open-source workflow automation platform developed and maintained by n8n GmbH.',
+      '',
+      '- Official website: https://n8n.io',
+      '- Documentation: https://docs.n8n.io',
+      '- Source code: https://github.com/n8n-io/n8n',
+      '- License: Sustainable Use License',
+      '',
+      'When using n8n software, you must comply with n8n\'s license terms. See: https://github.com/n8n-io/n8n/blob/master/LICENSE.md',
+    ],
+  },
+  guides: {
+    howToFindNodes: [
+      '# How to Find Nodes',
+      '',
+      'This skill contains complete information for n8n nodes. As an AI assistant, you can use the following tools to efficiently find and read node information.',
+      '',
+      '## Quick Decision Flowchart',
+      '',
+      'Use this flowchart to decide which tool to use:',
+      '',
+      '```dot',
+      'digraph find_nodes {',
+      '    rankdir=TB;',
+      '    node [shape=diamond];',
+      '',
+      '    start [label="What info do you have?" shape=ellipse];',
+      '    q1 [label="Know exact\\nnode name?"];',
+      '    q2 [label="Know what\\nit does?"];',
+      '    q3 [label="Know the\\ncategory?"];',
+      '',
+      '    node [shape=box];',
+      '    a1 [label="Glob: resources/**/*{name}*.md"];',
+      '    a2 [label="Grep: search by keywords"];',
+      '    a3 [label="Read: category README"];',
+      '    a4 [label="Read: INDEX.md"];',
+      '',
+      '    start -> q1;',
+      '    q1 -> a1 [label="yes"];',
+      '    q1 -> q2 [label="no"];',
+      '    q2 -> a2 [label="yes"];',
+      '    q2 -> q3 [label="no"];',
+      '    q3 -> a3 [label="yes"];',
+      '    q3 -> a4 [label="no"];',
+      '}',
+      '```',
+      '',
+      '## 1. Using the Unified Index (INDEX.md)',
+      '',
+      'INDEX.md is the master index for all nodes, providing two ways to search:',
+      '',
+      '### Read Complete Index',
+      '```',
+      'Read("resources/INDEX.md")',
+      '```',
+      '',
+      'Index contents include:',
+      '- Find by category: 6 built-in categories (Transform, Input, Output, Trigger, Organization, Misc)',
+      '- Community packages: 30+ popular community node packages',
+      '- Template index: workflow templates',
+      '',
+      '### Read Specific Sections of the Index',
+      '',
+      'INDEX.md contains location information (starting line number and line count) for all 542 nodes, allowing you to read precisely:',
+      '',
+      'Example: Finding nodes in the "Data Transformation" category',
+      '```',
+      '# First read the index to understand category contents',
+      'Read("resources/INDEX.md", offset=1, limit=100)',
+      '```',
+      '',
+      '## 2. Using Read Tool to Precisely Read Node Documentation',
+      '',
+      '### Read High-Priority Nodes (Individual Files)',
+      '',
+      'The top 50 most commonly used nodes have individual files, which can be read directly:',
+      '',
+      '```',
+      '# Example: Read Gmail node',
+      'Read("resources/output/nodes-base.gmail.md")',
+      '',
+      '# Example: Read Code node',
+      'Read("resources/transform/nodes-base.code.md")',
+      '```',
+      '',
+      '### Read Low-Priority Nodes (Specific Nodes in Merged Files)',
+      '',
+      'The other 492 nodes are merged in category files. INDEX.md will tell you the starting line number and line count for each node:',
+      '',
+      '```',
+      '# Step 1: Find the node\'s location information from INDEX.md',
+      '# Example: Azure Cosmos DB is at line 110 in transform-merged-1.md with 64 lines',
+      '',
+      '# Step 2: Use starting line number and line count to read precisely',
+      'Read("resources/transform/transform-merged-1.md", offset=110, limit=64)',
+      '```',
+      '',
+      '## 3. Using Glob Tool to Search Files',
+      '',
+      'When you know part of a node name, use Glob to quickly locate files:',
+      '',
+      '```',
+      '# Search for node files containing "gmail"',
+      'Glob("resources/**/*gmail*.md")',
+      '',
+      '# Search all output-type nodes',
+      'Glob("resources/output/*.md")',
+      '',
+      '# Search all trigger nodes',
+      'Glob("resources/trigger/*.md")',
+      '',
+      '# Search merged files',
+      'Glob("resources/**/*-merged-*.md")',
+      '```',
+      '',
+      '## 4. Using Grep Tool to Search Keywords',
+      '',
+      'Search for functional keywords in all resource files:',
+      '',
+      '```',
+      '# Search for nodes containing "send email"',
+      'Grep("send email", path="resources", output_mode="files_with_matches")',
+      '',
+      '# Search for database-related nodes',
+      'Grep("database", path="resources", output_mode="files_with_matches")',
+      '',
+      '# Search webhook-related functionality (show matching content)',
+      'Grep("webhook", path="resources", output_mode="content", -n=true, -C=2)',
+      '',
+      '# Search for AI-related nodes',
+      'Grep("AI|artificial intelligence", path="resources", output_mode="files_with_matches")',
+      '```',
+      '',
+      '## 5. Searching Community Nodes',
+      '',
+      'Community nodes are organized in a dedicated directory:',
+      '',
+      '### Read Community Index',
+      '```',
+      'Read("resources/community/README.md")',
+      '```',
+      '',
+      '### Search Community Packages',
+      '```',
+      '# Search for WhatsApp-related community nodes',
+      'Glob("resources/community/*evolution*.md")',
+      'Glob("resources/community/*whatsapp*.md")',
+      '',
+      '# Search for AI-related community nodes',
+      'Glob("resources/community/*elevenlabs*.md")',
+      'Glob("resources/community/*perplexity*.md")',
+      'Glob("resources/community/*tavily*.md")',
+      '',
+      '# Search by keyword in community packages',
+      'Grep("voice generation", path="resources/community", output_mode="files_with_matches")',
+      '```',
+      '',
+      '## Search Strategy Recommendations',
+      '',
+      'Choose the best search method for different scenarios:',
+      '',
+      '1. User asks about specific services (e.g., "Gmail", "Slack"):',
+      '   → Use Glob search: `Glob("resources/**/*gmail*.md")`',
+      '',
+      '2. User asks about functional requirements (e.g., "send email", "database query"):',
+      '   → Use Grep to search keywords: `Grep("send email", path="resources")`',
+      '',
+      '3. User asks about node categories (e.g., "what triggers are available"):',
+      '   → Read category table in INDEX.md: `Read("resources/INDEX.md", offset=<category_start_line>, limit=<line_count>)`',
+      '',
+      '4. User wants to learn about popular nodes:',
+      '   → Read the priority ranking table in INDEX.md',
+      '',
+      '5. User needs workflow examples:',
+      '   → Reference the "Common Workflow Patterns" section or resources/templates/ directory',
+      '',
+      '6. User asks about community packages:',
+      '   → Read community index: `Read("resources/community/README.md")`',
+      '   → Search community packages: `Glob("resources/community/*keyword*.md")`',
+      '',
+    ],
+    usageGuide: [
+      '# Usage Guide',
+      '',
+      '## 1. File Structure Navigation',
+      '',
+      '### Directory Structure',
+      '',
+      '```',
+      'resources/',
+      '├── INDEX.md                     # Unified index (contains line number info for all nodes)',
+      '├── compatibility-matrix.md      # Node compatibility matrix',
+      '├── transform/                   # Data transformation nodes',
+      '│   ├── README.md                # {{transform}} nodes overview',
+      '│   ├── nodes-base.code.md       # High-priority individual files',
+      '│   ├── nodes-base.function.md',
+      '│   └── transform-merged-*.md    # Low-priority merged files',
+      '├── input/                       # Data input nodes',
+      '│   ├── README.md                # {{input}} nodes',
+      '│   └── ...',
+      '├── output/                      # Data output nodes',
+      '│   ├── README.md                # {{output}} nodes',
+      '│   └── ...',
+      '├── trigger/                     # Trigger nodes',
+      '│   ├── README.md                # {{trigger}} nodes',
+      '│   └── ...',
+      '├── organization/                # Organization management nodes',
+      '│   ├── README.md                # {{organization}} nodes',
+      '│   └── ...',
+      '├── misc/                        # Miscellaneous nodes',
+      '│   ├── README.md                # {{misc}} nodes',
+      '│   └── ...',
+      '├── community/                   # Community package nodes',
+      '│   ├── README.md                # Community packages index (30+ packages)',
+      '│   ├── ai-tools.md              # AI tools category',
+      '│   ├── communication.md         # Communication category',
+      '│   └── *.md                     # Individual package files',
+      '└── templates/                   # Workflow templates',
+      '    ├── README.md                # Templates overview',
+      '    ├── ai-chatbots/             # AI & chatbot templates',
+      '    ├── social-media/            # Social media templates',
+      '    ├── data-processing/         # Data processing templates',
+      '    └── communication/           # Communication & collaboration templates',
+      '```',
+      '',
+      '### High-Priority vs Low-Priority Nodes',
+      '',
+      '- High-priority (top 50): Individual files, filename format `nodes-base.{nodeType}.md`',
+      '  - Example: `resources/transform/nodes-base.code.md`',
+      '  - Read the complete file directly using the Read tool',
+      '',
+      '- Low-priority (other 492): Merged in `*-merged-*.md` files',
+      '  - Example: `resources/transform/transform-merged-1.md`',
+      '  - Use INDEX.md to find line numbers, then use Read tool\'s offset/limit parameters to read specific ranges',
+      '',
+      '## 2. Complete Tool Usage Instructions',
+      '',
+      '### Read Tool',
+      '',
+      'Purpose: Read file contents',
+      '',
+      'Complete read:',
+      '```',
+      'Read("resources/INDEX.md")',
+      'Read("resources/transform/nodes-base.code.md")',
+      '```',
+      '',
+      'Precise read (using starting line number and line count):',
+      '```',
+      'Read("resources/transform/transform-merged-1.md", offset=110, limit=64)',
+      '```',
+      '',
+      '### Glob Tool',
+      '',
+      'Purpose: Search for files matching a pattern',
+      '',
+      'Common patterns:',
+      '```',
+      'Glob("resources/**/*{keyword}*.md")    # Search for files containing keyword',
+      'Glob("resources/transform/*.md")      # Search all files in a specific category',
+      'Glob("resources/**/*-merged-*.md")    # Search all merged files',
+      '```',
+      '',
+      '### Grep Tool',
+      '',
+      'Purpose: Search for keywords in file contents',
+      '',
+      'Basic search:',
+      '```',
+      'Grep("{keyword}", path="resources", output_mode="files_with_matches")',
+      '```',
+      '',
+      'Advanced search:',
+      '```',
+      '# Show matching content and line numbers',
+      'Grep("{keyword}", path="resources", output_mode="content", -n=true, -C=2)',
+      '',
+      '# Use regular expressions',
+      'Grep("email|mail", path="resources", output_mode="files_with_matches")',
+      '',
+      '# Limit search to specific category',
+      'Grep("{keyword}", path="resources/transform", output_mode="files_with_matches")',
+      '```',
+      '',
+      '### INDEX.md Query Method',
+      '',
+      'INDEX.md is the most important navigation tool, recommended to use first:',
+      '',
+      '1. First read INDEX.md to understand overall structure',
+      '2. Find target nodes based on categories',
+      '3. Record node\'s file path, starting line number, and line count',
+      '4. Use Read tool to precisely read node content',
+      '',
+      '## 3. Decision Flow Guide',
+      '',
+      '### Scenario 1: User Asks About a Specific Service Node',
+      '',
+      'Example: "How do I use the Gmail node?"',
+      '',
+      'Decision flow:',
+      '```',
+      '1. Use Glob for quick location',
+      '   Glob("resources/**/*gmail*.md")',
+      '',
+      '2. If an individual file is found, read it directly',
+      '   Read("resources/output/nodes-base.gmail.md")',
+      '',
+      '3. If in a merged file, check INDEX.md first',
+      '   → Find starting line number and line count',
+      '   → Use offset/limit to read',
+      '```',
+      '',
+      '### Scenario 2: User Asks About Functional Requirements',
+      '',
+      'Example: "I need a node to send emails"',
+      '',
+      'Decision flow:',
+      '```',
+      '1. Use Grep to search keywords',
+      '   Grep("send email|send mail", path="resources", output_mode="files_with_matches")',
+      '',
+      '2. Get a list of candidate nodes',
+      '   → Gmail, SendGrid, SMTP, etc.',
+      '',
+      '3. Read detailed documentation for relevant nodes',
+      '   → Compare functional differences',
+      '   → Recommend the most suitable node',
+      '```',
+      '',
+      '### Scenario 3: User Asks About Node Categories',
+      '',
+      'Example: "What trigger nodes are available?"',
+      '',
+      'Decision flow:',
+      '```',
+      '1. Read the trigger category section in INDEX.md',
+      '   Read("resources/INDEX.md")',
+      '   → Find "## Find by Category" > "### Trigger"',
+      '',
+      '2. Or directly read the category README',
+      '   Read("resources/trigger/README.md")',
+      '',
+      '3. Provide node list and brief descriptions',
+      '```',
+      '',
+      '### Scenario 4: User Needs Workflow Examples',
+      '',
+      'Example: "How do I build an AI chatbot?"',
+      '',
+      'Decision flow:',
+      '```',
+      '1. First check the "Common Workflow Patterns" section',
+      '   → Look for relevant patterns',
+      '',
+      '2. Check the template library',
+      '   Read("resources/templates/ai-chatbots/README.md")',
+      '',
+      '3. Combine with node documentation',
+      '   → AI Agent node',
+      '   → OpenAI node',
+      '   → Vector Store node',
+      '```',
+      '',
+      '### Scenario 5: User Asks About Community Packages',
+      '',
+      'Example: "What community nodes are available for WhatsApp?"',
+      '',
+      'Decision flow:',
+      '```',
+      '1. Read community nodes index',
+      '   Read("resources/community/README.md")',
+      '',
+      '2. Search for specific packages',
+      '   Glob("resources/community/*whatsapp*.md")',
+      '   Glob("resources/community/*evolution*.md")',
+      '   Grep("whatsapp", path="resources/community", output_mode="files_with_matches")',
+      '',
+      '3. Read detailed package documentation',
+      '   Read("resources/community/n8n-nodes-evolution-api.md")',
+      '   Read("resources/community/n8n-nodes-megaapi.md")',
+      '```',
+      '',
+      '## 4. Best Practices and Considerations',
+      '',
+      '### Search Strategy',
+      '',
+      '1. Prioritize using INDEX.md for a global view',
+      '   - Understand node categorization and priorities',
+      '   - Quickly locate target nodes',
+      '',
+      '2. Leverage Grep for function-oriented searches',
+      '   - When users describe needs rather than specific node names',
+      '   - Keyword searches can quickly find candidate nodes',
+      '',
+      '3. Use Glob for filename searches',
+      '   - When you know part of a node name',
+      '   - Faster than Grep',
+      '',
+      '4. Leverage starting line number and line count reading',
+      '   - Merged files can be very large (thousands of lines)',
+      '   - Use offset/limit to read only the needed portions',
+      '   - Save token usage',
+      '',
+      '### Node Selection Recommendations',
+      '',
+      '1. Prioritize recommending high-priority nodes',
+      '   - High usage = more stable, more complete documentation',
+      '   - Better community support',
+      '',
+      '2. Check node compatibility',
+      '   - Read resources/compatibility-matrix.md',
+      '   - Or check the "Connection Guide" section in node documentation',
+      '',
+      '3. Reference actual templates',
+      '   - The templates/ directory contains real-world use cases',
+      '   - Learn how nodes are combined',
+      '',
+      '### Common Pitfalls',
+      '',
+      '| Mistake | Impact | Solution |',
+      '|---------|--------|----------|',
+      '| Reading entire merged files | Wastes tokens, slow response | Use INDEX.md to find line numbers, use offset/limit |',
+      '| Confusing Trigger and Action nodes | Invalid workflow structure | Triggers only at workflow start, Actions anywhere else |',
+      '| Ignoring node compatibility | Connection errors at runtime | Check compatibility-matrix.md before connecting |',
+      '| Wrong node naming format | File not found errors | Use `nodes-base.{nodeType}.md`, nodeType is camelCase |',
+      '| Skipping node version check | Using deprecated features | Check version info in node documentation |',
+      '| Not checking authentication requirements | Auth errors at runtime | Check "Credentials" section in node docs |',
+      '| Assuming all nodes have individual files | Reading wrong content | Only top 50 nodes have individual files, others are merged |',
+      '| Ignoring input/output types | Data format mismatches | Check "Connection Guide" section for data types |',
+      '',
+      '## 5. Multi-Environment Usage',
+      '',
+      'This skill works across different Claude environments:',
+      '',
+      '### Claude Code (CLI)',
+      '',
+      '- Full file system access via Read, Glob, Grep tools',
+      '- Use offset/limit for precise reading of merged files',
+      '- Most efficient for large-scale node searches',
+      '- Example: `Read("resources/INDEX.md", offset=50, limit=100)`',
+      '',
+      '### Claude.ai Web',
+      '',
+      '- No direct file system access',
+      '- Request node information conversationally',
+      '- Claude references skill knowledge to answer',
+      '- Example: "Tell me about the HTTP Request node configuration"',
+      '',
+      '### Claude Desktop (with MCP)',
+      '',
+      '- File access depends on MCP server configuration',
+      '- If filesystem MCP enabled: same capabilities as Claude Code',
+      '- Otherwise: same as Claude.ai Web',
+      '',
+      '### Usage Recommendations by Environment',
+      '',
+      '| Environment | Recommended Approach |',
+      '|-------------|---------------------|',
+      '| Claude Code | Use tools directly for file reading, most efficient |',
+      '| Claude.ai Web | Describe your needs, let Claude answer from knowledge |',
+      '| Claude Desktop | Check MCP config first, then choose appropriate method |',
+      '',
+    ],
+    workflowPatterns: {
+      title: 'Common Workflow Patterns',
+      staticIntro: 'Here are common workflow patterns you can use as a starting point.',
+      nodesUsed: 'Nodes used:',
+      example: 'Example: {{example}}',
+      minedIntro: [
+        'These patterns were mined from {{total}} popular n8n.io template workflows and are listed by how many templates contain them.',
+        'Each pattern links the template that shows it with the fewest other nodes.',
+      ],
+      minedExample: '- Example: [{{name}}](https://n8n.io/workflows/{{id}}) ({{nodeCount}} nodes)',
+      foundIn: '- Found in: {{count}} of {{total}} templates',
+      chainsTitle: 'Node Chains',
+      chainsIntro: 'Nodes connected one after another by main connections.',
+      chainNodeTypes: '- Node types: {{nodeTypes}}',
+      aiClustersTitle: 'AI Node Setups',
+      aiClustersIntro: 'AI root nodes with the sub-nodes attached to them, and the sub-node used most often for each connection.',
+      aiClusterTitle: '{{rootNode}} with {{connections}}',
+      rootNode: '- Root node: `{{nodeType}}`',
+      typicalSubNode: '- `{{connectionType}}`: usually {{name}} (`{{nodeType}}`)',
+      templateLibrary: [
+        '## Complete Template Library',
+        '',
+        'We have collected {{templateCount}} popular workflow templates from n8n.io, categorized by use case:',
+        '',
+        '- [AI & Chatbots](../templates/ai-chatbots/README.md) - AI Agents, RAG systems, intelligent conversations',
+        '- [Social Media & Video](../templates/social-media/README.md) - TikTok, Instagram, YouTube automation',
+        '- [Data Processing & Analysis](../templates/data-processing/README.md) - Google Sheets, database integration',
+        '- [Communication & Collaboration](../templates/communication/README.md) - Email, WhatsApp, Telegram automation',
+        '',
+        'See the [complete template index](../templates/README.md) for all available templates.',
+        '',
+      ],
+    },
+    /** Static patterns used when no mined patterns are available */
+    commonPatterns: [
+      {
+        name: 'HTTP Data Fetching',
+        description: 'Fetch data from APIs and process it',
+        nodes: ['HTTP Request', 'Set', 'IF'],
+        example: 'Use HTTP Request node to fetch data from external APIs, Set node to transform formats, and IF node for conditional logic',
+      },
+      {
+        name: 'Email Automation',
+        description: 'Monitor emails and auto-respond or forward',
+        nodes: ['Email Trigger (IMAP)', 'Gmail', 'IF'],
+        example: 'Use Email Trigger to monitor inbox, IF node to filter specific conditions, and Gmail node to auto-reply or forward',
+      },
+      {
+        name: 'Database Synchronization',
+        description: 'Sync data between different systems',
+        nodes: ['Schedule Trigger', 'HTTP Request', 'Postgres', 'MySQL'],
+        example: 'Scheduled trigger to read data from one database, transform it, and write to another database',
+      },
+      {
+        name: 'Webhook Processing',
+        description: 'Receive external webhooks and trigger actions',
+        nodes: ['Webhook', 'Set', 'HTTP Request', 'Slack'],
+        example: 'Receive webhook events, process data, and send notifications to Slack or other systems',
+      },
+      {
+        name: 'AI Assistant Integration',
+        description: 'Use AI models to process and generate content',
+        nodes: ['AI Agent', 'OpenAI', 'Vector Store', 'Embeddings OpenAI'],
+        example: 'Build AI assistants to handle user queries, integrate vector databases for semantic search',
+      },
+      {
+        name: 'File Processing',
+        description: 'Automatically process and transform files',
+        nodes: ['Google Drive Trigger', 'Extract from File', 'Move Binary Data', 'Dropbox'],
+        example: 'Monitor Google Drive for new files, extract and process content, then upload to Dropbox',
+      },
+    ],
+  },
+  resources: {
+    categoryNames: {
+      transform: 'Data Transformation Nodes',
+      input: 'Input Nodes',
+      output: 'Output Nodes',
+      trigger: 'Trigger Nodes',
+      organization: 'Organization Nodes',
+      misc: 'Miscellaneous Nodes',
+      community: 'Community Packages',
+    } as Record<string, string>,
+    communityCategoryNames: {
+      'communication': 'Communication',
+      'ai-tools': 'AI Tools',
+      'utilities': 'Utilities',
+      'document': 'Document',
+      'data-processing': 'Data Processing',
+      'web-scraping': 'Web Scraping',
+    } as Record<string, string>,
+    index: {
+      title: 'n8n Node Resource Index',
+      intro: 'This index provides quick access to all {{nodeCount}} n8n nodes.',
+      introWithCommunity: 'This index provides quick access to all {{nodeCount}} built-in n8n nodes and {{packageCount}} community packages.',
+      usageGuide: [
+        '## Usage Guide',
+        '',
+        'This index contains two ways to search:',
+        '',
+        '1. Find by Category: Browse nodes by functional category',
+        '2. Template Index: Browse popular workflow templates',
+        '',
+        '### Instructions for AI Assistants',
+        '',
+        'For nodes in merged files, use line number ranges for precise reading:',
+        '',
+        '```',
+        'Read(file_path, offset=starting_line, limit=line_count)',
+        '```',
+        '',
+        'Example: Read Azure Cosmos DB node (starting line 110, line count 64)',
+        '```',
+        'Read("resources/transform/transform-merged-1.md", offset=110, limit=64)',
+        '```',
+        '',
+      ],
+      quickNavigation: 'Quick Navigation',
+      navigation: {
+        quickTaskReference: '- [Quick Task Reference](#quick-task-reference)',
+        findByCategory: '- [Find by Category](#find-by-category)',
+        communityPackages: '- [Community Packages](#community-packages)',
+        templateIndex: '- [Template Index](#template-index)',
+        statistics: '- [Statistics](#statistics)',
+      },
+      quickTaskReference: [
+        '## Quick Task Reference',
+        '',
+        'Find the right node for common tasks:',
+        '',
+        '| Task | Recommended Node | File Location |',
+        '|------|------------------|---------------|',
+        '| Send HTTP requests | HTTP Request | input/nodes-base.httpRequest.md |',
+        '| Conditional branching | IF | transform/nodes-base.if.md |',
+        '| Merge multiple data streams | Merge | transform/nodes-base.merge.md |',
+        '| Execute custom code | Code | transform/nodes-base.code.md |',
+        '| Send emails | Gmail | output/nodes-base.gmail.md |',
+        '| Receive webhooks | Webhook | trigger/nodes-base.webhook.md |',
+        '| Schedule workflows | Schedule Trigger | trigger/nodes-base.scheduleTrigger.md |',
+        '| AI conversation handling | AI Agent | transform/transform-merged-2.md (see INDEX for line) |',
+        '| Read/write Google Sheets | Google Sheets | output/nodes-base.googleSheets.md |',
+        '| Transform data format | Set | transform/nodes-base.set.md |',
+        '',
+      ],
+      findByCategory: 'Find by Category',
+      categoryHeading: '{{category}} - {{count}} nodes',
+      highPriorityHeading: 'High-Priority Nodes ({{count}} individual files)',
+      highPriorityTableHeader: '| Node Name | nodeType | File Path | Description |',
+      otherHeading: 'Other Nodes ({{count}} nodes in merged files)',
+      otherTableHeader: '| Node Name | nodeType | File Path | Start Line | Line Count | Description |',
+      extraPackageNode: '{{name}} (extra package)',
+      communityPackages: 'Community Packages',
+      communityIntro: 'Popular community-developed node packages ({{count}} packages).',
+      communityTableHeader: '| Package Name | Category | File Path | Description |',
+      communityDetails: 'For detailed information, see [community/README.md](community/README.md).',
+      templateIndex: [
+        '## Template Index',
+        '',
+        'Popular workflow templates are located in the `templates/` directory, categorized by functionality:',
+        '',
+        '- [AI & Chatbots](templates/ai-chatbots/) - AI agents, chatbot-related templates',
+        '- [Social Media](templates/social-media/) - Social media automation templates',
+        '- [Data Processing](templates/data-processing/) - Data transformation and processing templates',
+        '- [Communication](templates/communication/) - Communication tool integration templates',
+        '',
+        'For detailed template lists, please refer to the README.md file in each subdirectory.',
+        '',
+      ],
+      statistics: 'Statistics',
+      totalNodes: '- Total built-in nodes: {{count}}',
+      highPriorityNodes: '- High-priority nodes: {{count}} (individual files)',
+      lowPriorityNodes: '- Low-priority nodes: {{count}} (merged files)',
+      mergedFileCount: '- Merged file count: {{count}}',
+      extraNodes: '- Nodes from extra packages: {{count}} (marked "extra package")',
+      communityPackageCount: '- Community packages: {{count}}',
+      nodesByCategory: 'Nodes by Category',
+      categoryCount: '- {{category}}: {{total}} nodes (high-priority: {{high}}, other: {{low}})',
+      lastUpdated: '- Last updated: {{date}}',
+    },
+    merged: {
+      title: '{{category}} - Node Collection',
+      titleWithPart: '{{category}} - Node Collection (Part {{part}})',
+      intro: 'This file contains complete information for {{count}} nodes.',
+      fileDescription: 'Contains {{count}} nodes',
+      tableOfContents: 'Table of Contents',
+    },
+    categoryIndex: {
+      total: 'Total: {{count}} nodes',
+      totalTiered: 'Total: {{total}} nodes (high-priority: {{high}}, other: {{low}})',
+      nodeList: 'Node List',
+      highPriority: 'High-Priority Nodes',
+      highPriorityIntro: 'The following nodes have individual detailed documentation:',
+      other: 'Other Nodes',
+      mergedIntoParts: 'The following {{count}} nodes are merged into {{parts}} files:',
+      partLink: '- [Part {{part}}]({{path}}) - Contains {{count}} nodes',
+      mergedIntoSingle: 'The following nodes are merged into a single file:',
+      viewCompleteList: '- [View Complete List]({{path}}) - Contains {{count}} nodes',
+      completeNodeList: 'Complete Node List',
+    },
+    node: {
+      basicInformation: 'Basic Information',
+      nodeType: '- Node Type: `{{nodeType}}`',
+      category: '- Category: {{category}}',
+      package: '- Package: {{packageName}}',
+      extraPackage: '- Package: {{packageName}} (extra package, not part of the official n8n nodes)',
+      usageCount: '- Usage Count: {{count}}',
+      usageRate: '- Usage Rate: {{rate}}%',
+      requiresCredentials: '- Requires Credentials: Yes',
+      description: 'Description',
+      credentials: 'Credentials',
+      credentialRequired: 'required',
+      credentialOptional: 'optional',
+      credentialCondition: 'when {{condition}}',
+      or: 'or',
+      yes: 'Yes',
+      no: 'No',
+      availableOperations: 'Available Operations',
+      value: '- Value: `{{value}}`',
+      resource: '- Resource: `{{resource}}`',
+      operation: '- Operation: `{{operation}}`',
+      action: '- Action: `{{operation}}`',
+      requiredParameters: '**Required Parameters**',
+      requiredParametersTableHeader: '| Parameter | Type | Default | Description |',
+      optionalParameters: '**Optional Parameters**',
+      optionalParametersTableHeader: '| Parameter | Type | Default | Shown When | Description |',
+      example: '**Example**',
+      values: 'Values: {{values}}',
+      fields: 'Fields: {{fields}}',
+      modes: 'Modes: {{modes}}',
+      coreProperties: 'Core Properties',
+      propertyTableHeader: '| Property Name | Type | Required | Default | Description |',
+      propertyDetails: 'Property Details',
+      optionalValues: 'Optional values:',
+      versionHistory: 'Version History',
+      supportedVersions: 'Supported typeVersions: {{versions}} (latest: {{latest}}).',
+      pinnedVersions: 'Workflows pinned to an older `typeVersion` use that version\'s parameters.',
+      versionTableHeader: '| Version | Properties | Operations | Credentials | Inputs | Outputs |',
+      versionChanges: 'What Changed: v{{from}} → v{{to}}',
+      addedProperties: '- Added properties: {{properties}}',
+      removedProperties: '- Removed properties: {{properties}}',
+      changedDefault: '- Default of `{{name}}` changed: `{{from}}` → `{{to}}`',
+      addedOperations: '- Added operations: {{operations}}',
+      removedOperations: '- Removed operations: {{operations}}',
+      versionParameters: 'Version {{version}} Parameters',
+      versionPropertyTableHeader: '| Property Name | Type | Required | Default |',
+      versionOperations: 'Operations: {{operations}}',
+      commonlyFollowedBy: 'Commonly Followed By',
+      commonlyPrecededBy: 'Commonly Preceded By',
+      coOccurrenceTableHeader: '| Node | Templates | Connections |',
+      templateShare: '{{count}} of {{total}}',
+      coOccurrenceNote: 'Based on direct connections in {{workflowCount}} collected templates; "Templates" counts the templates using {{displayName}} that contain the connection.',
+      jsonExamples: 'JSON Configuration Examples',
+      basicConfiguration: 'Basic Configuration',
+      operationExample: '{{operation}} Example',
+    },
+  },
+  connections: {
+    guide: 'Connection Guide',
+    connectionType: 'Connection Type',
+    canReceiveFrom: 'Can Receive From',
+    canConnectTo: 'Can Connect To',
+    specialRequirements: 'Special Requirements',
+    inputTypes: '- Input Types: {{types}}',
+    noInputTypes: '- Input Types: None (this is a trigger or starting node)',
+    outputTypes: '- Output Types: {{types}}',
+    outputCount: '- Output Count: {{count}}',
+    configurableCount: '{{count}} (configurable)',
+    outputDetails: 'Output Details:',
+    mainType: '`main` (general data flow)',
+    outputDescriptions: {
+      ifTrue: 'Output when condition is true',
+      ifFalse: 'Output when condition is false',
+      batchesDone: 'Output when all batches are processed',
+      batchesLoop: 'Output for each batch iteration (for looping)',
+      inAOnly: 'Items only in dataset A',
+      same: 'Items that are the same in both datasets',
+      different: 'Items that are different between datasets',
+      inBOnly: 'Items only in dataset B',
+      switchPath: 'Output path {{output}}',
+      switchFallback: 'Default output when no rules match',
+    },
+    noIncoming: 'This node does not accept input from other nodes (usually a trigger node).',
+    noOutgoing: 'This node has no output, usually used as a workflow endpoint.',
+    connectionVia: '{{index}}. {{name}} - via {{types}} connection',
+    specialInputs: 'This AI node requires the following special inputs:',
+    required: '(required)',
+    optionalMultiple: '(optional, multiple allowed)',
+    optional: '(optional)',
+    matrix: {
+      title: 'Node Compatibility Matrix',
+      intro: 'This matrix shows connection compatibility between nodes. Rows are source nodes, columns are target nodes.',
+      corner: 'Source Node ↓ / Target Node →',
+      legend: 'Legend',
+      legendItems: [
+        '- `++` High Compatibility (score ≥ 70) - Strongly recommended',
+        '- `+` Medium Compatibility (score 50-69) - Can connect',
+        '- `~` Low Compatibility (score < 50) - May be able to connect',
+        '- `X` Incompatible - Cannot connect',
+        '- `-` N/A - Same node',
+      ],
+    },
+  },
+  templates: {
+    categoryLabel: '> **Category**: {{category}}',
+    tagsLabel: '> **Tags**: {{tags}}',
+    viewsLabel: '> **Views**: {{views}}',
+    createdLabel: '> **Created**: {{date}}',
+    description: 'Description',
+    noDescription: 'No description',
+    workflowStructure: 'Workflow Structure',
+    nodesUsed: 'Nodes Used',
+    noNodes: '*This template contains no node information*',
+    authorInformation: 'Author Information',
+    authorName: '- **Name**: {{name}}',
+    authorUsername: '- **Username**: @{{username}}',
+    verifiedUser: '- Verified user',
+    relatedLinks: 'Related Links',
+    viewOnN8n: '- [View this template on n8n.io]({{url}})',
+    workflowJson: 'Complete Workflow JSON',
+    expandWorkflowJson: 'Click to expand Workflow JSON',
+    tag: '{{category}} (confidence {{confidence}})',
+    manuallyAssigned: '{{tags}} - manually assigned',
+    categoryTotal: 'Total: {{count}} templates',
+    templateList: 'Template List',
+    templateEntry: '- [{{name}}](./{{filename}}) - {{views}} views',
+    index: {
+      title: 'n8n Workflow Templates',
+      intro: 'We have collected {{count}} popular workflow templates from n8n.io, organized by use case categories.',
+      categoryNavigation: 'Category Navigation',
+      templateCount: '**Template Count**: {{count}}',
+      usageInstructions: 'Usage Instructions',
+      usageSteps: [
+        '1. Browse the categories above to find the workflow type you need',
+        '2. Click on a category link to view all templates in that category',
+        '3. Select a template you are interested in to view detailed information',
+        '4. Click on the "View this template on n8n.io" link in the template to use it directly in n8n',
+      ],
+      statistics: 'Statistics',
+      totalTemplates: '- Total Templates: {{count}}',
+      totalViews: '- Total Views: {{count}}',
+    },
+    /** Template category names and descriptions by category id */
+    categories: {
+      'ai-chatbots': { name: 'AI & Chatbots', description: 'AI Agents, RAG systems, intelligent conversational bots' },
+      'social-media': { name: 'Social Media & Video', description: 'TikTok, Instagram, YouTube automation and AI video generation' },
+      'data-processing': { name: 'Data Processing & Analysis', description: 'Google Sheets, database integration, data analysis workflows' },
+      'communication': { name: 'Communication & Collaboration', description: 'Email, WhatsApp, Telegram, Slack automation' },
+      'automation': { name: 'Automation & Integration', description: 'Workflow automation, API integration, scheduled tasks' },
+      'learning': { name: 'Learning & Teaching', description: 'n8n introductory tutorials, interactive lessons' },
+    },
+  },
+  credentials: {
+    title: 'Credential Types',
+    intro: 'Credentials a node needs before it can run. Create them in n8n under **Credentials → Add Credential**.',
+    authTypes: 'Auth Types',
+    authTypesTableHeader: '| Auth Type | Credentials | Setup |',
+    nodes: 'Nodes',
+    nodesTableHeader: '| Node | Credential Types |',
+    allCredentialTypes: 'All Credential Types',
+    allCredentialTypesTableHeader: '| Credential | Auth Type | Required Fields |',
+    credentialType: '- Credential type: `{{name}}`',
+    authType: '- Auth type: {{authType}}',
+    package: '- Package: `{{packageName}}`',
+    extends: '- Extends: {{credentials}}',
+    documentation: '- Documentation: {{url}}',
+    setup: 'Setup',
+    requiredFields: 'Required Fields',
+    optionalFields: 'Optional Fields',
+    fieldTableHeader: '| Field | Type | Default | Description |',
+    secretType: '{{type}} (secret)',
+    usedBy: 'Used By',
+    required: 'required',
+    optional: 'optional',
+    condition: 'when {{conditions}}',
+    conditionValues: '{{name}} = {{values}}',
+    or: ' or ',
+    /** Auth type names and setup instructions by auth type */
+    authTypeInfo: {
+      oauth2: {
+        name: 'OAuth2',
+        setup: 'Register an OAuth app with the service, enter its Client ID and Client Secret, then click "Connect" to sign in.',
+      },
+      oauth1: {
+        name: 'OAuth1',
+        setup: 'Register an OAuth app with the service, enter its consumer key and secret, then click "Connect" to sign in.',
+      },
+      apiKey: {
+        name: 'API Key',
+        setup: 'Create an API key in the service settings and paste it into the credential.',
+      },
+      header: {
+        name: 'Header Auth',
+        setup: 'Provide the token or value that is sent in a request header.',
+      },
+      basic: {
+        name: 'Basic Auth',
+        setup: 'Enter the username and password of the account used for requests.',
+      },
+      custom: {
+        name: 'Custom',
+        setup: 'Fill in the fields below; the credential signs requests in a service-specific way.',
+      },
+    },
+  },
+  community: {
+    title: 'Popular Community Nodes',
+    intro: '> Top {{limit}} most popular n8n community nodes from npm registry.',
+    lastUpdated: '> Last updated: {{date}}',
+    overview: 'Overview',
+    overviewTableHeader: '| Metric | Value |',
+    totalPackages: '| Total Packages | {{count}} |',
+    categoryCount: '| Categories | {{count}} |',
+    packages: 'Packages',
+    packagesTableHeader: '| Rank | Package | Category | Nodes |',
+    categories: 'Categories',
+    packageCount: '- Packages: {{count}}',
+    installation: 'Installation',
+    installSteps: [
+      'Community nodes can be installed via n8n\'s GUI:',
+      '',
+      '1. Go to **Settings** > **Community Nodes**',
+      '2. Click **Install**',
+      '3. Enter the package name (e.g., `n8n-nodes-evolution-api`)',
+      '4. Click **Install**',
+      '',
+      '> Note: Community nodes are only available on self-hosted n8n instances.',
+    ],
+    basicInformation: 'Basic Information',
+    package: '- Package: `{{name}}`',
+    category: '- Category: {{category}}',
+    version: '- Version: {{version}}',
+    maintainer: '- Maintainer: {{maintainer}}',
+    npm: '- npm: [View Package]({{url}})',
+    repository: '- Repository: [View Source]({{url}})',
+    description: 'Description',
+    nodes: 'Nodes ({{count}})',
+    nodeDetails: 'Node Details',
+    nodeDetailsUnavailable: '> Node details unavailable: {{error}}',
+    backToIndex: '[← Back to Community Nodes Index](README.md)',
+    nodeType: '- Node Type: `{{nodeType}}`',
+    requiresCredentials: '- Requires Credentials: Yes',
+    availableOperations: 'Available Operations',
+    moreOperations: '- ... and {{count}} more operations',
+    coreProperties: 'Core Properties',
+    propertiesTableHeader: '| Property | Type | Required | Default |',
+    yes: 'Yes',
+    no: 'No',
+    connection: 'Connection',
+    inputTypes: '- Input Types: {{types}}',
+    outputTypes: '- Output Types: {{types}}',
+    outputCount: '- Output Count: {{count}}',
+    exampleConfiguration: 'Example Configuration',
+    /** Community package category names and descriptions by category id */
+    categoryInfo: {
+      'communication': { name: 'Communication & Messaging', description: 'WhatsApp, ChatWoot, and other messaging platform integrations' },
+      'ai-tools': { name: 'AI & Voice Tools', description: 'AI voice generation, search engines, and LLM integrations' },
+      'web-scraping': { name: 'Web Scraping & Browser Automation', description: 'Web scraping, browser automation, and search API integrations' },
+      'document': { name: 'Document Processing', description: 'PDF generation, document conversion, and file processing' },
+      'data-processing': { name: 'Data Processing', description: 'Text manipulation, data validation, and transformation tools' },
+      'utilities': { name: 'Utilities & Tools', description: 'General purpose utilities and helper tools' },
+    },
+  },
+};
+
+/**
+ * Shape of a message catalog
+ */
+export type MessageCatalog = typeof en;
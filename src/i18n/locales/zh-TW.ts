@@ -0,0 +1,1045 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import type { MessageCatalog } from './en';
+
+/**
+ * Traditional Chinese (Taiwan) messages of the generated skill pack
+ * Anchors in links follow the translated headings
+ */
+export const zhTW: MessageCatalog = {
+  skill: {
+    description: '在建立或排解 n8n 工作流程問題時使用。涵蓋節點搜尋、設定細節、連線相容性與工作流程模式。關鍵字：n8n、工作流程、自動化、節點、觸發器、webhook、http request、資料庫、ai agent。',
+    headings: {
+      title: 'n8n 工作流程自動化技能包',
+      overview: '概覽',
+      whenToUse: '使用時機',
+      quickNavigation: '快速導覽',
+      commonMistakes: '常見錯誤',
+      resources: '資源檔案',
+      license: '授權與聲明',
+    },
+    overview: [
+      '此技能可協助：',
+      '- 了解 n8n 節點的功能與用法',
+      '- 找出適合特定任務的節點',
+      '- 學習常見的工作流程模式',
+      '- 取得節點設定範例',
+      '- 解決工作流程設計問題',
+      '',
+      '此技能包含：',
+      '- 最常用的 {{topNodesCount}} 個 n8n 內建節點的詳細資訊',
+      '- 30+ 個熱門社群套件，用於擴充功能',
+      '- 節點設定範例與最佳實務',
+      '- 常見工作流程模式',
+      '- 內建節點與社群節點的分類與索引',
+    ],
+    whenToUse: [
+      '在以下情況使用此技能：',
+      '- 建立或設計 n8n 工作流程',
+      '- 搜尋符合特定功能的節點',
+      '- 排解節點設定或連線問題',
+      '- 了解節點輸入/輸出的相容性',
+      '- 探索可擴充功能的社群套件',
+      '',
+      '以下情況請勿使用：',
+      '- 學習一般自動化概念（請參考 n8n 官方文件）',
+      '- 部署或架設 n8n（基礎架構問題）',
+      '- 價格或授權問題（請直接聯絡 n8n）',
+    ],
+    quickNavigation: [
+      '使用此流程圖找到合適的資源：',
+      '',
+      '```dot',
+      'digraph navigation {',
+      '    rankdir=TB;',
+      '    node [shape=diamond];',
+      '',
+      '    start [label="你需要什麼？" shape=ellipse];',
+      '    q1 [label="知道\\n節點名稱？"];',
+      '    q2 [label="知道\\n所需功能？"];',
+      '    q3 [label="需要\\n範例？"];',
+      '',
+      '    node [shape=box];',
+      '    a1 [label="Glob: resources/**/*{name}*.md"];',
+      '    a2 [label="Grep: 在 resources/\\n搜尋關鍵字"];',
+      '    a3 [label="Read: resources/templates/"];',
+      '    a4 [label="Read: INDEX.md\\n依類別瀏覽"];',
+      '',
+      '    start -> q1;',
+      '    q1 -> a1 [label="是"];',
+      '    q1 -> q2 [label="否"];',
+      '    q2 -> a2 [label="是"];',
+      '    q2 -> q3 [label="否"];',
+      '    q3 -> a3 [label="是"];',
+      '    q3 -> a4 [label="否"];',
+      '}',
+      '```',
+      '',
+      '### 快速連結',
+      '',
+      '- [完整節點索引](resources/INDEX.md) - 所有節點及其行號',
+      '- [如何尋找節點](resources/guides/how-to-find-nodes.md) - 搜尋策略',
+      '- [使用指南](resources/guides/usage-guide.md) - 詳細說明',
+      '- [工作流程模式](resources/guides/workflow-patterns.md) - 常見模式',
+    ],
+    commonMistakes: [
+      '| 錯誤 | 解決方式 |',
+      '|---------|----------|',
+      '| 讀取整個合併檔案（數千行） | 先用 INDEX.md 找到行號，再用 offset/limit 精準讀取 |',
+      '| 混淆 Trigger 與 Action 節點 | Trigger 只能放在工作流程開頭，Action 可以放在任何位置 |',
+      '| 忽略節點相容性 | 查閱 compatibility-matrix.md 確認節點連線 |',
+      '| 使用錯誤的節點命名格式 | 檔名格式為 `nodes-base.{nodeType}.md`，nodeType 通常為 camelCase |',
+      '',
+      '詳見[使用指南](resources/guides/usage-guide.md#常見陷阱)。',
+    ],
+    resources: [
+      '- [工作流程模式](resources/guides/workflow-patterns.md) - {{patternCount}} 個常見工作流程模式',
+      '- [範本庫](resources/templates/README.md) - {{templateCount}} 個熱門範本',
+      '- [節點索引](resources/INDEX.md) - 完整節點參考',
+      '- [相容性矩陣](resources/compatibility-matrix.md) - 節點連線規則',
+    ],
+    license: [
+      '## 本技能包授權',
+      '',
+      '本技能包專案採用 MIT 授權條款。',
+      '詳見：https://github.com/haunchen/n8n-skills/blob/main/LICENSE',
+      '',
+      '## 重要聲明',
+      '',
+      '這是非官方的教育專案，與 n8n GmbH 無任何關聯。',
+      '',
+      '本技能內容根據以下資源產生：',
+      '- n8n 節點類型定義（Sustainable Use License）',
+      '- n8n 官方文件（MIT License）',
+      '- n8n-mcp 專案架構（MIT License）',
+      '',
+      '詳細的來源標示請參考專案中的 ATTRIBUTIONS.md 檔案。',
+      '',
+      '## 關於 n8n',
+      '',
+      'n8n 是由 n8n GmbH 開發與維護的開源工作流程自動化平台。',
+      '',
+      '- 官方網站：https://n8n.io',
+      '- 文件：https://docs.n8n.io',
+      '- 原始碼：https://github.com/n8n-io/n8n',
+      '- 授權：Sustainable Use License',
+      '',
+      '使用 n8n 軟體時，必須遵守 n8n 的授權條款。詳見：https://github.com/n8n-io/n8n/blob/master/LICENSE.md',
+    ],
+  },
+  guides: {
+    howToFindNodes: [
+      '# 如何尋找節點',
+      '',
+      '此技能包含 n8n 節點的完整資訊。身為 AI 助理，你可以使用以下工具有效率地尋找並讀取節點資訊。',
+      '',
+      '## 快速決策流程圖',
+      '',
+      '使用此流程圖決定要使用哪個工具：',
+      '',
+      '```dot',
+      'digraph find_nodes {',
+      '    rankdir=TB;',
+      '    node [shape=diamond];',
+      '',
+      '    start [label="你掌握哪些資訊？" shape=ellipse];',
+      '    q1 [label="知道確切的\\n節點名稱？"];',
+      '    q2 [label="知道它的\\n用途？"];',
+      '    q3 [label="知道\\n類別？"];',
+      '',
+      '    node [shape=box];',
+      '    a1 [label="Glob: resources/**/*{name}*.md"];',
+      '    a2 [label="Grep: 以關鍵字搜尋"];',
+      '    a3 [label="Read: 類別 README"];',
+      '    a4 [label="Read: INDEX.md"];',
+      '',
+      '    start -> q1;',
+      '    q1 -> a1 [label="是"];',
+      '    q1 -> q2 [label="否"];',
+      '    q2 -> a2 [label="是"];',
+      '    q2 -> q3 [label="否"];',
+      '    q3 -> a3 [label="是"];',
+      '    q3 -> a4 [label="否"];',
+      '}',
+      '```',
+      '',
+      '## 1. 使用統一索引（INDEX.md）',
+      '',
+      'INDEX.md 是所有節點的主索引，提供兩種搜尋方式：',
+      '',
+      '### 讀取完整索引',
+      '```',
+      'Read("resources/INDEX.md")',
+      '```',
+      '',
+      '索引內容包含：',
+      '- 依類別查找：6 個內建類別（Transform、Input、Output、Trigger、Organization、Misc）',
+      '- 社群套件：30+ 個熱門社群節點套件',
+      '- 範本索引：工作流程範本',
+      '',
+      '### 讀取索引的特定段落',
+      '',
+      'INDEX.md 記錄了全部 542 個節點的位置資訊（起始行號與行數），讓你可以精準讀取：',
+      '',
+      '範例：尋找「資料轉換」類別中的節點',
+      '```',
+      '# 先讀取索引了解類別內容',
+      'Read("resources/INDEX.md", offset=1, limit=100)',
+      '```',
+      '',
+      '## 2. 使用 Read 工具精準讀取節點文件',
+      '',
+      '### 讀取高優先級節點（獨立檔案）',
+      '',
+      '最常用的前 50 個節點都有獨立檔案，可以直接讀取：',
+      '',
+      '```',
+      '# 範例：讀取 Gmail 節點',
+      'Read("resources/output/nodes-base.gmail.md")',
+      '',
+      '# 範例：讀取 Code 節點',
+      'Read("resources/transform/nodes-base.code.md")',
+      '```',
+      '',
+      '### 讀取低優先級節點（合併檔案中的特定節點）',
+      '',
+      '其餘 492 個節點合併在各類別檔案中。INDEX.md 會告訴你每個節點的起始行號與行數：',
+      '',
+      '```',
+      '# 步驟 1：從 INDEX.md 找到節點的位置資訊',
+      '# 範例：Azure Cosmos DB 位於 transform-merged-1.md 第 110 行，共 64 行',
+      '',
+      '# 步驟 2：使用起始行號與行數精準讀取',
+      'Read("resources/transform/transform-merged-1.md", offset=110, limit=64)',
+      '```',
+      '',
+      '## 3. 使用 Glob 工具搜尋檔案',
+      '',
+      '知道部分節點名稱時，使用 Glob 快速定位檔案：',
+      '',
+      '```',
+      '# 搜尋包含 "gmail" 的節點檔案',
+      'Glob("resources/**/*gmail*.md")',
+      '',
+      '# 搜尋所有輸出類節點',
+      'Glob("resources/output/*.md")',
+      '',
+      '# 搜尋所有觸發節點',
+      'Glob("resources/trigger/*.md")',
+      '',
+      '# 搜尋合併檔案',
+      'Glob("resources/**/*-merged-*.md")',
+      '```',
+      '',
+      '## 4. 使用 Grep 工具搜尋關鍵字',
+      '',
+      '在所有資源檔案中搜尋功能關鍵字：',
+      '',
+      '```',
+      '# 搜尋包含 "send email" 的節點',
+      'Grep("send email", path="resources", output_mode="files_with_matches")',
+      '',
+      '# 搜尋資料庫相關節點',
+      'Grep("database", path="resources", output_mode="files_with_matches")',
+      '',
+      '# 搜尋 webhook 相關功能（顯示符合的內容）',
+      'Grep("webhook", path="resources", output_mode="content", -n=true, -C=2)',
+      '',
+      '# 搜尋 AI 相關節點',
+      'Grep("AI|artificial intelligence", path="resources", output_mode="files_with_matches")',
+      '```',
+      '',
+      '## 5. 搜尋社群節點',
+      '',
+      '社群節點整理在專屬目錄中：',
+      '',
+      '### 讀取社群索引',
+      '```',
+      'Read("resources/community/README.md")',
+      '```',
+      '',
+      '### 搜尋社群套件',
+      '```',
+      '# 搜尋 WhatsApp 相關社群節點',
+      'Glob("resources/community/*evolution*.md")',
+      'Glob("resources/community/*whatsapp*.md")',
+      '',
+      '# 搜尋 AI 相關社群節點',
+      'Glob("resources/community/*elevenlabs*.md")',
+      'Glob("resources/community/*perplexity*.md")',
+      'Glob("resources/community/*tavily*.md")',
+      '',
+      '# 在社群套件中以關鍵字搜尋',
+      'Grep("voice generation", path="resources/community", output_mode="files_with_matches")',
+      '```',
+      '',
+      '## 搜尋策略建議',
+      '',
+      '針對不同情境選擇最佳搜尋方式：',
+      '',
+      '1. 使用者詢問特定服務（例如「Gmail」、「Slack」）：',
+      '   → 使用 Glob 搜尋：`Glob("resources/**/*gmail*.md")`',
+      '',
+      '2. 使用者描述功能需求（例如「寄送電子郵件」、「查詢資料庫」）：',
+      '   → 使用 Grep 搜尋關鍵字：`Grep("send email", path="resources")`',
+      '',
+      '3. 使用者詢問節點類別（例如「有哪些觸發節點」）：',
+      '   → 讀取 INDEX.md 中的類別表格：`Read("resources/INDEX.md", offset=<類別起始行>, limit=<行數>)`',
+      '',
+      '4. 使用者想了解熱門節點：',
+      '   → 讀取 INDEX.md 中的優先級排名表',
+      '',
+      '5. 使用者需要工作流程範例：',
+      '   → 參考「常見工作流程模式」或 resources/templates/ 目錄',
+      '',
+      '6. 使用者詢問社群套件：',
+      '   → 讀取社群索引：`Read("resources/community/README.md")`',
+      '   → 搜尋社群套件：`Glob("resources/community/*keyword*.md")`',
+      '',
+    ],
+    usageGuide: [
+      '# 使用指南',
+      '',
+      '## 1. 檔案結構導覽',
+      '',
+      '### 目錄結構',
+      '',
+      '```',
+      'resources/',
+      '├── INDEX.md                     # 統一索引（包含所有節點的行號資訊）',
+      '├── compatibility-matrix.md      # 節點相容性矩陣',
+      '├── transform/                   # 資料轉換節點',
+      '│   ├── README.md                # {{transform}} 個節點總覽',
+      '│   ├── nodes-base.code.md       # 高優先級獨立檔案',
+      '│   ├── nodes-base.function.md',
+      '│   └── transform-merged-*.md    # 低優先級合併檔案',
+      '├── input/                       # 資料輸入節點',
+      '│   ├── README.md                # {{input}} 個節點',
+      '│   └── ...',
+      '├── output/                      # 資料輸出節點',
+      '│   ├── README.md                # {{output}} 個節點',
+      '│   └── ...',
+      '├── trigger/                     # 觸發節點',
+      '│   ├── README.md                # {{trigger}} 個節點',
+      '│   └── ...',
+      '├── organization/                # 組織管理節點',
+      '│   ├── README.md                # {{organization}} 個節點',
+      '│   └── ...',
+      '├── misc/                        # 其他節點',
+      '│   ├── README.md                # {{misc}} 個節點',
+      '│   └── ...',
+      '├── community/                   # 社群套件節點',
+      '│   ├── README.md                # 社群套件索引（30+ 個套件）',
+      '│   ├── ai-tools.md              # AI 工具類別',
+      '│   ├── communication.md         # 通訊類別',
+      '│   └── *.md                     # 個別套件檔案',
+      '└── templates/                   # 工作流程範本',
+      '    ├── README.md                # 範本總覽',
+      '    ├── ai-chatbots/             # AI 與聊天機器人範本',
+      '    ├── social-media/            # 社群媒體範本',
+      '    ├── data-processing/         # 資料處理範本',
+      '    └── communication/           # 通訊與協作範本',
+      '```',
+      '',
+      '### 高優先級與低優先級節點',
+      '',
+      '- 高優先級（前 50 個）：獨立檔案，檔名格式為 `nodes-base.{nodeType}.md`',
+      '  - 範例：`resources/transform/nodes-base.code.md`',
+      '  - 直接使用 Read 工具讀取完整檔案',
+      '',
+      '- 低優先級（其餘 492 個）：合併在 `*-merged-*.md` 檔案中',
+      '  - 範例：`resources/transform/transform-merged-1.md`',
+      '  - 先用 INDEX.md 找到行號，再用 Read 工具的 offset/limit 參數讀取特定範圍',
+      '',
+      '## 2. 工具完整使用說明',
+      '',
+      '### Read 工具',
+      '',
+      '用途：讀取檔案內容',
+      '',
+      '完整讀取：',
+      '```',
+      'Read("resources/INDEX.md")',
+      'Read("resources/transform/nodes-base.code.md")',
+      '```',
+      '',
+      '精準讀取（使用起始行號與行數）：',
+      '```',
+      'Read("resources/transform/transform-merged-1.md", offset=110, limit=64)',
+      '```',
+      '',
+      '### Glob 工具',
+      '',
+      '用途：搜尋符合模式的檔案',
+      '',
+      '常用模式：',
+      '```',
+      'Glob("resources/**/*{keyword}*.md")    # 搜尋包含關鍵字的檔案',
+      'Glob("resources/transform/*.md")      # 搜尋特定類別的所有檔案',
+      'Glob("resources/**/*-merged-*.md")    # 搜尋所有合併檔案',
+      '```',
+      '',
+      '### Grep 工具',
+      '',
+      '用途：在檔案內容中搜尋關鍵字',
+      '',
+      '基本搜尋：',
+      '```',
+      'Grep("{keyword}", path="resources", output_mode="files_with_matches")',
+      '```',
+      '',
+      '進階搜尋：',
+      '```',
+      '# 顯示符合的內容與行號',
+      'Grep("{keyword}", path="resources", output_mode="content", -n=true, -C=2)',
+      '',
+      '# 使用正規表示式',
+      'Grep("email|mail", path="resources", output_mode="files_with_matches")',
+      '',
+      '# 將搜尋限制在特定類別',
+      'Grep("{keyword}", path="resources/transform", output_mode="files_with_matches")',
+      '```',
+      '',
+      '### INDEX.md 查詢方式',
+      '',
+      'INDEX.md 是最重要的導覽工具，建議優先使用：',
+      '',
+      '1. 先讀取 INDEX.md 了解整體結構',
+      '2. 依類別找到目標節點',
+      '3. 記下節點的檔案路徑、起始行號與行數',
+      '4. 使用 Read 工具精準讀取節點內容',
+      '',
+      '## 3. 決策流程指南',
+      '',
+      '### 情境 1：使用者詢問特定服務節點',
+      '',
+      '範例：「Gmail 節點要怎麼用？」',
+      '',
+      '決策流程：',
+      '```',
+      '1. 使用 Glob 快速定位',
+      '   Glob("resources/**/*gmail*.md")',
+      '',
+      '2. 找到獨立檔案時，直接讀取',
+      '   Read("resources/output/nodes-base.gmail.md")',
+      '',
+      '3. 若在合併檔案中，先查 INDEX.md',
+      '   → 找到起始行號與行數',
+      '   → 使用 offset/limit 讀取',
+      '```',
+      '',
+      '### 情境 2：使用者描述功能需求',
+      '',
+      '範例：「我需要一個寄送電子郵件的節點」',
+      '',
+      '決策流程：',
+      '```',
+      '1. 使用 Grep 搜尋關鍵字',
+      '   Grep("send email|send mail", path="resources", output_mode="files_with_matches")',
+      '',
+      '2. 取得候選節點清單',
+      '   → Gmail、SendGrid、SMTP 等',
+      '',
+      '3. 閱讀相關節點的詳細文件',
+      '   → 比較功能差異',
+      '   → 推薦最合適的節點',
+      '```',
+      '',
+      '### 情境 3：使用者詢問節點類別',
+      '',
+      '範例：「有哪些觸發節點可以用？」',
+      '',
+      '決策流程：',
+      '```',
+      '1. 讀取 INDEX.md 中的觸發類別段落',
+      '   Read("resources/INDEX.md")',
+      '   → 找到「## 依類別查找」>「### 觸發節點」',
+      '',
+      '2. 或直接讀取類別 README',
+      '   Read("resources/trigger/README.md")',
+      '',
+      '3. 提供節點清單與簡短說明',
+      '```',
+      '',
+      '### 情境 4：使用者需要工作流程範例',
+      '',
+      '範例：「要怎麼建立 AI 聊天機器人？」',
+      '',
+      '決策流程：',
+      '```',
+      '1. 先查看「常見工作流程模式」',
+      '   → 尋找相關模式',
+      '',
+      '2. 查看範本庫',
+      '   Read("resources/templates/ai-chatbots/README.md")',
+      '',
+      '3. 搭配節點文件',
+      '   → AI Agent 節點',
+      '   → OpenAI 節點',
+      '   → Vector Store 節點',
+      '```',
+      '',
+      '### 情境 5：使用者詢問社群套件',
+      '',
+      '範例：「有哪些 WhatsApp 的社群節點？」',
+      '',
+      '決策流程：',
+      '```',
+      '1. 讀取社群節點索引',
+      '   Read("resources/community/README.md")',
+      '',
+      '2. 搜尋特定套件',
+      '   Glob("resources/community/*whatsapp*.md")',
+      '   Glob("resources/community/*evolution*.md")',
+      '   Grep("whatsapp", path="resources/community", output_mode="files_with_matches")',
+      '',
+      '3. 閱讀套件的詳細文件',
+      '   Read("resources/community/n8n-nodes-evolution-api.md")',
+      '   Read("resources/community/n8n-nodes-megaapi.md")',
+      '```',
+      '',
+      '## 4. 最佳實務與注意事項',
+      '',
+      '### 搜尋策略',
+      '',
+      '1. 優先使用 INDEX.md 取得全局視野',
+      '   - 了解節點分類與優先級',
+      '   - 快速定位目標節點',
+      '',
+      '2. 以 Grep 進行功能導向搜尋',
+      '   - 適用於使用者描述需求而非特定節點名稱時',
+      '   - 關鍵字搜尋能快速找到候選節點',
+      '',
+      '3. 以 Glob 搜尋檔名',
+      '   - 適用於知道部分節點名稱時',
+      '   - 比 Grep 更快',
+      '',
+      '4. 善用起始行號與行數讀取',
+      '   - 合併檔案可能非常大（數千行）',
+      '   - 使用 offset/limit 只讀取需要的部分',
+      '   - 節省 token 用量',
+      '',
+      '### 節點選擇建議',
+      '',
+      '1. 優先推薦高優先級節點',
+      '   - 使用率高 = 更穩定、文件更完整',
+      '   - 社群支援更好',
+      '',
+      '2. 確認節點相容性',
+      '   - 閱讀 resources/compatibility-matrix.md',
+      '   - 或查看節點文件中的「連線指南」段落',
+      '',
+      '3. 參考實際範本',
+      '   - templates/ 目錄收錄真實使用案例',
+      '   - 學習節點如何搭配使用',
+      '',
+      '### 常見陷阱',
+      '',
+      '| 錯誤 | 影響 | 解決方式 |',
+      '|---------|--------|----------|',
+      '| 讀取整個合併檔案 | 浪費 token、回應緩慢 | 用 INDEX.md 找到行號，使用 offset/limit |',
+      '| 混淆 Trigger 與 Action 節點 | 工作流程結構無效 | Trigger 只放在工作流程開頭，Action 放在其他位置 |',
+      '| 忽略節點相容性 | 執行時連線錯誤 | 連線前先查閱 compatibility-matrix.md |',
+      '| 錯誤的節點命名格式 | 找不到檔案 | 使用 `nodes-base.{nodeType}.md`，nodeType 為 camelCase |',
+      '| 未檢查節點版本 | 使用到已棄用的功能 | 查看節點文件中的版本資訊 |',
+      '| 未確認驗證需求 | 執行時驗證錯誤 | 查看節點文件中的「憑證」段落 |',
+      '| 假設所有節點都有獨立檔案 | 讀到錯誤內容 | 只有前 50 個節點有獨立檔案，其餘皆已合併 |',
+      '| 忽略輸入/輸出類型 | 資料格式不符 | 查看「連線指南」段落中的資料類型 |',
+      '',
+      '## 5. 多環境使用',
+      '',
+      '此技能可在不同的 Claude 環境中使用：',
+      '',
+      '### Claude Code (CLI)',
+      '',
+      '- 透過 Read、Glob、Grep 工具完整存取檔案系統',
+      '- 使用 offset/limit 精準讀取合併檔案',
+      '- 大規模搜尋節點時效率最高',
+      '- 範例：`Read("resources/INDEX.md", offset=50, limit=100)`',
+      '',
+      '### Claude.ai Web',
+      '',
+      '- 無法直接存取檔案系統',
+      '- 以對話方式詢問節點資訊',
+      '- Claude 會參考技能知識回答',
+      '- 範例：「告訴我 HTTP Request 節點的設定方式」',
+      '',
+      '### Claude Desktop（搭配 MCP）',
+      '',
+      '- 檔案存取能力取決於 MCP 伺服器設定',
+      '- 若啟用 filesystem MCP：能力與 Claude Code 相同',
+      '- 否則：與 Claude.ai Web 相同',
+      '',
+      '### 各環境使用建議',
+      '',
+      '| 環境 | 建議做法 |',
+      '|-------------|---------------------|',
+      '| Claude Code | 直接使用工具讀取檔案，效率最高 |',
+      '| Claude.ai Web | 描述你的需求，讓 Claude 依知識回答 |',
+      '| Claude Desktop | 先確認 MCP 設定，再選擇合適的方式 |',
+      '',
+    ],
+    workflowPatterns: {
+      title: '常見工作流程模式',
+      staticIntro: '以下是可作為起點的常見工作流程模式。',
+      nodesUsed: '使用的節點：',
+      example: '範例：{{example}}',
+      minedIntro: [
+        '這些模式是從 {{total}} 個熱門的 n8n.io 範本工作流程中挖掘而來，依包含該模式的範本數量排序。',
+        '每個模式都會連結到展示該模式且其他節點最少的範本。',
+      ],
+      minedExample: '- 範例：[{{name}}](https://n8n.io/workflows/{{id}})（{{nodeCount}} 個節點）',
+      foundIn: '- 出現於：{{total}} 個範本中的 {{count}} 個',
+      chainsTitle: '節點串連',
+      chainsIntro: '以 main 連線依序相連的節點。',
+      chainNodeTypes: '- 節點類型：{{nodeTypes}}',
+      aiClustersTitle: 'AI 節點組合',
+      aiClustersIntro: 'AI 根節點與其連接的子節點，以及每種連線最常使用的子節點。',
+      aiClusterTitle: '{{rootNode}} 搭配 {{connections}}',
+      rootNode: '- 根節點：`{{nodeType}}`',
+      typicalSubNode: '- `{{connectionType}}`：通常為 {{name}}（`{{nodeType}}`）',
+      templateLibrary: [
+        '## 完整範本庫',
+        '',
+        '我們從 n8n.io 收集了 {{templateCount}} 個熱門工作流程範本，並依使用情境分類：',
+        '',
+        '- [AI 與聊天機器人](../templates/ai-chatbots/README.md) - AI Agent、RAG 系統、智慧對話',
+        '- [社群媒體與影片](../templates/social-media/README.md) - TikTok、Instagram、YouTube 自動化',
+        '- [資料處理與分析](../templates/data-processing/README.md) - Google Sheets、資料庫整合',
+        '- [通訊與協作](../templates/communication/README.md) - Email、WhatsApp、Telegram 自動化',
+        '',
+        '所有可用範本請參閱[完整範本索引](../templates/README.md)。',
+        '',
+      ],
+    },
+    commonPatterns: [
+      {
+        name: 'HTTP 資料擷取',
+        description: '從 API 擷取資料並加以處理',
+        nodes: ['HTTP Request', 'Set', 'IF'],
+        example: '使用 HTTP Request 節點從外部 API 擷取資料，以 Set 節點轉換格式，再用 IF 節點進行條件判斷',
+      },
+      {
+        name: '電子郵件自動化',
+        description: '監控電子郵件並自動回覆或轉寄',
+        nodes: ['Email Trigger (IMAP)', 'Gmail', 'IF'],
+        example: '使用 Email Trigger 監控收件匣，以 IF 節點篩選特定條件，再用 Gmail 節點自動回覆或轉寄',
+      },
+      {
+        name: '資料庫同步',
+        description: '在不同系統之間同步資料',
+        nodes: ['Schedule Trigger', 'HTTP Request', 'Postgres', 'MySQL'],
+        example: '排程觸發後從一個資料庫讀取資料，轉換後寫入另一個資料庫',
+      },
+      {
+        name: 'Webhook 處理',
+        description: '接收外部 webhook 並觸發動作',
+        nodes: ['Webhook', 'Set', 'HTTP Request', 'Slack'],
+        example: '接收 webhook 事件、處理資料，並將通知傳送到 Slack 或其他系統',
+      },
+      {
+        name: 'AI 助理整合',
+        description: '使用 AI 模型處理與產生內容',
+        nodes: ['AI Agent', 'OpenAI', 'Vector Store', 'Embeddings OpenAI'],
+        example: '建立 AI 助理處理使用者查詢，並整合向量資料庫進行語意搜尋',
+      },
+      {
+        name: '檔案處理',
+        description: '自動處理與轉換檔案',
+        nodes: ['Google Drive Trigger', 'Extract from File', 'Move Binary Data', 'Dropbox'],
+        example: '監控 Google Drive 的新檔案，擷取並處理內容後上傳到 Dropbox',
+      },
+    ],
+  },
+  resources: {
+    categoryNames: {
+      transform: '資料轉換節點',
+      input: '輸入節點',
+      output: '輸出節點',
+      trigger: '觸發節點',
+      organization: '組織管理節點',
+      misc: '其他節點',
+      community: '社群套件',
+    },
+    communityCategoryNames: {
+      'communication': '通訊',
+      'ai-tools': 'AI 工具',
+      'utilities': '實用工具',
+      'document': '文件',
+      'data-processing': '資料處理',
+      'web-scraping': '網頁擷取',
+    },
+    index: {
+      title: 'n8n 節點資源索引',
+      intro: '此索引提供全部 {{nodeCount}} 個 n8n 節點的快速存取。',
+      introWithCommunity: '此索引提供全部 {{nodeCount}} 個 n8n 內建節點與 {{packageCount}} 個社群套件的快速存取。',
+      usageGuide: [
+        '## 使用指南',
+        '',
+        '此索引提供兩種搜尋方式：',
+        '',
+        '1. 依類別查找：依功能類別瀏覽節點',
+        '2. 範本索引：瀏覽熱門工作流程範本',
+        '',
+        '### AI 助理使用說明',
+        '',
+        '合併檔案中的節點，請使用行號範圍精準讀取：',
+        '',
+        '```',
+        'Read(file_path, offset=起始行號, limit=行數)',
+        '```',
+        '',
+        '範例：讀取 Azure Cosmos DB 節點（起始行 110，共 64 行）',
+        '```',
+        'Read("resources/transform/transform-merged-1.md", offset=110, limit=64)',
+        '```',
+        '',
+      ],
+      quickNavigation: '快速導覽',
+      navigation: {
+        quickTaskReference: '- [快速任務參考](#快速任務參考)',
+        findByCategory: '- [依類別查找](#依類別查找)',
+        communityPackages: '- [社群套件](#社群套件)',
+        templateIndex: '- [範本索引](#範本索引)',
+        statistics: '- [統計資訊](#統計資訊)',
+      },
+      quickTaskReference: [
+        '## 快速任務參考',
+        '',
+        '為常見任務找到合適的節點：',
+        '',
+        '| 任務 | 推薦節點 | 檔案位置 |',
+        '|------|------------------|---------------|',
+        '| 發送 HTTP 請求 | HTTP Request | input/nodes-base.httpRequest.md |',
+        '| 條件分支 | IF | transform/nodes-base.if.md |',
+        '| 合併多個資料流 | Merge | transform/nodes-base.merge.md |',
+        '| 執行自訂程式碼 | Code | transform/nodes-base.code.md |',
+        '| 寄送電子郵件 | Gmail | output/nodes-base.gmail.md |',
+        '| 接收 webhook | Webhook | trigger/nodes-base.webhook.md |',
+        '| 排程執行工作流程 | Schedule Trigger | trigger/nodes-base.scheduleTrigger.md |',
+        '| AI 對話處理 | AI Agent | transform/transform-merged-2.md（行號見 INDEX） |',
+        '| 讀寫 Google Sheets | Google Sheets | output/nodes-base.googleSheets.md |',
+        '| 轉換資料格式 | Set | transform/nodes-base.set.md |',
+        '',
+      ],
+      findByCategory: '依類別查找',
+      categoryHeading: '{{category}} - {{count}} 個節點',
+      highPriorityHeading: '高優先級節點（{{count}} 個獨立檔案）',
+      highPriorityTableHeader: '| 節點名稱 | nodeType | 檔案路徑 | 說明 |',
+      otherHeading: '其他節點（合併檔案中的 {{count}} 個節點）',
+      otherTableHeader: '| 節點名稱 | nodeType | 檔案路徑 | 起始行 | 行數 | 說明 |',
+      extraPackageNode: '{{name}}（額外套件）',
+      communityPackages: '社群套件',
+      communityIntro: '熱門的社群開發節點套件（{{count}} 個套件）。',
+      communityTableHeader: '| 套件名稱 | 類別 | 檔案路徑 | 說明 |',
+      communityDetails: '詳細資訊請參閱 [community/README.md](community/README.md)。',
+      templateIndex: [
+        '## 範本索引',
+        '',
+        '熱門工作流程範本位於 `templates/` 目錄，並依功能分類：',
+        '',
+        '- [AI 與聊天機器人](templates/ai-chatbots/) - AI Agent、聊天機器人相關範本',
+        '- [社群媒體](templates/social-media/) - 社群媒體自動化範本',
+        '- [資料處理](templates/data-processing/) - 資料轉換與處理範本',
+        '- [通訊](templates/communication/) - 通訊工具整合範本',
+        '',
+        '詳細的範本清單請參考各子目錄中的 README.md 檔案。',
+        '',
+      ],
+      statistics: '統計資訊',
+      totalNodes: '- 內建節點總數：{{count}}',
+      highPriorityNodes: '- 高優先級節點：{{count}}（獨立檔案）',
+      lowPriorityNodes: '- 低優先級節點：{{count}}（合併檔案）',
+      mergedFileCount: '- 合併檔案數：{{count}}',
+      extraNodes: '- 額外套件節點：{{count}}（標示為「額外套件」）',
+      communityPackageCount: '- 社群套件：{{count}}',
+      nodesByCategory: '各類別節點數',
+      categoryCount: '- {{category}}：{{total}} 個節點（高優先級：{{high}}，其他：{{low}}）',
+      lastUpdated: '- 最後更新：{{date}}',
+    },
+    merged: {
+      title: '{{category}} - 節點合集',
+      titleWithPart: '{{category}} - 節點合集（第 {{part}} 部分）',
+      intro: '此檔案包含 {{count}} 個節點的完整資訊。',
+      fileDescription: '包含 {{count}} 個節點',
+      tableOfContents: '目錄',
+    },
+    categoryIndex: {
+      total: '總計：{{count}} 個節點',
+      totalTiered: '總計：{{total}} 個節點（高優先級：{{high}}，其他：{{low}}）',
+      nodeList: '節點清單',
+      highPriority: '高優先級節點',
+      highPriorityIntro: '以下節點有獨立的詳細文件：',
+      other: '其他節點',
+      mergedIntoParts: '以下 {{count}} 個節點合併為 {{parts}} 個檔案：',
+      partLink: '- [第 {{part}} 部分]({{path}}) - 包含 {{count}} 個節點',
+      mergedIntoSingle: '以下節點合併在單一檔案中：',
+      viewCompleteList: '- [查看完整清單]({{path}}) - 包含 {{count}} 個節點',
+      completeNodeList: '完整節點清單',
+    },
+    node: {
+      basicInformation: '基本資訊',
+      nodeType: '- 節點類型：`{{nodeType}}`',
+      category: '- 類別：{{category}}',
+      package: '- 套件：{{packageName}}',
+      extraPackage: '- 套件：{{packageName}}（額外套件，非 n8n 官方節點）',
+      usageCount: '- 使用次數：{{count}}',
+      usageRate: '- 使用率：{{rate}}%',
+      requiresCredentials: '- 需要憑證：是',
+      description: '說明',
+      credentials: '憑證',
+      credentialRequired: '必填',
+      credentialOptional: '選填',
+      credentialCondition: '當 {{condition}} 時',
+      or: '或',
+      yes: '是',
+      no: '否',
+      availableOperations: '可用操作',
+      value: '- 值：`{{value}}`',
+      resource: '- 資源：`{{resource}}`',
+      operation: '- 操作：`{{operation}}`',
+      action: '- 動作：`{{operation}}`',
+      requiredParameters: '**必填參數**',
+      requiredParametersTableHeader: '| 參數 | 類型 | 預設值 | 說明 |',
+      optionalParameters: '**選填參數**',
+      optionalParametersTableHeader: '| 參數 | 類型 | 預設值 | 顯示條件 | 說明 |',
+      example: '**範例**',
+      values: '可選值：{{values}}',
+      fields: '欄位：{{fields}}',
+      modes: '模式：{{modes}}',
+      coreProperties: '核心屬性',
+      propertyTableHeader: '| 屬性名稱 | 類型 | 必填 | 預設值 | 說明 |',
+      propertyDetails: '屬性詳情',
+      optionalValues: '可選值：',
+      versionHistory: '版本歷史',
+      supportedVersions: '支援的 typeVersion：{{versions}}（最新：{{latest}}）。',
+      pinnedVersions: '固定在較舊 `typeVersion` 的工作流程會使用該版本的參數。',
+      versionTableHeader: '| 版本 | 屬性 | 操作 | 憑證 | 輸入 | 輸出 |',
+      versionChanges: '變更內容：v{{from}} → v{{to}}',
+      addedProperties: '- 新增屬性：{{properties}}',
+      removedProperties: '- 移除屬性：{{properties}}',
+      changedDefault: '- `{{name}}` 的預設值變更：`{{from}}` → `{{to}}`',
+      addedOperations: '- 新增操作：{{operations}}',
+      removedOperations: '- 移除操作：{{operations}}',
+      versionParameters: '版本 {{version}} 參數',
+      versionPropertyTableHeader: '| 屬性名稱 | 類型 | 必填 | 預設值 |',
+      versionOperations: '操作：{{operations}}',
+      commonlyFollowedBy: '常見的下一個節點',
+      commonlyPrecededBy: '常見的上一個節點',
+      coOccurrenceTableHeader: '| 節點 | 範本數 | 連線數 |',
+      templateShare: '{{total}} 個中的 {{count}} 個',
+      coOccurrenceNote: '根據 {{workflowCount}} 個已收集範本中的直接連線統計；「範本數」為使用 {{displayName}} 且包含該連線的範本數量。',
+      jsonExamples: 'JSON 設定範例',
+      basicConfiguration: '基本設定',
+      operationExample: '{{operation}} 範例',
+    },
+  },
+  connections: {
+    guide: '連線指南',
+    connectionType: '連線類型',
+    canReceiveFrom: '可接收自',
+    canConnectTo: '可連線至',
+    specialRequirements: '特殊需求',
+    inputTypes: '- 輸入類型：{{types}}',
+    noInputTypes: '- 輸入類型：無（此為觸發節點或起始節點）',
+    outputTypes: '- 輸出類型：{{types}}',
+    outputCount: '- 輸出數量：{{count}}',
+    configurableCount: '{{count}}（可設定）',
+    outputDetails: '輸出詳情：',
+    mainType: '`main`（一般資料流）',
+    outputDescriptions: {
+      ifTrue: '條件成立時的輸出',
+      ifFalse: '條件不成立時的輸出',
+      batchesDone: '所有批次處理完成時的輸出',
+      batchesLoop: '每個批次迭代的輸出（用於迴圈）',
+      inAOnly: '僅存在於資料集 A 的項目',
+      same: '兩個資料集中相同的項目',
+      different: '兩個資料集之間不同的項目',
+      inBOnly: '僅存在於資料集 B 的項目',
+      switchPath: '輸出路徑 {{output}}',
+      switchFallback: '沒有規則符合時的預設輸出',
+    },
+    noIncoming: '此節點不接受其他節點的輸入（通常為觸發節點）。',
+    noOutgoing: '此節點沒有輸出，通常作為工作流程的終點。',
+    connectionVia: '{{index}}. {{name}} - 透過 {{types}} 連線',
+    specialInputs: '此 AI 節點需要以下特殊輸入：',
+    required: '（必要）',
+    optionalMultiple: '（選用，可多個）',
+    optional: '（選用）',
+    matrix: {
+      title: '節點相容性矩陣',
+      intro: '此矩陣顯示節點之間的連線相容性。列為來源節點，欄為目標節點。',
+      corner: '來源節點 ↓ / 目標節點 →',
+      legend: '圖例',
+      legendItems: [
+        '- `++` 高相容性（分數 ≥ 70）- 強烈推薦',
+        '- `+` 中相容性（分數 50-69）- 可以連線',
+        '- `~` 低相容性（分數 < 50）- 或許可以連線',
+        '- `X` 不相容 - 無法連線',
+        '- `-` 不適用 - 相同節點',
+      ],
+    },
+  },
+  templates: {
+    categoryLabel: '> **分類**：{{category}}',
+    tagsLabel: '> **標籤**：{{tags}}',
+    viewsLabel: '> **瀏覽次數**：{{views}}',
+    createdLabel: '> **建立日期**：{{date}}',
+    description: '說明',
+    noDescription: '沒有說明',
+    workflowStructure: '工作流程結構',
+    nodesUsed: '使用的節點',
+    noNodes: '*此範本沒有節點資訊*',
+    authorInformation: '作者資訊',
+    authorName: '- **名稱**：{{name}}',
+    authorUsername: '- **使用者名稱**：@{{username}}',
+    verifiedUser: '- 已驗證使用者',
+    relatedLinks: '相關連結',
+    viewOnN8n: '- [在 n8n.io 檢視此範本]({{url}})',
+    workflowJson: '完整工作流程 JSON',
+    expandWorkflowJson: '點擊展開工作流程 JSON',
+    tag: '{{category}}（信心度 {{confidence}}）',
+    manuallyAssigned: '{{tags}} - 手動指定',
+    categoryTotal: '共 {{count}} 個範本',
+    templateList: '範本列表',
+    templateEntry: '- [{{name}}](./{{filename}}) - {{views}} 次瀏覽',
+    index: {
+      title: 'n8n 工作流程範本',
+      intro: '我們從 n8n.io 收集了 {{count}} 個熱門工作流程範本，並依使用情境分類。',
+      categoryNavigation: '分類導覽',
+      templateCount: '**範本數量**：{{count}}',
+      usageInstructions: '使用說明',
+      usageSteps: [
+        '1. 瀏覽上方分類，找出需要的工作流程類型',
+        '2. 點擊分類連結，檢視該分類的所有範本',
+        '3. 選擇感興趣的範本，檢視詳細資訊',
+        '4. 點擊範本中的「在 n8n.io 檢視此範本」連結，即可直接在 n8n 中使用',
+      ],
+      statistics: '統計',
+      totalTemplates: '- 範本總數：{{count}}',
+      totalViews: '- 總瀏覽次數：{{count}}',
+    },
+    categories: {
+      'ai-chatbots': { name: 'AI 與聊天機器人', description: 'AI Agent、RAG 系統、智慧對話機器人' },
+      'social-media': { name: '社群媒體與影片', description: 'TikTok、Instagram、YouTube 自動化與 AI 影片生成' },
+      'data-processing': { name: '資料處理與分析', description: 'Google Sheets、資料庫整合、資料分析工作流程' },
+      'communication': { name: '通訊與協作', description: 'Email、WhatsApp、Telegram、Slack 自動化' },
+      'automation': { name: '自動化與整合', description: '工作流程自動化、API 整合、排程任務' },
+      'learning': { name: '學習與教學', description: 'n8n 入門教學、互動式課程' },
+    },
+  },
+  credentials: {
+    title: '憑證類型',
+    intro: '節點執行前需要的憑證。請在 n8n 的 **Credentials → Add Credential** 中建立。',
+    authTypes: '驗證類型',
+    authTypesTableHeader: '| 驗證類型 | 憑證數 | 設定方式 |',
+    nodes: '節點',
+    nodesTableHeader: '| 節點 | 憑證類型 |',
+    allCredentialTypes: '所有憑證類型',
+    allCredentialTypesTableHeader: '| 憑證 | 驗證類型 | 必填欄位 |',
+    credentialType: '- 憑證類型：`{{name}}`',
+    authType: '- 驗證類型：{{authType}}',
+    package: '- 套件：`{{packageName}}`',
+    extends: '- 繼承自：{{credentials}}',
+    documentation: '- 文件：{{url}}',
+    setup: '設定方式',
+    requiredFields: '必填欄位',
+    optionalFields: '選填欄位',
+    fieldTableHeader: '| 欄位 | 類型 | 預設值 | 說明 |',
+    secretType: '{{type}}（機密）',
+    usedBy: '使用此憑證的節點',
+    required: '必要',
+    optional: '選用',
+    condition: '當 {{conditions}} 時',
+    conditionValues: '{{name}} = {{values}}',
+    or: ' 或 ',
+    authTypeInfo: {
+      oauth2: {
+        name: 'OAuth2',
+        setup: '在服務中註冊 OAuth 應用程式，填入 Client ID 與 Client Secret，再點擊「Connect」登入。',
+      },
+      oauth1: {
+        name: 'OAuth1',
+        setup: '在服務中註冊 OAuth 應用程式，填入 consumer key 與 secret，再點擊「Connect」登入。',
+      },
+      apiKey: {
+        name: 'API Key',
+        setup: '在服務設定中建立 API key，並貼到憑證中。',
+      },
+      header: {
+        name: 'Header Auth',
+        setup: '提供會放在請求標頭中送出的 token 或值。',
+      },
+      basic: {
+        name: 'Basic Auth',
+        setup: '輸入發送請求所用帳號的使用者名稱與密碼。',
+      },
+      custom: {
+        name: '自訂',
+        setup: '填寫下方欄位；此憑證以服務特有的方式簽署請求。',
+      },
+    },
+  },
+  community: {
+    title: '熱門社群節點',
+    intro: '> npm registry 上最熱門的 {{limit}} 個 n8n 社群節點。',
+    lastUpdated: '> 最後更新：{{date}}',
+    overview: '概覽',
+    overviewTableHeader: '| 指標 | 數值 |',
+    totalPackages: '| 套件總數 | {{count}} |',
+    categoryCount: '| 分類數 | {{count}} |',
+    packages: '套件',
+    packagesTableHeader: '| 排名 | 套件 | 分類 | 節點數 |',
+    categories: '分類',
+    packageCount: '- 套件數：{{count}}',
+    installation: '安裝',
+    installSteps: [
+      '社群節點可以透過 n8n 的圖形介面安裝：',
+      '',
+      '1. 前往 **Settings** > **Community Nodes**',
+      '2. 點擊 **Install**',
+      '3. 輸入套件名稱（例如 `n8n-nodes-evolution-api`）',
+      '4. 點擊 **Install**',
+      '',
+      '> 注意：社群節點僅適用於自行架設的 n8n。',
+    ],
+    basicInformation: '基本資訊',
+    package: '- 套件：`{{name}}`',
+    category: '- 分類：{{category}}',
+    version: '- 版本：{{version}}',
+    maintainer: '- 維護者：{{maintainer}}',
+    npm: '- npm：[檢視套件]({{url}})',
+    repository: '- 原始碼：[檢視原始碼]({{url}})',
+    description: '說明',
+    nodes: '節點（{{count}}）',
+    nodeDetails: '節點詳情',
+    nodeDetailsUnavailable: '> 無法取得節點詳情：{{error}}',
+    backToIndex: '[← 返回社群節點索引](README.md)',
+    nodeType: '- 節點類型：`{{nodeType}}`',
+    requiresCredentials: '- 需要憑證：是',
+    availableOperations: '可用操作',
+    moreOperations: '- ……以及其他 {{count}} 個操作',
+    coreProperties: '核心屬性',
+    propertiesTableHeader: '| 屬性 | 類型 | 必要 | 預設值 |',
+    yes: '是',
+    no: '否',
+    connection: '連線',
+    inputTypes: '- 輸入類型：{{types}}',
+    outputTypes: '- 輸出類型：{{types}}',
+    outputCount: '- 輸出數量：{{count}}',
+    exampleConfiguration: '設定範例',
+    categoryInfo: {
+      'communication': { name: '通訊與訊息', description: 'WhatsApp、ChatWoot 等訊息平台整合' },
+      'ai-tools': { name: 'AI 與語音工具', description: 'AI 語音生成、搜尋引擎與 LLM 整合' },
+      'web-scraping': { name: '網頁擷取與瀏覽器自動化', description: '網頁擷取、瀏覽器自動化與搜尋 API 整合' },
+      'document': { name: '文件處理', description: 'PDF 生成、文件轉換與檔案處理' },
+      'data-processing': { name: '資料處理', description: '文字處理、資料驗證與轉換工具' },
+      'utilities': { name: '工具與輔助', description: '通用工具與輔助功能' },
+    },
+  },
+};
@@ -11,17 +11,25 @@
  */
 
 // 內部使用的 import
-import { NpmCollector, type SimplifiedNodeInfo } from './collectors/npm-collector';
-import { ApiCollector, type NodeUsageStats } from './collectors/api-collector';
+import { NpmCollector, type SimplifiedNodeInfo, type NodePackageOptions } from './collectors/npm-collector';
+import { ApiCollector, type NodeUsageStats, type WorkflowDefinition } from './collectors/api-collector';
+import { WorkflowValidator, type WorkflowValidationResult } from './analyzers/workflow-validator';
 import { type EnrichedNodeInfo, type SkillConfig } from './generators/skill-generator';
 import { SkillGenerator } from './generators/skill-generator';
+import { SkillBuilder, type BuildOptions, type BuildResult } from './builder/skill-builder';
 
 // ===== 收集器 (Collectors) =====
 export {
   // NPM 收集器
   NpmCollector,
+  resolveNodePackages,
+  getNodeTypePrefix,
+  CORE_NODE_PACKAGES,
   type SimplifiedNodeInfo,
   type LoadedNode,
+  type NodePackageOrigin,
+  type NodePackageSource,
+  type NodePackageOptions,
 } from './collectors/npm-collector';
 
 export {
@@ -31,9 +39,27 @@ export {
   getNodeUsageStats,
   type ApiCollectorConfig,
   type TemplateCollectionResult,
+  type TemplatePaginationOptions,
   type NodeUsageStats,
 } from './collectors/api-collector';
 
+export {
+  // 工作流程使用統計收集器
+  WorkflowUsageCollector,
+  blendUsageStats,
+  type WorkflowUsageStats,
+  type WorkflowUsageCollectorConfig,
+} from './collectors/workflow-usage-collector';
+
+export {
+  // 憑證收集器
+  CredentialCollector,
+  detectAuthType,
+  type CredentialTypeInfo,
+  type CredentialField,
+  type CredentialAuthType,
+} from './collectors/credential-collector';
+
 // ===== 解析器 (Parsers) =====
 export {
   // 節點解析器
@@ -48,8 +74,19 @@ export {
   type CoreProperty,
   type Operation,
   type ParsedProperties,
+  type NodeCredentialRef,
+  type VersionedProperties,
+  type VersionChange,
 } from './parsers/property-parser';
 
+export {
+  // 屬性樹解析器
+  PropertyTreeParser,
+  type PropertyTree,
+  type PropertyNode,
+  type ResourceOperationScope,
+} from './parsers/property-tree-parser';
+
 // ===== 組織器 (Organizers) =====
 export {
   // 優先級排序器
@@ -78,6 +115,86 @@ export {
   type GroupingResult,
 } from './organizers/node-grouper';
 
+export {
+  // 範本選擇器
+  TemplateSelector,
+  type SelectableTemplate,
+  type TemplateSelectionOptions,
+  type ScoredTemplate,
+} from './organizers/template-selector';
+
+// ===== 分析器 (Analyzers) =====
+export {
+  // 工作流程驗證器
+  WorkflowValidator,
+  normalizeNodeType,
+  type WorkflowValidatorData,
+  type WorkflowValidationResult,
+  type WorkflowValidationIssue,
+  type ValidationSeverity,
+  type ValidationIssueCode,
+} from './analyzers/workflow-validator';
+
+export {
+  // 節點連線共現挖掘器
+  CoOccurrenceMiner,
+  getFollowingNodes,
+  getPrecedingNodes,
+  type NodeTransition,
+  type NodeCoOccurrenceGraph,
+  type CoOccurrenceMinerOptions,
+} from './analyzers/co-occurrence-miner';
+
+export {
+  // 工作流程模式挖掘器
+  WorkflowPatternMiner,
+  type WorkflowPatterns,
+  type NodeChainPattern,
+  type AiClusterPattern,
+  type PatternExample,
+  type PatternWorkflow,
+  type WorkflowPatternMinerOptions,
+} from './analyzers/workflow-pattern-miner';
+
+export {
+  // 建置差異比較
+  BuildDiffer,
+  hasBuildChanges,
+  type BuildSnapshot,
+  type BuildDiff,
+  type BuildDifferOptions,
+  type NodeSummary,
+  type NodeChange,
+  type PropertyChange,
+  type RankChange,
+  type TemplateRankChange,
+  type FileChange,
+} from './analyzers/build-diff';
+
+// ===== MCP 伺服器 (MCP Server) =====
+export {
+  // MCP 伺服器
+  McpServer,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  type McpTool,
+  type McpToolInputSchema,
+  type McpServerOptions,
+  type JsonRpcMessage,
+} from './mcp/mcp-server';
+
+export {
+  // 節點知識庫
+  NodeKnowledgeBase,
+  type NodeKnowledgeData,
+  type NodeSearchResult,
+  type NodeDetails,
+  type NodeOperationDetails,
+  type TemplateDetails,
+  type TemplateSummary,
+} from './mcp/node-knowledge-base';
+
+export { createKnowledgeTools } from './mcp/knowledge-tools';
+
 // ===== 生成器 (Generators) =====
 export {
   // Skill 生成器
@@ -105,40 +222,149 @@ export {
   type FormatterOptions,
 } from './generators/template-formatter';
 
+export {
+  // 憑證生成器
+  CredentialGenerator,
+  generateCredentialDocs,
+  type CredentialGeneratorConfig,
+} from './generators/credential-generator';
+
+export {
+  // 網站節點目錄生成器
+  WebsiteGenerator,
+  type WebsiteCatalog,
+  type WebsiteCatalogData,
+  type WebsitePage,
+  type WebsiteSearchEntry,
+  type WebsiteGeneratorConfig,
+} from './generators/website-generator';
+
+export {
+  // 知識庫匯出
+  KnowledgeExporter,
+  parseJsonLines,
+  type KnowledgeExport,
+  type KnowledgeExportData,
+  type KnowledgeExportFileContent,
+  type KnowledgeExporterConfig,
+} from './generators/knowledge-exporter';
+
+export {
+  // 向量檢索分塊匯出
+  ChunkExporter,
+  estimateTokens,
+  CHUNK_SCHEMA,
+  type ChunkExportData,
+  type ChunkExporterConfig,
+  type ChunkSourceDocument,
+} from './generators/chunk-exporter';
+
+export {
+  // 知識庫匯出格式
+  KNOWLEDGE_EXPORT_SCHEMA_VERSION,
+  KNOWLEDGE_EXPORT_FILES,
+  type KnowledgeExportFile,
+  type KnowledgeExportManifest,
+  type ExportedNode,
+  type ExportedProperty,
+  type ExportedOperation,
+  type ExportedCredential,
+  type ExportedConnections,
+  type ExportedCompatibility,
+  type ExportedCompatibilityGroup,
+  type ExportedTemplate,
+  type ExportedWorkflowNode,
+  type ExportedChunk,
+  type ChunkKind,
+} from './models/knowledge-export';
+
+// ===== 多語系 (i18n) =====
+export {
+  // 多語系訊息
+  SUPPORTED_LOCALES,
+  DEFAULT_LOCALE,
+  isSupportedLocale,
+  getMessages,
+  formatMessage,
+  formatLines,
+  type Locale,
+  type MessageCatalog,
+} from './i18n';
+
 // ===== 工具函數 (Utilities) =====
 export {
+  // 結構化日誌
+  Logger,
+  ConsoleSink,
+  JsonLinesSink,
+  getLogger,
+  setLogger,
+  getLogLevelFromEnv,
+  isLogLevel,
+  LOG_LEVELS,
+  debug,
   info,
   warn,
   error,
   success,
   progress,
+  type LogLevel,
+  type LogRecord,
+  type LogSink,
+  type LoggerOptions,
+  type LogSummary,
+  type StageSummary,
 } from './utils/logger';
 
+export {
+  // 建置快取
+  BuildCache,
+  DEFAULT_CACHED_PACKAGES,
+  type BuildCacheEntry,
+  type BuildCacheKeyInputs,
+  type BuildCacheStats,
+} from './utils/build-cache';
+
+export {
+  // 增量輸出
+  OutputWriter,
+  type BuildManifest,
+  type ManifestEntry,
+  type OutputWriterStats,
+} from './utils/output-writer';
+
+export {
+  // HTTP 傳輸層 (錄製/重播)
+  AxiosTransport,
+  FixtureTransport,
+  createHttpTransport,
+  getHttpModeFromEnv,
+  DEFAULT_FIXTURES_DIR,
+  type HttpTransport,
+  type HttpRequest,
+  type HttpResponse,
+  type HttpMode,
+  type HttpFixture,
+} from './utils/http-transport';
+
 // ===== 簡化的 API 介面 =====
 
-/**
- * 建置配置選項
- */
-export interface BuildOptions {
-  configPath?: string;
-  outputDir?: string;
-  cacheDir?: string;
-  skipCache?: boolean;
-  maxNodes?: number;
-}
+export {
+  // 建置流程
+  SkillBuilder,
+  type BuildOptions,
+  type BuildResult,
+  type BuildConfig,
+} from './builder/skill-builder';
 
-/**
- * 建置結果
- */
-export interface BuildResult {
-  success: boolean;
-  totalNodes: number;
-  topNodes: number;
-  resourceNodes: number;
-  outputPath: string;
-  duration: number;
-  errors?: string[];
-}
+export {
+  // 建置階段
+  StageRegistry,
+  type BuildStage,
+  type StageContext,
+  type StagePosition,
+  type StageSelection,
+} from './builder/stage-registry';
 
 /**
  * 快速建置函數
@@ -163,17 +389,15 @@ export interface BuildResult {
  * }
  * ```
  */
-export async function quickBuild(_options: BuildOptions = {}): Promise<BuildResult> {
+export async function quickBuild(options: BuildOptions = {}): Promise<BuildResult> {
   const startTime = Date.now();
-  const errors: string[] = [];
 
   try {
-    // 注意：這個函數需要從專案根目錄執行 scripts/build.js
-    // 建議直接使用 npm run build:full 命令
-    throw new Error('quickBuild 函數需要使用 CLI 執行。請使用 npm run build:full 或 npm start 命令。');
+    // 相對路徑以 projectRoot（預設為目前工作目錄）為基準
+    const builder = new SkillBuilder(options);
+    return await builder.build();
   } catch (error) {
-    errors.push(error instanceof Error ? error.message : String(error));
-
+    // 設定檔載入失敗時不會進入建置流程
     return {
       success: false,
       totalNodes: 0,
@@ -181,7 +405,7 @@ export async function quickBuild(_options: BuildOptions = {}): Promise<BuildResu
       resourceNodes: 0,
       outputPath: '',
       duration: Date.now() - startTime,
-      errors,
+      errors: [error instanceof Error ? error.message : String(error)],
     };
   }
 }
@@ -190,6 +414,7 @@ export async function quickBuild(_options: BuildOptions = {}): Promise<BuildResu
  * 收集所有節點資訊
  * 提供簡化的 API 來收集節點
  *
+ * @param options 額外的節點套件（npm 套件名稱或本機路徑）
  * @returns 節點資訊陣列
  *
  * @example
@@ -200,8 +425,8 @@ export async function quickBuild(_options: BuildOptions = {}): Promise<BuildResu
  * console.log(`收集到 ${nodes.length} 個節點`);
  * ```
  */
-export async function collectAllNodes(): Promise<SimplifiedNodeInfo[]> {
-  const collector = new NpmCollector();
+export async function collectAllNodes(options: NodePackageOptions = {}): Promise<SimplifiedNodeInfo[]> {
+  const collector = new NpmCollector(options);
   return await collector.collectAll();
 }
 
@@ -226,6 +451,26 @@ export async function collectNodeUsage(limit: number = 100): Promise<NodeUsageSt
   return result.nodeUsageStats;
 }
 
+/**
+ * 驗證工作流程
+ * 使用建置快取中的節點資料檢查工作流程 JSON
+ *
+ * @param workflow 工作流程定義
+ * @param cacheDir 快取目錄（預設為 data/cache）
+ * @returns 驗證結果
+ *
+ * @example
+ * ```typescript
+ * import { validateWorkflow } from 'n8n-skills';
+ *
+ * const result = validateWorkflow(workflow);
+ * result.issues.forEach(issue => console.log(`${issue.severity}: [${issue.node}] ${issue.message}`));
+ * ```
+ */
+export function validateWorkflow(workflow: WorkflowDefinition, cacheDir?: string): WorkflowValidationResult {
+  return WorkflowValidator.fromCache(cacheDir).validate(workflow);
+}
+
 
 /**
  * 生成 Skill 文件
@@ -255,6 +500,7 @@ export async function generateSkill(
     version: options.version || '1.0.0',
     description: options.description || 'n8n 工作流程自動化知識庫',
     topNodesCount: options.topNodesCount || 50,
+    locale: options.locale,
   };
 
   const generator = new SkillGenerator(config);
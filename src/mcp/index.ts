@@ -0,0 +1,25 @@
+/**
+ * MCP Module
+ * Exports the MCP server and node knowledge tools
+ */
+
+export {
+  McpServer,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  type McpTool,
+  type McpToolInputSchema,
+  type McpServerOptions,
+  type JsonRpcMessage,
+} from './mcp-server';
+
+export {
+  NodeKnowledgeBase,
+  type NodeKnowledgeData,
+  type NodeSearchResult,
+  type NodeDetails,
+  type NodeOperationDetails,
+  type TemplateDetails,
+  type TemplateSummary,
+} from './node-knowledge-base';
+
+export { createKnowledgeTools } from './knowledge-tools';
@@ -0,0 +1,121 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import type { NodeConnectionType } from 'n8n-workflow';
+import type { WorkflowDefinition } from '../collectors/api-collector';
+import type { McpTool } from './mcp-server';
+import type { NodeKnowledgeBase } from './node-knowledge-base';
+
+/**
+ * Create the MCP tools backed by the node knowledge base
+ */
+export function createKnowledgeTools(knowledgeBase: NodeKnowledgeBase): McpTool[] {
+  const requireNode = <T>(nodeType: string, value: T | null): T => {
+    if (value === null) {
+      throw new Error(`Unknown node type: ${nodeType}. Use search_nodes to find the node type.`);
+    }
+    return value;
+  };
+
+  // The server checks arguments against each input schema before calling a handler
+  return [
+    {
+      name: 'search_nodes',
+      description: 'Search n8n nodes by name, type or description. Returns node types ranked by relevance and template usage.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Search words, e.g. "google sheets" or "send email"' },
+          category: { type: 'string', description: 'Only return nodes of this category (e.g. trigger, transform, output)' },
+          limit: { type: 'number', description: 'Maximum number of results (default 10)' },
+        },
+        required: ['query'],
+      },
+      handler: args =>
+        knowledgeBase.searchNodes(String(args.query), {
+          category: args.category as string | undefined,
+          limit: args.limit as number | undefined,
+        }),
+    },
+    {
+      name: 'get_node_details',
+      description: 'Get details of an n8n node: typeVersions, connection types, operations with their required parameters, core properties and credential types.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeType: { type: 'string', description: 'Node type, e.g. "n8n-nodes-base.slack", "nodes-base.slack" or "Slack"' },
+        },
+        required: ['nodeType'],
+      },
+      handler: args => requireNode(String(args.nodeType), knowledgeBase.getNodeDetails(String(args.nodeType))),
+    },
+    {
+      name: 'get_compatible_targets',
+      description: 'List nodes that can receive a connection from the given node, ranked by compatibility score.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeType: { type: 'string', description: 'Source node type' },
+          connectionType: { type: 'string', description: 'Only include this connection type (e.g. main, ai_tool, ai_languageModel)' },
+          limit: { type: 'number', description: 'Maximum number of results (default 20)' },
+        },
+        required: ['nodeType'],
+      },
+      handler: args =>
+        requireNode(
+          String(args.nodeType),
+          knowledgeBase.getCompatibleTargets(String(args.nodeType), {
+            connectionType: args.connectionType as NodeConnectionType | undefined,
+            limit: args.limit as number | undefined,
+          })
+        ),
+    },
+    {
+      name: 'get_template',
+      description: 'Get an n8n workflow template by id (with workflow JSON when cached), or search templates by keywords.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: { type: 'number', description: 'Template id' },
+          query: { type: 'string', description: 'Keywords to search template names, descriptions and node types' },
+          limit: { type: 'number', description: 'Maximum number of search results (default 10)' },
+        },
+      },
+      handler: args => {
+        if (args.id !== undefined) {
+          const template = knowledgeBase.getTemplate(Number(args.id));
+          if (!template) {
+            throw new Error(`Template ${args.id} not found`);
+          }
+          return template;
+        }
+        if (args.query) {
+          return knowledgeBase.searchTemplates(String(args.query), args.limit as number | undefined);
+        }
+        throw new Error('Provide either "id" or "query"');
+      },
+    },
+    {
+      name: 'validate_workflow',
+      description: 'Validate n8n workflow JSON: unknown node types, unsupported typeVersions, incompatible or dangling connections, missing AI sub-node inputs and unset required parameters.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          workflow: { type: ['object', 'string'], description: 'Workflow JSON with "nodes" and "connections"' },
+        },
+        required: ['workflow'],
+      },
+      handler: args => {
+        const workflow: unknown = typeof args.workflow === 'string' ? JSON.parse(args.workflow) : args.workflow;
+        if (typeof workflow !== 'object' || workflow === null || !Array.isArray((workflow as { nodes?: unknown }).nodes)) {
+          throw new Error('Workflow must contain a "nodes" array');
+        }
+        return knowledgeBase.validateWorkflow({ connections: {}, ...(workflow as Partial<WorkflowDefinition>) } as WorkflowDefinition);
+      },
+    },
+  ];
+}
@@ -0,0 +1,256 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import * as readline from 'readline';
+import type { Readable, Writable } from 'stream';
+
+/**
+ * JSON Schema of one tool argument
+ */
+export type McpToolPropertyType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+
+export interface McpToolProperty {
+  /** One type, or the types the argument may have */
+  type: McpToolPropertyType | McpToolPropertyType[];
+  description?: string;
+}
+
+/**
+ * JSON Schema of tool arguments
+ */
+export interface McpToolInputSchema {
+  type: 'object';
+  properties: Record<string, McpToolProperty>;
+  required?: string[];
+}
+
+/**
+ * Tool exposed by the server
+ * The handler result is returned to the client as JSON text
+ */
+export interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: McpToolInputSchema;
+  /** Called with arguments already checked against the input schema */
+  handler: (args: Record<string, unknown>) => unknown | Promise<unknown>;
+}
+
+/**
+ * JSON-RPC 2.0 message
+ */
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export interface McpServerOptions {
+  name: string;
+  version: string;
+  tools: McpTool[];
+  /** Diagnostics output (stdout is reserved for protocol messages) */
+  log?: (message: string) => void;
+}
+
+/** MCP protocol revisions the server can speak, newest first */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/** JSON-RPC error codes */
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a tool argument against the JSON Schema type of its property
+ */
+function matchesType(value: unknown, type: McpToolProperty['type']): boolean {
+  if (Array.isArray(type)) {
+    return type.some(option => matchesType(value, option));
+  }
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isRecord(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * MCP Server
+ * Minimal Model Context Protocol server (tools capability) over newline-delimited JSON-RPC
+ */
+export class McpServer {
+  private tools = new Map<string, McpTool>();
+  private log: (message: string) => void;
+
+  constructor(private options: McpServerOptions) {
+    options.tools.forEach(tool => this.tools.set(tool.name, tool));
+    this.log = options.log || (message => process.stderr.write(`${message}\n`));
+  }
+
+  /**
+   * Serve requests from a stream (stdin by default) until it ends
+   */
+  listen(input: Readable = process.stdin, output: Writable = process.stdout): Promise<void> {
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    let pending = Promise.resolve();
+
+    lines.on('line', line => {
+      if (!line.trim()) {
+        return;
+      }
+      // Answer in order of arrival
+      pending = pending.then(async () => {
+        const response = await this.handleLine(line);
+        if (response) {
+          output.write(`${JSON.stringify(response)}\n`);
+        }
+      });
+    });
+
+    return new Promise(resolve => {
+      lines.on('close', () => {
+        pending.then(() => resolve());
+      });
+    });
+  }
+
+  /**
+   * Handle one raw message line
+   */
+  async handleLine(line: string): Promise<JsonRpcMessage | null> {
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      return this.errorResponse(null, PARSE_ERROR, 'Parse error');
+    }
+    return this.handleMessage(message);
+  }
+
+  /**
+   * Handle a JSON-RPC message
+   * @returns Response, or null for notifications and client responses
+   */
+  async handleMessage(message: JsonRpcMessage): Promise<JsonRpcMessage | null> {
+    if (!message || message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+      // Responses to server requests are not expected; ignore them
+      if (message && (message.result !== undefined || message.error !== undefined)) {
+        return null;
+      }
+      return this.errorResponse(message?.id ?? null, INVALID_REQUEST, 'Invalid request');
+    }
+
+    const isNotification = message.id === undefined || message.id === null;
+    if (isNotification) {
+      return null;
+    }
+
+    try {
+      switch (message.method) {
+        case 'initialize':
+          return this.response(message.id!, this.initialize(message.params));
+        case 'ping':
+          return this.response(message.id!, {});
+        case 'tools/list':
+          return this.response(message.id!, { tools: this.listTools() });
+        case 'tools/call':
+          return await this.callTool(message.id!, message.params);
+        default:
+          return this.errorResponse(message.id!, METHOD_NOT_FOUND, `Method not found: ${message.method}`);
+      }
+    } catch (error) {
+      this.log(`Request ${message.method} failed: ${(error as Error).message}`);
+      return this.errorResponse(message.id!, INTERNAL_ERROR, (error as Error).message);
+    }
+  }
+
+  /**
+   * Negotiate the protocol version and announce capabilities
+   */
+  private initialize(params: unknown): Record<string, unknown> {
+    const requested = isRecord(params) ? params.protocolVersion : undefined;
+    const protocolVersion =
+      typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0];
+
+    return {
+      protocolVersion,
+      capabilities: { tools: {} },
+      serverInfo: { name: this.options.name, version: this.options.version },
+    };
+  }
+
+  /**
+   * Tool definitions without handlers
+   */
+  private listTools(): Array<Omit<McpTool, 'handler'>> {
+    return Array.from(this.tools.values()).map(({ name, description, inputSchema }) => ({ name, description, inputSchema }));
+  }
+
+  /**
+   * Run a tool
+   * Tool failures are reported in the result (isError) so the model can see them
+   */
+  private async callTool(id: string | number, params: unknown): Promise<JsonRpcMessage> {
+    const name = isRecord(params) ? params.name : undefined;
+    const tool = typeof name === 'string' ? this.tools.get(name) : undefined;
+    if (!isRecord(params) || !tool) {
+      return this.errorResponse(id, INVALID_PARAMS, `Unknown tool: ${String(name)}`);
+    }
+
+    const args = params.arguments ?? {};
+    if (!isRecord(args)) {
+      return this.errorResponse(id, INVALID_PARAMS, 'Tool arguments must be an object');
+    }
+
+    const missing = (tool.inputSchema.required || []).filter(key => args[key] === undefined);
+    if (missing.length > 0) {
+      return this.toolError(id, `Missing required argument(s): ${missing.join(', ')}`);
+    }
+    const invalid = Object.entries(tool.inputSchema.properties)
+      .filter(([key, property]) => args[key] !== undefined && !matchesType(args[key], property.type))
+      .map(([key, property]) => `${key} (expected ${[property.type].flat().join(' or ')})`);
+    if (invalid.length > 0) {
+      return this.toolError(id, `Invalid argument(s): ${invalid.join(', ')}`);
+    }
+
+    try {
+      const result = await tool.handler(args);
+      return this.response(id, {
+        content: [{ type: 'text', text: typeof result === 'string' ? result : JSON.stringify(result, null, 2) }],
+      });
+    } catch (error) {
+      return this.toolError(id, (error as Error).message);
+    }
+  }
+
+  private toolError(id: string | number, text: string): JsonRpcMessage {
+    return this.response(id, { content: [{ type: 'text', text }], isError: true });
+  }
+
+  private response(id: string | number, result: unknown): JsonRpcMessage {
+    return { jsonrpc: '2.0', id, result };
+  }
+
+  private errorResponse(id: string | number | null, code: number, message: string): JsonRpcMessage {
+    return { jsonrpc: '2.0', id, error: { code, message } };
+  }
+}
@@ -0,0 +1,394 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import * as fs from 'fs';
+import path from 'path';
+import type { NodeConnectionType } from 'n8n-workflow';
+import type { SimplifiedNodeInfo } from '../collectors/npm-collector';
+import type { NodeUsageStats, TemplateCollectionResult, WorkflowDefinition } from '../collectors/api-collector';
+import type { CoreProperty, NodeCredentialRef, ParsedProperties } from '../parsers/property-parser';
+import { PropertyTreeParser } from '../parsers/property-tree-parser';
+import type { CompatibilityEntry, NodeConnectionInfo } from '../models/connection';
+import type { TemplateCacheItem } from '../utils/template-cache-manager';
+import { CompatibilityAnalyzer } from '../analyzers/compatibility-analyzer';
+import {
+  WorkflowValidator,
+  normalizeNodeType,
+  type WorkflowValidationResult,
+} from '../analyzers/workflow-validator';
+
+/**
+ * Template summary from the template collection (templates.json)
+ */
+export type TemplateSummary = TemplateCollectionResult['templates'][number];
+
+/**
+ * Cached data the knowledge base is built from
+ */
+export interface NodeKnowledgeData {
+  /** Collected nodes (nodes.json) */
+  nodes: SimplifiedNodeInfo[];
+  /** Parsed properties by node type (properties.json) */
+  properties?: Record<string, { properties: ParsedProperties }>;
+  /** Connection types by node (node-io-config.json) */
+  connections?: NodeConnectionInfo[];
+  /** Template usage counts (usage-stats.json) */
+  usageStats?: NodeUsageStats;
+  /** Template summaries (templates.json) */
+  templates?: TemplateSummary[];
+  /** Downloaded template workflows (template-workflows.json) */
+  templateWorkflows?: TemplateCacheItem[];
+}
+
+/**
+ * Node search hit
+ */
+export interface NodeSearchResult {
+  nodeType: string;
+  displayName: string;
+  description: string;
+  category: string;
+  isTrigger: boolean;
+  isAITool: boolean;
+  usageCount: number;
+  score: number;
+}
+
+/**
+ * Operation with the parameters it shows
+ */
+export interface NodeOperationDetails {
+  resource?: string;
+  operation: string;
+  name: string;
+  description?: string;
+  requiredParameters: string[];
+  optionalParameters: string[];
+}
+
+/**
+ * Complete node information
+ */
+export interface NodeDetails extends SimplifiedNodeInfo {
+  usageCount: number;
+  typeVersions: number[];
+  inputTypes?: string[];
+  outputTypes?: string[];
+  operations: NodeOperationDetails[];
+  coreProperties: CoreProperty[];
+  credentials: NodeCredentialRef[];
+}
+
+/**
+ * Template information
+ */
+export interface TemplateDetails {
+  id: number;
+  name: string;
+  url: string;
+  totalViews?: number;
+  description?: string;
+  nodeTypes: string[];
+  workflow?: WorkflowDefinition;
+}
+
+/**
+ * Node Knowledge Base
+ * Query layer over the build cache (nodes, properties, connection types, templates)
+ */
+export class NodeKnowledgeBase {
+  private nodes = new Map<string, SimplifiedNodeInfo>();
+  private properties = new Map<string, ParsedProperties>();
+  private connections = new Map<string, NodeConnectionInfo>();
+  private usageCounts = new Map<string, number>();
+  private templates: TemplateSummary[];
+  private templateWorkflows = new Map<number, TemplateCacheItem>();
+  private treeParser = new PropertyTreeParser();
+  private analyzer = new CompatibilityAnalyzer();
+  private validator: WorkflowValidator;
+
+  constructor(data: NodeKnowledgeData) {
+    data.nodes.forEach(node => this.nodes.set(node.nodeType, node));
+    Object.entries(data.properties || {}).forEach(([nodeType, entry]) => {
+      if (entry?.properties) {
+        this.properties.set(nodeType, entry.properties);
+      }
+    });
+    (data.connections || []).forEach(info => this.connections.set(info.nodeType, info));
+    Object.entries(data.usageStats || {}).forEach(([nodeType, stats]) => {
+      this.usageCounts.set(normalizeNodeType(nodeType), stats.count);
+    });
+    this.templates = data.templates || [];
+    (data.templateWorkflows || []).forEach(item => this.templateWorkflows.set(Number(item.id), item));
+
+    this.validator = new WorkflowValidator({
+      nodes: data.nodes,
+      properties: data.properties,
+      connections: data.connections,
+    });
+  }
+
+  /**
+   * Create a knowledge base from the build cache
+   * @param cacheDir Cache directory (defaults to data/cache)
+   */
+  static fromCache(cacheDir: string = path.join(process.cwd(), 'data', 'cache')): NodeKnowledgeBase {
+    const readJson = (file: string): unknown => {
+      const filePath = path.join(cacheDir, file);
+      return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) : undefined;
+    };
+    // Cache files are written by the build; only their top-level shape is checked, a mismatch counts as missing
+    const readArray = <T>(file: string): T[] | undefined => {
+      const value = readJson(file);
+      return Array.isArray(value) ? value : undefined;
+    };
+    const readObject = <T>(file: string): T | undefined => {
+      const value = readJson(file);
+      return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as T) : undefined;
+    };
+
+    const nodes = readArray<SimplifiedNodeInfo>('nodes.json');
+    if (!nodes) {
+      throw new Error(`Node metadata not found in ${cacheDir} (run the build first)`);
+    }
+
+    return new NodeKnowledgeBase({
+      nodes,
+      properties: readObject<NonNullable<NodeKnowledgeData['properties']>>('properties.json'),
+      connections: readArray<NodeConnectionInfo>('node-io-config.json'),
+      usageStats: readObject<NodeUsageStats>('usage-stats.json'),
+      templates: readArray<TemplateSummary>('templates.json'),
+      templateWorkflows: readArray<TemplateCacheItem>('template-workflows.json'),
+    });
+  }
+
+  /**
+   * Number of known nodes
+   */
+  get nodeCount(): number {
+    return this.nodes.size;
+  }
+
+  /**
+   * Resolve a node type from a workflow type, collected type or node name
+   * e.g. "n8n-nodes-base.slack", "nodes-base.slack", "slack" and "Slack" all resolve to nodes-base.slack
+   */
+  resolveNodeType(nodeType: string): string | undefined {
+    const normalized = normalizeNodeType(nodeType.trim());
+    if (this.nodes.has(normalized)) {
+      return normalized;
+    }
+
+    const wanted = normalized.toLowerCase();
+    for (const node of this.nodes.values()) {
+      const shortName = node.nodeType.slice(node.nodeType.indexOf('.') + 1).toLowerCase();
+      if (node.nodeType.toLowerCase() === wanted || shortName === wanted || node.displayName.toLowerCase() === wanted) {
+        return node.nodeType;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Search nodes by name, type and description
+   * Every query word must match; popular nodes rank higher
+   */
+  searchNodes(query: string, options: { category?: string; limit?: number } = {}): NodeSearchResult[] {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const phrase = words.join(' ');
+    const results: NodeSearchResult[] = [];
+
+    for (const node of this.nodes.values()) {
+      if (options.category && node.category !== options.category) {
+        continue;
+      }
+
+      const name = node.displayName.toLowerCase();
+      const shortName = node.nodeType.slice(node.nodeType.indexOf('.') + 1).toLowerCase();
+      const description = (node.description || '').toLowerCase();
+      const usageCount = this.usageCounts.get(node.nodeType) || 0;
+
+      let score = 0;
+      let matchesAll = true;
+      for (const word of words) {
+        const wordScore = (name.includes(word) ? 20 : 0) + (shortName.includes(word) ? 15 : 0) +
+          (description.includes(word) ? 5 : 0) + (node.category.toLowerCase() === word ? 5 : 0);
+        if (wordScore === 0) {
+          matchesAll = false;
+          break;
+        }
+        score += wordScore;
+      }
+      if (!matchesAll) {
+        continue;
+      }
+
+      if (name === phrase || shortName === phrase) {
+        score += 100;
+      } else if (phrase && name.startsWith(phrase)) {
+        score += 40;
+      }
+      score += Math.min(usageCount, 50) / 5;
+
+      results.push({
+        nodeType: node.nodeType,
+        displayName: node.displayName,
+        description: node.description,
+        category: node.category,
+        isTrigger: node.isTrigger,
+        isAITool: node.isAITool,
+        usageCount,
+        score,
+      });
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score || a.displayName.localeCompare(b.displayName))
+      .slice(0, options.limit ?? 10);
+  }
+
+  /**
+   * Get complete information about a node
+   */
+  getNodeDetails(nodeType: string): NodeDetails | null {
+    const resolved = this.resolveNodeType(nodeType);
+    const node = resolved ? this.nodes.get(resolved) : undefined;
+    if (!resolved || !node) {
+      return null;
+    }
+
+    const properties = this.properties.get(resolved);
+    const connection = this.connections.get(resolved);
+
+    return {
+      ...node,
+      usageCount: this.usageCounts.get(resolved) || 0,
+      typeVersions: properties?.versions?.map(entry => entry.version) || [Number(node.version)],
+      inputTypes: connection?.inputTypes,
+      outputTypes: connection?.outputTypes,
+      operations: this.getOperations(properties),
+      coreProperties: properties?.coreProperties || [],
+      credentials: properties?.credentials || [],
+    };
+  }
+
+  /**
+   * Get nodes that can receive connections from a node
+   * @param connectionType Only return targets for this connection type (e.g. main, ai_tool)
+   */
+  getCompatibleTargets(nodeType: string, options: { connectionType?: NodeConnectionType; limit?: number } = {}): CompatibilityEntry[] | null {
+    const resolved = this.resolveNodeType(nodeType);
+    const source = resolved ? this.connections.get(resolved) : undefined;
+    if (!source) {
+      return null;
+    }
+
+    const candidates = Array.from(this.connections.values());
+    const entries = this.analyzer.findCompatibleTargets(source, candidates, candidates.length);
+
+    return entries
+      .filter(entry => !options.connectionType || entry.connectionTypes.includes(options.connectionType))
+      .sort((a, b) => b.score - a.score || (this.usageCounts.get(b.targetNode) || 0) - (this.usageCounts.get(a.targetNode) || 0))
+      .slice(0, options.limit ?? 20);
+  }
+
+  /**
+   * Get a template by id, including the workflow JSON when it was downloaded
+   */
+  getTemplate(id: number): TemplateDetails | null {
+    const summary = this.templates.find(template => Number(template.id) === id);
+    const cached = this.templateWorkflows.get(id);
+    if (!summary && !cached) {
+      return null;
+    }
+
+    const workflow = cached?.workflow;
+    const nodeTypes = summary
+      ? summary.nodes.map(node => node.name)
+      : Array.from(new Set((workflow?.nodes || []).map(node => node.type)));
+
+    const details: TemplateDetails = {
+      id,
+      name: summary?.name || cached?.name || '',
+      url: `https://n8n.io/workflows/${id}`,
+      totalViews: summary?.totalViews ?? cached?.totalViews,
+      description: summary?.description,
+      nodeTypes,
+    };
+    if (workflow) {
+      details.workflow = workflow;
+    }
+    return details;
+  }
+
+  /**
+   * Find templates by name, description or node type
+   */
+  searchTemplates(query: string, limit: number = 10): Array<Omit<TemplateDetails, 'workflow' | 'description'>> {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+    return this.templates
+      .filter(template => {
+        const text = [template.name, template.description, ...template.nodes.map(node => `${node.name} ${node.displayName || ''}`)]
+          .join(' ')
+          .toLowerCase();
+        return words.every(word => text.includes(word));
+      })
+      .sort((a, b) => Number(b.totalViews) - Number(a.totalViews))
+      .slice(0, limit)
+      .map(template => ({
+        id: Number(template.id),
+        name: template.name,
+        url: `https://n8n.io/workflows/${template.id}`,
+        totalViews: Number(template.totalViews),
+        nodeTypes: template.nodes.map(node => node.name),
+      }));
+  }
+
+  /**
+   * Validate a workflow against the node metadata
+   */
+  validateWorkflow(workflow: WorkflowDefinition): WorkflowValidationResult {
+    return this.validator.validate(workflow);
+  }
+
+  /**
+   * Build operation details from the property tree (or the plain operation list)
+   */
+  private getOperations(properties?: ParsedProperties): NodeOperationDetails[] {
+    const tree = properties?.propertyTree;
+    const descriptions = new Map<string, string | undefined>();
+    (properties?.operations || []).forEach(op => descriptions.set(`${op.resource || ''}:${op.value}`, op.description));
+
+    if (!tree || tree.scopes.length === 0) {
+      return (properties?.operations || []).map(op => ({
+        resource: op.resource,
+        operation: op.value,
+        name: op.name,
+        description: op.description,
+        requiredParameters: [],
+        optionalParameters: [],
+      }));
+    }
+
+    return tree.scopes.map(scope => {
+      const scoped = this.treeParser.getScopedProperties(tree, scope.resource, scope.operation);
+      const required = Array.from(new Set(scoped.filter(prop => prop.required).map(prop => prop.name)));
+      const optional = Array.from(new Set(scoped.filter(prop => !prop.required).map(prop => prop.name)))
+        .filter(name => !required.includes(name));
+
+      return {
+        resource: scope.resource,
+        operation: scope.operation,
+        name: scope.operationName,
+        description: descriptions.get(`${scope.resource || ''}:${scope.operation}`) || descriptions.get(`:${scope.operation}`),
+        requiredParameters: required,
+        optionalParameters: optional,
+      };
+    });
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+/**
+ * Knowledge export types
+ * Records of the machine-readable export in output/data (see schema/*.schema.json there).
+ * Self-contained so tools can read the export without the rest of the pipeline.
+ */
+
+/**
+ * Schema version of the export
+ * Major: incompatible record changes; minor: added fields or files
+ */
+export const KNOWLEDGE_EXPORT_SCHEMA_VERSION = '1.0.0';
+
+/**
+ * Files of the export, relative to its directory
+ */
+export const KNOWLEDGE_EXPORT_FILES = {
+  manifest: 'manifest.json',
+  nodes: 'nodes.jsonl',
+  compatibility: 'compatibility.json',
+  templates: 'templates.jsonl',
+  /** Written by the chunk exporter (npm run export:chunks), not listed in the manifest */
+  chunks: 'chunks.jsonl',
+} as const;
+
+/**
+ * Data file described by the manifest
+ */
+export interface KnowledgeExportFile {
+  /** Path relative to the export directory */
+  path: string;
+  /** json: one document; jsonl: one record per line */
+  format: 'json' | 'jsonl';
+  /** JSON Schema of one record (jsonl) or of the document (json), relative to the export directory */
+  schema: string;
+  /** Number of records */
+  count: number;
+}
+
+/**
+ * manifest.json
+ */
+export interface KnowledgeExportManifest {
+  schemaVersion: string;
+  generator: { name: string; version: string };
+  /** n8n version the node data was collected from */
+  n8nVersion: string;
+  files: {
+    nodes: KnowledgeExportFile;
+    compatibility: KnowledgeExportFile;
+    templates: KnowledgeExportFile;
+  };
+}
+
+/**
+ * Parameter of a node
+ */
+export interface ExportedProperty {
+  name: string;
+  displayName: string;
+  type: string;
+  required: boolean;
+  description?: string;
+  default?: unknown;
+  options?: Array<{ name: string; value: string; description?: string }>;
+}
+
+/**
+ * Resource/operation pair of a node
+ */
+export interface ExportedOperation {
+  /** Operation value set in the node parameters */
+  value: string;
+  name: string;
+  resource?: string;
+  description?: string;
+}
+
+/**
+ * Credential type a node accepts
+ */
+export interface ExportedCredential {
+  name: string;
+  required: boolean;
+  /** Parameter values the credential is shown for, e.g. { show: { authentication: ['oAuth2'] } } */
+  displayOptions?: { show?: Record<string, unknown[]>; hide?: Record<string, unknown[]> };
+}
+
+/**
+ * Connection types of a node
+ */
+export interface ExportedConnections {
+  inputTypes: string[];
+  outputTypes: string[];
+  outputCount: number;
+  outputNames: string[];
+  isDynamicOutput: boolean;
+  /** AI nodes that need sub-nodes (language model, memory, tools) connected */
+  requiresSpecialInputs: boolean;
+}
+
+/**
+ * One line of nodes.jsonl
+ */
+export interface ExportedNode {
+  /** Collected node type, e.g. nodes-base.slack */
+  nodeType: string;
+  /** Type used in workflow JSON, e.g. n8n-nodes-base.slack */
+  workflowType: string;
+  displayName: string;
+  description: string;
+  category: string;
+  packageName: string;
+  /** core: official n8n packages; extra: packages added in skill-config.json */
+  packageOrigin: 'core' | 'extra';
+  /** Latest typeVersion */
+  version: string;
+  /** Every supported typeVersion (empty when unknown) */
+  typeVersions: number[];
+  isTrigger: boolean;
+  isWebhook: boolean;
+  isAITool: boolean;
+  usage: {
+    /** Number of collected templates using the node */
+    count: number;
+    /** Share of collected templates using the node (0-100) */
+    percentage: number;
+  };
+  priority: {
+    rank: number;
+    score: number;
+    tier: 'essential' | 'common' | 'specialized';
+  } | null;
+  /** null when the connection types could not be parsed */
+  connections: ExportedConnections | null;
+  credentials: ExportedCredential[];
+  operations: ExportedOperation[];
+  /** Most relevant parameters (see totalPropertyCount for the full count) */
+  properties: ExportedProperty[];
+  totalPropertyCount: number;
+}
+
+/**
+ * Targets a source node connects to with the same score, reason and connection types
+ */
+export interface ExportedCompatibilityGroup {
+  /** 0-100; higher is a more natural connection */
+  score: number;
+  reason: string;
+  /** Connection types used, e.g. main or ai_languageModel */
+  connectionTypes: string[];
+  targets: string[];
+}
+
+/**
+ * compatibility.json
+ * Only compatible pairs are listed; any pair not listed cannot be connected
+ */
+export interface ExportedCompatibility {
+  sources: Array<{
+    source: string;
+    groups: ExportedCompatibilityGroup[];
+  }>;
+}
+
+/**
+ * Node of an exported template workflow
+ */
+export interface ExportedWorkflowNode {
+  name: string;
+  /** Workflow node type, e.g. n8n-nodes-base.slack */
+  type: string;
+  typeVersion?: number;
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * One line of templates.jsonl
+ */
+export interface ExportedTemplate {
+  id: number;
+  name: string;
+  url: string;
+  description: string;
+  totalViews: number;
+  createdAt?: string;
+  author?: string;
+  /** Collected node types used by the template (sticky notes excluded) */
+  nodeTypes: string[];
+  /** Complete workflow, present for templates whose workflow was downloaded */
+  workflow?: {
+    nodes: ExportedWorkflowNode[];
+    /** n8n connections object keyed by source node name */
+    connections: Record<string, unknown>;
+  };
+}
+
+/**
+ * Kind of Markdown file a chunk was cut from
+ */
+export type ChunkKind = 'node' | 'template' | 'guide';
+
+/**
+ * One line of chunks.jsonl: a heading-bounded section of the skill pack, ready to embed
+ */
+export interface ExportedChunk {
+  /** Stable across builds while the file and headings stay the same, e.g. resources/output/nodes-base.slack.md#slack/core-properties */
+  id: string;
+  /** Markdown of the source lines startLine-endLine */
+  text: string;
+  /** Token count (estimated unless a tokenizer was configured) */
+  tokens: number;
+  /** SHA-256 of text, to skip re-embedding unchanged chunks */
+  contentHash: string;
+  metadata: {
+    kind: ChunkKind;
+    locale: string;
+    /** Path relative to the skill pack root */
+    source: string;
+    /** 1-based, inclusive */
+    startLine: number;
+    endLine: number;
+    /** Heading path of the section, outermost first */
+    headings: string[];
+    /** Node chunks: node the section documents */
+    nodeType?: string;
+    displayName?: string;
+    /** Node category, or template category for template chunks */
+    category?: string;
+    tier?: 'essential' | 'common' | 'specialized';
+    /** Node chunks documenting one operation */
+    operation?: string;
+    resource?: string;
+    /** Template chunks */
+    templateId?: number;
+    nodeTypes?: string[];
+  };
+}
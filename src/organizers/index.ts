@@ -16,3 +16,9 @@ export {
   type GroupingResult,
   type NodeInfo as GrouperNodeInfo
 } from './node-grouper';
+export {
+  TemplateSelector,
+  type SelectableTemplate,
+  type TemplateSelectionOptions,
+  type ScoredTemplate
+} from './template-selector';
@@ -5,6 +5,8 @@
  * This file is part of n8n-skills project.
  */
 
+import type { NodeCoOccurrenceGraph } from '../analyzers/co-occurrence-miner';
+
 /**
  * Node usage frequency level
  */
@@ -51,6 +53,8 @@ export interface NodeRelationship {
   targetNode: string;
   relationshipType: 'alternative' | 'complement' | 'prerequisite' | 'successor';
   description?: string;
+  /** Workflows the relationship was mined from */
+  workflowCount?: number;
 }
 
 /**
@@ -83,17 +87,20 @@ export interface NodeInfo {
  * Provides multiple grouping logics:
  * 1. Group by usage frequency (essential/common/specialized)
  * 2. Group by functional similarity (communication/productivity/development, etc.)
- * 3. Build relationship mapping between nodes
+ * 3. Build relationship mapping between nodes (mined from template workflows)
  */
 export class NodeGrouper {
   private frequencyRules: Map<UsageFrequency, (node: NodeInfo) => boolean> = new Map();
   private functionalRules: Map<FunctionalGroup, (node: NodeInfo) => boolean> = new Map();
-  private relationshipRules: NodeRelationship[] = [];
+  private nodeGraph?: NodeCoOccurrenceGraph;
 
-  constructor() {
+  /**
+   * @param nodeGraph Node co-occurrence graph of template workflows (no relationships without it)
+   */
+  constructor(nodeGraph?: NodeCoOccurrenceGraph) {
+    this.nodeGraph = nodeGraph;
     this.initializeFrequencyRules();
     this.initializeFunctionalRules();
-    this.initializeRelationshipRules();
   }
 
   /**
@@ -196,75 +203,6 @@ export class NodeGrouper {
     });
   }
 
-  /**
-   * Initialize node relationship rules
-   */
-  private initializeRelationshipRules(): void {
-    // Alternative relationship: different implementations of similar functionality
-    this.relationshipRules.push(
-      {
-        sourceNode: 'Gmail',
-        targetNode: 'EmailSend',
-        relationshipType: 'alternative',
-        description: 'Both can send emails'
-      },
-      {
-        sourceNode: 'PostgresQL',
-        targetNode: 'MySQL',
-        relationshipType: 'alternative',
-        description: 'Both are relational databases'
-      },
-      {
-        sourceNode: 'OpenAI',
-        targetNode: 'Anthropic',
-        relationshipType: 'alternative',
-        description: 'Both are large language model services'
-      }
-    );
-
-    // Complement relationship: frequently used together
-    this.relationshipRules.push(
-      {
-        sourceNode: 'Webhook',
-        targetNode: 'HTTP Request',
-        relationshipType: 'complement',
-        description: 'Webhook receives requests, HTTP Request sends requests'
-      },
-      {
-        sourceNode: 'Code',
-        targetNode: 'Set',
-        relationshipType: 'complement',
-        description: 'Code handles complex logic, Set sets simple values'
-      },
-      {
-        sourceNode: 'If',
-        targetNode: 'Switch',
-        relationshipType: 'complement',
-        description: 'Both used for conditional branching and flow control'
-      }
-    );
-
-    // Prerequisite relationship: one is a prerequisite for another
-    this.relationshipRules.push(
-      {
-        sourceNode: 'Trigger',
-        targetNode: 'HTTP Request',
-        relationshipType: 'prerequisite',
-        description: 'Workflows need triggers to start'
-      }
-    );
-
-    // Successor relationship: typically used after certain nodes
-    this.relationshipRules.push(
-      {
-        sourceNode: 'HTTP Request',
-        targetNode: 'Set',
-        relationshipType: 'successor',
-        description: 'Data fetched from API usually needs transformation'
-      }
-    );
-  }
-
   /**
    * Group nodes
    *
@@ -346,29 +284,29 @@ export class NodeGrouper {
 
   /**
    * Build node relationship mapping
+   * Every mined transition between two grouped nodes becomes a successor relationship
    */
   private buildRelationships(nodes: GroupedNode[]): NodeRelationship[] {
-    const relationships: NodeRelationship[] = [];
-    const nodeMap = new Map(nodes.map(n => [this.normalizeNodeType(n.nodeType), n]));
-
-    // Apply predefined rules
-    for (const rule of this.relationshipRules) {
-      const sourceExists = Array.from(nodeMap.keys()).some(k =>
-        k.includes(rule.sourceNode.toLowerCase())
-      );
-      const targetExists = Array.from(nodeMap.keys()).some(k =>
-        k.includes(rule.targetNode.toLowerCase())
-      );
+    const nodeMap = new Map(nodes.map(n => [n.nodeType, n]));
+    const transitions = (this.nodeGraph?.transitions || []).filter(transition =>
+      nodeMap.has(transition.source) && nodeMap.has(transition.target)
+    );
 
-      if (sourceExists && targetExists) {
-        relationships.push(rule);
-      }
-    }
+    const relationships: NodeRelationship[] = transitions.map(transition => ({
+      sourceNode: transition.source,
+      targetNode: transition.target,
+      relationshipType: 'successor',
+      description: `${nodeMap.get(transition.target)!.displayName} follows ${nodeMap.get(transition.source)!.displayName} in ${transition.workflowCount} templates`,
+      workflowCount: transition.workflowCount,
+    }));
 
-    // Automatically discover similar node relationships
+    // Nodes connected in templates first, then nodes of the same functional group
     for (const node of nodes) {
-      const related = this.findRelatedNodes(node, nodes);
-      node.relatedNodes = related;
+      const connected = transitions
+        .filter(t => t.source === node.nodeType || t.target === node.nodeType)
+        .map(t => (t.source === node.nodeType ? t.target : t.source))
+        .filter(nodeType => nodeType !== node.nodeType);
+      node.relatedNodes = Array.from(new Set([...connected, ...this.findRelatedNodes(node, nodes)])).slice(0, 5);
     }
 
     return relationships;
@@ -411,13 +349,6 @@ export class NodeGrouper {
     return tags;
   }
 
-  /**
-   * Normalize node type for comparison
-   */
-  private normalizeNodeType(nodeType: string): string {
-    return nodeType.toLowerCase().split('.').pop() || nodeType.toLowerCase();
-  }
-
   /**
    * Get nodes by specific frequency level
    */
@@ -0,0 +1,146 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import {
+  TemplateCategorizer,
+  TemplateCategory,
+  type CategorizableTemplate,
+} from '../generators/template-categorizer';
+
+/**
+ * Template fields used for selection
+ */
+export interface SelectableTemplate extends CategorizableTemplate {
+  totalViews: number;
+  createdAt: string;
+}
+
+/**
+ * Template selection options
+ */
+export interface TemplateSelectionOptions {
+  /** Templates with fewer views are never selected */
+  minViews?: number;
+  /** Share of the score given to recency instead of views (0-1) */
+  recencyWeight?: number;
+  /** Age at which the recency score halves (days) */
+  recencyHalfLifeDays?: number;
+  /** Templates per category unless listed in categoryQuotas */
+  defaultQuota?: number;
+  /** Templates per category */
+  categoryQuotas?: Partial<Record<TemplateCategory, number>>;
+  /** Total number of selected templates */
+  maxTemplates?: number;
+  /** Reference time for recency (defaults to now) */
+  now?: Date;
+}
+
+/**
+ * Selected template with its score and primary category
+ */
+export interface ScoredTemplate<T extends SelectableTemplate> {
+  template: T;
+  category: TemplateCategory;
+  score: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Template Selector
+ * Picks templates per primary category instead of globally by views, so niche
+ * categories get their own quota. Templates are scored by views (log scale)
+ * blended with a recency score that halves every recencyHalfLifeDays.
+ */
+export class TemplateSelector {
+  private categorizer: TemplateCategorizer;
+  private options: Required<Omit<TemplateSelectionOptions, 'maxTemplates' | 'now'>> &
+    Pick<TemplateSelectionOptions, 'maxTemplates' | 'now'>;
+
+  constructor(options: TemplateSelectionOptions = {}, categorizer: TemplateCategorizer = new TemplateCategorizer()) {
+    this.categorizer = categorizer;
+    this.options = {
+      minViews: options.minViews ?? 0,
+      recencyWeight: options.recencyWeight ?? 0,
+      recencyHalfLifeDays: options.recencyHalfLifeDays ?? 365,
+      defaultQuota: options.defaultQuota ?? 20,
+      categoryQuotas: options.categoryQuotas ?? {},
+      maxTemplates: options.maxTemplates,
+      now: options.now,
+    };
+  }
+
+  /**
+   * Select templates, best score first
+   */
+  select<T extends SelectableTemplate>(templates: T[]): T[] {
+    return this.selectScored(templates).map(scored => scored.template);
+  }
+
+  /**
+   * Select templates with their scores and categories, best score first
+   */
+  selectScored<T extends SelectableTemplate>(templates: T[]): Array<ScoredTemplate<T>> {
+    const eligible = templates.filter(template => (template.totalViews || 0) >= this.options.minViews);
+    const maxViews = Math.max(0, ...eligible.map(template => template.totalViews || 0));
+
+    // Rank templates inside their primary category
+    const byCategory = new Map<TemplateCategory, Array<ScoredTemplate<T>>>();
+    for (const template of eligible) {
+      const category = this.categorizer.categorize(template).primary;
+      const scored = { template, category, score: this.score(template, maxViews) };
+      if (!byCategory.has(category)) {
+        byCategory.set(category, []);
+      }
+      byCategory.get(category)!.push(scored);
+    }
+
+    const ranked = Array.from(byCategory.entries()).map(([category, entries]) =>
+      entries
+        .sort((a, b) => b.score - a.score || a.template.id - b.template.id)
+        .slice(0, this.getQuota(category))
+    );
+
+    // Take templates rank by rank across categories so a total cap keeps every category
+    const selected: Array<ScoredTemplate<T>> = [];
+    const maxTemplates = this.options.maxTemplates ?? Infinity;
+    for (let rank = 0; selected.length < maxTemplates; rank++) {
+      const atRank = ranked
+        .map(entries => entries[rank])
+        .filter((entry): entry is ScoredTemplate<T> => entry !== undefined)
+        .sort((a, b) => b.score - a.score);
+      if (atRank.length === 0) {
+        break;
+      }
+      selected.push(...atRank.slice(0, maxTemplates - selected.length));
+    }
+
+    return selected.sort((a, b) => b.score - a.score || a.template.id - b.template.id);
+  }
+
+  /**
+   * Score between 0 and 1
+   */
+  score(template: SelectableTemplate, maxViews: number): number {
+    const popularity = maxViews > 0 ? Math.log10(1 + (template.totalViews || 0)) / Math.log10(1 + maxViews) : 0;
+    const weight = Math.min(1, Math.max(0, this.options.recencyWeight));
+    if (weight === 0) {
+      return popularity;
+    }
+
+    const createdAt = new Date(template.createdAt).getTime();
+    const now = (this.options.now || new Date()).getTime();
+    const ageDays = Number.isNaN(createdAt) ? Infinity : Math.max(0, (now - createdAt) / DAY_MS);
+    const recency = Math.pow(0.5, ageDays / this.options.recencyHalfLifeDays);
+
+    return (1 - weight) * popularity + weight * recency;
+  }
+
+  private getQuota(category: TemplateCategory): number {
+    return this.options.categoryQuotas[category] ?? this.options.defaultQuota;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+/**
+ * Check whether a value is a non-null object, so its keys can be read
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Match a displayOptions condition (plain value or `{ _cnd: {...} }`)
+ */
+export function matchesDisplayCondition(condition: unknown, value: unknown): boolean {
+  const cnd = isRecord(condition) ? condition._cnd : undefined;
+  if (!isRecord(cnd)) {
+    return condition === value || String(condition) === String(value);
+  }
+
+  const [operator, expected] = Object.entries(cnd)[0] || [];
+  const text = String(value ?? '');
+  switch (operator) {
+    case 'eq':
+      return value === expected;
+    case 'not':
+      return value !== expected;
+    case 'gte':
+      return Number(value) >= Number(expected);
+    case 'lte':
+      return Number(value) <= Number(expected);
+    case 'gt':
+      return Number(value) > Number(expected);
+    case 'lt':
+      return Number(value) < Number(expected);
+    case 'between':
+      return isRecord(expected) && Number(value) >= Number(expected.from) && Number(value) <= Number(expected.to);
+    case 'startsWith':
+      return text.startsWith(String(expected));
+    case 'endsWith':
+      return text.endsWith(String(expected));
+    case 'includes':
+      return text.includes(String(expected));
+    case 'regex':
+      // An invalid pattern in node metadata must not abort the build; it matches nothing
+      try {
+        return new RegExp(String(expected)).test(text);
+      } catch {
+        return false;
+      }
+    case 'exists':
+      return value !== undefined && value !== null && value !== '';
+    default:
+      return false;
+  }
+}
@@ -10,5 +10,25 @@ export { PropertyParser } from './property-parser';
 export type {
   CoreProperty,
   Operation,
-  ParsedProperties
+  ParsedProperties,
+  NodeCredentialRef,
+  VersionedProperties,
+  VersionChange
 } from './property-parser';
+
+export { PropertyTreeParser, isShownFor } from './property-tree-parser';
+export type {
+  PropertyTree,
+  PropertyNode,
+  PropertyDisplayOptions,
+  ResourceLocatorMode,
+  ResourceOperationScope
+} from './property-tree-parser';
+export { matchesDisplayCondition } from './display-options';
+
+export {
+  getVersionedDescriptions,
+  isPropertyInVersion,
+  matchesVersionCondition
+} from './node-versions';
+export type { VersionedDescription } from './node-versions';
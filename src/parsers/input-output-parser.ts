@@ -12,6 +12,8 @@ import type {
   NodeConnectionType
 } from 'n8n-workflow';
 import { AI_NODE_INPUTS_MAP, getAINodeInputs } from '../utils/ai-node-inputs';
+import type { NodeClass } from './node-parser';
+import { getVersionedDescriptions } from './node-versions';
 
 /**
  * Node input/output information
@@ -40,10 +42,13 @@ export class InputOutputParser {
   /**
    * Extract input/output configuration from node class
    * @param nodeClass Node class or instance
+   * @param version typeVersion to inspect (defaults to the latest)
    * @returns Node I/O information
    */
-  parseNodeInputOutput(nodeClass: any): NodeInputOutputInfo {
-    const desc = this.getNodeDescription(nodeClass);
+  parseNodeInputOutput(nodeClass: any, version?: number): NodeInputOutputInfo {
+    const desc = version === undefined
+      ? this.getNodeDescription(nodeClass)
+      : this.getVersionDescription(nodeClass, version);
     const nodeType = desc.name || '';
 
     const inputs = this.normalizeInputs(desc.inputs, nodeType);
@@ -99,6 +104,18 @@ export class InputOutputParser {
     }
   }
 
+  /**
+   * Get node description for a specific typeVersion
+   */
+  private getVersionDescription(nodeClass: NodeClass, version: number): INodeTypeDescription {
+    const match = getVersionedDescriptions(nodeClass).find(entry => entry.version === version);
+    if (!match) {
+      return this.getNodeDescription(nodeClass);
+    }
+    // Versioned descriptions are complete node descriptions; only the parsed fields are typed
+    return { ...match.description, version } as INodeTypeDescription;
+  }
+
   /**
    * Extract version information
    */
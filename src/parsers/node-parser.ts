@@ -5,6 +5,8 @@
  * This file is part of n8n-skills project.
  */
 
+import { getNodeTypePrefix } from '../collectors/npm-collector';
+
 /**
  * Node type definition
  * Can be a constructor function or an instantiated node
@@ -88,8 +90,7 @@ export class NodeParser {
     }
 
     // Add package prefix
-    const packagePrefix = packageName.replace('@n8n/', '').replace('n8n-', '');
-    return `${packagePrefix}.${name}`;
+    return `${getNodeTypePrefix(packageName)}.${name}`;
   }
 
   /**
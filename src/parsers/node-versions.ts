@@ -0,0 +1,97 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import type { NodeClass } from './node-parser';
+import { matchesDisplayCondition } from './display-options';
+import type { RawNodeDescription, RawProperty } from './property-tree-parser';
+
+/**
+ * Node instance shape read when resolving versions
+ */
+interface VersionedNodeInstance {
+  description?: RawNodeDescription;
+  baseDescription?: RawNodeDescription;
+  nodeVersions?: Record<string, { description?: RawNodeDescription }>;
+}
+
+/**
+ * Node description for a single typeVersion
+ */
+export interface VersionedDescription {
+  version: number;
+  description: RawNodeDescription;
+}
+
+/**
+ * Resolve the description of every typeVersion a node supports
+ *
+ * - Versioned nodes (`nodeVersions`) map each version to its own description
+ * - Regular nodes with `version: [1, 2, 3]` share one description; properties
+ *   gated by `displayOptions.show/hide['@version']` are filtered per version
+ *
+ * @returns Descriptions sorted by version (ascending), empty if the node cannot be loaded
+ */
+export function getVersionedDescriptions(nodeClass: NodeClass): VersionedDescription[] {
+  try {
+    const instance: VersionedNodeInstance = typeof nodeClass === 'function' ? new nodeClass() : nodeClass;
+
+    const nodeVersions = instance.nodeVersions;
+    if (nodeVersions) {
+      return Object.keys(nodeVersions)
+        .map(Number)
+        .filter(version => !isNaN(version) && nodeVersions[version]?.description)
+        .sort((a, b) => a - b)
+        .map(version => ({ version, description: nodeVersions[version].description as RawNodeDescription }));
+    }
+
+    const description = instance.description || instance.baseDescription;
+    if (!description) {
+      return [];
+    }
+
+    const versions = (Array.isArray(description.version) ? description.version : [description.version ?? 1])
+      .map(Number)
+      .sort((a, b) => a - b);
+
+    if (versions.length === 1) {
+      return [{ version: versions[0], description }];
+    }
+
+    return versions.map(version => ({
+      version,
+      description: {
+        ...description,
+        properties: (description.properties || []).filter(prop => isPropertyInVersion(prop, version)),
+      },
+    }));
+  } catch (e) {
+    return [];
+  }
+}
+
+/**
+ * Check whether a property is displayed for a typeVersion
+ */
+export function isPropertyInVersion(property: Pick<RawProperty, 'displayOptions'> | undefined, version: number): boolean {
+  const show = property?.displayOptions?.show?.['@version'];
+  const hide = property?.displayOptions?.hide?.['@version'];
+
+  if (show && !show.some((condition: unknown) => matchesVersionCondition(condition, version))) {
+    return false;
+  }
+  if (hide && hide.some((condition: unknown) => matchesVersionCondition(condition, version))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Match a displayOptions '@version' condition (plain value or `{ _cnd: {...} }`)
+ */
+export function matchesVersionCondition(condition: unknown, version: number): boolean {
+  return matchesDisplayCondition(condition, version);
+}
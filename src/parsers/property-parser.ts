@@ -6,6 +6,14 @@
  */
 
 import type { NodeClass } from './node-parser';
+import { getVersionedDescriptions, type VersionedDescription } from './node-versions';
+import {
+  PropertyTreeParser,
+  type PropertyDisplayOptions,
+  type PropertyTree,
+  type RawNodeDescription,
+  type RawProperty
+} from './property-tree-parser';
 
 /**
  * Simplified property information
@@ -31,14 +39,55 @@ export interface Operation {
   resource?: string;
 }
 
+/**
+ * Credential type a node accepts
+ */
+export interface NodeCredentialRef {
+  name: string;
+  required: boolean;
+  /** Shown only for some parameter values (e.g. authentication: ['oAuth2']) */
+  displayOptions?: PropertyDisplayOptions;
+}
+
+/**
+ * Properties and operations of a single typeVersion
+ */
+export interface VersionedProperties {
+  version: number;
+  coreProperties: CoreProperty[];
+  operations: Operation[];
+  hasCredentials: boolean;
+  totalPropertyCount: number;
+  inputTypes?: string[];
+  outputTypes?: string[];
+}
+
+/**
+ * Differences between two consecutive typeVersions
+ */
+export interface VersionChange {
+  fromVersion: number;
+  toVersion: number;
+  addedProperties: string[];
+  removedProperties: string[];
+  changedDefaults: Array<{ name: string; from: unknown; to: unknown }>;
+  addedOperations: string[];
+  removedOperations: string[];
+}
+
 /**
  * Parsed property information
+ * Top-level fields and propertyTree describe the latest version; versions/versionChanges are set for multi-version nodes
  */
 export interface ParsedProperties {
   coreProperties: CoreProperty[];
   operations: Operation[];
   hasCredentials: boolean;
   totalPropertyCount: number;
+  credentials?: NodeCredentialRef[];
+  versions?: VersionedProperties[];
+  versionChanges?: VersionChange[];
+  propertyTree?: PropertyTree;
 }
 
 /**
@@ -47,6 +96,7 @@ export interface ParsedProperties {
  */
 export class PropertyParser {
   private readonly MAX_CORE_PROPERTIES = 10;
+  private treeParser = new PropertyTreeParser();
 
   /**
    * Parse node properties
@@ -58,12 +108,122 @@ export class PropertyParser {
     const operations = this.extractOperations(nodeClass);
     const credentials = this.extractCredentials(nodeClass);
 
-    return {
+    const parsed: ParsedProperties = {
       coreProperties: this.selectCoreProperties(allProperties),
       operations,
       hasCredentials: credentials.length > 0,
       totalPropertyCount: allProperties.length
     };
+
+    if (credentials.length > 0) {
+      parsed.credentials = credentials
+        .filter(credential => credential?.name)
+        .map(credential => {
+          const ref: NodeCredentialRef = { name: credential.name, required: credential.required === true };
+          if (credential.displayOptions) ref.displayOptions = credential.displayOptions;
+          return ref;
+        });
+    }
+
+    const descriptions = getVersionedDescriptions(nodeClass);
+    if (descriptions.length > 0) {
+      const latest = descriptions[descriptions.length - 1];
+      parsed.propertyTree = this.treeParser.parseDescription(latest.description, latest.version);
+    }
+    if (descriptions.length > 1) {
+      parsed.versions = descriptions.map(({ version, description }) => this.parseVersion(version, description));
+      parsed.versionChanges = this.diffVersions(descriptions);
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Parse properties and operations of a single typeVersion
+   */
+  private parseVersion(version: number, description: RawNodeDescription): VersionedProperties {
+    const properties = description?.properties || [];
+
+    return {
+      version,
+      coreProperties: this.selectCoreProperties(properties),
+      operations: this.extractOperationsFromDescription(description),
+      hasCredentials: (description?.credentials || []).length > 0,
+      totalPropertyCount: properties.length
+    };
+  }
+
+  /**
+   * Compare consecutive typeVersions, keeping only pairs that actually differ
+   */
+  private diffVersions(descriptions: VersionedDescription[]): VersionChange[] {
+    const changes: VersionChange[] = [];
+
+    for (let i = 1; i < descriptions.length; i++) {
+      const previous = descriptions[i - 1];
+      const current = descriptions[i];
+
+      const previousProps = this.indexPropertiesByName(previous.description?.properties || []);
+      const currentProps = this.indexPropertiesByName(current.description?.properties || []);
+      const previousOps = this.indexOperations(this.extractOperationsFromDescription(previous.description));
+      const currentOps = this.indexOperations(this.extractOperationsFromDescription(current.description));
+
+      const changedDefaults: VersionChange['changedDefaults'] = [];
+      currentProps.forEach((prop, name) => {
+        const previousProp = previousProps.get(name);
+        if (previousProp && JSON.stringify(previousProp.default) !== JSON.stringify(prop.default)) {
+          changedDefaults.push({ name, from: previousProp.default, to: prop.default });
+        }
+      });
+
+      const change: VersionChange = {
+        fromVersion: previous.version,
+        toVersion: current.version,
+        addedProperties: [...currentProps.keys()].filter(name => !previousProps.has(name)),
+        removedProperties: [...previousProps.keys()].filter(name => !currentProps.has(name)),
+        changedDefaults,
+        addedOperations: [...currentOps.keys()].filter(key => !previousOps.has(key)).map(key => currentOps.get(key)!),
+        removedOperations: [...previousOps.keys()].filter(key => !currentOps.has(key)).map(key => previousOps.get(key)!)
+      };
+
+      const hasChanges =
+        change.addedProperties.length > 0 ||
+        change.removedProperties.length > 0 ||
+        change.changedDefaults.length > 0 ||
+        change.addedOperations.length > 0 ||
+        change.removedOperations.length > 0;
+
+      if (hasChanges) {
+        changes.push(change);
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Index properties by name (first definition wins)
+   */
+  private indexPropertiesByName(properties: RawProperty[]): Map<string, RawProperty> {
+    const index = new Map<string, RawProperty>();
+    properties.forEach(prop => {
+      if (prop?.name && !index.has(prop.name)) {
+        index.set(prop.name, prop);
+      }
+    });
+    return index;
+  }
+
+  /**
+   * Index operations by resource and value, mapped to a display label
+   */
+  private indexOperations(operations: Operation[]): Map<string, string> {
+    const index = new Map<string, string>();
+    operations.forEach(op => {
+      const key = `${op.resource || ''}:${op.value}`;
+      index.set(key, op.resource ? `${op.resource}: ${op.name}` : op.name);
+    });
+    return index;
   }
 
   /**
@@ -202,22 +362,29 @@ export class PropertyParser {
         description = instance.description || instance.baseDescription;
       }
 
-      if (!description) {
-        return [];
-      }
-
-      // Declarative node (has routing)
-      if (description.routing) {
-        return this.extractDeclarativeOperations(description);
-      }
-
-      // Programmatic node (find operation from properties)
-      return this.extractProgrammaticOperations(description);
+      return this.extractOperationsFromDescription(description);
     } catch (e) {
       return [];
     }
   }
 
+  /**
+   * Extract operations from a node description
+   */
+  private extractOperationsFromDescription(description: RawNodeDescription | undefined): Operation[] {
+    if (!description) {
+      return [];
+    }
+
+    // Declarative node (has routing)
+    if (description.routing) {
+      return this.extractDeclarativeOperations(description);
+    }
+
+    // Programmatic node (find operation from properties)
+    return this.extractProgrammaticOperations(description);
+  }
+
   /**
    * Extract operations from declarative node
    */
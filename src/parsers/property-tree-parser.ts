@@ -0,0 +1,298 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import type { NodeClass } from './node-parser';
+import { getVersionedDescriptions } from './node-versions';
+import { matchesDisplayCondition } from './display-options';
+
+/**
+ * displayOptions show/hide conditions (parameter name -> allowed values)
+ */
+export interface PropertyDisplayOptions {
+  show?: Record<string, unknown[]>;
+  hide?: Record<string, unknown[]>;
+}
+
+/**
+ * resourceLocator mode (e.g. "From list", "By URL", "By ID")
+ */
+export interface ResourceLocatorMode {
+  name: string;
+  displayName: string;
+  type: string;
+  placeholder?: string;
+  hint?: string;
+}
+
+/**
+ * Property node in the full property tree
+ * Collections list their fields as children; fixedCollections list value groups as children
+ */
+export interface PropertyNode {
+  name: string;
+  displayName: string;
+  type: string;
+  description?: string;
+  required: boolean;
+  default?: unknown;
+  placeholder?: string;
+  options?: Array<{ name: string; value: unknown; description?: string }>;
+  displayOptions?: PropertyDisplayOptions;
+  typeOptions?: Record<string, unknown>;
+  children?: PropertyNode[];
+  modes?: ResourceLocatorMode[];
+}
+
+/**
+ * Properties shown for one resource/operation combination
+ */
+export interface ResourceOperationScope {
+  resource?: string;
+  operation: string;
+  operationName: string;
+  /** Parameter that selects the operation ("operation" or "action") */
+  operationParameter: string;
+  /** Shown whenever this resource/operation is selected */
+  properties: string[];
+  /** Shown only when other parameters have specific values */
+  conditionalProperties: string[];
+}
+
+/**
+ * Complete property model of a node version
+ */
+export interface PropertyTree {
+  version: number;
+  properties: PropertyNode[];
+  scopes: ResourceOperationScope[];
+}
+
+/**
+ * Raw n8n property descriptor as found in node descriptions
+ * Also covers collection options (option values or nested properties) and fixedCollection groups
+ */
+export interface RawProperty {
+  name: string;
+  displayName?: string;
+  type?: string;
+  description?: string;
+  required?: boolean;
+  default?: unknown;
+  placeholder?: string;
+  value?: unknown;
+  displayOptions?: PropertyDisplayOptions;
+  typeOptions?: Record<string, unknown>;
+  options?: RawProperty[];
+  values?: RawProperty[];
+  modes?: Array<{ name: string; displayName?: string; type?: string; placeholder?: string; hint?: string }>;
+}
+
+/**
+ * Raw n8n node description (the parts the parsers read)
+ */
+export interface RawNodeDescription {
+  version?: number | number[];
+  properties?: RawProperty[];
+  credentials?: Array<{ name: string; required?: boolean; displayOptions?: PropertyDisplayOptions }>;
+  /** Declarative routing; only its presence is checked here */
+  routing?: unknown;
+}
+
+/** Parameters that select the scope rather than configure it */
+const SCOPE_PARAMETERS = ['resource', 'operation', 'action', '@version'];
+
+/**
+ * Property Tree Parser
+ * Extracts the complete property tree, including nested collection fields,
+ * resourceLocator modes and displayOptions dependencies
+ */
+export class PropertyTreeParser {
+  /**
+   * Parse the property tree of a node
+   * @param nodeClass Node class or instance
+   * @param version typeVersion to parse (defaults to the latest)
+   */
+  parse(nodeClass: NodeClass, version?: number): PropertyTree | null {
+    const descriptions = getVersionedDescriptions(nodeClass);
+    if (descriptions.length === 0) {
+      return null;
+    }
+
+    const match = version === undefined
+      ? descriptions[descriptions.length - 1]
+      : descriptions.find(entry => entry.version === version);
+
+    return match ? this.parseDescription(match.description, match.version) : null;
+  }
+
+  /**
+   * Parse the property tree of a node description
+   */
+  parseDescription(description: { properties?: RawProperty[] } | undefined, version: number): PropertyTree {
+    const properties = (description?.properties || []).map(prop => this.normalizeNode(prop));
+
+    return {
+      version,
+      properties,
+      scopes: this.buildScopes(properties, version),
+    };
+  }
+
+  /**
+   * Get the property nodes shown for a resource/operation combination
+   * Includes conditional properties; their displayOptions tell which other values they depend on
+   */
+  getScopedProperties(tree: PropertyTree, resource: string | undefined, operation: string): PropertyNode[] {
+    const values: Record<string, unknown> = { operation, action: operation };
+    if (resource !== undefined) {
+      values.resource = resource;
+    }
+
+    return tree.properties.filter(
+      prop => !SCOPE_PARAMETERS.includes(prop.name) && isShownFor(prop.displayOptions, values, tree.version)
+    );
+  }
+
+  /**
+   * Normalize a raw n8n property into a property node (recursively)
+   */
+  private normalizeNode(property: RawProperty): PropertyNode {
+    const node: PropertyNode = {
+      name: property.name,
+      displayName: property.displayName || property.name,
+      type: property.type || '',
+      required: property.required === true,
+    };
+
+    if (property.description) node.description = property.description;
+    if (property.default !== undefined) node.default = property.default;
+    if (property.placeholder) node.placeholder = property.placeholder;
+    if (property.displayOptions) node.displayOptions = property.displayOptions;
+    if (property.typeOptions) node.typeOptions = property.typeOptions;
+
+    if (property.type === 'collection' && Array.isArray(property.options)) {
+      node.children = property.options.map(child => this.normalizeNode(child));
+    } else if (property.type === 'fixedCollection' && Array.isArray(property.options)) {
+      node.children = property.options.map(group => ({
+        name: group.name,
+        displayName: group.displayName || group.name,
+        type: 'group',
+        required: false,
+        children: (group.values || []).map(child => this.normalizeNode(child)),
+      }));
+    } else if (Array.isArray(property.options)) {
+      node.options = property.options.map(opt => ({
+        name: opt.name,
+        value: opt.value,
+        description: opt.description,
+      }));
+    }
+
+    if (property.type === 'resourceLocator' && Array.isArray(property.modes)) {
+      node.modes = property.modes.map(mode => ({
+        name: mode.name,
+        displayName: mode.displayName || mode.name,
+        type: mode.type || '',
+        placeholder: mode.placeholder,
+        hint: mode.hint,
+      }));
+    }
+
+    return node;
+  }
+
+  /**
+   * Build resource/operation scopes
+   */
+  private buildScopes(properties: PropertyNode[], version: number): ResourceOperationScope[] {
+    const resourceProp = properties.find(
+      prop => prop.name === 'resource' && isShownFor(prop.displayOptions, {}, version)
+    );
+    const resources: Array<string | undefined> = resourceProp?.options?.map(opt => String(opt.value)) || [undefined];
+    const scopes: ResourceOperationScope[] = [];
+
+    for (const resource of resources) {
+      const values: Record<string, unknown> = resource === undefined ? {} : { resource };
+      const operationProps = properties.filter(
+        prop => (prop.name === 'operation' || prop.name === 'action') && prop.options &&
+          isShownFor(prop.displayOptions, values, version)
+      );
+
+      for (const operationProp of operationProps) {
+        for (const option of operationProp.options || []) {
+          const scopeValues = { ...values, operation: option.value, action: option.value };
+          const shown = properties.filter(
+            prop => !SCOPE_PARAMETERS.includes(prop.name) && isShownFor(prop.displayOptions, scopeValues, version)
+          );
+
+          scopes.push({
+            resource,
+            operation: String(option.value),
+            operationName: option.name,
+            operationParameter: operationProp.name,
+            properties: unique(shown.filter(prop => !hasOtherDependencies(prop)).map(prop => prop.name)),
+            conditionalProperties: unique(shown.filter(prop => hasOtherDependencies(prop)).map(prop => prop.name)),
+          });
+        }
+      }
+    }
+
+    return scopes;
+  }
+}
+
+/**
+ * Check displayOptions against parameter values
+ * Conditions on parameters missing from `values` are ignored (reported as conditional for scopes)
+ */
+export function isShownFor(displayOptions: PropertyDisplayOptions | undefined, values: Record<string, unknown>, version: number): boolean {
+  if (!displayOptions) {
+    return true;
+  }
+
+  const scoped: Record<string, unknown> = { ...values, '@version': version };
+
+  for (const [key, allowed] of Object.entries(displayOptions.show || {})) {
+    const name = key.replace(/^\//, '');
+    if (!(name in scoped)) {
+      continue;
+    }
+    if (!allowed.some(condition => matchesDisplayCondition(condition, scoped[name]))) {
+      return false;
+    }
+  }
+
+  for (const [key, hidden] of Object.entries(displayOptions.hide || {})) {
+    const name = key.replace(/^\//, '');
+    if (!(name in scoped)) {
+      continue;
+    }
+    if (hidden.some(condition => matchesDisplayCondition(condition, scoped[name]))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Check whether a property depends on parameters other than resource/operation/version
+ */
+function hasOtherDependencies(property: PropertyNode): boolean {
+  const keys = [
+    ...Object.keys(property.displayOptions?.show || {}),
+    ...Object.keys(property.displayOptions?.hide || {}),
+  ].map(key => key.replace(/^\//, ''));
+  return keys.some(key => !SCOPE_PARAMETERS.includes(key));
+}
+
+/**
+ * Remove duplicate names, keeping first occurrence order
+ */
+function unique(names: string[]): string[] {
+  return Array.from(new Set(names));
+}
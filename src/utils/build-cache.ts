@@ -0,0 +1,206 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import { createHash } from 'crypto';
+import * as fsSync from 'fs';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Inputs that determine whether a cached artifact is still valid
+ */
+export interface BuildCacheKeyInputs {
+  packages: Record<string, string>;
+  configHash: string;
+  generatorVersion: string;
+}
+
+/**
+ * Cache index entry for one artifact
+ */
+export interface BuildCacheEntry {
+  key: string;
+  contentHash: string;
+  savedAt: string;
+  inputs: BuildCacheKeyInputs;
+}
+
+/**
+ * Cache hit/miss statistics
+ */
+export interface BuildCacheStats {
+  hits: number;
+  misses: number;
+  stale: number;
+  writes: number;
+  artifacts: Record<string, 'hit' | 'miss' | 'stale'>;
+}
+
+/**
+ * Build cache configuration
+ */
+export interface BuildCacheConfig {
+  cacheDir: string;
+  config: unknown;
+  generatorVersion: string;
+  packages?: string[];
+}
+
+/** Packages whose installed version invalidates cached node data */
+export const DEFAULT_CACHED_PACKAGES = ['n8n-nodes-base', '@n8n/n8n-nodes-langchain'];
+
+/**
+ * Build Cache
+ * Keys every cached artifact by installed n8n package versions, config hash and generator version
+ */
+export class BuildCache {
+  private cacheDir: string;
+  private indexPath: string;
+  private inputs: BuildCacheKeyInputs;
+  private index: Record<string, BuildCacheEntry> | null = null;
+  private stats: BuildCacheStats = { hits: 0, misses: 0, stale: 0, writes: 0, artifacts: {} };
+
+  constructor(config: BuildCacheConfig) {
+    this.cacheDir = config.cacheDir;
+    this.indexPath = path.join(config.cacheDir, 'cache-index.json');
+    this.inputs = {
+      packages: BuildCache.resolvePackageVersions(config.packages || DEFAULT_CACHED_PACKAGES),
+      configHash: BuildCache.hash(JSON.stringify(config.config)),
+      generatorVersion: config.generatorVersion,
+    };
+  }
+
+  /**
+   * Hash content with SHA-256
+   */
+  static hash(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Resolve installed package versions ("missing" when not installed)
+   */
+  static resolvePackageVersions(packages: string[]): Record<string, string> {
+    const versions: Record<string, string> = {};
+    for (const name of packages) {
+      try {
+        const packageJsonPath = require.resolve(`${name}/package.json`);
+        versions[name] = JSON.parse(fsSync.readFileSync(packageJsonPath, 'utf-8')).version || 'unknown';
+      } catch {
+        versions[name] = 'missing';
+      }
+    }
+    return versions;
+  }
+
+  /**
+   * Get the key inputs for this build
+   */
+  getInputs(): BuildCacheKeyInputs {
+    return this.inputs;
+  }
+
+  /**
+   * Compute the cache key for an artifact
+   */
+  getKey(artifact: string): string {
+    return BuildCache.hash(JSON.stringify({ artifact, ...this.inputs }));
+  }
+
+  /**
+   * Load an artifact, returning null on miss or when the key no longer matches
+   */
+  async get<T>(artifact: string): Promise<T | null> {
+    const index = await this.loadIndex();
+    const entry = index[artifact];
+
+    if (!entry || entry.key !== this.getKey(artifact)) {
+      this.record(artifact, entry ? 'stale' : 'miss');
+      return null;
+    }
+
+    try {
+      const content = await fs.readFile(path.join(this.cacheDir, artifact), 'utf-8');
+      if (BuildCache.hash(content) !== entry.contentHash) {
+        this.record(artifact, 'stale');
+        return null;
+      }
+      this.record(artifact, 'hit');
+      return JSON.parse(content) as T;
+    } catch {
+      this.record(artifact, 'miss');
+      return null;
+    }
+  }
+
+  /**
+   * Save an artifact under the current key
+   */
+  async set(artifact: string, data: unknown): Promise<void> {
+    const content = JSON.stringify(data, null, 2);
+    await fs.mkdir(this.cacheDir, { recursive: true });
+    await fs.writeFile(path.join(this.cacheDir, artifact), content, 'utf-8');
+
+    const index = await this.loadIndex();
+    index[artifact] = {
+      key: this.getKey(artifact),
+      contentHash: BuildCache.hash(content),
+      savedAt: new Date().toISOString(),
+      inputs: this.inputs,
+    };
+    await fs.writeFile(this.indexPath, JSON.stringify(index, null, 2), 'utf-8');
+    this.stats.writes++;
+  }
+
+  /**
+   * Read an artifact regardless of its key (used for recovery)
+   */
+  async getStale<T>(artifact: string): Promise<T | null> {
+    try {
+      const content = await fs.readFile(path.join(this.cacheDir, artifact), 'utf-8');
+      return JSON.parse(content) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get hit/miss statistics
+   */
+  getStats(): BuildCacheStats {
+    return { ...this.stats, artifacts: { ...this.stats.artifacts } };
+  }
+
+  /**
+   * Load cache index
+   */
+  private async loadIndex(): Promise<Record<string, BuildCacheEntry>> {
+    if (!this.index) {
+      try {
+        this.index = JSON.parse(await fs.readFile(this.indexPath, 'utf-8'));
+      } catch {
+        this.index = {};
+      }
+    }
+    return this.index!;
+  }
+
+  /**
+   * Record a lookup result
+   */
+  private record(artifact: string, result: 'hit' | 'miss' | 'stale'): void {
+    if (result === 'hit') {
+      this.stats.hits++;
+    } else if (result === 'stale') {
+      this.stats.stale++;
+      this.stats.misses++;
+    } else {
+      this.stats.misses++;
+    }
+    this.stats.artifacts[artifact] = result;
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import axios, { AxiosError, AxiosInstance } from 'axios';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * HTTP request issued by a collector
+ */
+export interface HttpRequest {
+  method: 'GET';
+  /** Absolute URL without query string */
+  url: string;
+  params?: Record<string, string | number | boolean | undefined>;
+}
+
+/**
+ * HTTP response returned to a collector
+ */
+export interface HttpResponse<T = unknown> {
+  status: number;
+  data: T;
+}
+
+/**
+ * Transport used by the collectors for all HTTP traffic
+ */
+export interface HttpTransport {
+  request<T>(request: HttpRequest): Promise<HttpResponse<T>>;
+}
+
+/**
+ * Network mode of a build
+ * - live: call the APIs
+ * - record: call the APIs and store every response as a fixture
+ * - replay: answer from stored fixtures only (no network)
+ */
+export type HttpMode = 'live' | 'record' | 'replay';
+
+/**
+ * Stored request/response pair
+ */
+export interface HttpFixture {
+  request: HttpRequest;
+  response: HttpResponse;
+  recordedAt: string;
+}
+
+/**
+ * Axios transport configuration
+ */
+export interface AxiosTransportConfig {
+  timeout?: number;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Fixture transport configuration
+ */
+export interface FixtureTransportConfig {
+  fixturesDir: string;
+  mode: 'record' | 'replay';
+  /** Transport used to record responses (an AxiosTransport when omitted) */
+  upstream?: HttpTransport;
+}
+
+/**
+ * HTTP transport factory options
+ */
+export interface HttpTransportOptions extends AxiosTransportConfig {
+  mode?: HttpMode;
+  fixturesDir?: string;
+}
+
+/** Default fixture directory, relative to the project root */
+export const DEFAULT_FIXTURES_DIR = 'data/fixtures';
+
+/**
+ * Axios Transport
+ * Performs real requests and turns axios errors into readable messages
+ */
+export class AxiosTransport implements HttpTransport {
+  private client: AxiosInstance;
+
+  constructor(config: AxiosTransportConfig = {}) {
+    this.client = axios.create({
+      timeout: config.timeout ?? 30000,
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'n8n-skills/1.0.0',
+        ...config.headers,
+      },
+    });
+
+    // Set up response interceptor to handle errors
+    this.client.interceptors.response.use(
+      (response) => response,
+      (error) => this.handleAxiosError(error)
+    );
+  }
+
+  async request<T>(request: HttpRequest): Promise<HttpResponse<T>> {
+    const response = await this.client.request<T>({
+      method: request.method,
+      url: request.url,
+      params: request.params,
+    });
+    return { status: response.status, data: response.data };
+  }
+
+  private handleAxiosError(error: AxiosError): Promise<never> {
+    if (error.response) {
+      // Server responded with error status code
+      throw new Error(
+        `API response error: ${error.response.status} - ${error.response.statusText}`
+      );
+    } else if (error.request) {
+      // Request was sent but no response received
+      throw new Error('No API response received, please check network connection');
+    } else {
+      // Error occurred while setting up the request
+      throw new Error(`API request configuration error: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Fixture Transport
+ * Records responses of successful requests as JSON files, or replays them without network.
+ * Fixtures are stored as <fixturesDir>/<host>/<path>-<hash>.json, where the hash covers
+ * the method, URL and sorted query parameters.
+ */
+export class FixtureTransport implements HttpTransport {
+  private fixturesDir: string;
+  private mode: 'record' | 'replay';
+  private upstream: HttpTransport;
+
+  constructor(config: FixtureTransportConfig) {
+    this.fixturesDir = config.fixturesDir;
+    this.mode = config.mode;
+    this.upstream = config.upstream || new AxiosTransport();
+  }
+
+  async request<T>(request: HttpRequest): Promise<HttpResponse<T>> {
+    const fixturePath = this.getFixturePath(request);
+
+    if (this.mode === 'replay') {
+      let content: string;
+      try {
+        content = await fs.readFile(fixturePath, 'utf-8');
+      } catch {
+        throw new Error(
+          `No recorded fixture for ${request.method} ${FixtureTransport.describe(request)} (expected ${fixturePath})`
+        );
+      }
+      const fixture = JSON.parse(content) as HttpFixture;
+      return fixture.response as HttpResponse<T>;
+    }
+
+    const response = await this.upstream.request<T>(request);
+    const fixture: HttpFixture = {
+      request: { ...request, params: FixtureTransport.normalizeParams(request.params) },
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+    await fs.mkdir(path.dirname(fixturePath), { recursive: true });
+    await fs.writeFile(fixturePath, JSON.stringify(fixture, null, 2) + '\n', 'utf-8');
+    return response;
+  }
+
+  /**
+   * Fixture file of a request
+   */
+  getFixturePath(request: HttpRequest): string {
+    const url = new URL(request.url);
+    const slug = url.pathname
+      .replace(/[^\w.-]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .substring(0, 80) || 'root';
+    const hash = createHash('sha256')
+      .update(`${request.method} ${FixtureTransport.describe(request)}`)
+      .digest('hex')
+      .substring(0, 12);
+    return path.join(this.fixturesDir, url.host, `${slug}-${hash}.json`);
+  }
+
+  /**
+   * URL with sorted query parameters, e.g. https://api.n8n.io/api/templates/search?page=1&rows=100
+   */
+  static describe(request: HttpRequest): string {
+    const params = FixtureTransport.normalizeParams(request.params);
+    const query = new URLSearchParams(
+      Object.entries(params || {}).map(([key, value]): [string, string] => [key, String(value)])
+    ).toString();
+    return query ? `${request.url}?${query}` : request.url;
+  }
+
+  /**
+   * Drop undefined parameters and sort by name
+   */
+  private static normalizeParams(params: HttpRequest['params']): HttpRequest['params'] {
+    if (!params) {
+      return undefined;
+    }
+    const entries = Object.entries(params)
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  }
+}
+
+/**
+ * Create the transport for a network mode
+ */
+export function createHttpTransport(options: HttpTransportOptions = {}): HttpTransport {
+  const { mode = 'live', fixturesDir = DEFAULT_FIXTURES_DIR, ...axiosConfig } = options;
+  const live = new AxiosTransport(axiosConfig);
+
+  if (mode === 'live') {
+    return live;
+  }
+  return new FixtureTransport({ fixturesDir, mode, upstream: live });
+}
+
+/**
+ * Read the network mode from N8N_SKILLS_HTTP_MODE (live when unset)
+ */
+export function getHttpModeFromEnv(env: NodeJS.ProcessEnv = process.env): HttpMode {
+  const value = env.N8N_SKILLS_HTTP_MODE;
+  if (!value) {
+    return 'live';
+  }
+  if (value !== 'live' && value !== 'record' && value !== 'replay') {
+    throw new Error(`Invalid N8N_SKILLS_HTTP_MODE "${value}" (expected live, record or replay)`);
+  }
+  return value;
+}
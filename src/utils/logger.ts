@@ -5,32 +5,415 @@
  * This file is part of n8n-skills project.
  */
 
+/**
+ * Structured logger
+ * Leveled records go to pluggable sinks (console text, JSON lines); child loggers tag
+ * records with the build stage, time the stage and collect its warnings for the summary
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+/**
+ * One log record, written as-is by the JSON-lines sink
+ */
+export interface LogRecord {
+  time: string;
+  level: Exclude<LogLevel, 'silent'>;
+  message: string;
+  /** Build stage of the child logger that wrote the record */
+  stage?: string;
+  /** success and progress records are info records rendered differently on the console */
+  kind?: 'success' | 'progress';
+  error?: string;
+  durationMs?: number;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Destination of log records
+ */
+export interface LogSink {
+  write(record: LogRecord): void;
+}
+
+/**
+ * Warnings, errors and duration of one build stage
+ */
+export interface StageSummary {
+  name: string;
+  durationMs?: number;
+  warnings: string[];
+  errors: string[];
+}
+
+/**
+ * Summary of everything logged since the root logger was created
+ */
+export interface LogSummary {
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  warningCount: number;
+  errorCount: number;
+  /** Stages in the order they first logged; records outside a stage are grouped under "build" */
+  stages: StageSummary[];
+}
+
+export interface LoggerOptions {
+  /** Minimum level written to the sinks (N8N_SKILLS_LOG_LEVEL or info when omitted) */
+  level?: LogLevel;
+  /** Sinks receiving the records (console text when omitted) */
+  sinks?: LogSink[];
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 50,
+};
+
+const PROGRESS_BAR_WIDTH = 20;
+
+/**
+ * Stage name of records written outside a stage
+ */
+const BUILD_STAGE = 'build';
+
+/**
+ * Writes records as the familiar "[INFO] message" console lines
+ * Progress is redrawn in place on a terminal
+ */
+export class ConsoleSink implements LogSink {
+  private progressOpen = false;
+
+  constructor(private stream: NodeJS.WriteStream = process.stdout) {}
+
+  write(record: LogRecord): void {
+    const stage = record.stage ? `[${record.stage}] ` : '';
+
+    if (record.kind === 'progress') {
+      const line = `[PROGRESS] ${stage}${record.message}`;
+      const done = record.data?.current === record.data?.total;
+      if (this.stream.isTTY) {
+        this.stream.write(`\r${line}${done ? '\n' : ''}`);
+        this.progressOpen = !done;
+      } else {
+        this.stream.write(`${line}\n`);
+      }
+      return;
+    }
+
+    if (this.progressOpen) {
+      this.stream.write('\n');
+      this.progressOpen = false;
+    }
+
+    const prefix = record.kind === 'success' ? 'SUCCESS' : record.level.toUpperCase();
+    const error = record.error ? `: ${record.error}` : '';
+    const line = `[${prefix}] ${stage}${record.message}${error}`;
+
+    if (record.level === 'error') {
+      console.error(line);
+    } else if (record.level === 'warn') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+/**
+ * Writes one JSON object per record to a file (truncated on creation) or a stream
+ */
+export class JsonLinesSink implements LogSink {
+  private filePath?: string;
+  private stream?: NodeJS.WritableStream;
+
+  constructor(target: string | NodeJS.WritableStream) {
+    if (typeof target === 'string') {
+      this.filePath = target;
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, '');
+    } else {
+      this.stream = target;
+    }
+  }
+
+  write(record: LogRecord): void {
+    const line = `${JSON.stringify(record)}\n`;
+    if (this.filePath) {
+      // Synchronous so records survive process.exit()
+      fs.appendFileSync(this.filePath, line);
+    } else {
+      this.stream!.write(line);
+    }
+  }
+}
+
+/**
+ * State shared by a root logger and its children
+ */
+interface LoggerState {
+  level: LogLevel;
+  sinks: LogSink[];
+  startedAt: Date;
+  stages: Map<string, StageSummary>;
+  /** Last progress bar position per stage, so only visible changes are written */
+  progress: Map<string, number>;
+}
+
+/**
+ * Check whether a string names a log level
+ */
+export function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+/** Warning about an invalid N8N_SKILLS_LOG_LEVEL, written by the next root logger */
+let pendingLevelWarning: string | undefined;
+let invalidLevelReported = false;
+
+/**
+ * Read the log level from N8N_SKILLS_LOG_LEVEL (info when unset or invalid)
+ * An invalid value is reported once, as a warning of the next root logger
+ */
+export function getLogLevelFromEnv(env: NodeJS.ProcessEnv = process.env): LogLevel {
+  const value = env.N8N_SKILLS_LOG_LEVEL;
+  if (!value) {
+    return 'info';
+  }
+  if (!isLogLevel(value)) {
+    if (!invalidLevelReported) {
+      invalidLevelReported = true;
+      pendingLevelWarning = `Invalid N8N_SKILLS_LOG_LEVEL "${value}" (expected ${LOG_LEVELS.join(', ')}), using info`;
+    }
+    return 'info';
+  }
+  return value;
+}
+
+export class Logger {
+  private state: LoggerState;
+  private stage?: string;
+
+  constructor(options: LoggerOptions = {}, parent?: { state: LoggerState; stage: string }) {
+    if (parent) {
+      this.state = parent.state;
+      this.stage = parent.stage;
+      return;
+    }
+    this.state = {
+      level: options.level || getLogLevelFromEnv(),
+      sinks: options.sinks || [new ConsoleSink()],
+      startedAt: new Date(),
+      stages: new Map(),
+      progress: new Map(),
+    };
+    if (pendingLevelWarning) {
+      const warning = pendingLevelWarning;
+      pendingLevelWarning = undefined;
+      this.warn(warning);
+    }
+  }
+
+  /**
+   * Create a logger whose records are tagged with a build stage
+   */
+  child(stage: string): Logger {
+    return new Logger({}, { state: this.state, stage });
+  }
+
+  getStage(): string | undefined {
+    return this.stage;
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return level !== 'silent' && LEVEL_ORDER[level] >= LEVEL_ORDER[this.state.level];
+  }
+
+  debug(message: string, data?: Record<string, unknown>): void {
+    this.log({ level: 'debug', message, data });
+  }
+
+  info(message: string, data?: Record<string, unknown>): void {
+    this.log({ level: 'info', message, data });
+  }
+
+  success(message: string, data?: Record<string, unknown>): void {
+    this.log({ level: 'info', kind: 'success', message, data });
+  }
+
+  warn(message: string, err?: Error | unknown): void {
+    this.getStageSummary().warnings.push(withError(message, err));
+    this.log({ level: 'warn', message, error: formatError(err) });
+  }
+
+  error(message: string, err?: Error | unknown): void {
+    this.getStageSummary().errors.push(withError(message, err));
+    this.log({ level: 'error', message, error: formatError(err) });
+  }
+
+  /**
+   * Report progress; only written when the progress bar visibly moves
+   */
+  progress(current: number, total: number, message?: string): void {
+    const position = total > 0 ? Math.min(Math.floor((current / total) * PROGRESS_BAR_WIDTH), PROGRESS_BAR_WIDTH) : PROGRESS_BAR_WIDTH;
+    const key = this.stage || BUILD_STAGE;
+    if (current < total && this.state.progress.get(key) === position) {
+      return;
+    }
+    this.state.progress.set(key, current < total ? position : -1);
+
+    const percentage = total > 0 ? Math.round((current / total) * 100) : 100;
+    const bar = `[${'='.repeat(position)}${' '.repeat(PROGRESS_BAR_WIDTH - position)}]`;
+    const msg = message ? ` - ${message}` : '';
+    this.log({
+      level: 'info',
+      kind: 'progress',
+      message: `${bar} ${percentage}% (${current}/${total})${msg}`,
+      data: { current, total },
+    });
+  }
+
+  /**
+   * Run a task with this logger active, recording how long it took
+   * Module-level logging calls made during the task are tagged with this logger's stage
+   */
+  async time<T>(task: () => Promise<T>): Promise<T> {
+    const previous = setLogger(this);
+    const start = Date.now();
+    try {
+      return await task();
+    } finally {
+      const durationMs = Date.now() - start;
+      this.getStageSummary().durationMs = durationMs;
+      setLogger(previous);
+      this.log({
+        level: 'info',
+        message: `Finished in ${(durationMs / 1000).toFixed(2)}s`,
+        durationMs,
+      });
+    }
+  }
+
+  /**
+   * Summarize warnings, errors and durations recorded so far
+   */
+  getSummary(): LogSummary {
+    const finishedAt = new Date();
+    const stages = Array.from(this.state.stages.values()).map(stage => ({
+      ...stage,
+      warnings: [...stage.warnings],
+      errors: [...stage.errors],
+    }));
+
+    return {
+      startedAt: this.state.startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - this.state.startedAt.getTime(),
+      warningCount: stages.reduce((sum, stage) => sum + stage.warnings.length, 0),
+      errorCount: stages.reduce((sum, stage) => sum + stage.errors.length, 0),
+      stages,
+    };
+  }
+
+  /**
+   * Write the summary (plus caller-provided fields) as a JSON file
+   */
+  writeSummary(filePath: string, extra: Record<string, unknown> = {}): LogSummary {
+    const summary = this.getSummary();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify({ ...extra, ...summary }, null, 2) + '\n');
+    return summary;
+  }
+
+  private getStageSummary(): StageSummary {
+    const name = this.stage || BUILD_STAGE;
+    let summary = this.state.stages.get(name);
+    if (!summary) {
+      summary = { name, warnings: [], errors: [] };
+      this.state.stages.set(name, summary);
+    }
+    return summary;
+  }
+
+  private log(record: Omit<LogRecord, 'time' | 'stage'>): void {
+    if (!this.isEnabled(record.level)) {
+      return;
+    }
+    const full: LogRecord = { time: new Date().toISOString(), level: record.level, message: record.message };
+    if (this.stage) full.stage = this.stage;
+    if (record.kind) full.kind = record.kind;
+    if (record.error) full.error = record.error;
+    if (record.durationMs !== undefined) full.durationMs = record.durationMs;
+    if (record.data) full.data = record.data;
+
+    for (const sink of this.state.sinks) {
+      sink.write(full);
+    }
+  }
+}
+
+function formatError(err: Error | unknown): string | undefined {
+  if (err === undefined || err === null) {
+    return undefined;
+  }
+  return err instanceof Error ? err.message : String(err);
+}
+
+function withError(message: string, err: Error | unknown): string {
+  const error = formatError(err);
+  return error ? `${message}: ${error}` : message;
+}
+
+let activeLogger: Logger | undefined;
+
+/**
+ * Logger used by the module-level functions below
+ */
+export function getLogger(): Logger {
+  if (!activeLogger) {
+    activeLogger = new Logger();
+  }
+  return activeLogger;
+}
+
+/**
+ * Replace the logger used by the module-level functions, returning the previous one
+ */
+export function setLogger(logger: Logger): Logger {
+  const previous = getLogger();
+  activeLogger = logger;
+  return previous;
+}
+
+export function debug(message: string): void {
+  getLogger().debug(message);
+}
+
 export function info(message: string): void {
-  console.log(`[INFO] ${message}`);
+  getLogger().info(message);
 }
 
-export function warn(message: string): void {
-  console.warn(`[WARN] ${message}`);
+export function warn(message: string, err?: Error | unknown): void {
+  getLogger().warn(message, err);
 }
 
 export function error(message: string, err?: Error | unknown): void {
-  const errorMsg = err instanceof Error ? err.message : String(err);
-  console.error(`[ERROR] ${message}${err ? `: ${errorMsg}` : ''}`);
+  getLogger().error(message, err);
 }
 
 export function success(message: string): void {
-  console.log(`[SUCCESS] ${message}`);
+  getLogger().success(message);
 }
 
 export function progress(current: number, total: number, message?: string): void {
-  const percentage = Math.round((current / total) * 100);
-  const progressBar = createProgressBar(current, total, 20);
-  const msg = message ? ` - ${message}` : '';
-  console.log(`[PROGRESS] ${progressBar} ${percentage}% (${current}/${total})${msg}`);
-}
-
-function createProgressBar(current: number, total: number, width: number = 20): string {
-  const filled = Math.round((current / total) * width);
-  const empty = width - filled;
-  return `[${'='.repeat(filled)}${' '.repeat(empty)}]`;
+  getLogger().progress(current, total, message);
 }
@@ -0,0 +1,189 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Manifest entry for one generated file
+ */
+export interface ManifestEntry {
+  path: string;
+  hash: string;
+  size: number;
+  lines: number;
+  generator: string;
+}
+
+/**
+ * Build manifest (output/manifest.json)
+ */
+export interface BuildManifest {
+  version: number;
+  files: ManifestEntry[];
+}
+
+/**
+ * Write statistics
+ */
+export interface OutputWriterStats {
+  written: number;
+  unchanged: number;
+  removed: number;
+}
+
+/**
+ * Output writer configuration
+ */
+export interface OutputWriterConfig {
+  rootDir: string;
+  manifestFile?: string;
+}
+
+const MANIFEST_VERSION = 1;
+
+/**
+ * Output Writer
+ * Shared incremental writer: skips files whose content is unchanged, removes files a generator
+ * no longer produces, and records every file in a build manifest
+ */
+export class OutputWriter {
+  private rootDir: string;
+  private manifestPath: string;
+  private entries = new Map<string, ManifestEntry>();
+  private activeGenerators = new Set<string>();
+  private stats: OutputWriterStats = { written: 0, unchanged: 0, removed: 0 };
+
+  constructor(config: OutputWriterConfig) {
+    this.rootDir = path.resolve(config.rootDir);
+    this.manifestPath = path.join(this.rootDir, config.manifestFile || 'manifest.json');
+  }
+
+  /**
+   * Hash content with SHA-256
+   */
+  static hash(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Write a file unless its content is identical to what is on disk
+   * @returns true if the file was written
+   */
+  async write(filePath: string, content: string, generator: string): Promise<boolean> {
+    const absolutePath = path.resolve(this.rootDir, filePath);
+    const hash = OutputWriter.hash(content);
+
+    this.activeGenerators.add(generator);
+    this.entries.set(this.toManifestPath(absolutePath), {
+      path: this.toManifestPath(absolutePath),
+      hash,
+      size: Buffer.byteLength(content, 'utf-8'),
+      lines: content.split('\n').length,
+      generator,
+    });
+
+    const existing = await fs.readFile(absolutePath, 'utf-8').catch(() => null);
+    if (existing !== null && OutputWriter.hash(existing) === hash) {
+      this.stats.unchanged++;
+      return false;
+    }
+
+    await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+    await fs.writeFile(absolutePath, content, 'utf-8');
+    this.stats.written++;
+    return true;
+  }
+
+  /**
+   * Remove orphans and write the manifest
+   * Files recorded by a generator that did not run this time are carried over unchanged
+   */
+  async finalize(): Promise<BuildManifest> {
+    const previous = await this.loadManifest();
+
+    for (const entry of previous?.files || []) {
+      if (this.entries.has(entry.path)) {
+        continue;
+      }
+      if (!this.activeGenerators.has(entry.generator)) {
+        this.entries.set(entry.path, entry);
+        continue;
+      }
+      await this.removeFile(path.resolve(this.rootDir, entry.path));
+    }
+
+    const manifest: BuildManifest = {
+      version: MANIFEST_VERSION,
+      files: Array.from(this.entries.values()).sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0)),
+    };
+
+    const content = JSON.stringify(manifest, null, 2) + '\n';
+    const existing = await fs.readFile(this.manifestPath, 'utf-8').catch(() => null);
+    if (existing !== content) {
+      await fs.mkdir(path.dirname(this.manifestPath), { recursive: true });
+      await fs.writeFile(this.manifestPath, content, 'utf-8');
+    }
+
+    return manifest;
+  }
+
+  /**
+   * Get write statistics
+   */
+  getStats(): OutputWriterStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Get output root directory
+   */
+  getRootDir(): string {
+    return this.rootDir;
+  }
+
+  /**
+   * Load the manifest from the previous build
+   */
+  private async loadManifest(): Promise<BuildManifest | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.manifestPath, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Remove an orphaned file and any directories it leaves empty
+   */
+  private async removeFile(absolutePath: string): Promise<void> {
+    try {
+      await fs.rm(absolutePath, { force: true });
+      this.stats.removed++;
+    } catch {
+      return;
+    }
+
+    let dir = path.dirname(absolutePath);
+    while (dir.startsWith(this.rootDir + path.sep)) {
+      const remaining = await fs.readdir(dir).catch(() => ['']);
+      if (remaining.length > 0) {
+        break;
+      }
+      await fs.rmdir(dir).catch(() => undefined);
+      dir = path.dirname(dir);
+    }
+  }
+
+  /**
+   * Convert an absolute path to a manifest path (relative, forward slashes)
+   */
+  private toManifestPath(absolutePath: string): string {
+    return path.relative(this.rootDir, absolutePath).split(path.sep).join('/');
+  }
+}
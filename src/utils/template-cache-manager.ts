@@ -220,6 +220,16 @@ export class TemplateCacheManager {
     return result;
   }
 
+  /**
+   * Get all cached workflows
+   */
+  async getAllCachedWorkflows(): Promise<Array<WorkflowDefinition & { id: number; name: string }>> {
+    const cache = await this.loadWorkflowCache();
+    return Array.from(cache.values())
+      .map(item => item.workflow)
+      .filter((workflow): workflow is WorkflowDefinition & { id: number; name: string } => workflow !== undefined);
+  }
+
   /**
    * Update cache
    * Save newly downloaded workflows and update ranking snapshot
@@ -11,6 +11,7 @@
  */
 
 import * as logger from '../utils/logger';
+import { DEFAULT_LOCALE, getMessages, type Locale } from '../i18n';
 
 /**
  * Validation result interface
@@ -54,15 +55,19 @@ export interface SkillStats {
 }
 
 /**
- * Required section headings
+ * Required section headings of a locale
  */
-const REQUIRED_SECTIONS = [
-  'n8n Workflow Automation',
-  '快速開始',
-  '節點索引',
-  '常見工作流程模式',
-  '資源檔案',
-];
+function getRequiredSections(locale: Locale): string[] {
+  const { headings } = getMessages(locale).skill;
+  return [
+    headings.title,
+    headings.whenToUse,
+    headings.quickNavigation,
+    headings.commonMistakes,
+    headings.resources,
+    headings.license,
+  ];
+}
 
 /**
  * Required YAML frontmatter fields
@@ -74,8 +79,9 @@ const REQUIRED_FRONTMATTER_FIELDS = [
 
 /**
  * Validate SKILL.md file
+ * Section headings are checked against the locale the file was generated in
  */
-export function validate(content: string): ValidationResult {
+export function validate(content: string, locale: Locale = DEFAULT_LOCALE): ValidationResult {
   logger.info('Starting SKILL.md file format validation');
 
   const errors: ValidationError[] = [];
@@ -103,7 +109,7 @@ export function validate(content: string): ValidationResult {
   warnings.push(...frontmatterResult.warnings);
 
   // Validate section structure
-  const sectionsResult = validateSections(lines);
+  const sectionsResult = validateSections(lines, getRequiredSections(locale));
   errors.push(...sectionsResult.errors);
   warnings.push(...sectionsResult.warnings);
 
@@ -230,26 +236,26 @@ function validateFrontmatter(lines: string[]): {
 /**
  * Validate section structure
  */
-function validateSections(lines: string[]): {
+function validateSections(lines: string[], requiredSections: string[]): {
   errors: ValidationError[];
   warnings: ValidationWarning[];
 } {
   const errors: ValidationError[] = [];
   const warnings: ValidationWarning[] = [];
 
-  // Collect all H1 headings
-  const h1Sections: string[] = [];
+  // Collect all H1 and H2 headings
+  const sections: string[] = [];
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i].trim();
-    const h1Match = line.match(/^#\s+(.+)$/);
-    if (h1Match) {
-      h1Sections.push(h1Match[1].trim());
+    const sectionMatch = line.match(/^#{1,2}\s+(.+)$/);
+    if (sectionMatch) {
+      sections.push(sectionMatch[1].trim());
     }
   }
 
   // Check required sections
-  for (const requiredSection of REQUIRED_SECTIONS) {
-    const found = h1Sections.some(section =>
+  for (const requiredSection of requiredSections) {
+    const found = sections.some(section =>
       section.toLowerCase().includes(requiredSection.toLowerCase())
     );
     if (!found) {
@@ -261,10 +267,10 @@ function validateSections(lines: string[]): {
   }
 
   // Check section count
-  if (h1Sections.length < 3) {
+  if (sections.length < 3) {
     warnings.push({
       type: 'SECTION',
-      message: `Too few sections: ${h1Sections.length} (recommended at least 3 main sections)`,
+      message: `Too few sections: ${sections.length} (recommended at least 3 main sections)`,
     });
   }
 
@@ -0,0 +1,216 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BuildDiffer, hasBuildChanges, type BuildSnapshot } from '../../src/analyzers/build-diff';
+import type { SimplifiedNodeInfo } from '../../src/collectors/npm-collector';
+import type { ParsedProperties } from '../../src/parsers/property-parser';
+import type { NodeConnectionInfo } from '../../src/models/connection';
+
+function createNode(nodeType: string, displayName: string, version = '1'): SimplifiedNodeInfo {
+  return {
+    nodeType,
+    displayName,
+    description: '',
+    category: 'transform',
+    packageName: 'n8n-nodes-base',
+    version,
+    isVersioned: false,
+    isTrigger: false,
+    isWebhook: false,
+    isAITool: false,
+    hasCredentials: false,
+    hasOperations: true,
+  };
+}
+
+function createProperties(
+  operations: string[],
+  coreProperties: ParsedProperties['coreProperties'],
+  totalPropertyCount = coreProperties.length
+): { properties: ParsedProperties } {
+  return {
+    properties: {
+      totalPropertyCount,
+      coreProperties,
+      operations: operations.map(value => ({ name: value, value, resource: 'message' })),
+      hasCredentials: false,
+      credentials: [],
+    } as unknown as ParsedProperties,
+  };
+}
+
+function createIo(nodeType: string, inputTypes: string[], outputTypes: string[]): NodeConnectionInfo {
+  return {
+    nodeType,
+    displayName: nodeType,
+    inputTypes,
+    outputTypes,
+    isMultiInput: false,
+    isMultiOutput: false,
+    requiresSpecialInputs: false,
+    category: 'transform',
+    outputCount: outputTypes.length,
+    outputNames: [],
+    isDynamicOutput: false,
+  } as NodeConnectionInfo;
+}
+
+const channel = { name: 'channel', displayName: 'Channel', type: 'string', required: true, default: '' };
+
+const before: BuildSnapshot = {
+  source: 'before',
+  nodes: [createNode('nodes-base.slack', 'Slack'), createNode('nodes-base.legacy', 'Legacy')],
+  properties: {
+    'nodes-base.slack': createProperties(['send', 'delete'], [channel, { ...channel, name: 'text', required: false }]),
+  },
+  connections: [createIo('nodes-base.slack', ['main'], ['main'])],
+  rankedNodes: [
+    { ...createNode('nodes-base.slack', 'Slack'), rank: 3, tier: 'essential' },
+    { ...createNode('nodes-base.legacy', 'Legacy'), rank: 40, tier: 'common' },
+  ],
+  templateRankings: {
+    version: '1.0.0',
+    fetchedAt: '2025-01-01T00:00:00.000Z',
+    rankings: [{ id: 1, rank: 1, totalViews: 500 }, { id: 2, rank: 2, totalViews: 400 }],
+  },
+  templateNames: { 1: 'Slack bot', 2: 'Old sync' },
+  manifest: {
+    version: 1,
+    files: [
+      { path: 'Skill.md', hash: 'a', size: 10, lines: 100, generator: 'skill' },
+      { path: 'resources/legacy.md', hash: 'b', size: 10, lines: 20, generator: 'resources' },
+    ],
+  },
+};
+
+const after: BuildSnapshot = {
+  source: 'after',
+  nodes: [createNode('nodes-base.slack', 'Slack', '2'), createNode('nodes-base.agent', 'AI Agent')],
+  properties: {
+    'nodes-base.slack': createProperties(
+      ['send', 'update'],
+      [{ ...channel, type: 'resourceLocator' }, { ...channel, name: 'blocks', required: false }],
+      5
+    ),
+  },
+  connections: [createIo('nodes-base.slack', ['main'], ['main', 'ai_tool'])],
+  rankedNodes: [
+    { ...createNode('nodes-base.agent', 'AI Agent'), rank: 1, tier: 'essential' },
+    { ...createNode('nodes-base.slack', 'Slack'), rank: 5, tier: 'essential' },
+  ],
+  templateRankings: {
+    version: '1.0.0',
+    fetchedAt: '2025-02-01T00:00:00.000Z',
+    rankings: [{ id: 3, rank: 1, totalViews: 900 }, { id: 1, rank: 2, totalViews: 550 }],
+  },
+  templateNames: { 1: 'Slack bot', 3: 'AI agent' },
+  manifest: {
+    version: 1,
+    files: [
+      { path: 'Skill.md', hash: 'c', size: 12, lines: 110, generator: 'skill' },
+      { path: 'resources/agent.md', hash: 'd', size: 10, lines: 30, generator: 'resources' },
+    ],
+  },
+};
+
+describe('BuildDiffer', () => {
+  it('should report added, removed and changed nodes', () => {
+    const diff = new BuildDiffer().diff(before, after);
+
+    expect(diff.compared).toEqual(['nodes', 'properties', 'connections', 'ranks', 'templates', 'files']);
+    expect(diff.addedNodes).toEqual([{ nodeType: 'nodes-base.agent', displayName: 'AI Agent' }]);
+    expect(diff.removedNodes).toEqual([{ nodeType: 'nodes-base.legacy', displayName: 'Legacy' }]);
+    expect(diff.changedNodes).toEqual([
+      expect.objectContaining({
+        nodeType: 'nodes-base.slack',
+        version: { from: '1', to: '2' },
+        addedOperations: ['message:update'],
+        removedOperations: ['message:delete'],
+        addedProperties: ['blocks'],
+        removedProperties: ['text'],
+        changedProperties: [{ name: 'channel', changes: ['type string → resourceLocator'] }],
+        propertyCount: { from: 2, to: 5 },
+        outputTypes: { from: ['main'], to: ['main', 'ai_tool'] },
+      }),
+    ]);
+    expect(diff.changedNodes[0].inputTypes).toBeUndefined();
+  });
+
+  it('should report tier changes and rank moves above the threshold', () => {
+    const diff = new BuildDiffer().diff(before, after);
+
+    expect(diff.rankChanges).toEqual([
+      { nodeType: 'nodes-base.agent', displayName: 'AI Agent', from: undefined, to: { rank: 1, tier: 'essential' } },
+      { nodeType: 'nodes-base.legacy', displayName: 'Legacy', from: { rank: 40, tier: 'common' }, to: undefined },
+    ]);
+    expect(new BuildDiffer({ minRankChange: 2 }).diff(before, after).rankChanges.map(change => change.nodeType))
+      .toContain('nodes-base.slack');
+  });
+
+  it('should report template ranking and generated file changes', () => {
+    const diff = new BuildDiffer().diff(before, after);
+
+    expect(diff.templateChanges.map(change => [change.id, change.change, change.name])).toEqual([
+      [3, 'added', 'AI agent'],
+      [1, 'moved', 'Slack bot'],
+      [2, 'removed', 'Old sync'],
+    ]);
+    expect(diff.fileChanges).toEqual([
+      { path: 'Skill.md', change: 'changed', fromLines: 100, toLines: 110 },
+      { path: 'resources/agent.md', change: 'added', toLines: 30 },
+      { path: 'resources/legacy.md', change: 'removed', fromLines: 20 },
+    ]);
+  });
+
+  it('should render a Markdown report for the changelog', () => {
+    const differ = new BuildDiffer();
+    const markdown = differ.toMarkdown(differ.diff(before, after));
+
+    expect(markdown).toContain('### Summary');
+    expect(markdown).toContain('- Nodes: 1 added, 1 removed, 1 changed');
+    expect(markdown).toContain('- AI Agent (`nodes-base.agent`)');
+    expect(markdown).toContain('  - Added operations: `message:update`');
+    expect(markdown).toContain('  - Outputs: main → main, ai_tool');
+    expect(markdown).toContain('| Legacy (`nodes-base.legacy`) | 40 → - | common → - |');
+    expect(markdown).toContain('| [AI agent](https://n8n.io/workflows/3) | added | - → 1 | - → 900 |');
+    expect(markdown).not.toContain('No changes.');
+
+    const unchanged = differ.diff(before, { ...before, source: 'copy' });
+    expect(hasBuildChanges(unchanged)).toBe(false);
+    expect(differ.toMarkdown(unchanged)).toContain('No changes.');
+  });
+
+  it('should load data/cache directories and manifest files', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'build-diff-test-'));
+    try {
+      fs.mkdirSync(path.join(dir, 'stages'));
+      fs.writeFileSync(path.join(dir, 'nodes.json'), JSON.stringify(before.nodes));
+      fs.writeFileSync(path.join(dir, 'stages', 'topNodes.json'), JSON.stringify(before.rankedNodes!.slice(0, 1)));
+      fs.writeFileSync(path.join(dir, 'stages', 'remainingNodes.json'), JSON.stringify(before.rankedNodes!.slice(1)));
+      fs.writeFileSync(path.join(dir, 'templates.json'), JSON.stringify([{ id: 1, name: 'Slack bot' }]));
+      fs.writeFileSync(path.join(dir, 'manifest.json'), JSON.stringify(before.manifest));
+
+      const snapshot = BuildDiffer.loadSnapshot(dir);
+      expect(snapshot.nodes).toHaveLength(2);
+      expect(snapshot.rankedNodes).toHaveLength(2);
+      expect(snapshot.templateNames).toEqual({ 1: 'Slack bot' });
+      expect(snapshot.properties).toBeUndefined();
+
+      const manifestOnly = BuildDiffer.loadSnapshot(path.join(dir, 'manifest.json'));
+      expect(manifestOnly.manifest?.files).toHaveLength(2);
+      expect(manifestOnly.nodes).toBeUndefined();
+
+      expect(() => BuildDiffer.loadSnapshot(path.join(dir, 'stages'))).toThrow('No build data found');
+      expect(() => BuildDiffer.loadSnapshot(path.join(dir, 'nodes.json'))).toThrow('Not a build manifest');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
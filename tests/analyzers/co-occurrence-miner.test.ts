@@ -0,0 +1,81 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CoOccurrenceMiner, getFollowingNodes, getPrecedingNodes } from '../../src/analyzers/co-occurrence-miner';
+import { TemplateCacheManager } from '../../src/utils/template-cache-manager';
+import { createNode, createWorkflow } from '../helpers/workflow-fixtures';
+
+const webhook = createNode('Webhook', 'n8n-nodes-base.webhook');
+const http = createNode('HTTP Request', 'n8n-nodes-base.httpRequest');
+const http2 = createNode('HTTP Request 2', 'n8n-nodes-base.httpRequest');
+const set = createNode('Edit Fields', 'n8n-nodes-base.set');
+const agent = createNode('AI Agent', '@n8n/n8n-nodes-langchain.agent');
+const model = createNode('OpenAI Chat Model', '@n8n/n8n-nodes-langchain.lmChatOpenAi');
+
+const workflows = [
+  createWorkflow(1, [webhook, http, http2, set], [
+    ['Webhook', 'HTTP Request'],
+    ['Webhook', 'HTTP Request 2'],
+    ['HTTP Request', 'Edit Fields'],
+  ]),
+  createWorkflow(2, [webhook, http, agent, model], [
+    ['Webhook', 'HTTP Request'],
+    ['HTTP Request', 'AI Agent'],
+    ['OpenAI Chat Model', 'AI Agent', 'ai_languageModel'],
+  ]),
+  createWorkflow(3, [webhook, set], [['Webhook', 'Edit Fields']]),
+];
+
+describe('CoOccurrenceMiner', () => {
+  it('should count direct main connections by node type and order', () => {
+    const graph = new CoOccurrenceMiner({ minWorkflows: 1 }).mine(workflows);
+
+    expect(graph.workflowCount).toBe(3);
+    expect(graph.nodeWorkflowCounts['nodes-base.webhook']).toBe(3);
+    expect(graph.transitions[0]).toEqual({
+      source: 'nodes-base.webhook',
+      target: 'nodes-base.httpRequest',
+      count: 3,
+      workflowCount: 2,
+    });
+    expect(graph.transitions.some(t => t.source === 'nodes-langchain.lmChatOpenAi')).toBe(false);
+    expect(getPrecedingNodes(graph, 'nodes-base.set').map(t => t.source)).toEqual([
+      'nodes-base.httpRequest',
+      'nodes-base.webhook',
+    ]);
+  });
+
+  it('should drop transitions seen in fewer workflows than the minimum', () => {
+    const graph = new CoOccurrenceMiner().mine(workflows);
+
+    expect(graph.transitions.map(t => `${t.source} -> ${t.target}`)).toEqual([
+      'nodes-base.webhook -> nodes-base.httpRequest',
+    ]);
+    expect(getFollowingNodes(graph, 'nodes-base.httpRequest')).toEqual([]);
+  });
+
+  it('should mine the workflows cached by the template cache manager', async () => {
+    const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'co-occurrence-test-'));
+    try {
+      const cacheManager = new TemplateCacheManager(cacheDir);
+      await cacheManager.updateCache(
+        workflows.map(workflow => ({ id: workflow.id, name: workflow.name, totalViews: 100 })),
+        workflows
+      );
+
+      const graph = new CoOccurrenceMiner().mine(await cacheManager.getAllCachedWorkflows());
+
+      expect(graph.workflowCount).toBe(3);
+      expect(graph.transitions).toHaveLength(1);
+    } finally {
+      fs.rmSync(cacheDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import { WorkflowPatternMiner } from '../../src/analyzers/workflow-pattern-miner';
+import type { WorkflowNode } from '../../src/collectors/api-collector';
+import { createNode, createWorkflow } from '../helpers/workflow-fixtures';
+
+const webhook = createNode('Webhook', 'n8n-nodes-base.webhook');
+const code = createNode('Code', 'n8n-nodes-base.code');
+const http = createNode('HTTP Request', 'n8n-nodes-base.httpRequest');
+const respond = createNode('Respond to Webhook', 'n8n-nodes-base.respondToWebhook');
+const slack = createNode('Slack', 'n8n-nodes-base.slack');
+const note = createNode('Note', 'n8n-nodes-base.stickyNote');
+const chatTrigger = createNode('Chat', '@n8n/n8n-nodes-langchain.chatTrigger');
+const agent = createNode('AI Agent', '@n8n/n8n-nodes-langchain.agent');
+const openAi = createNode('OpenAI', '@n8n/n8n-nodes-langchain.lmChatOpenAi');
+const anthropic = createNode('Claude', '@n8n/n8n-nodes-langchain.lmChatAnthropic');
+const memory = createNode('Memory', '@n8n/n8n-nodes-langchain.memoryBufferWindow');
+const tool = createNode('Calculator', '@n8n/n8n-nodes-langchain.toolCalculator');
+
+const apiWorkflow = (id: number, extra: WorkflowNode[] = []) => createWorkflow(
+  id,
+  [webhook, code, http, respond, ...extra],
+  [['Webhook', 'Code'], ['Code', 'HTTP Request'], ['HTTP Request', 'Respond to Webhook']]
+);
+
+const agentWorkflow = (id: number, model: WorkflowNode) => createWorkflow(
+  id,
+  [chatTrigger, agent, model, memory, tool],
+  [
+    ['Chat', 'AI Agent'],
+    [model.name, 'AI Agent', 'ai_languageModel'],
+    ['Memory', 'AI Agent', 'ai_memory'],
+    ['Calculator', 'AI Agent', 'ai_tool'],
+  ]
+);
+
+describe('WorkflowPatternMiner', () => {
+  const workflows = [
+    apiWorkflow(1, [slack, note]),
+    apiWorkflow(2),
+    createWorkflow(3, [webhook, code, slack], [['Webhook', 'Code'], ['Code', 'Slack']]),
+    agentWorkflow(4, openAi),
+    agentWorkflow(5, openAi),
+    agentWorkflow(6, anthropic),
+  ];
+
+  it('should keep the longest chain when its sub-chains occur in the same templates', () => {
+    const patterns = new WorkflowPatternMiner().mine(workflows);
+
+    expect(patterns.workflowCount).toBe(6);
+    expect(patterns.chains).toEqual([
+      {
+        nodeTypes: ['nodes-base.webhook', 'nodes-base.code', 'nodes-base.httpRequest', 'nodes-base.respondToWebhook'],
+        workflowCount: 2,
+        example: { id: 2, name: 'Workflow 2', nodeCount: 4 },
+      },
+    ]);
+  });
+
+  it('should group AI sub-nodes by connection type under their root node', () => {
+    const patterns = new WorkflowPatternMiner().mine(workflows);
+
+    expect(patterns.aiClusters).toEqual([
+      {
+        rootNodeType: 'nodes-langchain.agent',
+        connectionTypes: ['ai_languageModel', 'ai_memory', 'ai_tool'],
+        typicalSubNodes: {
+          ai_languageModel: 'nodes-langchain.lmChatOpenAi',
+          ai_memory: 'nodes-langchain.memoryBufferWindow',
+          ai_tool: 'nodes-langchain.toolCalculator',
+        },
+        workflowCount: 3,
+        example: { id: 4, name: 'Workflow 4', nodeCount: 5 },
+      },
+    ]);
+  });
+
+  it('should respect the minimum support and chain length', () => {
+    const patterns = new WorkflowPatternMiner({ minWorkflows: 3, minChainLength: 2 }).mine(workflows);
+
+    expect(patterns.chains.map(chain => chain.nodeTypes)).toEqual([
+      ['nodes-base.webhook', 'nodes-base.code'],
+      ['nodes-langchain.chatTrigger', 'nodes-langchain.agent'],
+    ]);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import { WorkflowValidator, normalizeNodeType } from '../../src/analyzers/workflow-validator';
+import { PropertyTreeParser } from '../../src/parsers/property-tree-parser';
+import type { SimplifiedNodeInfo } from '../../src/collectors/npm-collector';
+import type { WorkflowDefinition, WorkflowNode } from '../../src/collectors/api-collector';
+
+describe('WorkflowValidator', () => {
+  const nodeInfo = (nodeType: string, version: string): SimplifiedNodeInfo => ({
+    nodeType,
+    displayName: nodeType,
+    description: '',
+    category: 'misc',
+    packageName: nodeType.startsWith('nodes-langchain') ? '@n8n/n8n-nodes-langchain' : 'n8n-nodes-base',
+    version,
+    isVersioned: false,
+    isTrigger: false,
+    isWebhook: false,
+    isAITool: false,
+    hasCredentials: false,
+    hasOperations: false
+  });
+
+  const slackTree = new PropertyTreeParser().parseDescription(
+    {
+      properties: [
+        {
+          name: 'operation',
+          displayName: 'Operation',
+          type: 'options',
+          default: 'post',
+          options: [
+            { name: 'Send', value: 'post' },
+            { name: 'Get Many', value: 'getAll' }
+          ]
+        },
+        {
+          name: 'channelId',
+          displayName: 'Channel',
+          type: 'resourceLocator',
+          required: true,
+          default: { mode: 'list', value: '' },
+          displayOptions: { show: { operation: ['post'] } }
+        },
+        {
+          name: 'limit',
+          displayName: 'Limit',
+          type: 'number',
+          required: true,
+          default: 50,
+          displayOptions: { show: { operation: ['getAll'] } }
+        }
+      ]
+    },
+    2
+  );
+
+  const validator = new WorkflowValidator({
+    nodes: [
+      nodeInfo('nodes-base.manualTrigger', '1'),
+      nodeInfo('nodes-base.slack', '2'),
+      nodeInfo('nodes-langchain.agent', '2'),
+      nodeInfo('nodes-langchain.lmChatOpenAi', '1')
+    ],
+    properties: {
+      'nodes-base.slack': {
+        properties: {
+          coreProperties: [],
+          operations: [],
+          hasCredentials: true,
+          totalPropertyCount: 3,
+          propertyTree: slackTree,
+          versions: [1, 2].map(version => ({
+            version,
+            coreProperties: [],
+            operations: [],
+            hasCredentials: true,
+            totalPropertyCount: 3,
+            inputTypes: ['main'],
+            outputTypes: ['main']
+          }))
+        }
+      }
+    },
+    connections: [
+      {
+        nodeType: 'nodes-base.manualTrigger',
+        displayName: 'Manual Trigger',
+        inputTypes: [],
+        outputTypes: ['main'],
+        isMultiInput: false,
+        isMultiOutput: false,
+        requiresSpecialInputs: false,
+        category: 'trigger',
+        outputCount: 1,
+        outputNames: [],
+        isDynamicOutput: false
+      }
+    ]
+  });
+
+  const node = (name: string, type: string, typeVersion: number, parameters: Record<string, any> = {}): WorkflowNode => ({
+    id: name,
+    name,
+    type,
+    typeVersion,
+    position: [0, 0],
+    parameters
+  });
+
+  const codes = (workflow: WorkflowDefinition) =>
+    validator.validate(workflow).issues.map(issue => `${issue.code}:${issue.node}`);
+
+  it('should normalize workflow node types', () => {
+    expect(normalizeNodeType('n8n-nodes-base.slack')).toBe('nodes-base.slack');
+    expect(normalizeNodeType('@n8n/n8n-nodes-langchain.agent')).toBe('nodes-langchain.agent');
+    expect(normalizeNodeType('n8n-nodes-internal.ticket')).toBe('n8n-nodes-internal.ticket');
+    expect(normalizeNodeType('@acme/n8n-nodes-crm.contact')).toBe('@acme/n8n-nodes-crm.contact');
+  });
+
+  it('should accept a valid workflow', () => {
+    const result = validator.validate({
+      nodes: [
+        node('Start', 'n8n-nodes-base.manualTrigger', 1),
+        node('Slack', 'n8n-nodes-base.slack', 2, { channelId: { __rl: true, mode: 'id', value: 'C123' } })
+      ],
+      connections: { Start: { main: [[{ node: 'Slack', type: 'main', index: 0 }]] } }
+    });
+
+    expect(result).toEqual({ valid: true, errorCount: 0, warningCount: 0, issues: [] });
+  });
+
+  it('should report unknown node types and typeVersions', () => {
+    expect(
+      codes({
+        nodes: [
+          node('Missing', 'n8n-nodes-base.doesNotExist', 1),
+          node('Community', 'n8n-nodes-evolution-api.evolutionApi', 1),
+          node('Slack', 'n8n-nodes-base.slack', 3)
+        ],
+        connections: {}
+      })
+    ).toEqual([
+      'unknown-node-type:Missing',
+      'unknown-node-type:Community',
+      'invalid-type-version:Slack'
+    ]);
+
+    const [, community] = validator.validate({
+      nodes: [node('Missing', 'n8n-nodes-base.doesNotExist', 1), node('Community', 'n8n-nodes-evolution-api.evolutionApi', 1)],
+      connections: {}
+    }).issues;
+    expect(community.severity).toBe('warning');
+  });
+
+  it('should only reject newer typeVersions when the version list is unknown', () => {
+    const legacy = new WorkflowValidator({ nodes: [nodeInfo('nodes-base.slack', '2.2')] });
+    const check = (typeVersion: number) =>
+      legacy.validate({ nodes: [node('Slack', 'n8n-nodes-base.slack', typeVersion)], connections: {} }).issues.map(issue => issue.code);
+
+    expect(check(1)).toEqual([]);
+    expect(check(2.3)).toEqual(['invalid-type-version']);
+  });
+
+  it('should report required parameters for the selected operation', () => {
+    expect(codes({ nodes: [node('Slack', 'n8n-nodes-base.slack', 2)], connections: {} })).toEqual([
+      'missing-required-parameter:Slack'
+    ]);
+    expect(codes({ nodes: [node('Slack', 'n8n-nodes-base.slack', 2, { operation: 'getAll' })], connections: {} })).toEqual([]);
+    // Older versions have no property tree to check against
+    expect(codes({ nodes: [node('Slack', 'n8n-nodes-base.slack', 1)], connections: {} })).toEqual([]);
+  });
+
+  it('should report dangling and incompatible connections', () => {
+    expect(
+      codes({
+        nodes: [
+          node('Start', 'n8n-nodes-base.manualTrigger', 1),
+          node('Slack', 'n8n-nodes-base.slack', 2, { operation: 'getAll' })
+        ],
+        connections: {
+          Slack: { main: [[{ node: 'Start', type: 'main', index: 0 }, { node: 'Gone', type: 'main', index: 0 }]] },
+          Ghost: { main: [[{ node: 'Slack', type: 'main', index: 0 }]] }
+        }
+      })
+    ).toEqual(['incompatible-connection:Start', 'dangling-connection:Slack', 'dangling-connection:Ghost']);
+  });
+
+  it('should report missing AI sub-node inputs', () => {
+    const agent = node('Agent', '@n8n/n8n-nodes-langchain.agent', 2);
+    const model = node('Model', '@n8n/n8n-nodes-langchain.lmChatOpenAi', 1);
+
+    expect(codes({ nodes: [agent], connections: {} })).toEqual(['missing-ai-input:Agent']);
+    expect(
+      codes({
+        nodes: [agent, model],
+        connections: { Model: { ai_languageModel: [[{ node: 'Agent', type: 'ai_languageModel', index: 0 }]] } }
+      })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,320 @@
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { SkillBuilder } from '../../src/builder/skill-builder';
+import { quickBuild } from '../../src/index';
+import { ApiCollector } from '../../src/collectors/api-collector';
+import { FixtureTransport, type HttpRequest, type HttpResponse } from '../../src/utils/http-transport';
+import * as logger from '../../src/utils/logger';
+
+// Builds collect only the local test package, whether or not the core node packages are installed
+jest.mock('n8n-nodes-base/package.json', () => ({ name: 'n8n-nodes-base', n8n: { nodes: [] } }), { virtual: true });
+jest.mock('@n8n/n8n-nodes-langchain/package.json', () => ({ name: '@n8n/n8n-nodes-langchain', n8n: { nodes: [] } }), { virtual: true });
+
+describe('SkillBuilder', () => {
+  let tempRoot: string;
+
+  beforeEach(async () => {
+    tempRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'n8n-skills-builder-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(tempRoot, { recursive: true, force: true });
+  });
+
+  it('should throw when the config file cannot be loaded', () => {
+    expect(() => new SkillBuilder({ projectRoot: tempRoot })).toThrow();
+  });
+
+  it('should load config relative to projectRoot', async () => {
+    await fs.mkdir(path.join(tempRoot, 'config'));
+    await fs.writeFile(
+      path.join(tempRoot, 'config/custom.json'),
+      JSON.stringify({ max_nodes_in_main_skill: 10 }),
+      'utf-8'
+    );
+
+    expect(
+      () => new SkillBuilder({ projectRoot: tempRoot, configPath: 'config/custom.json', maxNodes: 5 })
+    ).not.toThrow();
+  });
+
+  it('should throw when a local extra package cannot be read', async () => {
+    await fs.mkdir(path.join(tempRoot, 'config'));
+    await fs.writeFile(
+      path.join(tempRoot, 'config/skill-config.json'),
+      JSON.stringify({ max_nodes_in_main_skill: 10, extra_packages: ['./packages/missing'] }),
+      'utf-8'
+    );
+
+    expect(() => new SkillBuilder({ projectRoot: tempRoot })).toThrow('Cannot read extra package ./packages/missing');
+  });
+
+  describe('stages', () => {
+    beforeEach(async () => {
+      await fs.mkdir(path.join(tempRoot, 'config'));
+      await fs.writeFile(
+        path.join(tempRoot, 'config/skill-config.json'),
+        JSON.stringify({ max_nodes_in_main_skill: 10 }),
+        'utf-8'
+      );
+    });
+
+    it('should run a registered third-party stage on its own', async () => {
+      const run = jest.fn(async () => undefined);
+      const builder = new SkillBuilder({ projectRoot: tempRoot, only: ['custom'] });
+      builder.registerStage({ name: 'custom', needs: [], produces: [], run }, { after: 'skill' });
+
+      const result = await builder.build();
+
+      expect(result.success).toBe(true);
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(builder.listStages().map(s => s.name).pop()).toBe('custom');
+    });
+
+    it('should reuse artifacts persisted by a previous build', async () => {
+      const producer = new SkillBuilder({ projectRoot: tempRoot, only: ['producer'] });
+      producer.registerStage({
+        name: 'producer',
+        needs: [],
+        produces: ['answer'],
+        run: async ctx => ctx.set('answer', 42),
+      });
+      expect((await producer.build()).success).toBe(true);
+
+      let received: number | undefined;
+      const consumer = new SkillBuilder({ projectRoot: tempRoot, only: ['consumer'] });
+      consumer.registerStage({
+        name: 'consumer',
+        needs: ['answer'],
+        produces: [],
+        run: async ctx => {
+          received = ctx.get<number>('answer');
+        },
+      });
+
+      expect((await consumer.build()).success).toBe(true);
+      expect(received).toBe(42);
+    });
+
+    it('should fail when a needed artifact is unavailable', async () => {
+      const builder = new SkillBuilder({ projectRoot: tempRoot, only: ['skill'] });
+
+      const result = await builder.build();
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toContain('run stage "organize" first');
+    });
+
+    it('should log each stage as JSON lines and summarize warnings by stage', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const builder = new SkillBuilder({
+        projectRoot: tempRoot,
+        only: ['custom'],
+        logFile: 'logs/build.jsonl',
+        summaryFile: 'logs/summary.json',
+      });
+      builder.registerStage({
+        name: 'custom',
+        needs: [],
+        produces: [],
+        run: async () => logger.warn('Something looks off'),
+      });
+
+      expect((await builder.build()).success).toBe(true);
+
+      const records = (await fs.readFile(path.join(tempRoot, 'logs/build.jsonl'), 'utf-8'))
+        .trim()
+        .split('\n')
+        .map(line => JSON.parse(line));
+      expect(records).toContainEqual(expect.objectContaining({ level: 'warn', stage: 'custom', message: 'Something looks off' }));
+      expect(records).toContainEqual(expect.objectContaining({ stage: 'custom', durationMs: expect.any(Number) }));
+
+      const summary = JSON.parse(await fs.readFile(path.join(tempRoot, 'logs/summary.json'), 'utf-8'));
+      expect(summary.success).toBe(true);
+      expect(summary.warningCount).toBe(1);
+      expect(summary.stages).toContainEqual({
+        name: 'custom',
+        durationMs: expect.any(Number),
+        warnings: ['Something looks off'],
+        errors: [],
+      });
+    });
+
+    it('should reject unknown log levels', () => {
+      expect(() => new SkillBuilder({ projectRoot: tempRoot, logLevel: 'verbose' as any })).toThrow('Invalid log level: verbose');
+    });
+  });
+
+  describe('recorded fixtures', () => {
+    const templates = [
+      { id: 101, name: 'Telegram support chatbot with AI agent', totalViews: 9000 },
+      { id: 102, name: 'Sync Postgres rows to Google Sheets', totalViews: 4000 },
+      { id: 103, name: 'Learn n8n expressions tutorial', totalViews: 800 },
+    ].map(template => ({
+      ...template,
+      description: '',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      user: { id: 1, name: 'Test User', username: 'tester', verified: false },
+      nodes: [{ id: 1, name: 'n8n-nodes-base.httpRequest' }],
+    }));
+
+    /**
+     * Fake n8n.io API used only while recording
+     */
+    const upstream = {
+      request: async (request: HttpRequest): Promise<HttpResponse<any>> => {
+        const workflowId = request.url.match(/\/workflows\/templates\/(\d+)$/);
+        if (workflowId) {
+          const template = templates.find(t => t.id === Number(workflowId[1]))!;
+          return {
+            status: 200,
+            data: {
+              id: template.id,
+              name: template.name,
+              workflow: {
+                nodes: [{ id: '1', name: 'Trigger', type: 'n8n-nodes-base.manualTrigger', typeVersion: 1, position: [0, 0], parameters: {} }],
+                connections: {},
+              },
+            },
+          };
+        }
+        const page = Number(request.params?.page);
+        return { status: 200, data: { workflows: page === 1 ? templates.slice(0, 2) : templates.slice(2), totalWorkflows: 3 } };
+      },
+    };
+
+    beforeEach(async () => {
+      await fs.mkdir(path.join(tempRoot, 'config'));
+      await fs.writeFile(
+        path.join(tempRoot, 'config/skill-config.json'),
+        JSON.stringify({
+          max_nodes_in_main_skill: 10,
+          max_template_examples: 2,
+          template_collection: { page_size: 2, per_category: 5 },
+        }),
+        'utf-8'
+      );
+
+      // Record the requests a build makes
+      const recorder = new ApiCollector({
+        transport: new FixtureTransport({ fixturesDir: path.join(tempRoot, 'data/fixtures'), mode: 'record', upstream }),
+      });
+      await recorder.fetchAllTemplates({ pageSize: 2, delayMs: 0 });
+      await recorder.fetchWorkflowDefinitions(templates.map(t => t.id), 0);
+    });
+
+    it('should run the collect and template stages without network', async () => {
+      const builder = new SkillBuilder({ projectRoot: tempRoot, only: ['usage', 'templates'], httpMode: 'replay' });
+
+      const result = await builder.build();
+
+      expect(result.success).toBe(true);
+      const index = await fs.readFile(path.join(tempRoot, 'output/resources/templates/README.md'), 'utf-8');
+      expect(index).toContain('- Total Templates: 3');
+      const learning = await fs.readdir(path.join(tempRoot, 'output/resources/templates/learning'));
+      expect(learning).toContain('103-learn-n8n-expressions-tutorial.md');
+    });
+  });
+
+  describe('replay build', () => {
+    const fixturesDir = path.resolve(__dirname, '../../data/fixtures');
+    let httpMode: string | undefined;
+
+    beforeEach(async () => {
+      httpMode = process.env.N8N_SKILLS_HTTP_MODE;
+      process.env.N8N_SKILLS_HTTP_MODE = 'replay';
+
+      // data/fixtures answers one page of 3 templates and their workflows
+      await fs.cp(path.resolve(__dirname, '../../config'), path.join(tempRoot, 'config'), { recursive: true });
+      await fs.writeFile(
+        path.join(tempRoot, 'config/skill-config.json'),
+        JSON.stringify({
+          max_nodes_in_main_skill: 1,
+          max_template_examples: 3,
+          extra_packages: ['./packages/n8n-nodes-internal'],
+          template_collection: { page_size: 3, max_pages: 1, per_category: 5 },
+        }),
+        'utf-8'
+      );
+
+      const packageDir = path.join(tempRoot, 'packages/n8n-nodes-internal');
+      await fs.mkdir(path.join(packageDir, 'dist'), { recursive: true });
+      await fs.writeFile(
+        path.join(packageDir, 'package.json'),
+        JSON.stringify({ name: '@acme/n8n-nodes-internal', version: '1.0.0', n8n: { nodes: ['dist/Ticket.node.js', 'dist/TicketTrigger.node.js'] } }),
+        'utf-8'
+      );
+      const nodeSource = (className: string, name: string, group: string) => `exports.${className} = class ${className} {
+        constructor() {
+          this.description = {
+            displayName: '${className}',
+            name: '${name}',
+            group: ['${group}'],
+            version: 1,
+            description: '${className} node of the internal helpdesk',
+            inputs: ${group === 'trigger' ? '[]' : "['main']"},
+            outputs: ['main'],
+            credentials: [{ name: 'ticketApi', required: true }],
+            properties: [{ displayName: 'Title', name: 'title', type: 'string', default: '' }]
+          };
+        }
+      };`;
+      await fs.writeFile(path.join(packageDir, 'dist/Ticket.node.js'), nodeSource('Ticket', 'ticket', 'output'), 'utf-8');
+      await fs.writeFile(path.join(packageDir, 'dist/TicketTrigger.node.js'), nodeSource('TicketTrigger', 'ticketTrigger', 'trigger'), 'utf-8');
+    });
+
+    afterEach(() => {
+      if (httpMode === undefined) {
+        delete process.env.N8N_SKILLS_HTTP_MODE;
+      } else {
+        process.env.N8N_SKILLS_HTTP_MODE = httpMode;
+      }
+    });
+
+    it('should build the whole skill pack from the recorded fixtures', async () => {
+      const builder = new SkillBuilder({ projectRoot: tempRoot, fixturesDir });
+
+      const result = await builder.build();
+
+      expect(result.errors).toBeUndefined();
+      expect(result).toMatchObject({ success: true, totalNodes: 2 });
+      const manifest = JSON.parse(await fs.readFile(path.join(tempRoot, 'output/data/manifest.json'), 'utf-8'));
+      expect(manifest.files.nodes.count).toBe(2);
+      await expect(fs.access(path.join(tempRoot, 'output/SKILL.md'))).resolves.toBeUndefined();
+      await expect(fs.access(path.join(tempRoot, 'output/resources/output/acme-n8n-nodes-internal.ticket.md'))).resolves.toBeUndefined();
+      const index = await fs.readFile(path.join(tempRoot, 'output/resources/templates/README.md'), 'utf-8');
+      expect(index).toContain('- Total Templates: 3');
+      const workflows = JSON.parse(await fs.readFile(path.join(tempRoot, 'data/cache/template-workflows.json'), 'utf-8'));
+      expect(workflows.map((workflow: { id: number }) => workflow.id).sort()).toEqual([4722, 5148, 5170]);
+    });
+
+    it('should honor outputDir and maxNodes when built through quickBuild', async () => {
+      // The working directory lists community packages; this project lists none
+      await fs.writeFile(path.join(tempRoot, 'config/community-packages.json'), JSON.stringify({ packages: [] }), 'utf-8');
+
+      const result = await quickBuild({ projectRoot: tempRoot, fixturesDir, outputDir: 'dist/skill', maxNodes: 2 });
+
+      expect(result.errors).toBeUndefined();
+      expect(result).toMatchObject({ success: true, topNodes: 2, outputPath: path.join(tempRoot, 'dist/skill') });
+      await expect(fs.access(path.join(tempRoot, 'dist/skill/SKILL.md'))).resolves.toBeUndefined();
+      await expect(fs.access(path.join(tempRoot, 'output'))).rejects.toThrow();
+      const index = await fs.readFile(path.join(tempRoot, 'dist/skill/resources/INDEX.md'), 'utf-8');
+      expect(index).not.toContain('[Community Packages](#community-packages)');
+    });
+  });
+
+  describe('quickBuild', () => {
+    it('should return a failed result instead of throwing when config is missing', async () => {
+      const result = await quickBuild({ configPath: path.join(tempRoot, 'missing.json') });
+
+      expect(result.success).toBe(false);
+      expect(result.totalNodes).toBe(0);
+      expect(result.errors).toHaveLength(1);
+      expect(result.duration).toBeGreaterThanOrEqual(0);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { StageRegistry, BuildStage } from '../../src/builder/stage-registry';
+
+function stage(name: string, needs: string[] = [], produces: string[] = []): BuildStage {
+  return { name, needs, produces, run: async () => undefined };
+}
+
+describe('StageRegistry', () => {
+  let registry: StageRegistry;
+
+  beforeEach(() => {
+    registry = new StageRegistry();
+    registry.register(stage('collect', [], ['nodes']));
+    registry.register(stage('organize', ['nodes'], ['topNodes']));
+    registry.register(stage('templates'));
+    registry.register(stage('skill', ['topNodes']));
+  });
+
+  const names = (stages: BuildStage[]) => stages.map(s => s.name);
+
+  it('should keep registration order', () => {
+    expect(names(registry.list())).toEqual(['collect', 'organize', 'templates', 'skill']);
+  });
+
+  it('should insert stages relative to existing ones', () => {
+    registry.register(stage('lint'), { after: 'organize' });
+    registry.register(stage('prepare'), { before: 'collect' });
+
+    expect(names(registry.list())).toEqual(['prepare', 'collect', 'organize', 'lint', 'templates', 'skill']);
+  });
+
+  it('should reject duplicate stage names', () => {
+    expect(() => registry.register(stage('collect'))).toThrow('already registered');
+  });
+
+  describe('select', () => {
+    it('should return all stages by default', () => {
+      expect(names(registry.select())).toEqual(['collect', 'organize', 'templates', 'skill']);
+    });
+
+    it('should support only, skip and from', () => {
+      expect(names(registry.select({ only: ['templates'] }))).toEqual(['templates']);
+      expect(names(registry.select({ skip: ['templates'] }))).toEqual(['collect', 'organize', 'skill']);
+      expect(names(registry.select({ from: 'organize' }))).toEqual(['organize', 'templates', 'skill']);
+      expect(names(registry.select({ from: 'organize', skip: ['skill'] }))).toEqual(['organize', 'templates']);
+    });
+
+    it('should throw for unknown stage names', () => {
+      expect(() => registry.select({ only: ['missing'] })).toThrow('Unknown build stage: missing');
+    });
+  });
+
+  it('should find the producer of an artifact', () => {
+    expect(registry.findProducer('topNodes')?.name).toBe('organize');
+    expect(registry.findProducer('unknown')).toBeUndefined();
+  });
+});
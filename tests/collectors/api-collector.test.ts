@@ -0,0 +1,75 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import { ApiCollector } from '../../src/collectors/api-collector';
+import type { HttpRequest, HttpTransport } from '../../src/utils/http-transport';
+
+/**
+ * Transport answering template searches by page number
+ */
+function createTransport(respond: (page: number) => unknown): HttpTransport & { request: jest.Mock } {
+  return {
+    request: jest.fn(async (request: HttpRequest) => ({ status: 200, data: respond(Number(request.params?.page)) })),
+  } as HttpTransport & { request: jest.Mock };
+}
+
+function createTemplate(id: number, totalViews: number) {
+  return {
+    id,
+    name: `Template ${id}`,
+    description: '',
+    totalViews,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    user: { id: 1, name: 'Test User', username: 'tester', verified: false },
+    nodes: [{ id: 1, name: 'n8n-nodes-base.httpRequest' }],
+  };
+}
+
+describe('ApiCollector pagination', () => {
+  let log: jest.SpyInstance;
+
+  beforeEach(() => {
+    log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+  });
+
+  it('should collect every page of the template catalog', async () => {
+    const pages: Record<number, ReturnType<typeof createTemplate>[]> = {
+      1: [createTemplate(1, 5000), createTemplate(2, 4000)],
+      // Template 2 moved down a page while paging
+      2: [createTemplate(2, 4000), createTemplate(3, 200)],
+      3: [createTemplate(4, 1500)],
+    };
+    const transport = createTransport(page => ({ workflows: pages[page] || [], totalWorkflows: 5 }));
+    const collector = new ApiCollector({ transport });
+
+    const result = await collector.fetchAllTemplates({ pageSize: 2, minViews: 1000, delayMs: 0 });
+
+    expect(transport.request).toHaveBeenCalledTimes(3);
+    expect(transport.request).toHaveBeenCalledWith({
+      method: 'GET',
+      url: 'https://api.n8n.io/api/templates/search',
+      params: { page: 1, rows: 2 },
+    });
+    expect(result.templates.map(template => template.id)).toEqual([1, 2, 4]);
+    expect(result.totalTemplates).toBe(5);
+    expect(result.nodeUsageStats['n8n-nodes-base.httpRequest'].count).toBe(3);
+  });
+
+  it('should stop at the page limit', async () => {
+    const transport = createTransport(page => ({ workflows: [createTemplate(page, 100)], totalWorkflows: 1000 }));
+    const collector = new ApiCollector({ transport });
+
+    const result = await collector.fetchAllTemplates({ pageSize: 1, maxPages: 2, delayMs: 0 });
+
+    expect(transport.request).toHaveBeenCalledTimes(2);
+    expect(result.templates.map(template => template.id)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { CommunityCollector } from '../../src/collectors/community-collector';
+import { CommunityGenerator } from '../../src/generators/community-generator';
+
+const NODE_SOURCE = `
+const { NodeConnectionTypes } = require('n8n-workflow');
+const { formatGreeting } = require('./helpers');
+
+class Greeter {
+  constructor() {
+    this.description = {
+      displayName: 'Greeter',
+      name: 'greeter',
+      group: ['transform'],
+      version: [1, 2],
+      description: formatGreeting('nodes'),
+      inputs: [NodeConnectionTypes.Main],
+      outputs: [NodeConnectionTypes.Main],
+      properties: [
+        { displayName: 'Name', name: 'name', type: 'string', default: '', required: true }
+      ]
+    };
+  }
+}
+
+module.exports = { Greeter };
+`;
+
+/**
+ * Write a minimal community package to disk
+ */
+function writePackage(dir: string, n8n: Record<string, unknown> = { nodes: ['dist/nodes/Greeter/Greeter.node.js'] }): void {
+  const nodeDir = path.join(dir, 'dist', 'nodes', 'Greeter');
+  fs.mkdirSync(nodeDir, { recursive: true });
+  fs.writeFileSync(
+    path.join(dir, 'package.json'),
+    JSON.stringify({
+      name: '@acme/n8n-nodes-greeter',
+      version: '0.3.1',
+      description: 'Greets everyone',
+      peerDependencies: { 'n8n-workflow': '*' },
+      n8n,
+    })
+  );
+  fs.writeFileSync(path.join(nodeDir, 'Greeter.node.js'), NODE_SOURCE);
+  fs.writeFileSync(path.join(nodeDir, 'helpers.js'), 'exports.formatGreeting = (what) => `Greets ${what}`;\n');
+}
+
+function listIngestionDirs(): string[] {
+  return fs.readdirSync(os.tmpdir()).filter(name => name.startsWith('n8n-skills-community-'));
+}
+
+describe('CommunityCollector offline ingestion', () => {
+  let collector: CommunityCollector;
+  let fixtureDir: string;
+
+  beforeEach(() => {
+    collector = new CommunityCollector();
+    fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'community-fixture-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(fixtureDir, { recursive: true, force: true });
+  });
+
+  it('should detect the source type of a local reference', () => {
+    const packageDir = path.join(fixtureDir, 'greeter');
+    writePackage(packageDir);
+    const tarball = path.join(fixtureDir, 'greeter-0.3.1.tgz');
+    fs.writeFileSync(tarball, '');
+
+    expect(collector.resolveLocalSource(packageDir)).toEqual({ type: 'directory', location: packageDir });
+    expect(collector.resolveLocalSource(tarball)).toEqual({ type: 'tarball', location: tarball });
+    expect(collector.resolveLocalSource('n8n-nodes-greeter@0.3.1')).toEqual({
+      type: 'npm-cache',
+      location: 'n8n-nodes-greeter@0.3.1',
+    });
+    expect(() => collector.resolveLocalSource(path.join(packageDir, 'package.json'))).toThrow('Unsupported package source');
+  });
+
+  it('should parse nodes from a package directory', async () => {
+    const packageDir = path.join(fixtureDir, 'greeter');
+    writePackage(packageDir);
+    const before = listIngestionDirs();
+
+    const details = await collector.ingestLocalPackage(packageDir);
+
+    expect(details.loadError).toBeUndefined();
+    expect(details.packageName).toBe('@acme/n8n-nodes-greeter');
+    expect(details.packageVersion).toBe('0.3.1');
+    expect(details.nodes).toHaveLength(1);
+    expect(details.nodes[0]).toMatchObject({
+      nodeType: '@acme/n8n-nodes-greeter.greeter',
+      displayName: 'Greeter',
+      description: 'Greets nodes',
+      version: '2',
+    });
+    // The temp directory is removed and the source is left untouched
+    expect(listIngestionDirs()).toEqual(before);
+    expect(fs.existsSync(path.join(packageDir, 'node_modules'))).toBe(false);
+  });
+
+  it('should parse nodes from an npm tarball', async () => {
+    writePackage(path.join(fixtureDir, 'package'));
+    const tarball = path.join(fixtureDir, 'acme-n8n-nodes-greeter-0.3.1.tgz');
+    execFileSync('tar', ['-czf', tarball, '-C', fixtureDir, 'package']);
+
+    const details = await collector.ingestLocalPackage(tarball);
+
+    expect(details.loadError).toBeUndefined();
+    expect(details.nodes.map(node => node.nodeType)).toEqual(['@acme/n8n-nodes-greeter.greeter']);
+  });
+
+  it('should record a load error when the package declares no nodes', async () => {
+    const packageDir = path.join(fixtureDir, 'empty');
+    writePackage(packageDir, {});
+
+    const details = await collector.ingestLocalPackage(packageDir);
+
+    expect(details.nodes).toEqual([]);
+    expect(details.loadError).toBe('No nodes found in package.json n8n.nodes');
+  });
+
+  it('should record a load error for packages that hang while loading', async () => {
+    const packageDir = path.join(fixtureDir, 'greeter');
+    writePackage(packageDir);
+    fs.writeFileSync(path.join(packageDir, 'dist', 'nodes', 'Greeter', 'helpers.js'), 'while (true) {}\n');
+
+    const details = await new CommunityCollector({ sandbox: { timeout: 1000 } }).ingestLocalPackage(packageDir);
+
+    expect(details.packageName).toBe('@acme/n8n-nodes-greeter');
+    expect(details.nodes).toEqual([]);
+    expect(details.loadError).toBe('Failed to load package: Timed out after 1000ms');
+  });
+
+  it('should document an ingested package in the generated community docs', async () => {
+    const packageDir = path.join(fixtureDir, 'greeter');
+    writePackage(packageDir);
+    const configPath = path.join(fixtureDir, 'community-packages.json');
+    const cachePath = path.join(fixtureDir, 'community-nodes.json');
+    const outputDir = path.join(fixtureDir, 'community');
+    await collector.saveToConfig(
+      { version: '1.0.0', lastUpdated: '2025-01-01T00:00:00.000Z', limit: 30, packages: [] },
+      configPath
+    );
+
+    const details = await collector.ingestLocalPackage(packageDir);
+    await collector.saveNodesCache({ lastUpdated: '2025-01-01T00:00:00.000Z', nodes: { [details.packageName]: details } }, cachePath);
+    await collector.saveToConfig(collector.addLocalPackages(await collector.loadFromConfig(configPath), [details]), configPath);
+    await new CommunityGenerator({ outputDir, configPath, cachePath }).generate();
+
+    expect((await collector.loadFromConfig(configPath))?.packages).toEqual([
+      expect.objectContaining({ name: '@acme/n8n-nodes-greeter', description: 'Greets everyone', version: '0.3.1', source: 'local' }),
+    ]);
+    expect(fs.readFileSync(path.join(outputDir, 'README.md'), 'utf-8')).toContain('[@acme/n8n-nodes-greeter](./acme-n8n-nodes-greeter.md)');
+    const doc = fs.readFileSync(path.join(outputDir, 'acme-n8n-nodes-greeter.md'), 'utf-8');
+    expect(doc).toContain('### Greeter');
+    expect(doc).toContain('- Node Type: `@acme/n8n-nodes-greeter.greeter`');
+    expect(doc).not.toContain('- npm:');
+  });
+});
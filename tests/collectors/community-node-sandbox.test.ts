@@ -0,0 +1,120 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommunityNodeSandbox } from '../../src/collectors/community-node-sandbox';
+
+const hasPermissionModel =
+  process.allowedNodeEnvironmentFlags.has('--permission') ||
+  process.allowedNodeEnvironmentFlags.has('--experimental-permission');
+
+describe('CommunityNodeSandbox', () => {
+  let tempDir: string;
+  let packageRoot: string;
+
+  /**
+   * Write a node file into the test package and return its n8n.nodes path
+   */
+  const writeNode = (name: string, source: string): string => {
+    const nodePath = `dist/nodes/${name}.node.js`;
+    fs.mkdirSync(path.join(packageRoot, 'dist', 'nodes'), { recursive: true });
+    fs.writeFileSync(path.join(packageRoot, nodePath), source);
+    return nodePath;
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-test-'));
+    packageRoot = path.join(tempDir, 'node_modules', 'n8n-nodes-test');
+    fs.mkdirSync(packageRoot, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return plain description snapshots of node classes', async () => {
+    const nodePath = writeNode('Echo', `
+      class Echo {
+        constructor() {
+          const description = {
+            displayName: 'Echo',
+            name: 'echo',
+            version: 1,
+            properties: [{ displayName: 'Text', name: 'text', type: 'string', default: '' }],
+          };
+          description.self = description;
+          this.description = description;
+          this.methods = { loadOptions: { list() { return []; } } };
+        }
+        async execute() {}
+      }
+      module.exports = { Echo };
+    `);
+
+    const [result] = await new CommunityNodeSandbox().loadNodes(packageRoot, [nodePath]);
+
+    expect(result.error).toBeUndefined();
+    expect(result.node).toEqual({
+      nodeName: 'Echo',
+      description: {
+        displayName: 'Echo',
+        name: 'echo',
+        version: 1,
+        properties: [{ displayName: 'Text', name: 'text', type: 'string', default: '' }],
+      },
+    });
+  });
+
+  it('should keep per-node load errors and run without the build environment', async () => {
+    process.env.N8N_SKILLS_SANDBOX_SECRET = 'do-not-leak';
+    const brokenPath = writeNode('Broken', `throw new Error('missing dependency');`);
+    const envPath = writeNode('Env', `
+      let write = 'allowed';
+      try {
+        require('fs').writeFileSync(${JSON.stringify(path.join(tempDir, 'pwned.txt'))}, 'x');
+      } catch (error) {
+        write = error.code;
+      }
+      exports.Env = class {
+        constructor() {
+          this.description = { name: 'env', displayName: Object.keys(process.env).join(','), subtitle: write };
+        }
+      };
+    `);
+
+    try {
+      const results = await new CommunityNodeSandbox().loadNodes(packageRoot, [brokenPath, envPath]);
+
+      expect(results[0]).toEqual({ nodePath: brokenPath, error: 'missing dependency' });
+      expect(results[1].node?.description?.displayName).toBe('');
+      if (hasPermissionModel) {
+        expect(results[1].node?.description?.subtitle).toBe('ERR_ACCESS_DENIED');
+        expect(fs.existsSync(path.join(tempDir, 'pwned.txt'))).toBe(false);
+      }
+    } finally {
+      delete process.env.N8N_SKILLS_SANDBOX_SECRET;
+    }
+  });
+
+  it('should kill packages that exceed the time limit', async () => {
+    const nodePath = writeNode('Spin', 'while (true) {}');
+
+    await expect(new CommunityNodeSandbox({ timeout: 1000 }).loadNodes(packageRoot, [nodePath]))
+      .rejects.toThrow('Timed out after 1000ms');
+  });
+
+  it('should fail packages that exit or run out of memory', async () => {
+    const exitPath = writeNode('Exit', 'process.exit(3);');
+    const hogPath = writeNode('Hog', 'const hog = []; while (true) { hog.push(new Array(100000).fill(hog.length)); }');
+    const sandbox = new CommunityNodeSandbox({ maxMemoryMb: 32, timeout: 20000 });
+
+    await expect(sandbox.loadNodes(packageRoot, [exitPath])).rejects.toThrow('Sandbox process failed: exit code 3');
+    await expect(sandbox.loadNodes(packageRoot, [hogPath])).rejects.toThrow('Sandbox process failed');
+  });
+});
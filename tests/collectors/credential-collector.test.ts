@@ -0,0 +1,73 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import { CredentialCollector, detectAuthType } from '../../src/collectors/credential-collector';
+
+describe('CredentialCollector', () => {
+  let collector: CredentialCollector;
+
+  beforeEach(() => {
+    collector = new CredentialCollector();
+  });
+
+  it('should extract fields and auth type from a credential class', () => {
+    class SlackApi {
+      name = 'slackApi';
+      displayName = 'Slack API';
+      documentationUrl = 'slack';
+      properties = [
+        { displayName: 'Access Token', name: 'accessToken', type: 'string', typeOptions: { password: true }, default: '', required: true },
+        { displayName: 'Signature Secret', name: 'signatureSecret', type: 'string', default: '' },
+        { displayName: 'Notice', name: 'notice', type: 'notice', default: '' }
+      ];
+      authenticate = {
+        type: 'generic',
+        properties: { headers: { Authorization: '=Bearer {{$credentials.accessToken}}' } }
+      };
+    }
+
+    expect(collector.extractCredentialInfo(SlackApi, 'n8n-nodes-base')).toEqual({
+      name: 'slackApi',
+      displayName: 'Slack API',
+      packageName: 'n8n-nodes-base',
+      authType: 'header',
+      extends: [],
+      documentationUrl: 'slack',
+      fields: [
+        { name: 'accessToken', displayName: 'Access Token', type: 'string', required: true, secret: true },
+        { name: 'signatureSecret', displayName: 'Signature Secret', type: 'string', required: false, secret: false }
+      ]
+    });
+  });
+
+  it('should return null for classes without a name', () => {
+    expect(collector.extractCredentialInfo({ properties: [] }, 'n8n-nodes-base')).toBeNull();
+  });
+
+  describe('detectAuthType', () => {
+    it('should detect OAuth parents', () => {
+      expect(detectAuthType({ name: 'gmailOAuth2', extends: ['googleOAuth2Api'] })).toBe('oauth2');
+      expect(detectAuthType({ name: 'twitterOAuth1Api', extends: ['oAuth1Api'] })).toBe('oauth1');
+    });
+
+    it('should detect basic auth', () => {
+      expect(detectAuthType({ name: 'jiraApi', authenticate: { properties: { auth: { username: '', password: '' } } } })).toBe('basic');
+      expect(detectAuthType({ name: 'httpBasicAuth' })).toBe('basic');
+    });
+
+    it('should detect API keys in headers and query strings', () => {
+      const fields = [{ name: 'apiKey', displayName: 'API Key', type: 'string', required: true, secret: true }];
+
+      expect(detectAuthType({ name: 'openAiApi', authenticate: { properties: { headers: { Authorization: '=Bearer {{$credentials.apiKey}}' } } } }, fields)).toBe('apiKey');
+      expect(detectAuthType({ name: 'serpApi', authenticate: { properties: { qs: { api_key: '={{$credentials.apiKey}}' } } } })).toBe('apiKey');
+    });
+
+    it('should fall back to custom', () => {
+      expect(detectAuthType({ name: 'awsApi', authenticate: async () => ({}) })).toBe('custom');
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NpmCollector, getNodeTypePrefix, resolveNodePackages } from '../../src/collectors/npm-collector';
+
+describe('NpmCollector extra packages', () => {
+  let projectRoot: string;
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'npm-collector-'));
+    const packageDir = path.join(projectRoot, 'packages', 'n8n-nodes-internal');
+    fs.mkdirSync(path.join(packageDir, 'dist'), { recursive: true });
+    fs.writeFileSync(
+      path.join(packageDir, 'package.json'),
+      JSON.stringify({
+        name: '@acme/n8n-nodes-internal',
+        version: '1.4.0',
+        n8n: { nodes: ['dist/Ticket.node.js'] }
+      })
+    );
+    fs.writeFileSync(
+      path.join(packageDir, 'dist', 'Ticket.node.js'),
+      `exports.Ticket = class Ticket {
+        constructor() {
+          this.description = {
+            displayName: 'Ticket',
+            name: 'ticket',
+            group: ['output'],
+            version: 1,
+            description: 'Create tickets in the internal helpdesk',
+            credentials: [{ name: 'ticketApi', required: true }],
+            properties: [{ displayName: 'Operation', name: 'operation', type: 'options', options: [{ name: 'Create', value: 'create' }], default: 'create' }]
+          };
+        }
+      };`
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should resolve npm names and local paths after the core packages', () => {
+    const sources = resolveNodePackages({
+      extraPackages: ['n8n-nodes-acme', './packages/n8n-nodes-internal'],
+      projectRoot
+    });
+
+    expect(sources.map(source => [source.name, source.origin])).toEqual([
+      ['n8n-nodes-base', 'core'],
+      ['@n8n/n8n-nodes-langchain', 'core'],
+      ['n8n-nodes-acme', 'extra'],
+      ['@acme/n8n-nodes-internal', 'extra']
+    ]);
+    expect(sources[3].path).toBe(path.join(projectRoot, 'packages', 'n8n-nodes-internal'));
+  });
+
+  it('should fail on a local package without a readable package.json', () => {
+    expect(() => resolveNodePackages({ extraPackages: ['./packages/missing'], projectRoot })).toThrow(
+      'Cannot read extra package ./packages/missing'
+    );
+  });
+
+  it('should use full package names as node type prefix for non-core packages', () => {
+    expect(getNodeTypePrefix('n8n-nodes-base')).toBe('nodes-base');
+    expect(getNodeTypePrefix('@n8n/n8n-nodes-langchain')).toBe('nodes-langchain');
+    expect(getNodeTypePrefix('@acme/n8n-nodes-internal')).toBe('@acme/n8n-nodes-internal');
+  });
+
+  it('should collect nodes of extra packages marked with their origin', async () => {
+    const collector = new NpmCollector({ extraPackages: ['./packages/n8n-nodes-internal'], projectRoot });
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    try {
+      const nodes = await collector.collectAll();
+      const ticket = nodes.find(node => node.packageOrigin === 'extra');
+
+      expect(ticket).toMatchObject({
+        nodeType: '@acme/n8n-nodes-internal.ticket',
+        displayName: 'Ticket',
+        category: 'output',
+        packageName: '@acme/n8n-nodes-internal',
+        packageOrigin: 'extra',
+        hasCredentials: true,
+        hasOperations: true
+      });
+      expect(nodes.filter(node => node.packageOrigin === 'core').every(node => !node.nodeType.startsWith('@acme/'))).toBe(true);
+    } finally {
+      errorSpy.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WorkflowUsageCollector, blendUsageStats } from '../../src/collectors/workflow-usage-collector';
+
+function createNode(type: string, typeVersion = 1, disabled = false) {
+  return { id: type, name: type, type, typeVersion, position: [0, 0], parameters: {}, disabled };
+}
+
+describe('WorkflowUsageCollector', () => {
+  let exportDir: string;
+
+  beforeEach(() => {
+    exportDir = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-usage-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(exportDir, { recursive: true, force: true });
+  });
+
+  it('should read editor exports, CLI exports and database rows from a directory', async () => {
+    fs.writeFileSync(path.join(exportDir, 'single.json'), JSON.stringify({
+      name: 'Single',
+      nodes: [
+        createNode('n8n-nodes-base.webhook'),
+        createNode('n8n-nodes-base.httpRequest', 4.2),
+        createNode('n8n-nodes-base.httpRequest', 4.2),
+        createNode('n8n-nodes-base.stickyNote'),
+      ],
+      connections: {},
+    }));
+    fs.mkdirSync(path.join(exportDir, 'cli'));
+    fs.writeFileSync(path.join(exportDir, 'cli', 'all.json'), JSON.stringify([
+      { name: 'A', nodes: [createNode('n8n-nodes-base.httpRequest', 3), createNode('n8n-nodes-base.slack')] },
+      { name: 'B', nodes: [createNode('n8n-nodes-base.slack', 2, true)] },
+    ]));
+    fs.writeFileSync(path.join(exportDir, 'db.json'), JSON.stringify({
+      workflow_entity: [{ id: 'x1', nodes: JSON.stringify([createNode('n8n-nodes-base.webhook')]) }],
+    }));
+    fs.writeFileSync(path.join(exportDir, 'broken.json'), '{ not json');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    try {
+      const stats = await new WorkflowUsageCollector().collectFromPath(exportDir);
+
+      expect(stats.workflowCount).toBe(4);
+      expect(stats.skippedFiles).toEqual([path.join(exportDir, 'broken.json')]);
+      expect(stats.nodeUsage['n8n-nodes-base.httpRequest'].count).toBe(2);
+      expect(stats.nodeUsage['n8n-nodes-base.webhook'].count).toBe(2);
+      expect(stats.nodeUsage['n8n-nodes-base.slack'].count).toBe(1);
+      expect(stats.nodeUsage['n8n-nodes-base.stickyNote']).toBeUndefined();
+      expect(stats.coOccurrence['n8n-nodes-base.httpRequest']).toEqual({
+        'n8n-nodes-base.webhook': 1,
+        'n8n-nodes-base.slack': 1,
+      });
+      expect(stats.versions['n8n-nodes-base.httpRequest']).toEqual({ '3': 1, '4.2': 2 });
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('should count disabled nodes when configured', () => {
+    const collector = new WorkflowUsageCollector({ includeDisabled: true });
+    const stats = collector.collect([{ nodes: [createNode('n8n-nodes-base.slack', 2, true)] }]);
+
+    expect(stats.nodeUsage['n8n-nodes-base.slack']).toEqual({ count: 1, percentage: 100 });
+  });
+});
+
+describe('blendUsageStats', () => {
+  const publicStats = {
+    'n8n-nodes-base.httpRequest': { count: 80, percentage: 80 },
+    'n8n-nodes-base.slack': { count: 20, percentage: 20 },
+  };
+  const localStats = {
+    'n8n-nodes-base.slack': { count: 3, percentage: 75 },
+    'n8n-nodes-base.postgres': { count: 1, percentage: 25 },
+  };
+
+  it('should keep the public statistics at weight 0 or without local workflows', () => {
+    expect(blendUsageStats(publicStats, localStats, 0)).toEqual(publicStats);
+    expect(blendUsageStats(publicStats, {}, 1)).toBe(publicStats);
+  });
+
+  it('should rank by our own workflows at weight 1', () => {
+    const blended = blendUsageStats(publicStats, localStats, 1);
+
+    expect(Object.keys(blended)).toEqual(['n8n-nodes-base.slack', 'n8n-nodes-base.postgres']);
+    expect(blended['n8n-nodes-base.slack']).toEqual({ count: 75, percentage: 75 });
+  });
+
+  it('should rescale our counts to the public sample before blending', () => {
+    const blended = blendUsageStats(publicStats, localStats, 0.5);
+
+    expect(blended['n8n-nodes-base.httpRequest'].count).toBe(40);
+    expect(blended['n8n-nodes-base.slack'].count).toBe(48);
+    expect(blended['n8n-nodes-base.postgres'].count).toBe(13);
+  });
+});
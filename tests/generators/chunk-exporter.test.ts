@@ -0,0 +1,226 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChunkExporter, estimateTokens, type ChunkSourceDocument } from '../../src/generators/chunk-exporter';
+import type { ExportedNode, ExportedTemplate } from '../../src/models/knowledge-export';
+
+function createNode(nodeType: string, displayName: string, extra: Partial<ExportedNode> = {}): ExportedNode {
+  return {
+    nodeType,
+    workflowType: `n8n-${nodeType}`,
+    displayName,
+    description: '',
+    category: 'transform',
+    packageName: 'n8n-nodes-base',
+    packageOrigin: 'core',
+    version: '1',
+    typeVersions: [],
+    isTrigger: false,
+    isWebhook: false,
+    isAITool: false,
+    usage: { count: 0, percentage: 0 },
+    priority: null,
+    connections: null,
+    credentials: [],
+    operations: [],
+    properties: [],
+    totalPropertyCount: 0,
+    ...extra,
+  };
+}
+
+const nodes = [
+  createNode('nodes-base.slack', 'Slack', {
+    category: 'output',
+    priority: { rank: 1, score: 90, tier: 'essential' },
+    operations: [
+      { value: 'post', name: 'Send', resource: 'message' },
+      { value: 'archive', name: 'Archive', resource: 'channel' },
+    ],
+  }),
+  createNode('nodes-base.openAi', 'OpenAI'),
+  createNode('nodes-langchain.openAi', 'OpenAI', { packageName: '@n8n/n8n-nodes-langchain' }),
+];
+
+const templates = [{ id: 42, nodeTypes: ['nodes-base.slack'] } as ExportedTemplate];
+
+const slackFile = [
+  '# Slack',
+  '',
+  '## Basic Information',
+  '',
+  '- Node Type: `nodes-base.slack`',
+  '',
+  '## Available Operations',
+  '',
+  '### Message → Send',
+  '',
+  'Send a message to a channel or user, with blocks, attachments and thread options.',
+  '',
+  '### Channel → Archive',
+  '',
+  'Archive a channel.',
+  '',
+  '## JSON Configuration Examples',
+  '',
+  '```json',
+  '{',
+  '',
+  '  "type": "n8n-nodes-base.slack"',
+  '}',
+  '```',
+].join('\n');
+
+const mergedFile = [
+  '# Transform Nodes',
+  '',
+  '## Table of Contents',
+  '',
+  '- [OpenAI](#openai)',
+  '- [OpenAI](#openai)',
+  '',
+  '---',
+  '',
+  '## OpenAI',
+  '',
+  '## Basic Information',
+  '',
+  '- Node Type: `nodes-base.openAi`',
+  '',
+  '---',
+  '',
+  '## OpenAI',
+  '',
+  '## Basic Information',
+  '',
+  '- Node Type: `nodes-langchain.openAi`',
+].join('\n');
+
+const documents: ChunkSourceDocument[] = [
+  { path: 'resources/output/nodes-base.slack.md', content: slackFile },
+  { path: 'resources/output/README.md', content: '# Output Nodes\n\nIndex of output nodes.' },
+  { path: 'resources/transform/transform-merged.md', content: mergedFile },
+  { path: 'resources/templates/marketing/42-slack-alerts.md', content: '# Slack alerts\n\nPosts alerts to Slack.' },
+  { path: 'resources/templates/devops/42-slack-alerts.md', content: '# Slack alerts\n\nPosts alerts to Slack.' },
+  { path: 'resources/guides/usage-guide.md', content: '# Usage Guide\n\n## Common Mistakes\n\nDo not guess parameter names.' },
+];
+
+describe('ChunkExporter', () => {
+  const chunks = new ChunkExporter({ minTokens: 1 }).generate({ documents, nodes, templates });
+  const chunk = (id: string) => chunks.find(c => c.id === id);
+
+  it('should cut node files at headings with line ranges and node metadata', () => {
+    expect(chunks.filter(c => c.metadata.source === 'resources/output/nodes-base.slack.md').map(c => c.id)).toEqual([
+      'resources/output/nodes-base.slack.md#slack/basic-information',
+      'resources/output/nodes-base.slack.md#slack/available-operations/message-send',
+      'resources/output/nodes-base.slack.md#slack/available-operations/channel-archive',
+      'resources/output/nodes-base.slack.md#slack/json-configuration-examples',
+    ]);
+
+    const basic = chunk('resources/output/nodes-base.slack.md#slack/basic-information')!;
+    expect(basic.text).toBe('# Slack\n\n## Basic Information\n\n- Node Type: `nodes-base.slack`');
+    expect(basic.metadata).toEqual({
+      kind: 'node',
+      locale: 'en',
+      source: 'resources/output/nodes-base.slack.md',
+      startLine: 1,
+      endLine: 5,
+      headings: ['Slack', 'Basic Information'],
+      nodeType: 'nodes-base.slack',
+      displayName: 'Slack',
+      category: 'output',
+      tier: 'essential',
+    });
+    expect(basic.tokens).toBe(estimateTokens(basic.text));
+    expect(basic.contentHash).toHaveLength(64);
+  });
+
+  it('should tag operation sections with the operation and resource', () => {
+    const send = chunk('resources/output/nodes-base.slack.md#slack/available-operations/message-send')!;
+    expect(send.metadata).toMatchObject({ startLine: 7, endLine: 11, operation: 'post', resource: 'message' });
+    expect(send.text.startsWith('## Available Operations\n\n### Message → Send')).toBe(true);
+    expect(chunk('resources/output/nodes-base.slack.md#slack/available-operations/channel-archive')?.metadata.operation).toBe('archive');
+  });
+
+  it('should keep code blocks whole and skip index files', () => {
+    expect(chunk('resources/output/nodes-base.slack.md#slack/json-configuration-examples')?.metadata).toMatchObject({
+      startLine: 17,
+      endLine: 24,
+    });
+    expect(chunks.some(c => c.metadata.source === 'resources/output/README.md')).toBe(false);
+  });
+
+  it('should assign merged file sections to the node they document', () => {
+    const merged = chunks.filter(c => c.metadata.source === 'resources/transform/transform-merged.md');
+
+    expect(merged.map(c => [c.id, c.metadata.nodeType, c.metadata.startLine, c.metadata.endLine])).toEqual([
+      ['resources/transform/transform-merged.md#openai/basic-information', 'nodes-base.openAi', 10, 14],
+      ['resources/transform/transform-merged.md#openai/basic-information:2', 'nodes-langchain.openAi', 18, 22],
+    ]);
+  });
+
+  it('should chunk templates once with their node types, and guides', () => {
+    const templateChunks = chunks.filter(c => c.metadata.kind === 'template');
+    expect(templateChunks).toHaveLength(1);
+    expect(templateChunks[0].metadata).toMatchObject({ category: 'marketing', templateId: 42, nodeTypes: ['nodes-base.slack'] });
+
+    expect(chunk('resources/guides/usage-guide.md#usage-guide/common-mistakes')?.metadata).toMatchObject({
+      kind: 'guide',
+      headings: ['Usage Guide', 'Common Mistakes'],
+    });
+  });
+
+  it('should merge small sections and split large ones', () => {
+    const merging = new ChunkExporter({ minTokens: 100 }).generate({ documents: documents.slice(0, 1), nodes });
+    // Operation sections are never merged with their neighbours
+    expect(merging.map(c => c.metadata.operation)).toEqual([undefined, 'post', 'archive', undefined]);
+
+    const guide = new ChunkExporter({ minTokens: 100 }).generate({
+      documents: [{ path: 'resources/guides/usage-guide.md', content: '# Usage Guide\n\nRead this first.\n\n## Common Mistakes\n\nDo not guess.\n' }],
+      nodes,
+    });
+    expect(guide.map(c => [c.id, c.metadata.startLine, c.metadata.endLine])).toEqual([
+      ['resources/guides/usage-guide.md#usage-guide', 1, 7],
+    ]);
+
+    const longList = ['# Notes', '', ...Array.from({ length: 30 }, (_, i) => `- item number ${i}`)].join('\n');
+    const split = new ChunkExporter({ maxTokens: 40, countTokens: text => text.split('\n').length * 5 }).generate({
+      documents: [{ path: 'resources/guides/notes.md', content: longList }],
+      nodes,
+    });
+    expect(split.map(c => [c.metadata.startLine, c.metadata.endLine])).toEqual([[1, 8], [9, 16], [17, 24], [25, 32]]);
+    expect(split.map(c => c.id)).toEqual([
+      'resources/guides/notes.md#notes',
+      'resources/guides/notes.md#notes:2',
+      'resources/guides/notes.md#notes:3',
+      'resources/guides/notes.md#notes:4',
+    ]);
+  });
+
+  it('should estimate CJK text at one token per character', () => {
+    expect(estimateTokens('abcdefgh')).toBe(2);
+    expect(estimateTokens('節點名稱')).toBe(4);
+  });
+
+  it('should read the Markdown files under resources/', () => {
+    const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chunk-exporter-test-'));
+    try {
+      fs.mkdirSync(path.join(rootDir, 'resources', 'guides'), { recursive: true });
+      fs.writeFileSync(path.join(rootDir, 'resources', 'guides', 'usage-guide.md'), '# Usage Guide');
+      fs.writeFileSync(path.join(rootDir, 'SKILL.md'), '# Skill');
+
+      expect(ChunkExporter.readDocuments(rootDir)).toEqual([
+        { path: 'resources/guides/usage-guide.md', content: '# Usage Guide' },
+      ]);
+    } finally {
+      fs.rmSync(rootDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CredentialGenerator } from '../../src/generators/credential-generator';
+import type { CredentialTypeInfo } from '../../src/collectors/credential-collector';
+import type { EnrichedNodeInfo } from '../../src/generators/skill-generator';
+
+describe('CredentialGenerator', () => {
+  let outputDir: string;
+
+  const credentials: CredentialTypeInfo[] = [
+    {
+      name: 'slackApi',
+      displayName: 'Slack API',
+      packageName: 'n8n-nodes-base',
+      authType: 'header',
+      extends: [],
+      fields: [{ name: 'accessToken', displayName: 'Access Token', type: 'string', required: true, secret: true }]
+    },
+    {
+      name: 'slackOAuth2Api',
+      displayName: 'Slack OAuth2 API',
+      packageName: 'n8n-nodes-base',
+      authType: 'oauth2',
+      extends: ['oAuth2Api'],
+      fields: []
+    }
+  ];
+
+  const nodes: EnrichedNodeInfo[] = [
+    {
+      nodeType: 'nodes-base.slack',
+      displayName: 'Slack',
+      description: 'Consume Slack API',
+      category: 'output',
+      packageName: 'n8n-nodes-base',
+      version: '2.2',
+      isVersioned: true,
+      isTrigger: false,
+      isWebhook: false,
+      isAITool: false,
+      hasCredentials: true,
+      hasOperations: true,
+      properties: {
+        coreProperties: [],
+        operations: [],
+        hasCredentials: true,
+        totalPropertyCount: 0,
+        credentials: [
+          { name: 'slackApi', required: true, displayOptions: { show: { authentication: ['accessToken'] } } },
+          { name: 'slackOAuth2Api', required: true, displayOptions: { show: { authentication: ['oAuth2'] } } }
+        ]
+      }
+    }
+  ];
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'credential-generator-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('should write one file per credential type and an index', async () => {
+    const count = await new CredentialGenerator({ outputDir }).generate(credentials, nodes);
+
+    expect(count).toBe(2);
+    expect(fs.readdirSync(outputDir).sort()).toEqual(['README.md', 'slackApi.md', 'slackOAuth2Api.md']);
+  });
+
+  it('should link nodes to their credential types', async () => {
+    await new CredentialGenerator({ outputDir }).generate(credentials, nodes);
+    const index = fs.readFileSync(path.join(outputDir, 'README.md'), 'utf-8');
+
+    expect(index).toContain('| Slack (`nodes-base.slack`) | [slackApi](./slackApi.md), [slackOAuth2Api](./slackOAuth2Api.md) |');
+    expect(index).toContain('| OAuth2 | 1 |');
+  });
+
+  it('should document required fields and the nodes using a credential', async () => {
+    await new CredentialGenerator({ outputDir }).generate(credentials, nodes);
+    const content = fs.readFileSync(path.join(outputDir, 'slackApi.md'), 'utf-8');
+
+    expect(content).toContain('- Auth type: Header Auth');
+    expect(content).toContain('## Required Fields');
+    expect(content).toContain('| `accessToken` (Access Token) | string (secret) | - | - |');
+    expect(content).toContain('- Slack (`nodes-base.slack`) - required, when authentication = "accessToken"');
+  });
+});
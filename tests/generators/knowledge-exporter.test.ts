@@ -0,0 +1,300 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { KnowledgeExporter, parseJsonLines, type KnowledgeExportData } from '../../src/generators/knowledge-exporter';
+import type { EnrichedNodeInfo } from '../../src/generators/skill-generator';
+import type { ParsedProperties } from '../../src/parsers/property-parser';
+import type { CompatibilityMatrix, NodeConnectionInfo } from '../../src/models/connection';
+import type { Template } from '../../src/generators/template-generator';
+import type { ExportedNode, ExportedTemplate, KnowledgeExportManifest } from '../../src/models/knowledge-export';
+
+function createNode(nodeType: string, displayName: string, extra: Partial<EnrichedNodeInfo> = {}): EnrichedNodeInfo {
+  return {
+    nodeType,
+    displayName,
+    description: `${displayName} node`,
+    category: 'output',
+    packageName: 'n8n-nodes-base',
+    version: '2',
+    isVersioned: false,
+    isTrigger: false,
+    isWebhook: false,
+    isAITool: false,
+    hasCredentials: false,
+    hasOperations: false,
+    ...extra,
+  };
+}
+
+const slack = createNode('nodes-base.slack', 'Slack', {
+  usageCount: 40,
+  usagePercentage: 20,
+  rank: 2,
+  score: 80,
+  tier: 'essential',
+  properties: {
+    coreProperties: [{ name: 'channel', displayName: 'Channel', type: 'string', required: true, default: '' }],
+    operations: [{ name: 'Send', value: 'post', resource: 'message' }],
+    credentials: [{ name: 'slackApi', required: true }],
+    versions: [{ version: 2 }, { version: 1 }],
+    propertyTree: [{ name: 'channel' }],
+    hasCredentials: true,
+    totalPropertyCount: 12,
+  } as unknown as ParsedProperties,
+});
+const webhook = createNode('nodes-base.webhook', 'Webhook', { category: 'trigger', isTrigger: true, rank: 1, score: 90, tier: 'essential' });
+const acme = createNode('@acme/n8n-nodes-internal.ticket', 'Ticket', {
+  packageName: '@acme/n8n-nodes-internal',
+  packageOrigin: 'extra',
+});
+
+type JsonSchema = Record<string, any>;
+
+/**
+ * Minimal JSON Schema check covering the keywords the export schemas use
+ * Stricter than JSON Schema on purpose: keys missing from `properties` are reported, so records and schemas cannot drift
+ */
+function validate(value: unknown, schema: JsonSchema, root: JsonSchema, at = '$'): string[] {
+  if (schema.$ref) {
+    return validate(value, root.$defs[schema.$ref.replace('#/$defs/', '')], root, at);
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter((option: JsonSchema) => validate(value, option, root, at).length === 0);
+    return matches.length === 1 ? [] : [`${at}: matches ${matches.length} of oneOf`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${at}: ${JSON.stringify(value)} not in enum`];
+  }
+  const type = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+  if (schema.type && schema.type !== type && !(schema.type === 'integer' && Number.isInteger(value))) {
+    return [`${at}: expected ${schema.type}, got ${type}`];
+  }
+  if (typeof value === 'number' && (value < (schema.minimum ?? -Infinity) || value > (schema.maximum ?? Infinity))) {
+    return [`${at}: ${value} out of range`];
+  }
+  if (Array.isArray(value)) {
+    return schema.items ? value.flatMap((item, index) => validate(item, schema.items, root, `${at}[${index}]`)) : [];
+  }
+  if (type !== 'object') {
+    return [];
+  }
+  const record = value as Record<string, unknown>;
+  const errors = (schema.required || [])
+    .filter((key: string) => !(key in record))
+    .map((key: string) => `${at}.${key}: missing`);
+  for (const [key, child] of Object.entries(record)) {
+    const childSchema = schema.properties?.[key] ?? schema.additionalProperties;
+    if (childSchema) {
+      errors.push(...validate(child, childSchema, root, `${at}.${key}`));
+    } else if (schema.properties) {
+      errors.push(`${at}.${key}: not in schema`);
+    }
+  }
+  return errors;
+}
+
+const entry = (targetNode: string, score: number, reason: string) => ({
+  targetNode,
+  score,
+  reason,
+  connectionTypes: ['main'] as NodeConnectionInfo['outputTypes'],
+});
+
+const data: KnowledgeExportData = {
+  nodes: [acme, slack, webhook],
+  connections: [
+    {
+      nodeType: 'nodes-base.slack',
+      displayName: 'Slack',
+      inputTypes: ['main'],
+      outputTypes: ['main'],
+      isMultiInput: false,
+      isMultiOutput: false,
+      requiresSpecialInputs: false,
+      category: 'output',
+      outputCount: 1,
+      outputNames: [],
+      isDynamicOutput: false,
+    } as unknown as NodeConnectionInfo,
+  ],
+  compatibilityMatrix: {
+    'nodes-base.webhook': {
+      compatible: [
+        entry('nodes-base.slack', 70, 'Main flow'),
+        entry('@acme/n8n-nodes-internal.ticket', 70, 'Main flow'),
+        entry('nodes-base.webhook', 50, 'Trigger to trigger'),
+      ],
+      incompatible: [entry('nodes-langchain.lmChatOpenAi', 0, 'No matching connection')],
+    },
+    'nodes-base.slack': { compatible: [], incompatible: [] },
+  } as CompatibilityMatrix,
+  templates: [
+    {
+      id: 10,
+      name: 'Webhook to Slack',
+      description: 'Posts webhook payloads to Slack',
+      totalViews: 500,
+      createdAt: '2025-01-01T00:00:00.000Z',
+      user: { id: 1, name: 'Jane', username: 'jane', verified: true },
+      nodes: [{ id: 1, name: 'n8n-nodes-base.webhook' }, { id: 2, name: 'n8n-nodes-base.stickyNote' }, { id: 3, name: 'n8n-nodes-base.slack' }],
+    },
+    {
+      id: 20,
+      name: 'Popular',
+      description: '',
+      totalViews: 900,
+      createdAt: '2025-02-01T00:00:00.000Z',
+      user: { id: 2, name: 'Joe', username: 'joe', verified: false },
+      nodes: [],
+    },
+  ] as Template[],
+  templateWorkflows: [
+    {
+      id: 10,
+      name: 'Webhook to Slack',
+      nodes: [
+        { id: 'a', name: 'Webhook', type: 'n8n-nodes-base.webhook', typeVersion: 2, position: [0, 0], parameters: { path: 'in' } },
+        { id: 'b', name: 'Note', type: 'n8n-nodes-base.stickyNote', position: [0, 0], parameters: {} },
+        { id: 'c', name: 'Slack', type: 'n8n-nodes-base.slack', typeVersion: 2, position: [200, 0], parameters: {} },
+      ],
+      connections: { Webhook: { main: [[{ node: 'Slack', type: 'main', index: 0 }]] } },
+    },
+  ] as KnowledgeExportData['templateWorkflows'],
+};
+
+describe('KnowledgeExporter', () => {
+  const exporter = new KnowledgeExporter({ generatorVersion: '1.2.3', n8nVersion: '1.100.0' });
+  const files = exporter.generate(data);
+  const file = (filePath: string) => files.find(f => f.path === filePath)?.content || '';
+
+  it('should write the manifest, data files and schemas', () => {
+    expect(files.map(f => f.path)).toEqual([
+      'manifest.json',
+      'nodes.jsonl',
+      'compatibility.json',
+      'templates.jsonl',
+      'schema/manifest.schema.json',
+      'schema/node.schema.json',
+      'schema/compatibility.schema.json',
+      'schema/template.schema.json',
+    ]);
+
+    const manifest: KnowledgeExportManifest = JSON.parse(file('manifest.json'));
+    expect(manifest.schemaVersion).toBe('1.0.0');
+    expect(manifest.generator).toEqual({ name: 'n8n-skills', version: '1.2.3' });
+    expect(manifest.files.nodes).toEqual({ path: 'nodes.jsonl', format: 'jsonl', schema: 'schema/node.schema.json', count: 3 });
+    expect(manifest.files.compatibility.count).toBe(1);
+    expect(manifest.files.templates.count).toBe(2);
+    expect(JSON.parse(file('schema/node.schema.json')).required).toContain('workflowType');
+  });
+
+  it('should export nodes in rank order with parameters, versions and connections', () => {
+    const nodes = parseJsonLines<ExportedNode>(file('nodes.jsonl'));
+
+    expect(nodes.map(node => node.nodeType)).toEqual(['nodes-base.webhook', 'nodes-base.slack', '@acme/n8n-nodes-internal.ticket']);
+    expect(nodes[1]).toMatchObject({
+      workflowType: 'n8n-nodes-base.slack',
+      packageOrigin: 'core',
+      typeVersions: [1, 2],
+      usage: { count: 40, percentage: 20 },
+      priority: { rank: 2, score: 80, tier: 'essential' },
+      connections: { inputTypes: ['main'], outputTypes: ['main'], requiresSpecialInputs: false },
+      credentials: [{ name: 'slackApi', required: true }],
+      operations: [{ value: 'post', name: 'Send', resource: 'message' }],
+      totalPropertyCount: 12,
+    });
+    expect(nodes[1]).not.toHaveProperty('propertyTree');
+    expect(nodes[2]).toMatchObject({
+      workflowType: '@acme/n8n-nodes-internal.ticket',
+      packageOrigin: 'extra',
+      priority: null,
+      connections: null,
+      properties: [],
+    });
+  });
+
+  it('should group compatible targets and leave out incompatible pairs', () => {
+    expect(JSON.parse(file('compatibility.json'))).toEqual({
+      sources: [
+        {
+          source: 'nodes-base.webhook',
+          groups: [
+            { score: 70, reason: 'Main flow', connectionTypes: ['main'], targets: ['@acme/n8n-nodes-internal.ticket', 'nodes-base.slack'] },
+            { score: 50, reason: 'Trigger to trigger', connectionTypes: ['main'], targets: ['nodes-base.webhook'] },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('should export templates with node types and downloaded workflows', () => {
+    const templates = parseJsonLines<ExportedTemplate>(file('templates.jsonl'));
+
+    expect(templates.map(template => template.id)).toEqual([20, 10]);
+    expect(templates[0].workflow).toBeUndefined();
+    expect(templates[1]).toMatchObject({
+      url: 'https://n8n.io/workflows/10',
+      author: 'Jane',
+      nodeTypes: ['nodes-base.webhook', 'nodes-base.slack'],
+    });
+    expect(templates[1].workflow?.nodes.map(node => node.name)).toEqual(['Webhook', 'Slack']);
+    expect(templates[1].workflow?.connections).toHaveProperty('Webhook');
+  });
+
+  it('should write records that match the exported schemas', () => {
+    const schema = (name: string): JsonSchema => JSON.parse(file(`schema/${name}.schema.json`));
+    const check = (value: unknown, name: string) => expect(validate(value, schema(name), schema(name))).toEqual([]);
+
+    const nodes = parseJsonLines<ExportedNode>(file('nodes.jsonl'));
+    const templates = parseJsonLines<ExportedTemplate>(file('templates.jsonl'));
+    check(JSON.parse(file('manifest.json')), 'manifest');
+    nodes.forEach(node => check(node, 'node'));
+    check(JSON.parse(file('compatibility.json')), 'compatibility');
+    templates.forEach(template => check(template, 'template'));
+
+    // Every node field is always written, so the required keys are exactly the record keys
+    nodes.forEach(node => expect(Object.keys(node).sort()).toEqual([...schema('node').required].sort()));
+    // Template fields are optional only when the schema says so, and the fixture covers all of them
+    const templateKeys = new Set(templates.flatMap(template => Object.keys(template)));
+    expect([...templateKeys].sort()).toEqual(Object.keys(schema('template').properties).sort());
+  });
+
+  describe('read', () => {
+    let exportDir: string;
+
+    beforeEach(() => {
+      exportDir = fs.mkdtempSync(path.join(os.tmpdir(), 'knowledge-export-test-'));
+      for (const f of files) {
+        fs.mkdirSync(path.dirname(path.join(exportDir, f.path)), { recursive: true });
+        fs.writeFileSync(path.join(exportDir, f.path), f.content);
+      }
+    });
+
+    afterEach(() => {
+      fs.rmSync(exportDir, { recursive: true, force: true });
+    });
+
+    it('should read a written export back', () => {
+      const knowledge = KnowledgeExporter.read(exportDir);
+
+      expect(knowledge.nodes).toHaveLength(3);
+      expect(knowledge.compatibility.sources[0].source).toBe('nodes-base.webhook');
+      expect(knowledge.templates).toHaveLength(2);
+    });
+
+    it('should reject an export with another major schema version', () => {
+      const manifestPath = path.join(exportDir, 'manifest.json');
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+      fs.writeFileSync(manifestPath, JSON.stringify({ ...manifest, schemaVersion: '2.0.0' }));
+
+      expect(() => KnowledgeExporter.read(exportDir)).toThrow('Unsupported knowledge export schema 2.0.0');
+    });
+  });
+});
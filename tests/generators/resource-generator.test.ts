@@ -0,0 +1,211 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ResourceGenerator } from '../../src/generators/resource-generator';
+import { PropertyTreeParser } from '../../src/parsers/property-tree-parser';
+import type { EnrichedNodeInfo } from '../../src/generators/skill-generator';
+import type { NodeCoOccurrenceGraph } from '../../src/analyzers/co-occurrence-miner';
+
+describe('ResourceGenerator', () => {
+  let outputDir: string;
+
+  const propertyTree = new PropertyTreeParser().parseDescription(
+    {
+      properties: [
+        {
+          name: 'resource',
+          displayName: 'Resource',
+          type: 'options',
+          default: 'message',
+          options: [{ name: 'Message', value: 'message' }]
+        },
+        {
+          name: 'operation',
+          displayName: 'Operation',
+          type: 'options',
+          default: 'send',
+          displayOptions: { show: { resource: ['message'] } },
+          options: [
+            { name: 'Send', value: 'send', description: 'Send a message' },
+            { name: 'Get Many', value: 'getAll' }
+          ]
+        },
+        {
+          name: 'channelId',
+          displayName: 'Channel',
+          type: 'resourceLocator',
+          required: true,
+          default: { mode: 'list', value: '' },
+          displayOptions: { show: { resource: ['message'] } },
+          modes: [
+            { displayName: 'From List', name: 'list', type: 'list' },
+            { displayName: 'By ID', name: 'id', type: 'string', placeholder: 'C0122KQ70S7' }
+          ]
+        },
+        {
+          name: 'text',
+          displayName: 'Message Text',
+          type: 'string',
+          required: true,
+          default: '',
+          displayOptions: { show: { operation: ['send'] } }
+        },
+        {
+          name: 'returnAll',
+          displayName: 'Return All',
+          type: 'boolean',
+          default: false,
+          displayOptions: { show: { operation: ['getAll'] } }
+        },
+        {
+          name: 'limit',
+          displayName: 'Limit',
+          type: 'number',
+          default: 50,
+          displayOptions: { show: { operation: ['getAll'], returnAll: [false] } }
+        }
+      ]
+    },
+    2
+  );
+
+  const node: EnrichedNodeInfo = {
+    nodeType: 'nodes-base.Chat',
+    displayName: 'Chat',
+    description: 'Send and read chat messages',
+    category: 'communication',
+    packageName: 'n8n-nodes-base',
+    version: '2',
+    isVersioned: false,
+    isTrigger: false,
+    isWebhook: false,
+    isAITool: false,
+    hasCredentials: false,
+    hasOperations: true,
+    properties: {
+      coreProperties: [],
+      operations: [
+        { name: 'Send', value: 'send', description: 'Send a message' },
+        { name: 'Get Many', value: 'getAll' }
+      ],
+      hasCredentials: false,
+      totalPropertyCount: 6,
+      propertyTree
+    }
+  };
+
+  const generate = async (): Promise<string> => {
+    const generator = new ResourceGenerator({ outputDir });
+    await generator.generateAll([node]);
+    return fs.readFileSync(path.join(outputDir, 'communication', 'nodes-base.Chat.md'), 'utf-8');
+  };
+
+  const extractExample = (content: string, heading: string): any => {
+    const section = content.slice(content.indexOf(heading));
+    const match = section.match(/\*\*Example\*\*\n```json\n([\s\S]*?)\n```/);
+    return JSON.parse(match![1]);
+  };
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'resource-generator-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('should document each resource operation with scoped parameters', async () => {
+    const content = await generate();
+
+    expect(content).toContain('### Message → Send');
+    expect(content).toContain('### Message → Get Many');
+    expect(content).toContain('Send a message');
+
+    const send = content.slice(content.indexOf('### Message → Send'), content.indexOf('### Message → Get Many'));
+    expect(send).toContain('**Required Parameters**');
+    expect(send).toContain('| `channelId` | resourceLocator |');
+    expect(send).toContain('| `text` | string |');
+    expect(send).not.toContain('`limit`');
+  });
+
+  it('should show conditions for optional parameters', async () => {
+    const content = await generate();
+    const getAll = content.slice(content.indexOf('### Message → Get Many'));
+
+    expect(getAll).toContain('| `returnAll` | boolean | `false` | - |');
+    expect(getAll).toContain('| `limit` | number | `50` | `returnAll` = false |');
+  });
+
+  it('should build example nodes from the property definitions', async () => {
+    const content = await generate();
+    const example = extractExample(content, '### Message → Send');
+
+    expect(example).toEqual({
+      name: 'Send',
+      type: 'nodes-base.Chat',
+      typeVersion: 2,
+      position: [250, 300],
+      parameters: {
+        resource: 'message',
+        operation: 'send',
+        channelId: { __rl: true, value: 'C0122KQ70S7', mode: 'id' },
+        text: 'Hello from n8n'
+      }
+    });
+  });
+
+  it('should mark nodes of extra packages and keep scoped names in one file', async () => {
+    const extraNode: EnrichedNodeInfo = {
+      ...node,
+      nodeType: '@acme/n8n-nodes-chat.chat',
+      packageName: '@acme/n8n-nodes-chat',
+      packageOrigin: 'extra'
+    };
+    await new ResourceGenerator({ outputDir }).generateAll([extraNode]);
+
+    const content = fs.readFileSync(path.join(outputDir, 'communication', 'acme-n8n-nodes-chat.chat.md'), 'utf-8');
+    expect(content).toContain('- Node Type: `@acme/n8n-nodes-chat.chat`');
+    expect(content).toContain('- Package: @acme/n8n-nodes-chat (extra package, not part of the official n8n nodes)');
+  });
+
+  it('should list the nodes commonly connected before and after a node', async () => {
+    const webhook: EnrichedNodeInfo = { ...node, nodeType: 'nodes-base.webhook', displayName: 'Webhook', category: 'trigger' };
+    const nodeGraph: NodeCoOccurrenceGraph = {
+      workflowCount: 12,
+      nodeWorkflowCounts: { 'nodes-base.Chat': 5, 'nodes-base.webhook': 9 },
+      transitions: [
+        { source: 'nodes-base.webhook', target: 'nodes-base.Chat', count: 4, workflowCount: 3 },
+        { source: 'nodes-base.Chat', target: 'nodes-base.set', count: 2, workflowCount: 2 },
+      ],
+      minedAt: '2025-01-01T00:00:00.000Z',
+    };
+    await new ResourceGenerator({ outputDir }).generateAll([node, webhook], undefined, undefined, nodeGraph);
+
+    const content = fs.readFileSync(path.join(outputDir, 'communication', 'nodes-base.Chat.md'), 'utf-8');
+    const followedBy = content.slice(content.indexOf('## Commonly Followed By'), content.indexOf('## Commonly Preceded By'));
+    expect(followedBy).toContain('| nodes-base.set (`nodes-base.set`) | 2 of 5 | 2 |');
+    expect(content.slice(content.indexOf('## Commonly Preceded By'))).toContain('| Webhook (`nodes-base.webhook`) | 3 of 5 | 4 |');
+
+    const webhookContent = fs.readFileSync(path.join(outputDir, 'trigger', 'nodes-base.webhook.md'), 'utf-8');
+    expect(webhookContent).toContain('## Commonly Followed By');
+    expect(webhookContent).not.toContain('## Commonly Preceded By');
+  });
+
+  it('should write node documents in the configured locale', async () => {
+    await new ResourceGenerator({ outputDir, locale: 'zh-TW' }).generateAll([node]);
+
+    const content = fs.readFileSync(path.join(outputDir, 'communication', 'nodes-base.Chat.md'), 'utf-8');
+    expect(content).toContain('## 基本資訊');
+    expect(content).toContain('- 節點類型：`nodes-base.Chat`');
+    expect(content).toContain('**必填參數**');
+    expect(content).not.toContain('Basic Information');
+    expect(content).not.toContain('{{');
+  });
+});
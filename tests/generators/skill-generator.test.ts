@@ -5,6 +5,7 @@
 import { SkillGenerator, type SkillGeneratorInput } from '../../src/generators/skill-generator';
 import type { EnrichedNodeInfo } from '../../src/generators/skill-generator';
 import type { NodeUsageStats } from '../../src/collectors/api-collector';
+import type { WorkflowPatterns } from '../../src/analyzers/workflow-pattern-miner';
 
 describe('SkillGenerator', () => {
   const mockNodes: EnrichedNodeInfo[] = [
@@ -91,42 +92,41 @@ describe('SkillGenerator', () => {
 
       expect(content).toMatch(/^---\n/);
       expect(content).toContain('name: n8n Test');
-      expect(content).toContain('description: Test skill');
-      expect(content).toContain('allowed-tools:');
+      expect(content).toContain('description: "Test skill"');
+      expect(content).toContain('license: MIT');
     });
 
     it('should include overview sections', () => {
       const generator = new SkillGenerator(mockInput.config);
       const content = generator.generate(mockInput);
 
-      expect(content).toContain('# n8n Workflow Automation');
-      expect(content).toContain('## What is n8n?');
-      expect(content).toContain('## When to Use This Skill');
+      expect(content).toContain('# n8n Workflow Automation Skill Pack');
+      expect(content).toContain('## Overview');
+      expect(content).toContain('## When to Use');
     });
 
     it('should include how to find nodes section', () => {
       const generator = new SkillGenerator(mockInput.config);
       const content = generator.generate(mockInput);
 
-      expect(content).toContain('# How to Find Nodes');
-      expect(content).toContain('INDEX.md');
+      expect(content).toContain('[How to Find Nodes](resources/guides/how-to-find-nodes.md)');
+      expect(content).toContain('[Complete Node Index](resources/INDEX.md)');
     });
 
-    it('should list nodes sorted by usage', () => {
-      const generator = new SkillGenerator(mockInput.config);
+    it('should point to the node documentation of the top nodes', () => {
+      const generator = new SkillGenerator({ ...mockInput.config, topNodesCount: 3 });
       const content = generator.generate(mockInput);
 
-      // Check nodes are present
-      expect(content).toContain('HTTP Request');
-      expect(content).toContain('Set');
-      expect(content).toContain('IF');
+      // Nodes are documented under resources/, SKILL.md only states how many
+      expect(content).toContain('Detailed information on the 3 most commonly used built-in n8n nodes');
+      expect(content).not.toContain('HTTP Request');
     });
 
     it('should include common workflow patterns', () => {
       const generator = new SkillGenerator(mockInput.config);
       const content = generator.generate(mockInput);
 
-      expect(content).toContain('Common Workflow Patterns');
+      expect(content).toContain('[Workflow Patterns](resources/guides/workflow-patterns.md)');
     });
 
     it('should include license and attribution', () => {
@@ -242,4 +242,51 @@ describe('SkillGenerator', () => {
       expect(content.length).toBeGreaterThan(0);
     });
   });
+
+  describe('Workflow patterns file', () => {
+    const workflowPatterns: WorkflowPatterns = {
+      workflowCount: 40,
+      chains: [
+        {
+          nodeTypes: ['nodes-base.HttpRequest', 'nodes-base.Set', 'nodes-base.slack'],
+          workflowCount: 6,
+          example: { id: 123, name: 'Post API data to Slack', nodeCount: 4 },
+        },
+      ],
+      aiClusters: [
+        {
+          rootNodeType: 'nodes-langchain.agent',
+          connectionTypes: ['ai_languageModel', 'ai_tool'],
+          typicalSubNodes: {
+            ai_languageModel: 'nodes-langchain.lmChatOpenAi',
+            ai_tool: 'nodes-langchain.toolCalculator',
+          },
+          workflowCount: 9,
+          example: { id: 456, name: 'Simple agent', nodeCount: 3 },
+        },
+      ],
+      minedAt: '2025-01-01T00:00:00.000Z',
+    };
+
+    it('should list mined patterns with counts and an example template', () => {
+      const content = new SkillGenerator().generateWorkflowPatternsFile(40, workflowPatterns, mockNodes);
+
+      expect(content).toContain('### 1. HTTP Request → Set → nodes-base.slack');
+      expect(content).toContain('- Found in: 6 of 40 templates');
+      expect(content).toContain('- Example: [Post API data to Slack](https://n8n.io/workflows/123) (4 nodes)');
+      expect(content).toContain('### 1. nodes-langchain.agent with languageModel, tool');
+      expect(content).toContain('- `ai_languageModel`: usually nodes-langchain.lmChatOpenAi (`nodes-langchain.lmChatOpenAi`)');
+      expect(content).not.toContain('Email Automation');
+    });
+
+    it('should fall back to the static patterns without mined patterns', () => {
+      const content = new SkillGenerator().generateWorkflowPatternsFile(40, {
+        ...workflowPatterns,
+        chains: [],
+        aiClusters: [],
+      });
+
+      expect(content).toContain('## 2. Email Automation');
+    });
+  });
 });
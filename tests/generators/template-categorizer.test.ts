@@ -0,0 +1,149 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TemplateCategorizer, TemplateCategory } from '../../src/generators/template-categorizer';
+import { TemplateGenerator, type Template } from '../../src/generators/template-generator';
+import { createNode } from '../helpers/workflow-fixtures';
+
+function createTemplate(id: number, name: string, description: string, nodeTypes: string[] = []): Template {
+  return {
+    id,
+    name,
+    description,
+    totalViews: 1000 - id,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    user: { id: 1, name: 'Test User', username: 'tester', verified: false },
+    nodes: nodeTypes.map((type, index) => ({ id: index, name: type })),
+  };
+}
+
+describe('TemplateCategorizer', () => {
+  const categorizer = new TemplateCategorizer();
+
+  it('should not put every template mentioning data into data processing', () => {
+    const result = categorizer.categorize(
+      createTemplate(1, 'Forward Telegram messages to Slack', 'Sends the message data to a Slack channel', [
+        'n8n-nodes-base.telegramTrigger',
+        'n8n-nodes-base.slack',
+      ])
+    );
+
+    expect(result.primary).toBe(TemplateCategory.COMMUNICATION);
+    expect(result.tags.map(tag => tag.category)).not.toContain(TemplateCategory.DATA_PROCESSING);
+  });
+
+  it('should use the trigger kind and AI sub-nodes of the analyzed workflow', () => {
+    const generator = new TemplateGenerator({ outputDir: os.tmpdir() });
+    const template = generator.enhanceTemplate(createTemplate(2, 'Support helper', 'Answers questions'), {
+      id: 2,
+      name: 'Support helper',
+      nodes: [
+        createNode('Chat', '@n8n/n8n-nodes-langchain.chatTrigger'),
+        createNode('Agent', '@n8n/n8n-nodes-langchain.agent'),
+        createNode('Model', '@n8n/n8n-nodes-langchain.lmChatOpenAi'),
+        createNode('Memory', '@n8n/n8n-nodes-langchain.memoryBufferWindow'),
+      ],
+      connections: {},
+    });
+
+    const result = categorizer.categorize(template);
+
+    expect(result.primary).toBe(TemplateCategory.AI_CHATBOTS);
+    expect(result.tags[0].confidence).toBeGreaterThan(0.7);
+    expect(result.overridden).toBe(false);
+  });
+
+  it('should assign several tags with confidence scores', () => {
+    const result = categorizer.categorize(
+      createTemplate(3, 'Log YouTube comments to Google Sheets', 'Stores new video comments in a spreadsheet', [
+        'n8n-nodes-base.youTube',
+        'n8n-nodes-base.googleSheets',
+      ])
+    );
+
+    expect(result.tags.map(tag => tag.category)).toEqual([
+      TemplateCategory.SOCIAL_MEDIA,
+      TemplateCategory.DATA_PROCESSING,
+    ]);
+    expect(result.tags[0].confidence).toBeGreaterThanOrEqual(result.tags[1].confidence);
+  });
+
+  it('should fall back to automation when nothing matches', () => {
+    const result = categorizer.categorize(createTemplate(4, 'Untitled', ''));
+
+    expect(result).toEqual({
+      primary: TemplateCategory.AUTOMATION,
+      tags: [{ category: TemplateCategory.AUTOMATION, confidence: 0 }],
+      overridden: false,
+    });
+  });
+
+  it('should apply overrides from a file and ignore unknown categories', () => {
+    const overridesPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'categorizer-test-')), 'overrides.json');
+    fs.writeFileSync(overridesPath, JSON.stringify({ overrides: { '5': ['learning', 'ai-chatbots', 'cooking'] } }));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    try {
+      const result = TemplateCategorizer.fromFile(overridesPath).categorize(
+        createTemplate(5, 'Build your first AI agent', 'An AI agent with tools', ['@n8n/n8n-nodes-langchain.agent'])
+      );
+
+      expect(result).toEqual({
+        primary: TemplateCategory.LEARNING,
+        tags: [
+          { category: TemplateCategory.LEARNING, confidence: 1 },
+          { category: TemplateCategory.AI_CHATBOTS, confidence: 1 },
+        ],
+        overridden: true,
+      });
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('cooking'));
+    } finally {
+      warn.mockRestore();
+      fs.rmSync(path.dirname(overridesPath), { recursive: true, force: true });
+    }
+  });
+});
+
+describe('TemplateGenerator categorization', () => {
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'template-generator-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('should list templates under every tag and record the confidence', async () => {
+    const generator = new TemplateGenerator({ outputDir });
+    const template = createTemplate(3, 'Log YouTube comments to Google Sheets', 'Stores new video comments in a spreadsheet', [
+      'n8n-nodes-base.youTube',
+      'n8n-nodes-base.googleSheets',
+    ]);
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    try {
+      await generator.generate([template]);
+    } finally {
+      log.mockRestore();
+    }
+
+    const filename = '3-log-youtube-comments-to-google-sheets.md';
+    const markdown = fs.readFileSync(path.join(outputDir, 'social-media', filename), 'utf-8');
+    expect(fs.existsSync(path.join(outputDir, 'data-processing', filename))).toBe(true);
+    expect(markdown).toMatch(
+      /> \*\*Tags\*\*: Social Media & Video \(confidence 0\.\d\d\), Data Processing & Analysis \(confidence 0\.\d\d\)/
+    );
+
+    const mainIndex = fs.readFileSync(path.join(outputDir, 'README.md'), 'utf-8');
+    expect(mainIndex).toContain('- Total Templates: 1');
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import { WebsiteGenerator, type WebsiteCatalogData } from '../../src/generators/website-generator';
+import type { SimplifiedNodeInfo } from '../../src/collectors/npm-collector';
+import type { ParsedProperties } from '../../src/parsers/property-parser';
+import type { NodeConnectionInfo } from '../../src/models/connection';
+import type { Template } from '../../src/generators/template-generator';
+
+function createNode(nodeType: string, displayName: string, category: string): SimplifiedNodeInfo {
+  return {
+    nodeType,
+    displayName,
+    description: `Consume the ${displayName} API. <a href="https://example.com">More info</a>`,
+    category,
+    packageName: nodeType.startsWith('nodes-langchain') ? '@n8n/n8n-nodes-langchain' : 'n8n-nodes-base',
+    version: '2',
+    isVersioned: false,
+    isTrigger: category === 'trigger',
+    isWebhook: false,
+    isAITool: false,
+    hasCredentials: true,
+    hasOperations: true,
+  };
+}
+
+function createTemplate(id: number, name: string, totalViews: number, nodeTypes: string[]): Template {
+  return {
+    id,
+    name,
+    description: 'How it works\n\nSends <b>messages</b> & more.',
+    totalViews,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    user: { id: 1, name: 'Jane', username: 'jane', verified: true },
+    nodes: nodeTypes.map((type, index) => ({ id: index, name: type })),
+  };
+}
+
+const slack = createNode('nodes-base.slack', 'Slack', 'output');
+const webhook = createNode('nodes-base.webhook', 'Webhook', 'trigger');
+const agent = createNode('nodes-langchain.agent', 'AI Agent', 'transform');
+
+const data: WebsiteCatalogData = {
+  nodes: [slack, webhook, agent],
+  properties: {
+    'nodes-base.slack': {
+      properties: {
+        coreProperties: [
+          { name: 'channel', displayName: 'Channel', type: 'string', required: true, default: '' },
+          { name: 'text', displayName: 'Text', type: 'string', required: false, default: 'Hi <there>' },
+        ],
+        operations: [{ name: 'Send', value: 'post', resource: 'message', description: 'Send a message' }],
+        hasCredentials: true,
+        totalPropertyCount: 12,
+      } as unknown as ParsedProperties,
+    },
+  },
+  connections: [
+    {
+      nodeType: 'nodes-langchain.agent',
+      displayName: 'AI Agent',
+      inputTypes: ['main', 'ai_languageModel'],
+      outputTypes: ['main'],
+      isMultiInput: true,
+      isMultiOutput: false,
+      requiresSpecialInputs: true,
+      category: 'transform',
+      outputCount: 1,
+      outputNames: [],
+      isDynamicOutput: false,
+    } as unknown as NodeConnectionInfo,
+  ],
+  templates: [
+    createTemplate(10, 'Webhook to Slack', 500, ['n8n-nodes-base.webhook', 'n8n-nodes-base.slack', 'n8n-nodes-base.stickyNote']),
+    createTemplate(20, 'Slack agent', 900, ['n8n-nodes-base.slack', '@n8n/n8n-nodes-langchain.agent', 'n8n-nodes-base.unknown']),
+  ],
+  nodeGraph: {
+    workflowCount: 2,
+    nodeWorkflowCounts: { 'nodes-base.webhook': 1, 'nodes-base.slack': 2 },
+    transitions: [{ source: 'nodes-base.webhook', target: 'nodes-base.slack', count: 1, workflowCount: 1 }],
+    minedAt: '2025-01-01T00:00:00.000Z',
+  },
+};
+
+describe('WebsiteGenerator', () => {
+  const generator = new WebsiteGenerator({ siteUrl: 'https://example.com/' });
+  const catalog = generator.generate(data);
+  const page = (pagePath: string) => catalog.pages.find(p => p.path === pagePath)?.content || '';
+
+  it('should generate node, category, template and index pages', () => {
+    expect(catalog.pages.map(p => p.path)).toEqual([
+      'nodes/nodes-langchain.agent.html',
+      'nodes/nodes-base.slack.html',
+      'nodes/nodes-base.webhook.html',
+      'categories/output.html',
+      'categories/transform.html',
+      'categories/trigger.html',
+      'templates/20.html',
+      'templates/10.html',
+      'nodes/index.html',
+      'templates/index.html',
+    ]);
+    expect(page('categories/output.html')).toContain('<a href="../nodes/nodes-base.slack.html">Slack</a>');
+    expect(page('templates/index.html').indexOf('Slack agent')).toBeLessThan(page('templates/index.html').indexOf('Webhook to Slack'));
+  });
+
+  it('should render operations, properties, connection guide and templates on node pages', () => {
+    const slackPage = page('nodes/nodes-base.slack.html');
+
+    expect(slackPage).toContain('<title>Slack | n8n Skills</title>');
+    expect(slackPage).toContain('<link rel="canonical" href="https://example.com/nodes/nodes-base.slack.html">');
+    expect(slackPage).toContain('<td>message</td><td>Send <code>post</code></td><td>Send a message</td>');
+    expect(slackPage).toContain('<code>&quot;Hi &lt;there&gt;&quot;</code>');
+    expect(slackPage).toContain('Showing 2 core properties of 12.');
+    expect(slackPage).toContain('<h3>Commonly Preceded By</h3>');
+    expect(slackPage).toContain('<td><a href="../nodes/nodes-base.webhook.html">Webhook</a></td><td>1 of 2</td>');
+    expect(slackPage).toContain('<a href="../templates/20.html">Slack agent</a>');
+    expect(slackPage).not.toContain('<a href="https://example.com">');
+
+    const agentPage = page('nodes/nodes-langchain.agent.html');
+    expect(agentPage).toContain('Needs sub-nodes connected to: <code>ai_languageModel</code>');
+    expect(agentPage).not.toContain('<h2>Operations</h2>');
+  });
+
+  it('should link the nodes a template uses and skip sticky notes', () => {
+    const templatePage = page('templates/20.html');
+
+    expect(templatePage).toContain('<p>Sends messages &amp; more.</p>');
+    expect(templatePage).toContain('<li><a href="../nodes/nodes-langchain.agent.html">AI Agent</a></li>');
+    expect(templatePage).toContain('<li><code>nodes-base.unknown</code></li>');
+    expect(page('templates/10.html')).not.toContain('stickyNote');
+  });
+
+  it('should build a search index covering every node, category and template', () => {
+    expect(catalog.searchIndex).toHaveLength(8);
+    expect(catalog.searchIndex[1]).toEqual({
+      kind: 'node',
+      title: 'Slack',
+      description: 'Consume the Slack API. More info',
+      url: 'nodes/nodes-base.slack.html',
+      category: 'output',
+      keywords: ['nodes-base.slack', 'Send'],
+    });
+    expect(catalog.searchIndex.find(entry => entry.url === 'templates/10.html')?.keywords).toEqual(['Webhook', 'Slack']);
+  });
+
+  it('should list every page in the sitemap', () => {
+    const sitemap = generator.generateSitemap(
+      ['index.html', 'zh-TW/index.html', ...catalog.pages.map(p => p.path)],
+      '2025-01-02'
+    );
+
+    expect(sitemap.match(/<url>/g)).toHaveLength(12);
+    expect(sitemap).toContain('<loc>https://example.com/</loc>');
+    expect(sitemap).toContain('<loc>https://example.com/zh-TW/</loc>');
+    expect(sitemap).toContain('<loc>https://example.com/nodes/</loc>');
+    expect(sitemap).toContain('<loc>https://example.com/nodes/nodes-base.slack.html</loc>');
+    expect(sitemap).toContain('<lastmod>2025-01-02</lastmod>');
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+/**
+ * Workflow factories shared by the tests
+ */
+
+import type { WorkflowDefinition, WorkflowNode } from '../../src/collectors/api-collector';
+
+/**
+ * Workflow node named and identified by `name`
+ */
+export function createNode(name: string, type: string): WorkflowNode {
+  return { id: name, name, type, typeVersion: 1, position: [0, 0], parameters: {} };
+}
+
+/**
+ * Template workflow with one connection per edge ([from, to, connection type = main])
+ */
+export function createWorkflow(
+  id: number,
+  nodes: WorkflowNode[],
+  edges: Array<[string, string, string?]>
+): WorkflowDefinition & { id: number; name: string } {
+  const connections: WorkflowDefinition['connections'] = {};
+  for (const [from, to, type = 'main'] of edges) {
+    connections[from] = connections[from] || {};
+    connections[from][type] = connections[from][type] || [[]];
+    connections[from][type][0].push({ node: to, type, index: 0 });
+  }
+  return { id, name: `Workflow ${id}`, nodes, connections };
+}
@@ -0,0 +1,142 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  SUPPORTED_LOCALES,
+  formatMessage,
+  getMessages,
+  isSupportedLocale,
+  type Locale,
+} from '../../src/i18n';
+import { CommunityGenerator } from '../../src/generators/community-generator';
+import { CredentialGenerator } from '../../src/generators/credential-generator';
+import { TemplateCategory, TemplateGenerator, type Template } from '../../src/generators/template-generator';
+import type { CredentialTypeInfo } from '../../src/collectors/credential-collector';
+
+/**
+ * Flatten a catalog into key path -> placeholders of that message
+ */
+function collectPlaceholders(value: unknown, keyPath: string, result: Map<string, string>): Map<string, string> {
+  if (typeof value === 'string') {
+    result.set(keyPath, (value.match(/\{\{\w+\}\}/g) || []).sort().join(','));
+  } else if (Array.isArray(value)) {
+    // Line arrays may differ in length between locales; only their placeholders must match
+    const lines = value.filter(item => typeof item === 'string').join('\n');
+    result.set(keyPath, (lines.match(/\{\{\w+\}\}/g) || []).sort().join(','));
+    value
+      .filter(item => typeof item === 'object')
+      .forEach((item, index) => collectPlaceholders(item, `${keyPath}[${index}]`, result));
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      collectPlaceholders(child, keyPath ? `${keyPath}.${key}` : key, result);
+    }
+  }
+  return result;
+}
+
+describe('i18n', () => {
+  const english = collectPlaceholders(getMessages('en'), '', new Map());
+
+  it.each(SUPPORTED_LOCALES.filter(locale => locale !== 'en'))(
+    'should give %s the same messages and placeholders as en',
+    locale => {
+      const messages = collectPlaceholders(getMessages(locale), '', new Map());
+
+      expect([...messages.keys()].sort()).toEqual([...english.keys()].sort());
+      for (const [keyPath, placeholders] of english) {
+        expect(`${keyPath}: ${messages.get(keyPath)}`).toBe(`${keyPath}: ${placeholders}`);
+      }
+    }
+  );
+
+  it('should fill placeholders and keep unknown ones', () => {
+    expect(formatMessage('- {{category}}: {{total}} nodes', { category: 'Trigger', total: 3 })).toBe('- Trigger: 3 nodes');
+    expect(formatMessage('{{missing}} stays', {})).toBe('{{missing}} stays');
+  });
+
+  it('should reject unsupported locales', () => {
+    expect(isSupportedLocale('zh-TW')).toBe(true);
+    expect(isSupportedLocale('fr')).toBe(false);
+    expect(() => getMessages('fr' as Locale)).toThrow('Unsupported locale: fr (supported: en, zh-TW)');
+  });
+
+  describe('generated docs', () => {
+    let outputDir: string;
+    const read = (file: string) => fs.readFileSync(path.join(outputDir, file), 'utf-8');
+
+    beforeEach(() => {
+      outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'i18n-docs-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    });
+
+    it('should render template docs in the requested locale', () => {
+      const generator = new TemplateGenerator({ outputDir, locale: 'zh-TW' });
+      const template: Template = {
+        id: 1,
+        name: 'Chatbot',
+        description: '',
+        totalViews: 10,
+        createdAt: '2025-01-01T00:00:00.000Z',
+        user: { id: 1, name: 'Jane', username: 'jane', verified: true },
+        nodes: [],
+      };
+
+      const markdown = generator.generateTemplateMarkdown(template, TemplateCategory.AI_CHATBOTS);
+      expect(markdown).toContain('> **分類**：AI 與聊天機器人');
+      expect(markdown).toContain('沒有說明');
+      expect(markdown).not.toContain('No description');
+
+      const index = generator.generateMainIndex(new Map([[TemplateCategory.AI_CHATBOTS, [template]]]));
+      expect(index).toContain('# n8n 工作流程範本');
+      expect(index).toContain('- 範本總數：1');
+    });
+
+    it('should render credential docs in the requested locale', async () => {
+      const credentials: CredentialTypeInfo[] = [{
+        name: 'slackApi',
+        displayName: 'Slack API',
+        packageName: 'n8n-nodes-base',
+        authType: 'header',
+        extends: [],
+        fields: [{ name: 'accessToken', displayName: 'Access Token', type: 'string', required: true, secret: true }],
+      }];
+
+      await new CredentialGenerator({ outputDir, locale: 'zh-TW' }).generate(credentials, []);
+
+      expect(read('README.md')).toContain('# 憑證類型');
+      expect(read('slackApi.md')).toContain('## 必填欄位');
+      expect(read('slackApi.md')).not.toContain('Required Fields');
+    });
+
+    it('should render community docs in the requested locale', async () => {
+      const configPath = path.join(outputDir, 'community-packages.json');
+      fs.writeFileSync(configPath, JSON.stringify({
+        version: '1.0.0',
+        lastUpdated: '2025-01-01T00:00:00.000Z',
+        limit: 1,
+        packages: [{ name: 'n8n-nodes-acme', description: 'Acme', category: 'utilities', npmUrl: 'https://www.npmjs.com/package/n8n-nodes-acme' }],
+      }));
+
+      await new CommunityGenerator({
+        outputDir,
+        configPath,
+        cachePath: path.join(outputDir, 'missing.json'),
+        locale: 'zh-TW',
+      }).generate();
+
+      expect(read('README.md')).toContain('### 🔧 工具與輔助');
+      expect(read('n8n-nodes-acme.md')).toContain('- 分類：🔧 工具與輔助');
+      expect(read('n8n-nodes-acme.md')).not.toContain('Utilities & Tools');
+    });
+  });
+});
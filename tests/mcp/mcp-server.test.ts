@@ -0,0 +1,148 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import { PassThrough } from 'stream';
+import { McpServer, type JsonRpcMessage } from '../../src/mcp/mcp-server';
+
+interface ToolResult {
+  content: Array<{ type: string; text: string }>;
+  isError?: boolean;
+}
+
+const toolResult = (response: JsonRpcMessage | null) => response?.result as ToolResult;
+
+describe('McpServer', () => {
+  const createServer = () =>
+    new McpServer({
+      name: 'test-server',
+      version: '1.0.0',
+      log: () => undefined,
+      tools: [
+        {
+          name: 'echo',
+          description: 'Echo the message',
+          inputSchema: {
+            type: 'object',
+            properties: { message: { type: 'string' }, times: { type: 'integer' } },
+            required: ['message']
+          },
+          handler: args => ({ echoed: args.message })
+        },
+        {
+          name: 'fail',
+          description: 'Always fails',
+          inputSchema: { type: 'object', properties: {} },
+          handler: () => {
+            throw new Error('Something broke');
+          }
+        }
+      ]
+    });
+
+  it('should negotiate the protocol version on initialize', async () => {
+    const server = createServer();
+
+    const supported = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2024-11-05' }
+    });
+    const unknown = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'initialize',
+      params: { protocolVersion: '1999-01-01' }
+    });
+
+    expect(supported?.result).toEqual({
+      protocolVersion: '2024-11-05',
+      capabilities: { tools: {} },
+      serverInfo: { name: 'test-server', version: '1.0.0' }
+    });
+    expect(unknown?.result).toMatchObject({ protocolVersion: '2025-06-18' });
+  });
+
+  it('should list tools without handlers', async () => {
+    const response = await createServer().handleMessage({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+    const { tools } = response?.result as { tools: Array<Record<string, unknown>> };
+    expect(tools.map(tool => tool.name)).toEqual(['echo', 'fail']);
+    expect(tools[0].handler).toBeUndefined();
+  });
+
+  it('should return tool results as JSON text', async () => {
+    const response = await createServer().handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name: 'echo', arguments: { message: 'hi' } }
+    });
+
+    expect(JSON.parse(toolResult(response).content[0].text)).toEqual({ echoed: 'hi' });
+    expect(toolResult(response).isError).toBeUndefined();
+  });
+
+  it('should report tool failures and missing arguments as tool errors', async () => {
+    const server = createServer();
+
+    const failed = await server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'fail' } });
+    const missing = await server.handleMessage({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'echo' } });
+
+    expect(failed?.result).toEqual({ content: [{ type: 'text', text: 'Something broke' }], isError: true });
+    expect(toolResult(missing).content[0].text).toBe('Missing required argument(s): message');
+  });
+
+  it('should reject arguments that do not match the input schema', async () => {
+    const server = createServer();
+
+    const wrongType = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name: 'echo', arguments: { message: 42, times: 1.5 } }
+    });
+    const notAnObject = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'tools/call',
+      params: { name: 'echo', arguments: ['hi'] }
+    });
+
+    expect(toolResult(wrongType)).toEqual({
+      content: [{ type: 'text', text: 'Invalid argument(s): message (expected string), times (expected integer)' }],
+      isError: true
+    });
+    expect(notAnObject?.error?.code).toBe(-32602);
+  });
+
+  it('should answer protocol errors and ignore notifications', async () => {
+    const server = createServer();
+
+    expect(await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeNull();
+    expect((await server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'resources/list' }))?.error?.code).toBe(-32601);
+    expect((await server.handleMessage({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'nope' } }))?.error?.code).toBe(-32602);
+    expect((await server.handleLine('{not json'))?.error?.code).toBe(-32700);
+  });
+
+  it('should serve newline-delimited messages from a stream', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const chunks: string[] = [];
+    output.on('data', chunk => chunks.push(chunk.toString()));
+
+    const done = createServer().listen(input, output);
+    input.write('{"jsonrpc":"2.0","id":1,"method":"ping"}\n');
+    input.write('{"jsonrpc":"2.0","method":"notifications/initialized"}\n');
+    input.end('{"jsonrpc":"2.0","id":2,"method":"tools/list"}\n');
+    await done;
+
+    const responses = chunks.join('').trim().split('\n').map(line => JSON.parse(line));
+    expect(responses.map(response => response.id)).toEqual([1, 2]);
+    expect(responses[0].result).toEqual({});
+  });
+});
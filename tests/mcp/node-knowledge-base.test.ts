@@ -0,0 +1,158 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import { NodeKnowledgeBase } from '../../src/mcp/node-knowledge-base';
+import { PropertyTreeParser } from '../../src/parsers/property-tree-parser';
+import type { SimplifiedNodeInfo } from '../../src/collectors/npm-collector';
+import type { NodeConnectionInfo } from '../../src/models/connection';
+
+describe('NodeKnowledgeBase', () => {
+  const nodeInfo = (nodeType: string, displayName: string, description: string, category = 'transform'): SimplifiedNodeInfo => ({
+    nodeType,
+    displayName,
+    description,
+    category,
+    packageName: 'n8n-nodes-base',
+    version: '1',
+    isVersioned: false,
+    isTrigger: category === 'trigger',
+    isWebhook: false,
+    isAITool: false,
+    hasCredentials: false,
+    hasOperations: false
+  });
+
+  const connection = (nodeType: string, inputTypes: string[], outputTypes: string[]): NodeConnectionInfo => ({
+    nodeType,
+    displayName: nodeType,
+    inputTypes: inputTypes as NodeConnectionInfo['inputTypes'],
+    outputTypes: outputTypes as NodeConnectionInfo['outputTypes'],
+    isMultiInput: false,
+    isMultiOutput: false,
+    requiresSpecialInputs: false,
+    category: 'transform',
+    outputCount: 1,
+    outputNames: [],
+    isDynamicOutput: false
+  });
+
+  const knowledgeBase = new NodeKnowledgeBase({
+    nodes: [
+      nodeInfo('nodes-base.googleSheets', 'Google Sheets', 'Read, update and write data to Google Sheets', 'input'),
+      nodeInfo('nodes-base.googleSheetsTrigger', 'Google Sheets Trigger', 'Starts the workflow when Google Sheets events occur', 'trigger'),
+      nodeInfo('nodes-base.gmail', 'Gmail', 'Consume the Gmail API', 'output'),
+      nodeInfo('nodes-langchain.agent', 'AI Agent', 'Generates an action plan and executes it'),
+      nodeInfo('nodes-langchain.lmChatOpenAi', 'OpenAI Chat Model', 'For advanced usage with an AI chain')
+    ],
+    properties: {
+      'nodes-base.gmail': {
+        properties: {
+          coreProperties: [],
+          operations: [{ name: 'Send', value: 'send', description: 'Send an email' }],
+          hasCredentials: true,
+          totalPropertyCount: 2,
+          credentials: [{ name: 'gmailOAuth2', required: true }],
+          propertyTree: new PropertyTreeParser().parseDescription(
+            {
+              properties: [
+                { name: 'operation', displayName: 'Operation', type: 'options', default: 'send', options: [{ name: 'Send', value: 'send' }] },
+                { name: 'sendTo', displayName: 'To', type: 'string', required: true, default: '', displayOptions: { show: { operation: ['send'] } } },
+                { name: 'options', displayName: 'Options', type: 'collection', default: {}, options: [] }
+              ]
+            },
+            2.1
+          )
+        }
+      }
+    },
+    connections: [
+      connection('nodes-base.googleSheets', ['main'], ['main']),
+      connection('nodes-base.gmail', ['main'], ['main']),
+      connection('nodes-langchain.agent', ['main', 'ai_languageModel'], ['main']),
+      connection('nodes-langchain.lmChatOpenAi', [], ['ai_languageModel'])
+    ],
+    usageStats: {
+      'n8n-nodes-base.googleSheets': { count: 45, percentage: 9 },
+      'n8n-nodes-base.gmail': { count: 20, percentage: 4 }
+    },
+    templates: [
+      {
+        id: 6270,
+        name: 'Build Your First AI Agent',
+        description: 'Chat with an agent',
+        totalViews: 1000,
+        createdAt: '2025-07-22T12:14:21.343Z',
+        user: { id: 1, name: 'User', username: 'user', verified: true },
+        nodes: [{ id: 1, name: '@n8n/n8n-nodes-langchain.agent' }]
+      }
+    ],
+    templateWorkflows: [
+      {
+        id: 6270,
+        name: 'Build Your First AI Agent',
+        totalViews: 1000,
+        lastFetched: '2025-07-23T00:00:00.000Z',
+        workflow: { id: 6270, name: 'Build Your First AI Agent', nodes: [], connections: {} }
+      }
+    ]
+  });
+
+  it('should resolve node types from workflow types and names', () => {
+    expect(knowledgeBase.resolveNodeType('n8n-nodes-base.gmail')).toBe('nodes-base.gmail');
+    expect(knowledgeBase.resolveNodeType('gmail')).toBe('nodes-base.gmail');
+    expect(knowledgeBase.resolveNodeType('AI Agent')).toBe('nodes-langchain.agent');
+    expect(knowledgeBase.resolveNodeType('unknown')).toBeUndefined();
+  });
+
+  it('should rank exact and popular matches first', () => {
+    const results = knowledgeBase.searchNodes('google sheets');
+
+    expect(results.map(result => result.nodeType)).toEqual(['nodes-base.googleSheets', 'nodes-base.googleSheetsTrigger']);
+    expect(results[0].usageCount).toBe(45);
+    expect(knowledgeBase.searchNodes('sheets', { category: 'trigger' }).map(result => result.nodeType)).toEqual([
+      'nodes-base.googleSheetsTrigger'
+    ]);
+  });
+
+  it('should return node details with scoped operation parameters', () => {
+    const details = knowledgeBase.getNodeDetails('gmail');
+
+    expect(details).toMatchObject({
+      nodeType: 'nodes-base.gmail',
+      usageCount: 20,
+      inputTypes: ['main'],
+      credentials: [{ name: 'gmailOAuth2', required: true }],
+      operations: [
+        {
+          operation: 'send',
+          name: 'Send',
+          description: 'Send an email',
+          requiredParameters: ['sendTo'],
+          optionalParameters: ['options']
+        }
+      ]
+    });
+    expect(knowledgeBase.getNodeDetails('nope')).toBeNull();
+  });
+
+  it('should find compatible targets by connection type', () => {
+    const targets = knowledgeBase.getCompatibleTargets('nodes-langchain.lmChatOpenAi', { connectionType: 'ai_languageModel' });
+
+    expect(targets?.map(target => target.targetNode)).toEqual(['nodes-langchain.agent']);
+  });
+
+  it('should return templates by id and search them by keyword', () => {
+    expect(knowledgeBase.getTemplate(6270)).toMatchObject({
+      id: 6270,
+      url: 'https://n8n.io/workflows/6270',
+      nodeTypes: ['@n8n/n8n-nodes-langchain.agent'],
+      workflow: { nodes: [] }
+    });
+    expect(knowledgeBase.getTemplate(1)).toBeNull();
+    expect(knowledgeBase.searchTemplates('agent').map(template => template.id)).toEqual([6270]);
+  });
+});
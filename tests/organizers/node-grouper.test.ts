@@ -179,6 +179,45 @@ describe('NodeGrouper', () => {
       expect(slackNode?.relatedNodes.length).toBeGreaterThan(0);
       expect(slackNode?.relatedNodes).toContain('nodes-base.discord');
     });
+
+    it('should build relationships from mined template connections', () => {
+      const minedGrouper = new NodeGrouper({
+        workflowCount: 10,
+        nodeWorkflowCounts: {},
+        transitions: [
+          { source: 'nodes-base.webhook', target: 'nodes-base.slack', count: 5, workflowCount: 4 },
+          { source: 'nodes-base.slack', target: 'nodes-base.notion', count: 2, workflowCount: 2 }
+        ],
+        minedAt: '2025-01-01T00:00:00.000Z'
+      });
+
+      const result = minedGrouper.group([
+        { nodeType: 'nodes-base.webhook', displayName: 'Webhook', description: 'Receive requests' },
+        { nodeType: 'nodes-base.slack', displayName: 'Slack', description: 'Slack integration' },
+        { nodeType: 'nodes-base.discord', displayName: 'Discord', description: 'Discord integration' }
+      ]);
+
+      expect(result.relationships).toEqual([
+        {
+          sourceNode: 'nodes-base.webhook',
+          targetNode: 'nodes-base.slack',
+          relationshipType: 'successor',
+          description: 'Slack follows Webhook in 4 templates',
+          workflowCount: 4
+        }
+      ]);
+      const slackNode = result.byFrequency.get(UsageFrequency.COMMON)?.find(n => n.nodeType === 'nodes-base.slack');
+      expect(slackNode?.relatedNodes.slice(0, 2)).toEqual(['nodes-base.webhook', 'nodes-base.discord']);
+    });
+
+    it('should not invent relationships without mined connections', () => {
+      const result = grouper.group([
+        { nodeType: 'nodes-base.webhook', displayName: 'Webhook', description: 'Receive requests' },
+        { nodeType: 'nodes-base.httpRequest', displayName: 'HTTP Request', description: 'Make requests' }
+      ]);
+
+      expect(result.relationships).toEqual([]);
+    });
   });
 
   describe('Edge Cases', () => {
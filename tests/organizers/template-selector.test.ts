@@ -0,0 +1,86 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import { TemplateSelector, type SelectableTemplate } from '../../src/organizers/template-selector';
+import { TemplateCategory } from '../../src/generators/template-categorizer';
+
+const NOW = new Date('2025-06-01T00:00:00.000Z');
+
+function createTemplate(id: number, name: string, totalViews: number, createdAt = '2024-06-01T00:00:00.000Z'): SelectableTemplate {
+  return { id, name, description: '', totalViews, createdAt };
+}
+
+describe('TemplateSelector', () => {
+  const aiTemplates = [1, 2, 3, 4, 5].map(id => createTemplate(id, `AI agent chatbot ${id}`, 100000 - id));
+  const learningTemplate = createTemplate(10, 'Learn n8n expressions tutorial', 800);
+
+  it('should give niche categories their own quota', () => {
+    const selector = new TemplateSelector({ defaultQuota: 2, now: NOW });
+
+    const selected = selector.select([...aiTemplates, learningTemplate]);
+
+    expect(selected.map(template => template.id)).toEqual([1, 2, 10]);
+  });
+
+  it('should apply per-category quotas and minimum views', () => {
+    const selector = new TemplateSelector({
+      defaultQuota: 1,
+      categoryQuotas: { [TemplateCategory.AI_CHATBOTS]: 3 },
+      minViews: 1000,
+      now: NOW,
+    });
+
+    const selected = selector.select([...aiTemplates, learningTemplate]);
+
+    expect(selected.map(template => template.id)).toEqual([1, 2, 3]);
+  });
+
+  it('should keep every category when the total is capped', () => {
+    const selector = new TemplateSelector({ defaultQuota: 5, maxTemplates: 2, now: NOW });
+
+    const selected = selector.selectScored([...aiTemplates, learningTemplate]);
+
+    expect(selected.map(entry => [entry.template.id, entry.category])).toEqual([
+      [1, TemplateCategory.AI_CHATBOTS],
+      [10, TemplateCategory.LEARNING],
+    ]);
+  });
+
+  it('should keep defaults for options a partial template_collection config leaves unset', () => {
+    // The builder maps every template_collection key, so unset keys arrive as undefined
+    const collection: { per_category?: number; min_views?: number; max_templates?: number } = { max_templates: 3 };
+    const selector = new TemplateSelector({
+      minViews: collection.min_views,
+      recencyWeight: undefined,
+      recencyHalfLifeDays: undefined,
+      defaultQuota: collection.per_category,
+      categoryQuotas: undefined,
+      maxTemplates: collection.max_templates,
+      now: NOW,
+    });
+
+    const selected = selector.select([...aiTemplates, learningTemplate]);
+
+    expect(selected.map(template => template.id)).toEqual([1, 2, 10]);
+  });
+
+  it('should favor recent templates when recency is weighted', () => {
+    const older = createTemplate(20, 'Slack and Telegram alerts', 5000, '2020-06-01T00:00:00.000Z');
+    const recent = createTemplate(21, 'Slack and Telegram digest', 3000, '2025-05-01T00:00:00.000Z');
+
+    const byViews = new TemplateSelector({ defaultQuota: 1, now: NOW }).select([older, recent]);
+    const byRecency = new TemplateSelector({
+      defaultQuota: 1,
+      recencyWeight: 0.5,
+      recencyHalfLifeDays: 180,
+      now: NOW,
+    }).select([older, recent]);
+
+    expect(byViews.map(template => template.id)).toEqual([20]);
+    expect(byRecency.map(template => template.id)).toEqual([21]);
+  });
+});
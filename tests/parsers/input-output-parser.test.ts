@@ -159,5 +159,19 @@ describe('InputOutputParser', () => {
       expect(result.outputCount).toBe(2);
       expect(result.outputNames).toEqual(['true', 'false']);
     });
+
+    it('should extract output configuration from a requested older version', () => {
+      const mockVersionedNode = {
+        nodeVersions: {
+          1: { description: { name: 'if', version: 1, outputs: ['main'] } },
+          2: { description: { name: 'if', version: 2, outputs: ['main', 'main'] } }
+        }
+      };
+
+      const result = parser.parseNodeInputOutput(mockVersionedNode, 1);
+
+      expect(result.version).toBe('1');
+      expect(result.outputCount).toBe(1);
+    });
   });
 });
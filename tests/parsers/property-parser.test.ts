@@ -0,0 +1,163 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import { PropertyParser } from '../../src/parsers/property-parser';
+
+describe('PropertyParser', () => {
+  let parser: PropertyParser;
+
+  beforeEach(() => {
+    parser = new PropertyParser();
+  });
+
+  describe('Multi-version Nodes', () => {
+    const mockVersionedNode = {
+      nodeVersions: {
+        1: {
+          description: {
+            name: 'googleSheets',
+            version: 1,
+            properties: [
+              { name: 'sheetId', displayName: 'Sheet ID', type: 'string', default: '' },
+              {
+                name: 'operation',
+                displayName: 'Operation',
+                type: 'options',
+                default: 'read',
+                options: [
+                  { name: 'Append', value: 'append' },
+                  { name: 'Read', value: 'read' }
+                ]
+              }
+            ]
+          }
+        },
+        2: {
+          description: {
+            name: 'googleSheets',
+            version: 2,
+            credentials: [{ name: 'googleSheetsOAuth2Api' }],
+            properties: [
+              { name: 'documentId', displayName: 'Document', type: 'resourceLocator', default: '' },
+              {
+                name: 'operation',
+                displayName: 'Operation',
+                type: 'options',
+                default: 'append',
+                options: [
+                  { name: 'Append', value: 'append' },
+                  { name: 'Clear', value: 'clear' }
+                ]
+              }
+            ]
+          }
+        }
+      }
+    };
+
+    it('should keep top-level fields for the latest version', () => {
+      const result = parser.parse(mockVersionedNode);
+
+      expect(result.coreProperties.map(p => p.name)).toContain('documentId');
+      expect(result.hasCredentials).toBe(true);
+    });
+
+    it('should parse every version', () => {
+      const result = parser.parse(mockVersionedNode);
+
+      expect(result.versions?.map(v => v.version)).toEqual([1, 2]);
+      expect(result.versions?.[0].operations.map(op => op.value)).toEqual(['append', 'read']);
+      expect(result.versions?.[0].hasCredentials).toBe(false);
+    });
+
+    it('should describe what changed between versions', () => {
+      const [change] = parser.parse(mockVersionedNode).versionChanges || [];
+
+      expect(change).toEqual({
+        fromVersion: 1,
+        toVersion: 2,
+        addedProperties: ['documentId'],
+        removedProperties: ['sheetId'],
+        changedDefaults: [{ name: 'operation', from: 'read', to: 'append' }],
+        addedOperations: ['Clear'],
+        removedOperations: ['Read']
+      });
+    });
+
+    it('should filter shared descriptions by @version display options', () => {
+      const result = parser.parse({
+        description: {
+          name: 'set',
+          version: [1, 2, 3],
+          properties: [
+            { name: 'keepOnlySet', displayName: 'Keep Only Set', type: 'boolean', default: false },
+            {
+              name: 'mode',
+              displayName: 'Mode',
+              type: 'options',
+              default: 'manual',
+              displayOptions: { show: { '@version': [{ _cnd: { gte: 2 } }] } }
+            },
+            {
+              name: 'legacyValues',
+              displayName: 'Values',
+              type: 'fixedCollection',
+              default: {},
+              displayOptions: { hide: { '@version': [2, 3] } }
+            }
+          ]
+        }
+      });
+
+      expect(result.versions?.map(v => v.totalPropertyCount)).toEqual([2, 2, 2]);
+      expect(result.versionChanges).toHaveLength(1);
+      expect(result.versionChanges?.[0]).toMatchObject({
+        fromVersion: 1,
+        toVersion: 2,
+        addedProperties: ['mode'],
+        removedProperties: ['legacyValues']
+      });
+    });
+
+    it('should not add version data for single-version nodes', () => {
+      const result = parser.parse({
+        description: { name: 'noOp', version: 1, properties: [] }
+      });
+
+      expect(result.versions).toBeUndefined();
+      expect(result.versionChanges).toBeUndefined();
+    });
+  });
+
+  describe('Credentials', () => {
+    it('should list credential types with their display conditions', () => {
+      const result = parser.parse({
+        description: {
+          name: 'slack',
+          version: 1,
+          credentials: [
+            { name: 'slackApi', required: true, displayOptions: { show: { authentication: ['accessToken'] } } },
+            { name: 'slackOAuth2Api', required: true, displayOptions: { show: { authentication: ['oAuth2'] } } }
+          ],
+          properties: []
+        }
+      });
+
+      expect(result.hasCredentials).toBe(true);
+      expect(result.credentials).toEqual([
+        { name: 'slackApi', required: true, displayOptions: { show: { authentication: ['accessToken'] } } },
+        { name: 'slackOAuth2Api', required: true, displayOptions: { show: { authentication: ['oAuth2'] } } }
+      ]);
+    });
+
+    it('should omit credentials for nodes without any', () => {
+      const result = parser.parse({ description: { name: 'noOp', version: 1, properties: [] } });
+
+      expect(result.credentials).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import { PropertyTreeParser, isShownFor } from '../../src/parsers/property-tree-parser';
+
+describe('PropertyTreeParser', () => {
+  let parser: PropertyTreeParser;
+
+  const mockSheetsNode = {
+    description: {
+      name: 'googleSheets',
+      version: 4,
+      properties: [
+        {
+          name: 'resource',
+          displayName: 'Resource',
+          type: 'options',
+          default: 'sheet',
+          options: [
+            { name: 'Document', value: 'spreadsheet' },
+            { name: 'Sheet Within Document', value: 'sheet' }
+          ]
+        },
+        {
+          name: 'operation',
+          displayName: 'Operation',
+          type: 'options',
+          default: 'append',
+          displayOptions: { show: { resource: ['sheet'] } },
+          options: [
+            { name: 'Append Row', value: 'append' },
+            { name: 'Get Row(s)', value: 'read' }
+          ]
+        },
+        {
+          name: 'operation',
+          displayName: 'Operation',
+          type: 'options',
+          default: 'create',
+          displayOptions: { show: { resource: ['spreadsheet'] } },
+          options: [{ name: 'Create', value: 'create' }]
+        },
+        {
+          name: 'documentId',
+          displayName: 'Document',
+          type: 'resourceLocator',
+          required: true,
+          default: { mode: 'list', value: '' },
+          displayOptions: { show: { resource: ['sheet'] } },
+          modes: [
+            { displayName: 'From List', name: 'list', type: 'list' },
+            { displayName: 'By URL', name: 'url', type: 'string', placeholder: 'https://docs.google.com/...' }
+          ]
+        },
+        {
+          name: 'title',
+          displayName: 'Title',
+          type: 'string',
+          default: '',
+          displayOptions: { show: { resource: ['spreadsheet'], operation: ['create'] } }
+        },
+        {
+          name: 'returnAll',
+          displayName: 'Return All',
+          type: 'boolean',
+          default: false,
+          displayOptions: { show: { operation: ['read'] } }
+        },
+        {
+          name: 'limit',
+          displayName: 'Limit',
+          type: 'number',
+          default: 50,
+          displayOptions: { show: { operation: ['read'], returnAll: [false] } }
+        },
+        {
+          name: 'options',
+          displayName: 'Options',
+          type: 'collection',
+          default: {},
+          displayOptions: { show: { '/operation': ['append'] } },
+          options: [
+            { name: 'cellFormat', displayName: 'Cell Format', type: 'options', default: 'USER_ENTERED', options: [] },
+            {
+              name: 'locationDefine',
+              displayName: 'Data Location',
+              type: 'fixedCollection',
+              default: {},
+              options: [
+                {
+                  name: 'values',
+                  displayName: 'Values',
+                  values: [{ name: 'headerRow', displayName: 'Header Row', type: 'number', default: 1 }]
+                }
+              ]
+            }
+          ]
+        }
+      ]
+    }
+  };
+
+  beforeEach(() => {
+    parser = new PropertyTreeParser();
+  });
+
+  it('should build a scope for every resource/operation combination', () => {
+    const tree = parser.parse(mockSheetsNode)!;
+
+    expect(tree.scopes.map(scope => `${scope.resource}.${scope.operation}`)).toEqual([
+      'spreadsheet.create',
+      'sheet.append',
+      'sheet.read'
+    ]);
+  });
+
+  it('should record which properties show up for each scope', () => {
+    const tree = parser.parse(mockSheetsNode)!;
+    const append = tree.scopes.find(scope => scope.operation === 'append')!;
+    const read = tree.scopes.find(scope => scope.operation === 'read')!;
+    const create = tree.scopes.find(scope => scope.operation === 'create')!;
+
+    expect(append.properties).toEqual(['documentId', 'options']);
+    expect(read.properties).toEqual(['documentId', 'returnAll']);
+    expect(read.conditionalProperties).toEqual(['limit']);
+    expect(create.properties).toEqual(['title']);
+  });
+
+  it('should keep nested collection and fixedCollection fields', () => {
+    const tree = parser.parse(mockSheetsNode)!;
+    const options = tree.properties.find(prop => prop.name === 'options')!;
+    const location = options.children!.find(child => child.name === 'locationDefine')!;
+
+    expect(options.children!.map(child => child.name)).toEqual(['cellFormat', 'locationDefine']);
+    expect(location.children![0]).toMatchObject({ name: 'values', type: 'group' });
+    expect(location.children![0].children![0]).toMatchObject({ name: 'headerRow', default: 1 });
+  });
+
+  it('should keep resourceLocator modes and displayOptions', () => {
+    const tree = parser.parse(mockSheetsNode)!;
+    const documentId = tree.properties.find(prop => prop.name === 'documentId')!;
+
+    expect(documentId.modes!.map(mode => mode.name)).toEqual(['list', 'url']);
+    expect(documentId.displayOptions).toEqual({ show: { resource: ['sheet'] } });
+  });
+
+  it('should return scoped property nodes', () => {
+    const tree = parser.parse(mockSheetsNode)!;
+
+    const names = parser.getScopedProperties(tree, 'sheet', 'read').map(prop => prop.name);
+
+    expect(names).toEqual(['documentId', 'returnAll', 'limit']);
+  });
+
+  it('should support nodes without resources', () => {
+    const tree = parser.parse({
+      description: {
+        name: 'crypto',
+        version: 1,
+        properties: [
+          {
+            name: 'action',
+            displayName: 'Action',
+            type: 'options',
+            default: 'hash',
+            options: [{ name: 'Hash', value: 'hash' }]
+          },
+          {
+            name: 'type',
+            displayName: 'Type',
+            type: 'options',
+            default: 'MD5',
+            displayOptions: { show: { action: ['hash'] } },
+            options: [{ name: 'MD5', value: 'MD5' }]
+          }
+        ]
+      }
+    })!;
+
+    expect(tree.scopes).toEqual([
+      {
+        resource: undefined,
+        operation: 'hash',
+        operationName: 'Hash',
+        operationParameter: 'action',
+        properties: ['type'],
+        conditionalProperties: []
+      }
+    ]);
+  });
+
+  it('should treat an invalid regex condition as no match', () => {
+    const displayOptions = { show: { path: [{ _cnd: { regex: '([' } }] } };
+
+    expect(isShownFor(displayOptions, { path: 'a' }, 1)).toBe(false);
+    expect(isShownFor({ show: { path: [{ _cnd: { regex: '^a' } }] } }, { path: 'a' }, 1)).toBe(true);
+    expect(isShownFor({ show: { '@version': [{ _cnd: { between: { from: 1, to: 2 } } }] } }, {}, 1.5)).toBe(true);
+  });
+});
@@ -0,0 +1,68 @@
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { BuildCache } from '../../src/utils/build-cache';
+
+describe('BuildCache', () => {
+  let cacheDir: string;
+
+  const createCache = (overrides: { config?: unknown; generatorVersion?: string; packages?: string[] } = {}) =>
+    new BuildCache({
+      cacheDir,
+      config: overrides.config ?? { max_nodes_in_main_skill: 10 },
+      generatorVersion: overrides.generatorVersion ?? '1.0.0',
+      packages: overrides.packages ?? ['typescript'],
+    });
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'n8n-skills-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should return cached data when inputs are unchanged', async () => {
+    await createCache().set('nodes.json', [{ nodeType: 'nodes-base.set' }]);
+
+    const cache = createCache();
+    expect(await cache.get('nodes.json')).toEqual([{ nodeType: 'nodes-base.set' }]);
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 0, artifacts: { 'nodes.json': 'hit' } });
+  });
+
+  it('should count a miss for artifacts that were never cached', async () => {
+    const cache = createCache();
+
+    expect(await cache.get('properties.json')).toBeNull();
+    expect(cache.getStats()).toMatchObject({ hits: 0, misses: 1, stale: 0 });
+  });
+
+  it('should invalidate when the config or generator version changes', async () => {
+    await createCache().set('properties.json', { a: 1 });
+
+    const changedConfig = createCache({ config: { max_nodes_in_main_skill: 20 } });
+    const changedGenerator = createCache({ generatorVersion: '2.0.0' });
+
+    expect(await changedConfig.get('properties.json')).toBeNull();
+    expect(await changedGenerator.get('properties.json')).toBeNull();
+    expect(changedConfig.getStats().artifacts['properties.json']).toBe('stale');
+  });
+
+  it('should invalidate when an installed package version changes', async () => {
+    await createCache({ packages: ['typescript'] }).set('node-io-config.json', []);
+
+    const cache = createCache({ packages: ['typescript', 'not-an-installed-package'] });
+
+    expect(cache.getInputs().packages['not-an-installed-package']).toBe('missing');
+    expect(await cache.get('node-io-config.json')).toBeNull();
+  });
+
+  it('should treat edited cache files as stale but still allow recovery reads', async () => {
+    await createCache().set('nodes.json', [1, 2]);
+    await fs.writeFile(path.join(cacheDir, 'nodes.json'), '[1, 2, 3]', 'utf-8');
+
+    const cache = createCache();
+    expect(await cache.get('nodes.json')).toBeNull();
+    expect(await cache.getStale('nodes.json')).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import {
+  FixtureTransport,
+  createHttpTransport,
+  getHttpModeFromEnv,
+  type HttpRequest,
+  type HttpTransport,
+} from '../../src/utils/http-transport';
+
+describe('FixtureTransport', () => {
+  let fixturesDir: string;
+  let upstreamRequest: jest.Mock;
+  let upstream: HttpTransport;
+
+  const searchRequest: HttpRequest = {
+    method: 'GET',
+    url: 'https://api.n8n.io/api/templates/search',
+    params: { rows: 100, page: 1 },
+  };
+
+  beforeEach(async () => {
+    fixturesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'http-fixtures-'));
+    upstreamRequest = jest.fn(async () => ({ status: 200, data: { workflows: [{ id: 1 }], totalWorkflows: 1 } }));
+    upstream = { request: upstreamRequest } as HttpTransport;
+  });
+
+  afterEach(async () => {
+    await fs.rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  it('should record responses and replay them without the upstream', async () => {
+    const recorder = new FixtureTransport({ fixturesDir, mode: 'record', upstream });
+    const recorded = await recorder.request(searchRequest);
+
+    const fixturePath = recorder.getFixturePath(searchRequest);
+    expect(path.relative(fixturesDir, fixturePath)).toMatch(/^api\.n8n\.io[\\/]api-templates-search-[0-9a-f]{12}\.json$/);
+    const fixture = JSON.parse(await fs.readFile(fixturePath, 'utf-8'));
+    expect(fixture.request).toEqual({ ...searchRequest, params: { page: 1, rows: 100 } });
+
+    const replayer = new FixtureTransport({ fixturesDir, mode: 'replay', upstream });
+    // Parameter order does not matter
+    const replayed = await replayer.request({ ...searchRequest, params: { page: 1, rows: 100 } });
+
+    expect(replayed).toEqual(recorded);
+    expect(upstreamRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail on requests that were not recorded', async () => {
+    const replayer = new FixtureTransport({ fixturesDir, mode: 'replay', upstream });
+
+    await expect(replayer.request({ ...searchRequest, params: { page: 2, rows: 100 } })).rejects.toThrow(
+      'No recorded fixture for GET https://api.n8n.io/api/templates/search?page=2&rows=100'
+    );
+    expect(upstreamRequest).not.toHaveBeenCalled();
+  });
+
+  it('should create the transport for a network mode', () => {
+    expect(createHttpTransport({ mode: 'replay', fixturesDir })).toBeInstanceOf(FixtureTransport);
+    expect(createHttpTransport()).not.toBeInstanceOf(FixtureTransport);
+    expect(getHttpModeFromEnv({ N8N_SKILLS_HTTP_MODE: 'record' })).toBe('record');
+    expect(getHttpModeFromEnv({})).toBe('live');
+    expect(() => getHttpModeFromEnv({ N8N_SKILLS_HTTP_MODE: 'offline' })).toThrow('Invalid N8N_SKILLS_HTTP_MODE');
+  });
+});
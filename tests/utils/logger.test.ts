@@ -0,0 +1,104 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import * as logger from '../../src/utils/logger';
+import { Logger, getLogLevelFromEnv, setLogger, type LogRecord, type LogSink } from '../../src/utils/logger';
+
+class MemorySink implements LogSink {
+  records: LogRecord[] = [];
+
+  write(record: LogRecord): void {
+    this.records.push(record);
+  }
+}
+
+describe('Logger', () => {
+  let sink: MemorySink;
+
+  beforeEach(() => {
+    sink = new MemorySink();
+  });
+
+  it('should drop records below the configured level but still count warnings', () => {
+    const log = new Logger({ level: 'error', sinks: [sink] });
+
+    log.info('hidden');
+    log.warn('also hidden');
+    log.error('Failed to load', new Error('boom'));
+
+    expect(sink.records).toEqual([
+      expect.objectContaining({ level: 'error', message: 'Failed to load', error: 'boom' }),
+    ]);
+    expect(log.getSummary()).toMatchObject({ warningCount: 1, errorCount: 1 });
+  });
+
+  it('should tag child records with their stage and group warnings by stage', () => {
+    const log = new Logger({ level: 'info', sinks: [sink] });
+
+    log.warn('outside any stage');
+    log.child('collect').warn('Skipping template 1', 'timeout');
+    log.child('generate').info('done');
+
+    expect(sink.records.map(record => record.stage)).toEqual([undefined, 'collect', 'generate']);
+    expect(log.getSummary().stages).toEqual([
+      { name: 'build', warnings: ['outside any stage'], errors: [] },
+      { name: 'collect', warnings: ['Skipping template 1: timeout'], errors: [] },
+    ]);
+  });
+
+  it('should time a stage and route module-level logging to it meanwhile', async () => {
+    const log = new Logger({ level: 'info', sinks: [sink] });
+    const previous = setLogger(new Logger({ level: 'silent', sinks: [] }));
+
+    try {
+      await log.child('parse').time(async () => logger.warn('Cannot find valid node export'));
+      logger.info('after the stage');
+    } finally {
+      setLogger(previous);
+    }
+
+    expect(sink.records).toEqual([
+      expect.objectContaining({ level: 'warn', stage: 'parse', message: 'Cannot find valid node export' }),
+      expect.objectContaining({ level: 'info', stage: 'parse', durationMs: expect.any(Number) }),
+    ]);
+    expect(log.getSummary().stages[0].durationMs).toEqual(expect.any(Number));
+  });
+
+  it('should only write progress when the bar moves', () => {
+    const log = new Logger({ level: 'info', sinks: [sink] });
+
+    for (let current = 1; current <= 200; current++) {
+      log.progress(current, 200);
+    }
+
+    expect(sink.records).toHaveLength(21);
+    expect(sink.records[20].message).toBe('[====================] 100% (200/200)');
+  });
+
+  it('should read the level from N8N_SKILLS_LOG_LEVEL', () => {
+    expect(getLogLevelFromEnv({})).toBe('info');
+    expect(getLogLevelFromEnv({ N8N_SKILLS_LOG_LEVEL: 'debug' })).toBe('debug');
+  });
+
+  it('should fall back to info on an invalid N8N_SKILLS_LOG_LEVEL and warn once', () => {
+    jest.isolateModules(() => {
+      const isolated: typeof import('../../src/utils/logger') = require('../../src/utils/logger');
+
+      expect(isolated.getLogLevelFromEnv({ N8N_SKILLS_LOG_LEVEL: 'loud' })).toBe('info');
+      expect(isolated.getLogLevelFromEnv({ N8N_SKILLS_LOG_LEVEL: 'loud' })).toBe('info');
+      new isolated.Logger({ level: 'info', sinks: [sink] });
+      new isolated.Logger({ level: 'info', sinks: [sink] });
+    });
+
+    expect(sink.records).toEqual([
+      expect.objectContaining({
+        level: 'warn',
+        message: 'Invalid N8N_SKILLS_LOG_LEVEL "loud" (expected debug, info, warn, error, silent), using info',
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { OutputWriter, BuildManifest } from '../../src/utils/output-writer';
+
+describe('OutputWriter', () => {
+  let rootDir: string;
+
+  const readManifest = async (): Promise<BuildManifest> =>
+    JSON.parse(await fs.readFile(path.join(rootDir, 'manifest.json'), 'utf-8'));
+
+  const exists = (relativePath: string) =>
+    fs.access(path.join(rootDir, relativePath)).then(() => true, () => false);
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'n8n-skills-output-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should write files and record them in the manifest', async () => {
+    const writer = new OutputWriter({ rootDir });
+    await writer.write('SKILL.md', '# Skill\n\nBody', 'SkillGenerator');
+    await writer.write(path.join(rootDir, 'resources/input/a.md'), 'a', 'ResourceGenerator');
+    await writer.finalize();
+
+    const manifest = await readManifest();
+    expect(manifest.files.map(f => f.path)).toEqual(['SKILL.md', 'resources/input/a.md']);
+    expect(manifest.files[0]).toMatchObject({ size: 13, lines: 3, generator: 'SkillGenerator' });
+    expect(manifest.files[0].hash).toBe(OutputWriter.hash('# Skill\n\nBody'));
+  });
+
+  it('should skip files whose content is unchanged', async () => {
+    const first = new OutputWriter({ rootDir });
+    await first.write('SKILL.md', 'same', 'SkillGenerator');
+    await first.finalize();
+
+    const second = new OutputWriter({ rootDir });
+    expect(await second.write('SKILL.md', 'same', 'SkillGenerator')).toBe(false);
+    expect(await second.write('README.md', 'new', 'SkillGenerator')).toBe(true);
+    expect(second.getStats()).toEqual({ written: 1, unchanged: 1, removed: 0 });
+  });
+
+  it('should remove orphans only for generators that ran', async () => {
+    const first = new OutputWriter({ rootDir });
+    await first.write('resources/input/old.md', 'old', 'ResourceGenerator');
+    await first.write('resources/input/kept.md', 'kept', 'ResourceGenerator');
+    await first.write('resources/templates/README.md', 'templates', 'TemplateGenerator');
+    await first.finalize();
+
+    const second = new OutputWriter({ rootDir });
+    await second.write('resources/input/kept.md', 'kept', 'ResourceGenerator');
+    await second.finalize();
+
+    expect(await exists('resources/input/old.md')).toBe(false);
+    expect(await exists('resources/input/kept.md')).toBe(true);
+    expect(await exists('resources/templates/README.md')).toBe(true);
+    expect(second.getStats().removed).toBe(1);
+    expect((await readManifest()).files.map(f => f.path)).toEqual([
+      'resources/input/kept.md',
+      'resources/templates/README.md',
+    ]);
+  });
+
+  it('should remove directories left empty by orphan removal', async () => {
+    const first = new OutputWriter({ rootDir });
+    await first.write('resources/misc/gone.md', 'gone', 'ResourceGenerator');
+    await first.write('resources/input/kept.md', 'kept', 'ResourceGenerator');
+    await first.finalize();
+
+    const second = new OutputWriter({ rootDir });
+    await second.write('resources/input/kept.md', 'kept', 'ResourceGenerator');
+    await second.finalize();
+
+    expect(await exists('resources/misc')).toBe(false);
+    expect(await exists('resources')).toBe(true);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Copyright (c) 2025 Frank Chen @ www.frankchen.tw/personal
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of n8n-skills project.
+ */
+
+import { validate } from '../../src/validators/skill-validator';
+import { getMessages, type Locale } from '../../src/i18n';
+
+/**
+ * Build a minimal SKILL.md with the section headings of a locale
+ */
+function createSkill(locale: Locale): string {
+  const { headings } = getMessages(locale).skill;
+  return [
+    '---',
+    'name: n8n-skills',
+    'description: n8n workflow automation',
+    '---',
+    '',
+    `# ${headings.title}`,
+    '',
+    `## ${headings.overview}`,
+    '',
+    `## ${headings.whenToUse}`,
+    '',
+    `## ${headings.quickNavigation}`,
+    '',
+    `## ${headings.commonMistakes}`,
+    '',
+    `## ${headings.resources}`,
+    '',
+    '---',
+    '',
+    `# ${headings.license}`,
+    '',
+  ].join('\n');
+}
+
+describe('skill-validator', () => {
+  it.each<Locale>(['en', 'zh-TW'])('should accept the %s section headings', locale => {
+    const result = validate(createSkill(locale), locale);
+
+    expect(result.errors).toEqual([]);
+    expect(result.success).toBe(true);
+  });
+
+  it('should check the section headings of the given locale', () => {
+    const result = validate(createSkill('en'), 'zh-TW');
+    const missing = result.errors.filter(error => error.type === 'SECTION').map(error => error.message);
+
+    expect(missing).toContain('Missing required section: 使用時機');
+    expect(missing).toContain('Missing required section: 授權與聲明');
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+// Client-side search for the node catalog pages
+document.addEventListener('DOMContentLoaded', function() {
+    const input = document.querySelector('.catalog-search');
+    const results = document.querySelector('.catalog-search-results');
+    if (!input || !results) {
+        return;
+    }
+
+    const basePath = input.dataset.basePath || './';
+    const maxResults = 20;
+    let index = null;
+
+    // Load the index on first use
+    function loadIndex() {
+        if (!index) {
+            index = fetch(basePath + 'search-index.json')
+                .then(response => response.json())
+                .catch(() => []);
+        }
+        return index;
+    }
+
+    // Every word of the query must match the title, description or keywords
+    function search(entries, query) {
+        const words = query.toLowerCase().split(/\s+/).filter(word => word.length > 0);
+        return entries
+            .map(entry => {
+                const title = entry.title.toLowerCase();
+                const text = [title, entry.description, ...entry.keywords].join(' ').toLowerCase();
+                if (!words.every(word => text.includes(word))) {
+                    return null;
+                }
+                // Title matches first, then nodes before categories and templates
+                const score = (title.startsWith(words[0]) ? 0 : title.includes(words[0]) ? 1 : 2) * 3 +
+                    ['node', 'category', 'template'].indexOf(entry.kind);
+                return { entry, score };
+            })
+            .filter(match => match !== null)
+            .sort((a, b) => a.score - b.score || a.entry.title.localeCompare(b.entry.title))
+            .slice(0, maxResults)
+            .map(match => match.entry);
+    }
+
+    function render(entries) {
+        results.innerHTML = '';
+        entries.forEach(entry => {
+            const item = document.createElement('li');
+            const link = document.createElement('a');
+            link.href = basePath + entry.url;
+            link.textContent = entry.title;
+            const kind = document.createElement('span');
+            kind.className = 'catalog-badge';
+            kind.textContent = entry.kind;
+            item.append(link, ' ', kind);
+            results.appendChild(item);
+        });
+        results.hidden = entries.length === 0;
+    }
+
+    input.addEventListener('input', function() {
+        const query = input.value.trim();
+        if (query.length < 2) {
+            render([]);
+            return;
+        }
+        loadIndex().then(entries => {
+            // Ignore results of an outdated query
+            if (input.value.trim() === query) {
+                render(search(entries, query));
+            }
+        });
+    });
+
+    input.addEventListener('keydown', function(event) {
+        if (event.key === 'Escape') {
+            input.value = '';
+            render([]);
+        }
+    });
+});